@@ -18,6 +18,8 @@ import {
 	BarChart3,
 	CheckCircle2,
 	Clock,
+	DollarSign,
+	Activity,
 	Filter,
 	PieChart as PieIcon,
 	TrendingUp,
@@ -25,8 +27,30 @@ import {
 } from 'lucide-react';
 
 import PageHeader from '@/components/core/headers/page-header';
-import { getEquipmentsList } from '@/data-access/equipments';
+import TransfersReportSection from '../equipments/_components/sections/transfers-report-section';
+import {
+	getEquipmentsList,
+	getMaintenanceRecordsSince,
+	getStatusPeriodsSince
+} from '@/data-access/equipments';
 import type { Equipment } from '@/types/equipment';
+import type { MaintenanceRecordWithAsset } from '@/types/maintenance';
+import type { StatusPeriod, StatusPeriodWithAsset } from '@/types/downtime';
+import { useLiveEquipmentsList } from '@/hooks/use-live-equipments';
+import { formatMoney } from '@/lib/money';
+import { getNextServiceDate } from '@/lib/maintenance-plans';
+import { countTags } from '@/lib/tags';
+import {
+	EQUIPMENT_STATUSES,
+	EQUIPMENT_STATUS_CONFIG
+} from '@/lib/equipment-status';
+import {
+	computeMonthlyReliability,
+	computeReliability,
+	formatHours,
+	formatPercent,
+	type ReliabilityMetrics
+} from '@/lib/downtime';
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -64,18 +88,33 @@ import {
 
 type TimeRange = '30' | '90' | '365';
 type StatusFilter = 'all' | Equipment['status'];
+type ReliabilityDimension = 'asset' | 'location' | 'owner' | 'tag';
+type CostDimension = 'location' | 'tag';
 
-const STATUS_LABEL: Record<Equipment['status'], string> = {
-	active: 'In Service',
-	maintenance: 'Maintenance',
-	inactive: 'Out of Service'
-};
+// an asset with several tags counts once in each of them
+function getTagGroups(eq: Equipment) {
+	return eq.tags?.length ? eq.tags : ['Untagged'];
+}
 
-const STATUS_COLORS: Record<Equipment['status'], string> = {
-	active: '#22c55e',
-	maintenance: '#eab308',
-	inactive: '#ef4444'
-};
+function matchesTag(eq: Equipment, tag: string) {
+	return tag === 'all' || Boolean(eq.tags?.includes(tag));
+}
+
+// from the status config (lib/equipment-status.ts)
+const STATUS_LABEL = Object.fromEntries(
+	EQUIPMENT_STATUSES.map((s) => [s, EQUIPMENT_STATUS_CONFIG[s].label])
+) as Record<Equipment['status'], string>;
+
+const STATUS_COLORS = Object.fromEntries(
+	EQUIPMENT_STATUSES.map((s) => [s, EQUIPMENT_STATUS_CONFIG[s].color])
+) as Record<Equipment['status'], string>;
+
+const STATUS_CHART_CONFIG = Object.fromEntries(
+	EQUIPMENT_STATUSES.map((s) => [
+		s,
+		{ label: STATUS_LABEL[s], color: STATUS_COLORS[s] }
+	])
+);
 
 /* ---------------------------------------
    Helpers
@@ -113,37 +152,61 @@ function getCreatedAt(eq: Equipment) {
 }
 
 /**
- * If nextServiceDate doesn’t exist, derive it from lastServiceDate (+interval).
+ * Status periods of one asset. Assets whose status never changed since the
+ * ledger started have none; they count as in their current status since
+ * their last write.
  */
-function deriveNextServiceDate(eq: Equipment) {
+function getAssetPeriods(
+	eq: Equipment,
+	periods: StatusPeriod[]
+): Array<
+	Pick<StatusPeriod, 'status' | 'reasonCode' | 'startedAt' | 'endedAt'>
+> {
+	if (periods.length > 0) return periods;
+
 	const anyEq = eq as any;
+	const since: Date | null =
+		(anyEq?.updatedAt?.toDate?.() as Date | undefined) ?? getCreatedAt(eq);
 
-	const next = safeDate(anyEq?.nextServiceDate);
-	if (next) return next;
+	return since ? [{ status: eq.status, startedAt: since.toISOString() }] : [];
+}
 
-	const last = safeDate(eq.lastServiceDate);
-	if (last) {
-		const interval = (eq.serviceIntervalDays ??
-			anyEq?.serviceIntervalDays ??
-			180) as number;
-		return addDays(last, interval);
-	}
+// totals the KPI cards compare between the two ranges
+function countByStatus(list: Equipment[]) {
+	const byStatus = Object.fromEntries(
+		EQUIPMENT_STATUSES.map((s) => [
+			s,
+			list.filter((e) => e.status === s).length
+		])
+	) as Record<Equipment['status'], number>;
+
+	return {
+		total: list.length,
+		active: byStatus.active,
+		maintenance: byStatus.maintenance + byStatus.awaiting_parts,
+		inactive: byStatus.inactive,
+		byStatus
+	};
+}
 
-	return null;
+/**
+ * Next due date of the asset's earliest maintenance plan.
+ */
+function deriveNextServiceDate(eq: Equipment) {
+	return safeDate(getNextServiceDate(eq));
 }
 
 function StatusPill({ status }: { status: Equipment['status'] }) {
-	const classes =
-		status === 'active'
-			? 'bg-green-100 text-green-700 border-green-200'
-			: status === 'maintenance'
-				? 'bg-yellow-100 text-yellow-800 border-yellow-200'
-				: 'bg-red-100 text-red-700 border-red-200';
+	const color = STATUS_COLORS[status];
 
 	return (
 		<Badge
 			variant='outline'
-			className={classes}
+			style={{
+				color,
+				backgroundColor: `${color}1a`,
+				borderColor: `${color}40`
+			}}
 		>
 			{STATUS_LABEL[status]}
 		</Badge>
@@ -222,18 +285,60 @@ function CompactTooltip({
 	);
 }
 
+function CostTooltip({
+	active,
+	payload,
+	label,
+	currency
+}: {
+	active?: boolean;
+	payload?: any[];
+	label?: string;
+	currency: string;
+}) {
+	if (!active || !payload?.length) return null;
+
+	return (
+		<div className='rounded-md border bg-background px-3 py-2 text-xs shadow-sm max-w-[240px]'>
+			<div className='font-medium truncate'>
+				{String(label ?? payload[0]?.payload?.label ?? '—')}
+			</div>
+			{payload.map((item) => (
+				<div
+					key={String(item.dataKey)}
+					className='text-muted-foreground'
+				>
+					{payload.length > 1 ? `${item.name}: ` : null}
+					<span className='font-medium text-foreground'>
+						{formatMoney(Number(item.value ?? 0), currency)}
+					</span>
+				</div>
+			))}
+		</div>
+	);
+}
+
 /* ---------------------------------------
    Page
 ---------------------------------------- */
 
 export default function AnalyticsPage() {
-	const [tab, setTab] = useState<'overview' | 'maintenance' | 'trends'>(
-		'overview'
-	);
+	const [tab, setTab] = useState<
+		| 'overview'
+		| 'maintenance'
+		| 'costs'
+		| 'reliability'
+		| 'trends'
+		| 'transfers'
+	>('overview');
+	const [reliabilityDimension, setReliabilityDimension] =
+		useState<ReliabilityDimension>('asset');
 
 	const [timeRange, setTimeRange] = useState<TimeRange>('365');
 	const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+	const [tagFilter, setTagFilter] = useState('all');
 	const [includeArchived, setIncludeArchived] = useState(false);
+	const [costDimension, setCostDimension] = useState<CostDimension>('location');
 
 	const {
 		data: equipments = [],
@@ -246,6 +351,33 @@ export default function AnalyticsPage() {
 		staleTime: 60_000
 	});
 
+	useLiveEquipmentsList(['equipments', 'analytics'], { includeArchived: true });
+
+	const tagOptions = useMemo(() => countTags(equipments), [equipments]);
+
+	const { data: maintenanceRecords = [], isLoading: costsLoading } = useQuery<
+		MaintenanceRecordWithAsset[]
+	>({
+		queryKey: ['equipments', 'analytics', 'maintenance', timeRange],
+		queryFn: () =>
+			getMaintenanceRecordsSince(
+				format(subDays(new Date(), Number(timeRange)), 'yyyy-MM-dd')
+			),
+		staleTime: 60_000
+	});
+
+	// twice the range, so the previous period can be compared
+	const { data: statusPeriods = [], isLoading: reliabilityLoading } = useQuery<
+		StatusPeriodWithAsset[]
+	>({
+		queryKey: ['equipments', 'analytics', 'statusPeriods', timeRange],
+		queryFn: () =>
+			getStatusPeriodsSince(
+				format(subDays(new Date(), Number(timeRange) * 2), 'yyyy-MM-dd')
+			),
+		staleTime: 60_000
+	});
+
 	const today = new Date();
 
 	const rangeStart = useMemo(() => {
@@ -271,9 +403,9 @@ export default function AnalyticsPage() {
 			const statusOk =
 				statusFilter === 'all' ? true : eq.status === statusFilter;
 
-			return inRange && statusOk;
+			return inRange && statusOk && matchesTag(eq, tagFilter);
 		});
-	}, [equipments, rangeStart, today, statusFilter, includeArchived]);
+	}, [equipments, rangeStart, today, statusFilter, tagFilter, includeArchived]);
 
 	const filteredPrev = useMemo(() => {
 		return equipments.filter((eq) => {
@@ -287,31 +419,20 @@ export default function AnalyticsPage() {
 			const statusOk =
 				statusFilter === 'all' ? true : eq.status === statusFilter;
 
-			return inPrev && statusOk;
+			return inPrev && statusOk && matchesTag(eq, tagFilter);
 		});
-	}, [equipments, prevRangeStart, prevRangeEnd, statusFilter, includeArchived]);
-
-	const kpis = useMemo(() => {
-		const total = filtered.length;
-		const active = filtered.filter((e) => e.status === 'active').length;
-		const maintenance = filtered.filter(
-			(e) => e.status === 'maintenance'
-		).length;
-		const inactive = filtered.filter((e) => e.status === 'inactive').length;
-
-		return { total, active, maintenance, inactive };
-	}, [filtered]);
-
-	const kpisPrev = useMemo(() => {
-		const total = filteredPrev.length;
-		const active = filteredPrev.filter((e) => e.status === 'active').length;
-		const maintenance = filteredPrev.filter(
-			(e) => e.status === 'maintenance'
-		).length;
-		const inactive = filteredPrev.filter((e) => e.status === 'inactive').length;
-
-		return { total, active, maintenance, inactive };
-	}, [filteredPrev]);
+	}, [
+		equipments,
+		prevRangeStart,
+		prevRangeEnd,
+		statusFilter,
+		tagFilter,
+		includeArchived
+	]);
+
+	const kpis = useMemo(() => countByStatus(filtered), [filtered]);
+
+	const kpisPrev = useMemo(() => countByStatus(filteredPrev), [filteredPrev]);
 
 	function deltaBadge(current: number, prev: number) {
 		const diff = current - prev;
@@ -320,17 +441,12 @@ export default function AnalyticsPage() {
 	}
 
 	const statusChartData = useMemo(() => {
-		return (['active', 'maintenance', 'inactive'] as const).map((status) => ({
+		return EQUIPMENT_STATUSES.map((status) => ({
 			status,
 			label: STATUS_LABEL[status],
-			count:
-				status === 'active'
-					? kpis.active
-					: status === 'maintenance'
-						? kpis.maintenance
-						: kpis.inactive
+			count: kpis.byStatus[status]
 		}));
-	}, [kpis.active, kpis.maintenance, kpis.inactive]);
+	}, [kpis.byStatus]);
 
 	const maintenanceMetrics = useMemo(() => {
 		let overdue = 0;
@@ -391,6 +507,217 @@ export default function AnalyticsPage() {
 		return { overdue, due7, due30 };
 	}, [filteredPrev, today]);
 
+	// spend is attributed to the service date; status/archived filters apply
+	// to the asset, the time range to the record
+	const costMetrics = useMemo(() => {
+		const byId = new Map(equipments.map((eq) => [eq.id, eq]));
+
+		const scoped = maintenanceRecords.flatMap((r) => {
+			const eq = byId.get(r.equipmentId);
+			if (!eq || r.voided || typeof r.totalCost !== 'number') return [];
+			if (!includeArchived && isArchived(eq)) return [];
+			if (statusFilter !== 'all' && eq.status !== statusFilter) return [];
+			if (!matchesTag(eq, tagFilter)) return [];
+			return [{ record: r, eq }];
+		});
+
+		// totals only make sense in one currency: use the most common one
+		const currencyCounts = scoped.reduce(
+			(acc, { record }) => {
+				const c = record.currency ?? 'USD';
+				acc[c] = (acc[c] ?? 0) + 1;
+				return acc;
+			},
+			{} as Record<string, number>
+		);
+		const currency =
+			Object.entries(currencyCounts).sort((a, b) => b[1] - a[1])[0]?.[0] ??
+			'USD';
+
+		const inCurrency = scoped.filter(
+			({ record }) => (record.currency ?? 'USD') === currency
+		);
+
+		const perAsset = new Map<string, { label: string; total: number }>();
+		const perGroup = new Map<string, number>();
+		const months = eachMonthOfInterval({ start: rangeStart, end: today }).map(
+			(d) => format(d, 'yyyy-MM')
+		);
+		const perMonth = new Map(
+			months.map((m) => [m, { month: m, preventive: 0, corrective: 0 }])
+		);
+
+		let total = 0;
+		let preventive = 0;
+		let corrective = 0;
+		let laborHours = 0;
+
+		for (const { record, eq } of inCurrency) {
+			const cost = record.totalCost ?? 0;
+
+			total += cost;
+			laborHours += record.laborHours ?? 0;
+			if (record.type === 'preventive') preventive += cost;
+			else corrective += cost;
+
+			const asset = perAsset.get(eq.id) ?? { label: eq.name, total: 0 };
+			asset.total += cost;
+			perAsset.set(eq.id, asset);
+
+			const groups =
+				costDimension === 'tag'
+					? getTagGroups(eq)
+					: [eq.location?.trim() || 'Unassigned'];
+			for (const group of groups) {
+				perGroup.set(group, (perGroup.get(group) ?? 0) + cost);
+			}
+
+			const month = perMonth.get(record.date.slice(0, 7));
+			if (month) month[record.type] += cost;
+		}
+
+		const round = (n: number) => Math.round(n * 100) / 100;
+
+		return {
+			currency,
+			excluded: scoped.length - inCurrency.length,
+			records: inCurrency.length,
+			total: round(total),
+			preventive: round(preventive),
+			corrective: round(corrective),
+			laborHours: round(laborHours),
+			perAsset: Array.from(perAsset.values())
+				.map((a) => ({ ...a, total: round(a.total) }))
+				.sort((a, b) => b.total - a.total)
+				.slice(0, 10),
+			perGroup: Array.from(perGroup.entries())
+				.map(([label, value]) => ({ label, total: round(value) }))
+				.sort((a, b) => b.total - a.total),
+			perMonth: Array.from(perMonth.values()).map((m) => ({
+				month: m.month,
+				preventive: round(m.preventive),
+				corrective: round(m.corrective)
+			}))
+		};
+	}, [
+		maintenanceRecords,
+		equipments,
+		includeArchived,
+		statusFilter,
+		tagFilter,
+		costDimension,
+		rangeStart,
+		today
+	]);
+
+	// availability / MTBF / MTTR; same asset filters as costs, the time
+	// range clips the status periods
+	const reliabilityMetrics = useMemo(() => {
+		const periodsByAsset = new Map<string, StatusPeriod[]>();
+		for (const period of statusPeriods) {
+			const list = periodsByAsset.get(period.equipmentId) ?? [];
+			list.push(period);
+			periodsByAsset.set(period.equipmentId, list);
+		}
+
+		const scoped = equipments
+			.filter((eq) => {
+				if (!includeArchived && isArchived(eq)) return false;
+				if (!matchesTag(eq, tagFilter)) return false;
+				return statusFilter === 'all' || eq.status === statusFilter;
+			})
+			.map((eq) => ({
+				eq,
+				periods: getAssetPeriods(eq, periodsByAsset.get(eq.id) ?? [])
+			}));
+
+		const window = { start: rangeStart, end: today };
+		const allPeriods = scoped.flatMap((s) => s.periods);
+
+		const groupLabels = (eq: Equipment) => {
+			if (reliabilityDimension === 'location') {
+				return [eq.location?.trim() || 'Unassigned'];
+			}
+			if (reliabilityDimension === 'owner') {
+				return [eq.owner?.trim() || 'Unassigned'];
+			}
+			if (reliabilityDimension === 'tag') return getTagGroups(eq);
+			return [eq.name];
+		};
+
+		const groups = new Map<
+			string,
+			{ label: string; href?: string; periods: typeof allPeriods }
+		>();
+		for (const { eq, periods } of scoped) {
+			for (const label of groupLabels(eq)) {
+				const key = reliabilityDimension === 'asset' ? eq.id : label;
+				const group = groups.get(key) ?? {
+					label,
+					href:
+						reliabilityDimension === 'asset'
+							? `/equipments/${eq.id}`
+							: undefined,
+					periods: []
+				};
+				group.periods.push(...periods);
+				groups.set(key, group);
+			}
+		}
+
+		const rows: Array<
+			ReliabilityMetrics & { key: string; label: string; href?: string }
+		> = Array.from(groups.entries())
+			.map(([key, group]) => ({
+				key,
+				label: group.label,
+				href: group.href,
+				...computeReliability(group.periods, window)
+			}))
+			.filter((row) => row.availability !== null)
+			// least available first
+			.sort((a, b) => (a.availability ?? 1) - (b.availability ?? 1));
+
+		return {
+			current: computeReliability(allPeriods, window),
+			previous: computeReliability(allPeriods, {
+				start: prevRangeStart,
+				end: prevRangeEnd
+			}),
+			rows,
+			perMonth: computeMonthlyReliability(allPeriods, window).map((m) => ({
+				month: m.month,
+				availability:
+					m.availability === null
+						? null
+						: Math.round(m.availability * 1000) / 10,
+				mttr: m.mttrHours === null ? 0 : Math.round(m.mttrHours * 10) / 10
+			}))
+		};
+	}, [
+		statusPeriods,
+		equipments,
+		includeArchived,
+		statusFilter,
+		tagFilter,
+		rangeStart,
+		today,
+		prevRangeStart,
+		prevRangeEnd,
+		reliabilityDimension
+	]);
+
+	function reliabilityDelta(
+		current: number | null,
+		previous: number | null,
+		formatValue: (v: number) => string
+	) {
+		if (current === null || previous === null) return undefined;
+		const diff = current - previous;
+		if (Math.abs(diff) < 1e-9) return 'No change';
+		return `${diff > 0 ? '+' : '-'}${formatValue(Math.abs(diff))} vs prev`;
+	}
+
 	const timeSeriesData = useMemo(() => {
 		const start = subDays(today, 365);
 		const months = eachMonthOfInterval({ start, end: today }).map((d) =>
@@ -443,6 +770,7 @@ export default function AnalyticsPage() {
 	function resetFilters() {
 		setTimeRange('365');
 		setStatusFilter('all');
+		setTagFilter('all');
 		setIncludeArchived(false);
 	}
 
@@ -510,9 +838,34 @@ export default function AnalyticsPage() {
 								</SelectTrigger>
 								<SelectContent>
 									<SelectItem value='all'>All statuses</SelectItem>
-									<SelectItem value='active'>In Service</SelectItem>
-									<SelectItem value='maintenance'>Maintenance</SelectItem>
-									<SelectItem value='inactive'>Out of Service</SelectItem>
+									{EQUIPMENT_STATUSES.map((s) => (
+										<SelectItem
+											key={s}
+											value={s}
+										>
+											{STATUS_LABEL[s]}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+
+							<Select
+								value={tagFilter}
+								onValueChange={setTagFilter}
+							>
+								<SelectTrigger className='w-[180px]'>
+									<SelectValue placeholder='Tag' />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value='all'>All tags</SelectItem>
+									{tagOptions.map((t) => (
+										<SelectItem
+											key={t.tag}
+											value={t.tag}
+										>
+											{t.tag} ({t.count})
+										</SelectItem>
+									))}
 								</SelectContent>
 							</Select>
 
@@ -536,6 +889,7 @@ export default function AnalyticsPage() {
 							{statusFilter === 'all'
 								? 'All statuses'
 								: STATUS_LABEL[statusFilter]}
+							{tagFilter === 'all' ? '' : ` • Tagged “${tagFilter}”`}
 							{includeArchived
 								? ' • Includes archived'
 								: ' • Excludes archived'}
@@ -564,7 +918,10 @@ export default function AnalyticsPage() {
 					<TabsList>
 						<TabsTrigger value='overview'>Overview</TabsTrigger>
 						<TabsTrigger value='maintenance'>Maintenance</TabsTrigger>
+						<TabsTrigger value='costs'>Costs</TabsTrigger>
+						<TabsTrigger value='reliability'>Reliability</TabsTrigger>
 						<TabsTrigger value='trends'>Trends</TabsTrigger>
+						<TabsTrigger value='transfers'>Transfers</TabsTrigger>
 					</TabsList>
 
 					<Separator />
@@ -612,7 +969,7 @@ export default function AnalyticsPage() {
 										title='Maintenance'
 										value={kpis.maintenance}
 										icon={<Wrench className='h-4 w-4' />}
-										footer='Under maintenance'
+										footer='Under maintenance or awaiting parts'
 										badge={deltaBadge(kpis.maintenance, kpisPrev.maintenance)}
 										badgeVariant='outline'
 									/>
@@ -647,20 +1004,7 @@ export default function AnalyticsPage() {
 
 								<CardContent className='overflow-hidden'>
 									<ChartContainer
-										config={{
-											active: {
-												label: 'In Service',
-												color: STATUS_COLORS.active
-											},
-											maintenance: {
-												label: 'Maintenance',
-												color: STATUS_COLORS.maintenance
-											},
-											inactive: {
-												label: 'Out of Service',
-												color: STATUS_COLORS.inactive
-											}
-										}}
+										config={STATUS_CHART_CONFIG}
 										className='h-[280px] sm:h-[320px] w-full'
 									>
 										<PieChart>
@@ -913,6 +1257,456 @@ export default function AnalyticsPage() {
 						</Card>
 					</TabsContent>
 
+					{/* ---------------- COSTS ---------------- */}
+					<TabsContent
+						value='costs'
+						className='space-y-6'
+					>
+						<div className='grid gap-4 sm:grid-cols-2 lg:grid-cols-4'>
+							{isLoading || costsLoading ? (
+								Array.from({ length: 4 }).map((_, i) => (
+									<Card
+										key={i}
+										className='min-w-0'
+									>
+										<CardHeader className='space-y-2'>
+											<Skeleton className='h-4 w-28' />
+											<Skeleton className='h-8 w-20' />
+										</CardHeader>
+										<CardContent>
+											<Skeleton className='h-4 w-32' />
+										</CardContent>
+									</Card>
+								))
+							) : (
+								<>
+									<KpiCard
+										title='Maintenance spend'
+										value={formatMoney(costMetrics.total, costMetrics.currency)}
+										icon={<DollarSign className='h-4 w-4' />}
+										footer={`${costMetrics.records} costed record(s), last ${timeRange}d`}
+									/>
+									<KpiCard
+										title='Preventive'
+										value={formatMoney(
+											costMetrics.preventive,
+											costMetrics.currency
+										)}
+										icon={<CheckCircle2 className='h-4 w-4' />}
+										footer='Planned upkeep'
+										badge={`${Math.round(
+											(costMetrics.preventive /
+												Math.max(costMetrics.total, 1)) *
+												100
+										)}%`}
+										badgeVariant='outline'
+									/>
+									<KpiCard
+										title='Corrective'
+										value={formatMoney(
+											costMetrics.corrective,
+											costMetrics.currency
+										)}
+										icon={<Wrench className='h-4 w-4' />}
+										footer='Repairs and breakdowns'
+										badge={`${Math.round(
+											(costMetrics.corrective /
+												Math.max(costMetrics.total, 1)) *
+												100
+										)}%`}
+										badgeVariant={
+											costMetrics.corrective > costMetrics.preventive
+												? 'destructive'
+												: 'outline'
+										}
+									/>
+									<KpiCard
+										title='Labor hours'
+										value={costMetrics.laborHours}
+										icon={<Clock className='h-4 w-4' />}
+										footer='Logged on costed records'
+									/>
+								</>
+							)}
+						</div>
+
+						{costMetrics.excluded > 0 ? (
+							<p className='text-xs text-muted-foreground'>
+								Totals are in {costMetrics.currency}. {costMetrics.excluded}{' '}
+								record(s) in other currencies are not included.
+							</p>
+						) : null}
+
+						<Card className='min-w-0'>
+							<CardHeader>
+								<CardTitle>Preventive vs corrective spend</CardTitle>
+							</CardHeader>
+							<CardContent className='overflow-hidden'>
+								<ChartContainer
+									config={{
+										preventive: { label: 'Preventive', color: '#22c55e' },
+										corrective: { label: 'Corrective', color: '#ef4444' }
+									}}
+									className='h-[280px] sm:h-[320px] w-full'
+								>
+									<BarChart
+										data={costMetrics.perMonth}
+										margin={{ top: 8, right: 8, left: 0, bottom: 0 }}
+									>
+										<CartesianGrid vertical={false} />
+										<XAxis
+											dataKey='month'
+											tickMargin={8}
+											tickFormatter={(value) => value.slice(5)}
+										/>
+										<YAxis tick={{ fontSize: 12 }} />
+
+										<Bar
+											dataKey='preventive'
+											name='Preventive'
+											stackId='spend'
+											fill='#22c55e'
+										/>
+										<Bar
+											dataKey='corrective'
+											name='Corrective'
+											stackId='spend'
+											fill='#ef4444'
+											radius={[6, 6, 0, 0]}
+										/>
+
+										<Tooltip
+											cursor={false}
+											content={<CostTooltip currency={costMetrics.currency} />}
+										/>
+									</BarChart>
+								</ChartContainer>
+							</CardContent>
+						</Card>
+
+						<div className='grid gap-6 xl:grid-cols-2'>
+							<Card className='min-w-0'>
+								<CardHeader>
+									<CardTitle>Cost per asset (top 10)</CardTitle>
+								</CardHeader>
+								<CardContent className='overflow-hidden'>
+									{costMetrics.perAsset.length === 0 ? (
+										<p className='text-sm text-muted-foreground'>
+											No costed maintenance in the current filters.
+										</p>
+									) : (
+										<ChartContainer
+											config={{ total: { label: 'Cost', color: '#3b82f6' } }}
+											className='h-[280px] sm:h-[320px] w-full'
+										>
+											<BarChart
+												data={costMetrics.perAsset}
+												layout='vertical'
+												margin={{ top: 8, right: 8, left: 8, bottom: 0 }}
+											>
+												<CartesianGrid horizontal={false} />
+												<XAxis
+													type='number'
+													tick={{ fontSize: 12 }}
+												/>
+												<YAxis
+													type='category'
+													dataKey='label'
+													width={120}
+													tick={{ fontSize: 12 }}
+												/>
+
+												<Bar
+													dataKey='total'
+													fill='#3b82f6'
+													radius={6}
+												/>
+
+												<Tooltip
+													cursor={false}
+													content={
+														<CostTooltip currency={costMetrics.currency} />
+													}
+												/>
+											</BarChart>
+										</ChartContainer>
+									)}
+								</CardContent>
+							</Card>
+
+							<Card className='min-w-0'>
+								<CardHeader className='flex flex-row items-center justify-between'>
+									<CardTitle>
+										Cost per {costDimension === 'tag' ? 'tag' : 'location'}
+									</CardTitle>
+									<Select
+										value={costDimension}
+										onValueChange={(v) => setCostDimension(v as CostDimension)}
+									>
+										<SelectTrigger className='w-[140px]'>
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectItem value='location'>Per location</SelectItem>
+											<SelectItem value='tag'>Per tag</SelectItem>
+										</SelectContent>
+									</Select>
+								</CardHeader>
+								<CardContent className='overflow-hidden'>
+									{costMetrics.perGroup.length === 0 ? (
+										<p className='text-sm text-muted-foreground'>
+											No costed maintenance in the current filters.
+										</p>
+									) : (
+										<ChartContainer
+											config={{ total: { label: 'Cost', color: '#6366f1' } }}
+											className='h-[280px] sm:h-[320px] w-full'
+										>
+											<BarChart
+												data={costMetrics.perGroup}
+												margin={{ top: 8, right: 8, left: 0, bottom: 0 }}
+											>
+												<CartesianGrid vertical={false} />
+												<XAxis
+													dataKey='label'
+													tickMargin={10}
+													interval={0}
+													angle={-18}
+													textAnchor='end'
+													height={44}
+													tick={{ fontSize: 12 }}
+												/>
+												<YAxis tick={{ fontSize: 12 }} />
+
+												<Bar
+													dataKey='total'
+													fill='#6366f1'
+													radius={6}
+												/>
+
+												<Tooltip
+													cursor={false}
+													content={
+														<CostTooltip currency={costMetrics.currency} />
+													}
+												/>
+											</BarChart>
+										</ChartContainer>
+									)}
+								</CardContent>
+							</Card>
+						</div>
+					</TabsContent>
+
+					{/* ---------------- RELIABILITY ---------------- */}
+					<TabsContent
+						value='reliability'
+						className='space-y-6'
+					>
+						<div className='grid gap-4 sm:grid-cols-2 lg:grid-cols-4'>
+							{isLoading || reliabilityLoading ? (
+								Array.from({ length: 4 }).map((_, i) => (
+									<Card
+										key={i}
+										className='min-w-0'
+									>
+										<CardHeader className='space-y-2'>
+											<Skeleton className='h-4 w-28' />
+											<Skeleton className='h-8 w-20' />
+										</CardHeader>
+										<CardContent>
+											<Skeleton className='h-4 w-32' />
+										</CardContent>
+									</Card>
+								))
+							) : (
+								<>
+									<KpiCard
+										title='Availability'
+										value={formatPercent(
+											reliabilityMetrics.current.availability
+										)}
+										icon={<CheckCircle2 className='h-4 w-4' />}
+										footer={`Uptime share, last ${timeRange}d`}
+										badge={reliabilityDelta(
+											reliabilityMetrics.current.availability,
+											reliabilityMetrics.previous.availability,
+											(v) => `${(v * 100).toFixed(1)}pt`
+										)}
+										badgeVariant={
+											(reliabilityMetrics.current.availability ?? 1) <
+											(reliabilityMetrics.previous.availability ?? 0)
+												? 'destructive'
+												: 'outline'
+										}
+									/>
+									<KpiCard
+										title='MTBF'
+										value={formatHours(reliabilityMetrics.current.mtbfHours)}
+										icon={<Activity className='h-4 w-4' />}
+										footer='Mean time between failures'
+										badge={reliabilityDelta(
+											reliabilityMetrics.current.mtbfHours,
+											reliabilityMetrics.previous.mtbfHours,
+											(v) => formatHours(v)
+										)}
+										badgeVariant='outline'
+									/>
+									<KpiCard
+										title='MTTR'
+										value={formatHours(reliabilityMetrics.current.mttrHours)}
+										icon={<Wrench className='h-4 w-4' />}
+										footer='Mean time to repair'
+										badge={reliabilityDelta(
+											reliabilityMetrics.current.mttrHours,
+											reliabilityMetrics.previous.mttrHours,
+											(v) => formatHours(v)
+										)}
+										badgeVariant='outline'
+									/>
+									<KpiCard
+										title='Unplanned stops'
+										value={reliabilityMetrics.current.failures}
+										icon={<AlertTriangle className='h-4 w-4' />}
+										footer={`${formatHours(
+											reliabilityMetrics.current.downtimeHours
+										)} total downtime`}
+										badge={deltaBadge(
+											reliabilityMetrics.current.failures,
+											reliabilityMetrics.previous.failures
+										)}
+										badgeVariant={
+											reliabilityMetrics.current.failures >
+											reliabilityMetrics.previous.failures
+												? 'destructive'
+												: 'outline'
+										}
+									/>
+								</>
+							)}
+						</div>
+
+						<p className='text-xs text-muted-foreground'>
+							Downtime is time in Maintenance, Awaiting Parts or Out of Service;
+							retired assets are left out. Stops tagged as planned maintenance,
+							inspection or no demand lower availability but don&apos;t count as
+							failures.
+						</p>
+
+						<Card className='min-w-0'>
+							<CardHeader>
+								<CardTitle>Availability by month</CardTitle>
+							</CardHeader>
+							<CardContent className='overflow-hidden'>
+								<ChartContainer
+									config={{
+										availability: { label: 'Availability %', color: '#22c55e' }
+									}}
+									className='h-[280px] sm:h-[320px] w-full'
+								>
+									<AreaChart
+										data={reliabilityMetrics.perMonth}
+										margin={{ top: 8, right: 8, left: 0, bottom: 0 }}
+									>
+										<CartesianGrid vertical={false} />
+										<XAxis
+											dataKey='month'
+											tickMargin={8}
+											tickFormatter={(value) => value.slice(5)}
+										/>
+										<YAxis
+											domain={[0, 100]}
+											tick={{ fontSize: 12 }}
+										/>
+
+										<Area
+											dataKey='availability'
+											name='Availability %'
+											type='monotone'
+											stroke='#22c55e'
+											fill='#22c55e'
+											fillOpacity={0.22}
+											dot={false}
+										/>
+
+										<Tooltip cursor={false} />
+									</AreaChart>
+								</ChartContainer>
+							</CardContent>
+						</Card>
+
+						<Card className='min-w-0'>
+							<CardHeader className='flex flex-row items-center justify-between'>
+								<CardTitle>Least available</CardTitle>
+								<Select
+									value={reliabilityDimension}
+									onValueChange={(v) =>
+										setReliabilityDimension(v as ReliabilityDimension)
+									}
+								>
+									<SelectTrigger className='w-[160px]'>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value='asset'>Per asset</SelectItem>
+										<SelectItem value='location'>Per location</SelectItem>
+										<SelectItem value='owner'>Per owner</SelectItem>
+										<SelectItem value='tag'>Per tag</SelectItem>
+									</SelectContent>
+								</Select>
+							</CardHeader>
+							<CardContent>
+								{isLoading || reliabilityLoading ? (
+									<div className='space-y-2'>
+										{Array.from({ length: 6 }).map((_, i) => (
+											<Skeleton
+												key={i}
+												className='h-10 w-full'
+											/>
+										))}
+									</div>
+								) : reliabilityMetrics.rows.length === 0 ? (
+									<p className='text-sm text-muted-foreground'>
+										No status history in the current filters.
+									</p>
+								) : (
+									<div className='space-y-2'>
+										<div className='grid grid-cols-[1fr_90px_80px_80px_70px] gap-2 px-3 text-xs text-muted-foreground'>
+											<span>Name</span>
+											<span>Availability</span>
+											<span>MTBF</span>
+											<span>MTTR</span>
+											<span>Stops</span>
+										</div>
+										{reliabilityMetrics.rows.slice(0, 10).map((row) => (
+											<div
+												key={row.key}
+												className='grid grid-cols-[1fr_90px_80px_80px_70px] items-center gap-2 rounded-md border px-3 py-2 text-sm'
+											>
+												<span className='truncate font-medium'>
+													{row.href ? (
+														<Link
+															href={row.href}
+															className='hover:underline'
+														>
+															{row.label}
+														</Link>
+													) : (
+														row.label
+													)}
+												</span>
+												<span>{formatPercent(row.availability)}</span>
+												<span>{formatHours(row.mtbfHours)}</span>
+												<span>{formatHours(row.mttrHours)}</span>
+												<span>{row.failures}</span>
+											</div>
+										))}
+									</div>
+								)}
+							</CardContent>
+						</Card>
+					</TabsContent>
+
 					{/* ---------------- TRENDS ---------------- */}
 					<TabsContent
 						value='trends'
@@ -1014,6 +1808,21 @@ export default function AnalyticsPage() {
 							</Card>
 						</div>
 					</TabsContent>
+
+					{/* ---------------- TRANSFERS ---------------- */}
+					<TabsContent
+						value='transfers'
+						className='space-y-6'
+					>
+						<Card className='min-w-0'>
+							<CardHeader>
+								<CardTitle>Transfers</CardTitle>
+							</CardHeader>
+							<CardContent>
+								<TransfersReportSection />
+							</CardContent>
+						</Card>
+					</TabsContent>
 				</Tabs>
 			</div>
 		</section>
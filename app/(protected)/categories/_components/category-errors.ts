@@ -0,0 +1,16 @@
+// error codes thrown by data-access/categories
+export function getCategoryErrorMessage(err: unknown) {
+	if (err instanceof Error) {
+		if (err.message === 'Not authenticated') return 'Sign in to continue.';
+		if (err.message === 'Not authorized') return 'Viewer role: read-only.';
+		if (err.message === 'CATEGORY_NOT_FOUND') return 'Category not found.';
+		if (err.message === 'CATEGORY_ALREADY_EXISTS') {
+			return 'A category with this name already exists.';
+		}
+		if (err.message === 'INVALID_FIELD_SCHEMA') {
+			return 'Check the custom fields: keys must be unique and rules valid.';
+		}
+		return err.message;
+	}
+	return 'Unexpected error';
+}
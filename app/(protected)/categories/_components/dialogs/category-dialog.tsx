@@ -0,0 +1,471 @@
+'use client';
+
+import { useEffect } from 'react';
+import { z } from 'zod';
+import {
+	useFieldArray,
+	useForm,
+	useWatch,
+	type Control
+} from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Plus, Trash2 } from 'lucide-react';
+
+import {
+	CUSTOM_FIELD_TYPE_LABEL,
+	findCustomFieldSchemaError,
+	toCustomFieldKey
+} from '@/lib/custom-fields';
+import type {
+	AssetCategory,
+	AssetCategoryInput,
+	CustomFieldDefinition
+} from '@/types/categories';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage
+} from '@/components/ui/form';
+
+// regras numéricas ficam como texto no form; '' = sem regra
+const fieldSchema = z.object({
+	key: z.string(), // '' = new field, derived from the label on save
+	label: z.string().trim().min(1, 'Label is required'),
+	type: z.enum(['text', 'number', 'date', 'select', 'boolean']),
+	required: z.boolean(),
+	options: z.string(),
+	min: z.string(),
+	max: z.string(),
+	maxLength: z.string(),
+	pattern: z.string()
+});
+
+type FieldFormValues = z.infer<typeof fieldSchema>;
+
+function toNumber(value: string) {
+	return value.trim() === '' ? undefined : Number(value);
+}
+
+function toDefinition(field: FieldFormValues): CustomFieldDefinition {
+	return {
+		key: field.key || toCustomFieldKey(field.label),
+		label: field.label.trim(),
+		type: field.type,
+		required: field.required,
+		options: field.options
+			.split(',')
+			.map((o) => o.trim())
+			.filter(Boolean),
+		min: toNumber(field.min),
+		max: toNumber(field.max),
+		maxLength: toNumber(field.maxLength),
+		pattern: field.pattern.trim() || undefined
+	};
+}
+
+const schema = z
+	.object({
+		name: z.string().trim().min(1, 'Name is required'),
+		description: z.string().optional(),
+		fields: z.array(fieldSchema)
+	})
+	.superRefine((values, ctx) => {
+		const error = findCustomFieldSchemaError(values.fields.map(toDefinition));
+		if (error) {
+			ctx.addIssue({
+				code: 'custom',
+				path: ['fields', 'root'],
+				message: error
+			});
+		}
+	});
+
+type FormValues = z.input<typeof schema>;
+
+function toFieldFormValues(field?: CustomFieldDefinition): FieldFormValues {
+	return {
+		key: field?.key ?? '',
+		label: field?.label ?? '',
+		type: field?.type ?? 'text',
+		required: Boolean(field?.required),
+		options: (field?.options ?? []).join(', '),
+		min: field?.min === undefined ? '' : String(field.min),
+		max: field?.max === undefined ? '' : String(field.max),
+		maxLength: field?.maxLength === undefined ? '' : String(field.maxLength),
+		pattern: field?.pattern ?? ''
+	};
+}
+
+function defaultValues(category?: AssetCategory): FormValues {
+	return {
+		name: category?.name ?? '',
+		description: category?.description ?? '',
+		fields: (category?.fields ?? []).map(toFieldFormValues)
+	};
+}
+
+export default function CategoryDialog({
+	open,
+	category,
+	isSaving,
+	onSubmit,
+	onOpenChange
+}: {
+	open: boolean;
+	// undefined = nova
+	category?: AssetCategory;
+	isSaving?: boolean;
+	onSubmit: (input: AssetCategoryInput) => void;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const form = useForm<FormValues>({
+		resolver: zodResolver(schema),
+		defaultValues: defaultValues(category),
+		mode: 'onSubmit'
+	});
+
+	const { fields, append, remove } = useFieldArray({
+		control: form.control,
+		name: 'fields'
+	});
+	const rows = useWatch({ control: form.control, name: 'fields' });
+
+	useEffect(() => {
+		if (open) form.reset(defaultValues(category));
+	}, [open, category, form]);
+
+	const rootError = (
+		form.formState.errors.fields as { root?: { message?: string } } | undefined
+	)?.root?.message;
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={onOpenChange}
+		>
+			<DialogContent className='max-w-2xl max-h-[90vh] overflow-y-auto'>
+				<DialogHeader>
+					<DialogTitle>
+						{category ? 'Edit category' : 'New category'}
+					</DialogTitle>
+					<DialogDescription>
+						Custom fields show up on the asset form for assets in this category.
+						A field&apos;s key is fixed once saved, since values are stored
+						under it.
+					</DialogDescription>
+				</DialogHeader>
+
+				<Form {...form}>
+					<form
+						onSubmit={form.handleSubmit((v) => {
+							const parsed = schema.parse(v);
+							onSubmit({
+								name: parsed.name,
+								description: parsed.description?.trim() ?? '',
+								fields: parsed.fields.map(toDefinition)
+							});
+						})}
+						className='space-y-4'
+					>
+						<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+							<FormField
+								control={form.control}
+								name='name'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Name</FormLabel>
+										<FormControl>
+											<Input
+												disabled={isSaving}
+												placeholder='e.g. Forklifts'
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name='description'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Description (optional)</FormLabel>
+										<FormControl>
+											<Input
+												disabled={isSaving}
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+
+						<div className='space-y-2'>
+							<div className='flex items-center justify-between'>
+								<p className='text-sm font-medium'>Custom fields</p>
+								<Button
+									type='button'
+									variant='outline'
+									size='sm'
+									disabled={isSaving}
+									onClick={() => append(toFieldFormValues())}
+								>
+									<Plus className='h-4 w-4 mr-1' />
+									Add field
+								</Button>
+							</div>
+
+							{fields.length === 0 && (
+								<p className='text-xs text-muted-foreground'>
+									No custom fields. Assets in this category use the standard
+									fields only.
+								</p>
+							)}
+
+							{fields.map((item, index) => {
+								const row = rows?.[index];
+								const type = row?.type ?? 'text';
+								const key =
+									row?.key || (row?.label ? toCustomFieldKey(row.label) : '');
+
+								return (
+									<div
+										key={item.id}
+										className='space-y-2 rounded-md border p-3'
+									>
+										<div className='grid grid-cols-[1fr_140px_auto] items-start gap-2'>
+											<FormField
+												control={form.control}
+												name={`fields.${index}.label`}
+												render={({ field }) => (
+													<FormItem>
+														<FormControl>
+															<Input
+																disabled={isSaving}
+																placeholder='e.g. Plate number'
+																aria-label='Field label'
+																{...field}
+															/>
+														</FormControl>
+														<FormMessage />
+													</FormItem>
+												)}
+											/>
+											<FormField
+												control={form.control}
+												name={`fields.${index}.type`}
+												render={({ field }) => (
+													<FormItem>
+														<Select
+															disabled={isSaving || Boolean(row?.key)}
+															value={field.value}
+															onValueChange={field.onChange}
+														>
+															<FormControl>
+																<SelectTrigger aria-label='Field type'>
+																	<SelectValue />
+																</SelectTrigger>
+															</FormControl>
+															<SelectContent>
+																{Object.entries(CUSTOM_FIELD_TYPE_LABEL).map(
+																	([value, label]) => (
+																		<SelectItem
+																			key={value}
+																			value={value}
+																		>
+																			{label}
+																		</SelectItem>
+																	)
+																)}
+															</SelectContent>
+														</Select>
+														<FormMessage />
+													</FormItem>
+												)}
+											/>
+											<Button
+												type='button'
+												variant='ghost'
+												size='icon'
+												disabled={isSaving}
+												aria-label='Remove field'
+												onClick={() => remove(index)}
+											>
+												<Trash2 className='h-4 w-4' />
+											</Button>
+										</div>
+
+										<div className='flex flex-wrap items-center gap-3'>
+											<p className='text-xs text-muted-foreground'>
+												Key: <code>{key || '—'}</code>
+											</p>
+											<FormField
+												control={form.control}
+												name={`fields.${index}.required`}
+												render={({ field }) => (
+													<FormItem className='flex items-center gap-2 space-y-0'>
+														<FormControl>
+															<Switch
+																disabled={isSaving}
+																checked={field.value}
+																onCheckedChange={field.onChange}
+															/>
+														</FormControl>
+														<FormLabel className='text-xs font-normal'>
+															Required
+														</FormLabel>
+													</FormItem>
+												)}
+											/>
+										</div>
+
+										{type === 'select' && (
+											<RuleInput
+												control={form.control}
+												name={`fields.${index}.options`}
+												placeholder='Options, comma separated'
+												disabled={isSaving}
+											/>
+										)}
+
+										{type === 'number' && (
+											<div className='grid grid-cols-2 gap-2'>
+												<RuleInput
+													control={form.control}
+													name={`fields.${index}.min`}
+													placeholder='Minimum'
+													type='number'
+													disabled={isSaving}
+												/>
+												<RuleInput
+													control={form.control}
+													name={`fields.${index}.max`}
+													placeholder='Maximum'
+													type='number'
+													disabled={isSaving}
+												/>
+											</div>
+										)}
+
+										{type === 'text' && (
+											<div className='grid grid-cols-[140px_1fr] gap-2'>
+												<RuleInput
+													control={form.control}
+													name={`fields.${index}.maxLength`}
+													placeholder='Max length'
+													type='number'
+													disabled={isSaving}
+												/>
+												<RuleInput
+													control={form.control}
+													name={`fields.${index}.pattern`}
+													placeholder='Pattern (regular expression), e.g. ^[A-Z]{3}-\d{4}$'
+													disabled={isSaving}
+												/>
+											</div>
+										)}
+									</div>
+								);
+							})}
+
+							{rootError && (
+								<p className='text-sm font-medium text-destructive'>
+									{rootError}
+								</p>
+							)}
+						</div>
+
+						<DialogFooter className='gap-2'>
+							<Button
+								type='button'
+								variant='outline'
+								disabled={isSaving}
+								onClick={() => onOpenChange(false)}
+							>
+								Cancel
+							</Button>
+							<Button
+								type='submit'
+								disabled={isSaving}
+							>
+								{isSaving
+									? 'Saving...'
+									: category
+										? 'Save category'
+										: 'Create category'}
+							</Button>
+						</DialogFooter>
+					</form>
+				</Form>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+type RuleName = `fields.${number}.${
+	| 'options'
+	| 'min'
+	| 'max'
+	| 'maxLength'
+	| 'pattern'}`;
+
+function RuleInput({
+	control,
+	name,
+	placeholder,
+	type = 'text',
+	disabled
+}: {
+	control: Control<FormValues>;
+	name: RuleName;
+	placeholder: string;
+	type?: 'text' | 'number';
+	disabled?: boolean;
+}) {
+	return (
+		<FormField
+			control={control}
+			name={name}
+			render={({ field }) => (
+				<FormItem>
+					<FormControl>
+						<Input
+							type={type}
+							disabled={disabled}
+							placeholder={placeholder}
+							aria-label={placeholder}
+							{...field}
+						/>
+					</FormControl>
+					<FormMessage />
+				</FormItem>
+			)}
+		/>
+	);
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { MoreHorizontal, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+import {
+	archiveCategory,
+	createCategory,
+	getCategories,
+	updateCategory
+} from '@/data-access/categories';
+import { getEquipmentsList } from '@/data-access/equipments';
+import { CUSTOM_FIELD_TYPE_LABEL } from '@/lib/custom-fields';
+import type { AssetCategory, AssetCategoryInput } from '@/types/categories';
+import type { Equipment } from '@/types/equipment';
+import { useAuth } from '@/context/auth-context';
+import { useUserRole } from '@/hooks/use-user-role';
+import CategoryDialog from '../dialogs/category-dialog';
+import { getCategoryErrorMessage } from '../category-errors';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+
+export default function CategoriesSection() {
+	const queryClient = useQueryClient();
+	const { user, loading } = useAuth();
+	const { isAdmin, isLoading: roleLoading } = useUserRole();
+
+	const isBlocked = loading || !user || roleLoading || !isAdmin;
+
+	// undefined = fechado, null = nova
+	const [editing, setEditing] = useState<AssetCategory | null | undefined>();
+	const [archiving, setArchiving] = useState<AssetCategory | null>(null);
+
+	const {
+		data = [],
+		isLoading,
+		isError
+	} = useQuery<AssetCategory[]>({
+		queryKey: ['categories'],
+		queryFn: () => getCategories({ includeArchived: true })
+	});
+
+	const categories = useMemo(() => data.filter((c) => !c.isArchived), [data]);
+
+	const { data: assets = [] } = useQuery<Equipment[]>({
+		queryKey: ['equipments', 'list', 'categories'],
+		queryFn: () => getEquipmentsList(),
+		staleTime: 60_000
+	});
+
+	const assetCounts = useMemo(() => {
+		const counts = new Map<string, number>();
+		for (const asset of assets) {
+			if (!asset.categoryId) continue;
+			counts.set(asset.categoryId, (counts.get(asset.categoryId) ?? 0) + 1);
+		}
+		return counts;
+	}, [assets]);
+
+	function invalidate() {
+		queryClient.invalidateQueries({ queryKey: ['categories'] });
+		queryClient.invalidateQueries({ queryKey: ['equipments'] });
+	}
+
+	const saveMutation = useMutation({
+		mutationFn: async ({
+			id,
+			input
+		}: {
+			id?: string;
+			input: AssetCategoryInput;
+		}) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			const actor = { uid: user.uid, email: user.email };
+			if (id) await updateCategory(id, input, actor);
+			else await createCategory(input, actor);
+		},
+		onSuccess: (_, { id }) => {
+			invalidate();
+			toast.success(id ? 'Category updated' : 'Category created');
+			setEditing(undefined);
+		},
+		onError: (err) => toast.error(getCategoryErrorMessage(err))
+	});
+
+	const archiveMutation = useMutation({
+		mutationFn: async (category: AssetCategory) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			await archiveCategory(category.id, { uid: user.uid, email: user.email });
+		},
+		onSuccess: () => {
+			invalidate();
+			toast.success('Category archived');
+			setArchiving(null);
+		},
+		onError: (err) => toast.error(getCategoryErrorMessage(err))
+	});
+
+	return (
+		<div className='space-y-3'>
+			<div className='flex items-center justify-between gap-2'>
+				<p className='text-sm text-muted-foreground'>
+					{categories.length} categor{categories.length === 1 ? 'y' : 'ies'}
+				</p>
+				{!isBlocked && (
+					<Button
+						size='sm'
+						onClick={() => setEditing(null)}
+					>
+						<Plus className='mr-2 h-4 w-4' />
+						New category
+					</Button>
+				)}
+			</div>
+
+			{isLoading ? (
+				<div className='space-y-2'>
+					<Skeleton className='h-12 w-full' />
+					<Skeleton className='h-12 w-full' />
+					<Skeleton className='h-12 w-2/3' />
+				</div>
+			) : isError ? (
+				<p className='text-sm text-muted-foreground'>
+					Unable to load categories.
+				</p>
+			) : categories.length === 0 ? (
+				<div className='rounded-md border border-dashed p-6'>
+					<p className='text-sm font-medium'>No categories yet</p>
+					<p className='text-xs text-muted-foreground mt-1'>
+						Create one (e.g. Forklifts) and add the fields its assets need.
+					</p>
+				</div>
+			) : (
+				<div className='rounded-md border divide-y'>
+					{categories.map((category) => (
+						<div
+							key={category.id}
+							className='flex items-center justify-between gap-3 px-3 py-2'
+						>
+							<div className='min-w-0'>
+								<p className='text-sm font-medium truncate'>{category.name}</p>
+								<p className='text-xs text-muted-foreground truncate'>
+									{category.fields.length
+										? category.fields
+												.map(
+													(f) =>
+														`${f.label} (${CUSTOM_FIELD_TYPE_LABEL[f.type]}${
+															f.required ? ', required' : ''
+														})`
+												)
+												.join(' • ')
+										: category.description || 'No custom fields'}
+								</p>
+							</div>
+
+							<div className='flex items-center gap-2'>
+								<Badge variant='secondary'>
+									{assetCounts.get(category.id) ?? 0} assets
+								</Badge>
+								{!isBlocked && (
+									<DropdownMenu>
+										<DropdownMenuTrigger asChild>
+											<Button
+												variant='ghost'
+												size='icon'
+												aria-label='Category actions'
+											>
+												<MoreHorizontal className='h-4 w-4' />
+											</Button>
+										</DropdownMenuTrigger>
+										<DropdownMenuContent align='end'>
+											<DropdownMenuItem onClick={() => setEditing(category)}>
+												Edit
+											</DropdownMenuItem>
+											<DropdownMenuItem
+												className='text-destructive'
+												onClick={() => setArchiving(category)}
+											>
+												Archive
+											</DropdownMenuItem>
+										</DropdownMenuContent>
+									</DropdownMenu>
+								)}
+							</div>
+						</div>
+					))}
+				</div>
+			)}
+
+			<CategoryDialog
+				open={editing !== undefined}
+				category={editing ?? undefined}
+				isSaving={saveMutation.isPending}
+				onSubmit={(input) => saveMutation.mutate({ id: editing?.id, input })}
+				onOpenChange={(open) => {
+					if (!open && !saveMutation.isPending) setEditing(undefined);
+				}}
+			/>
+
+			<AlertDialog
+				open={archiving !== null}
+				onOpenChange={(open) => {
+					if (!open && !archiveMutation.isPending) setArchiving(null);
+				}}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Archive {archiving?.name}?</AlertDialogTitle>
+						<AlertDialogDescription>
+							New assets can no longer pick it. Assets already in it keep the
+							category and their custom field values.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel disabled={archiveMutation.isPending}>
+							Cancel
+						</AlertDialogCancel>
+						<AlertDialogAction
+							disabled={archiveMutation.isPending}
+							onClick={(e) => {
+								e.preventDefault();
+								if (archiving) archiveMutation.mutate(archiving);
+							}}
+						>
+							{archiveMutation.isPending ? 'Archiving...' : 'Archive'}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</div>
+	);
+}
@@ -0,0 +1,18 @@
+import PageHeader from '@/components/core/headers/page-header';
+import CategoriesSection from './_components/sections/categories-section';
+
+const CategoriesPage = () => {
+	return (
+		<section>
+			<PageHeader
+				pageTitle='Categories'
+				pageDescription='Asset categories and the custom fields each one adds'
+			/>
+			<div className='p-4 space-y-8'>
+				<CategoriesSection />
+			</div>
+		</section>
+	);
+};
+
+export default CategoriesPage;
@@ -1,9 +1,15 @@
 'use client';
 
 import Link from 'next/link';
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { addDays, isBefore, isWithinInterval, parseISO } from 'date-fns';
+import {
+	addDays,
+	isBefore,
+	isWithinInterval,
+	parseISO,
+	startOfDay
+} from 'date-fns';
 import {
 	AlertTriangle,
 	CheckCircle2,
@@ -16,6 +22,14 @@ import {
 import PageHeader from '@/components/core/headers/page-header';
 import { getEquipmentsList } from '@/data-access/equipments';
 import type { Equipment } from '@/types/equipment';
+import { useLiveEquipmentsList } from '@/hooks/use-live-equipments';
+import { getNextServiceDate } from '@/lib/maintenance-plans';
+import { buildAssetTree, countInSubtree } from '@/lib/hierarchy';
+import { buildEquipmentsHref } from '@/lib/equipments-url';
+import {
+	EQUIPMENT_STATUSES,
+	EQUIPMENT_STATUS_CONFIG
+} from '@/lib/equipment-status';
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -25,6 +39,19 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { ChartContainer } from '@/components/ui/chart';
 import { Pie, PieChart, Cell, Tooltip } from 'recharts';
 
+// keyed by label, which is the pie's nameKey
+const STATUS_CHART_CONFIG = Object.fromEntries(
+	EQUIPMENT_STATUSES.map((status) => {
+		const { label, color } = EQUIPMENT_STATUS_CONFIG[status];
+		return [label, { label, color }];
+	})
+);
+
+// deep links into the equipments table (same windows as the metrics below)
+const OVERDUE_HREF = buildEquipmentsHref({ maintenanceWindow: 'overdue' });
+const DUE_7_HREF = buildEquipmentsHref({ maintenanceWindow: 'due_7' });
+const ATTENTION_HREF = buildEquipmentsHref({ maintenanceWindow: 'attention' });
+
 function safeDate(value?: string) {
 	if (!value) return null;
 	try {
@@ -39,20 +66,9 @@ function isArchivedAsset(eq: Equipment) {
 	return Boolean((eq as any)?.archivedAt);
 }
 
+// vencimento do plano mais próximo (assets antigos: intervalo único)
 function deriveNextServiceDate(eq: Equipment) {
-	const anyEq = eq as any;
-
-	// 1) se existir no Firestore, usa
-	const next = safeDate(anyEq?.nextServiceDate);
-	if (next) return next;
-
-	// 2) senão, calcula: lastServiceDate + interval (default 180)
-	const last = safeDate(eq.lastServiceDate);
-	if (!last) return null;
-
-	const interval = eq.serviceIntervalDays ?? anyEq?.serviceIntervalDays ?? 180;
-
-	return addDays(last, interval);
+	return safeDate(getNextServiceDate(eq));
 }
 
 function StatusTooltip({
@@ -90,7 +106,10 @@ export default function DashboardPage() {
 		staleTime: 60_000
 	});
 
-	const today = new Date();
+	useLiveEquipmentsList(['equipments', 'dashboard'], { includeArchived: true });
+
+	// same day bounds as the table's maintenance windows: due today is not overdue
+	const today = startOfDay(new Date());
 	const in7 = addDays(today, 7);
 	const in30 = addDays(today, 30);
 
@@ -102,13 +121,15 @@ export default function DashboardPage() {
 	const metrics = useMemo(() => {
 		const total = activeEquipments.length;
 
-		const active = activeEquipments.filter((e) => e.status === 'active').length;
-		const inactive = activeEquipments.filter(
-			(e) => e.status === 'inactive'
-		).length;
-		const maintenance = activeEquipments.filter(
-			(e) => e.status === 'maintenance'
-		).length;
+		const byStatus = EQUIPMENT_STATUSES.map((status) => ({
+			status,
+			count: activeEquipments.filter((e) => e.status === status).length
+		}));
+		const countOf = (status: Equipment['status']) =>
+			byStatus.find((s) => s.status === status)?.count ?? 0;
+
+		const active = countOf('active');
+		const inactive = countOf('inactive');
 
 		// Data quality (breakdown)
 		const withSerial = activeEquipments.filter((e) =>
@@ -171,7 +192,8 @@ export default function DashboardPage() {
 			return ad - bd;
 		});
 
-		// Needs Attention (lista operacional)
+		// Maintenance attention: same set as the table's 'attention' window
+		// (overdue or due within 30 days); data gaps only add badges and score
 		type AttentionReason =
 			| 'Overdue maintenance'
 			| 'Maintenance due (30d)'
@@ -216,17 +238,22 @@ export default function DashboardPage() {
 				score += 10;
 			}
 
-			if (next) {
-				if (isBefore(next, today)) {
-					reasons.push('Overdue maintenance');
-					score += 50;
-				} else if (isWithinInterval(next, { start: today, end: in30 })) {
-					reasons.push('Maintenance due (30d)');
-					score += 20;
-				}
+			const isOverdue = Boolean(next && isBefore(next, today));
+			const isDueSoon = Boolean(
+				next &&
+					!isOverdue &&
+					isWithinInterval(next, { start: today, end: in30 })
+			);
+
+			if (isOverdue) {
+				reasons.push('Overdue maintenance');
+				score += 50;
+			} else if (isDueSoon) {
+				reasons.push('Maintenance due (30d)');
+				score += 20;
 			}
 
-			if (reasons.length > 0) {
+			if (isOverdue || isDueSoon) {
 				attentionItems.push({
 					id: eq.id,
 					name: eq.name,
@@ -244,7 +271,7 @@ export default function DashboardPage() {
 			total,
 			active,
 			inactive,
-			maintenance,
+			byStatus,
 
 			overdue,
 			due7,
@@ -261,17 +288,48 @@ export default function DashboardPage() {
 
 			dueSoonTop: dueSoonList.slice(0, 6),
 
+			needsAttention: attentionItems.length,
 			needsAttentionTop: attentionItems.slice(0, 8)
 		};
 	}, [activeEquipments, today, in7, in30]);
 
+	// due/overdue somados no nível do pai (linha > máquina > componente)
+	const [rollUpToParents, setRollUpToParents] = useState(false);
+
+	const parentRollup = useMemo(() => {
+		const isOverdue = (eq: Equipment) => {
+			const next = deriveNextServiceDate(eq);
+			return Boolean(next && isBefore(next, today));
+		};
+		const isDue30 = (eq: Equipment) => {
+			const next = deriveNextServiceDate(eq);
+			return Boolean(
+				next && isWithinInterval(next, { start: today, end: in30 })
+			);
+		};
+
+		return buildAssetTree(activeEquipments)
+			.filter((root) => root.children.length > 0)
+			.map((root) => ({
+				id: root.asset.id,
+				name: root.asset.name,
+				components: countInSubtree(root, () => true) - 1,
+				overdue: countInSubtree(root, isOverdue),
+				due30: countInSubtree(root, isDue30)
+			}))
+			.filter((row) => row.overdue + row.due30 > 0)
+			.sort((a, b) => b.overdue - a.overdue || b.due30 - a.due30)
+			.slice(0, 6);
+	}, [activeEquipments, today, in30]);
+
 	const statusChartData = useMemo(
-		() => [
-			{ status: 'In Service', count: metrics.active, color: '#22c55e' },
-			{ status: 'Maintenance', count: metrics.maintenance, color: '#eab308' },
-			{ status: 'Out of Service', count: metrics.inactive, color: '#ef4444' }
-		],
-		[metrics.active, metrics.maintenance, metrics.inactive]
+		() =>
+			metrics.byStatus.map(({ status, count }) => ({
+				status: EQUIPMENT_STATUS_CONFIG[status].label,
+				count,
+				color: EQUIPMENT_STATUS_CONFIG[status].color
+			})),
+		[metrics.byStatus]
 	);
 
 	if (isError) {
@@ -407,19 +465,17 @@ export default function DashboardPage() {
 									<PriorityRow
 										label={`${metrics.overdue} assets overdue maintenance`}
 										tone={metrics.overdue > 0 ? 'danger' : 'ok'}
-										href='/equipments'
+										href={OVERDUE_HREF}
 									/>
 									<PriorityRow
 										label={`${metrics.due7} assets due within 7 days`}
 										tone={metrics.due7 > 0 ? 'warning' : 'ok'}
-										href='/equipments'
+										href={DUE_7_HREF}
 									/>
 									<PriorityRow
-										label={`${metrics.needsAttentionTop.length} assets need attention (data/maintenance)`}
-										tone={
-											metrics.needsAttentionTop.length > 0 ? 'warning' : 'ok'
-										}
-										href='/equipments'
+										label={`${metrics.needsAttention} assets overdue or due within 30 days`}
+										tone={metrics.needsAttention > 0 ? 'warning' : 'ok'}
+										href={ATTENTION_HREF}
 									/>
 								</>
 							)}
@@ -432,14 +488,7 @@ export default function DashboardPage() {
 						</CardHeader>
 						<CardContent className='overflow-hidden'>
 							<ChartContainer
-								config={{
-									'In Service': { label: 'In Service', color: '#22c55e' },
-									Maintenance: { label: 'Maintenance', color: '#eab308' },
-									'Out of Service': {
-										label: 'Out of Service',
-										color: '#ef4444'
-									}
-								}}
+								config={STATUS_CHART_CONFIG}
 								className='h-[260px] w-full'
 							>
 								<PieChart>
@@ -471,7 +520,7 @@ export default function DashboardPage() {
 					</Card>
 				</div>
 
-				{/* Data Quality Breakdown + Needs Attention */}
+				{/* Data Quality Breakdown + Maintenance Attention */}
 				<div className='grid gap-4 lg:grid-cols-2'>
 					<Card>
 						<CardHeader className='flex flex-row items-center justify-between'>
@@ -544,13 +593,13 @@ export default function DashboardPage() {
 
 					<Card>
 						<CardHeader className='flex flex-row items-center justify-between'>
-							<CardTitle>Needs Attention</CardTitle>
+							<CardTitle>Maintenance Attention</CardTitle>
 							<Button
 								variant='outline'
 								size='sm'
 								asChild
 							>
-								<Link href='/equipments'>View all</Link>
+								<Link href={ATTENTION_HREF}>View all</Link>
 							</Button>
 						</CardHeader>
 
@@ -566,7 +615,7 @@ export default function DashboardPage() {
 								</div>
 							) : metrics.needsAttentionTop.length === 0 ? (
 								<p className='text-sm text-muted-foreground'>
-									No issues detected. Data and maintenance look healthy.
+									No maintenance overdue or due within 30 days.
 								</p>
 							) : (
 								<div className='space-y-2'>
@@ -635,13 +684,22 @@ export default function DashboardPage() {
 					<Card>
 						<CardHeader className='flex flex-row items-center justify-between'>
 							<CardTitle>Maintenance Due Soon</CardTitle>
-							<Button
-								variant='outline'
-								size='sm'
-								asChild
-							>
-								<Link href='/equipments'>Open assets</Link>
-							</Button>
+							<div className='flex gap-2'>
+								<Button
+									variant={rollUpToParents ? 'secondary' : 'outline'}
+									size='sm'
+									onClick={() => setRollUpToParents((v) => !v)}
+								>
+									{rollUpToParents ? 'By asset' : 'By parent'}
+								</Button>
+								<Button
+									variant='outline'
+									size='sm'
+									asChild
+								>
+									<Link href={ATTENTION_HREF}>Open assets</Link>
+								</Button>
+							</div>
 						</CardHeader>
 						<CardContent>
 							{isLoading ? (
@@ -653,6 +711,50 @@ export default function DashboardPage() {
 										/>
 									))}
 								</div>
+							) : rollUpToParents ? (
+								parentRollup.length === 0 ? (
+									<p className='text-sm text-muted-foreground'>
+										No parent asset has components due in the next 30 days.
+									</p>
+								) : (
+									<div className='space-y-2'>
+										{parentRollup.map((row) => (
+											<div
+												key={row.id}
+												className='flex items-center justify-between rounded-md border px-3 py-2'
+											>
+												<div className='min-w-0'>
+													<div className='truncate text-sm font-medium'>
+														{row.name}
+													</div>
+													<div className='truncate text-xs text-muted-foreground'>
+														{row.components} components
+													</div>
+												</div>
+
+												<div className='flex items-center gap-2'>
+													{row.overdue > 0 && (
+														<Badge variant='destructive'>
+															{row.overdue} overdue
+														</Badge>
+													)}
+													{row.due30 > 0 && (
+														<Badge variant='secondary'>
+															{row.due30} due (30d)
+														</Badge>
+													)}
+													<Button
+														size='sm'
+														variant='outline'
+														asChild
+													>
+														<Link href={`/equipments/${row.id}`}>Review</Link>
+													</Button>
+												</div>
+											</div>
+										))}
+									</div>
+								)
 							) : metrics.dueSoonTop.length === 0 ? (
 								<p className='text-sm text-muted-foreground'>
 									No upcoming maintenance in the next 30 days.
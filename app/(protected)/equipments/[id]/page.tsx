@@ -1,17 +1,40 @@
 'use client';
 
+import { Fragment } from 'react';
 import type { Timestamp, FieldValue } from 'firebase/firestore';
 import { useQuery } from '@tanstack/react-query';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { ArrowLeft, Pencil } from 'lucide-react';
-import { addDays, differenceInDays, isBefore, parseISO } from 'date-fns';
+import { differenceInDays, isBefore, parseISO } from 'date-fns';
 
 import MaintenanceHistorySection from '../_components/sections/maintenance-history-section';
 import ActivityFeedSection from '../_components/sections/activity-feed-section';
+import HistorySection from '../_components/sections/history-section';
+import WorkOrdersSection from '../_components/sections/work-orders-section';
+import MetersSection from '../_components/sections/meters-section';
+import StatusHistorySection from '../_components/sections/status-history-section';
+import CustodySection from '../_components/sections/custody-section';
+import StatusBadge from '../_components/status-badge';
 import PageHeader from '@/components/core/headers/page-header';
-import { getEquipmentById } from '@/data-access/equipments';
+import {
+	getEquipmentAncestors,
+	getEquipmentById,
+	getEquipmentChildren
+} from '@/data-access/equipments';
+import { getCategories } from '@/data-access/categories';
+import { formatCustomFieldValue } from '@/lib/custom-fields';
+import type { AssetCategory } from '@/types/categories';
+import { useLiveEquipment } from '@/hooks/use-live-equipments';
+import {
+	describeMaintenancePlans,
+	describePlanTrigger,
+	getEarliestDuePlan,
+	getNextServiceDate,
+	resolveMaintenancePlans
+} from '@/lib/maintenance-plans';
 import type { Equipment } from '@/types/equipment';
+import { getStatusDefinition, getStatusLabel } from '@/lib/equipment-status';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -19,18 +42,14 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
-
-function statusBadgeVariant(status: Equipment['status']) {
-	if (status === 'active') return 'secondary';
-	if (status === 'maintenance') return 'outline';
-	return 'destructive';
-}
-
-function statusLabel(status: Equipment['status']) {
-	if (status === 'active') return 'In Service';
-	if (status === 'maintenance') return 'Maintenance';
-	return 'Out of Service';
-}
+import {
+	Breadcrumb,
+	BreadcrumbItem,
+	BreadcrumbLink,
+	BreadcrumbList,
+	BreadcrumbPage,
+	BreadcrumbSeparator
+} from '@/components/ui/breadcrumb';
 
 function truncateId(value?: string, max = 14) {
 	if (!value) return '—';
@@ -58,61 +77,52 @@ function formatTimestamp(ts?: Timestamp | FieldValue | null): string {
 	}).format(date);
 }
 
-/** Calcula Next Service Due:
- * - prioridade: nextServiceDate (se existir)
- * - fallback: lastServiceDate + intervalDays (default 180)
+/** Calcula Next Service Due a partir do plano que vence primeiro
+ * (assets antigos: plano único derivado de serviceIntervalDays)
  */
 function computeNextServiceDue(asset: Equipment): {
 	nextDateLabel: string;
 	state: 'overdue' | 'due_soon' | 'scheduled' | 'unknown';
 	daysDelta?: number;
+	task?: string;
 } {
-	const intervalDays = asset.serviceIntervalDays ?? 180;
-
-	// helper defensivo
-	const safeParse = (value?: string) => {
-		if (!value) return null;
-		try {
-			return parseISO(value);
-		} catch {
-			return null;
-		}
-	};
+	const plan = getEarliestDuePlan(resolveMaintenancePlans(asset));
+	const nextDate = plan?.nextServiceDate;
 
-	const next = safeParse(asset.nextServiceDate);
-	const last = safeParse(asset.lastServiceDate);
-
-	const computed = next ?? (last ? addDays(last, intervalDays) : null);
-
-	if (!computed) {
+	if (!plan || !nextDate) {
 		return { nextDateLabel: '—', state: 'unknown' };
 	}
 
+	const computed = parseISO(nextDate);
+
 	const today = new Date();
 	const daysDelta = differenceInDays(computed, today);
 
 	// overdue
 	if (isBefore(computed, today)) {
 		return {
-			nextDateLabel: computed.toISOString().slice(0, 10),
+			nextDateLabel: nextDate,
 			state: 'overdue',
-			daysDelta
+			daysDelta,
+			task: plan.task
 		};
 	}
 
 	// due soon: 0..30 dias
 	if (daysDelta <= 30) {
 		return {
-			nextDateLabel: computed.toISOString().slice(0, 10),
+			nextDateLabel: nextDate,
 			state: 'due_soon',
-			daysDelta
+			daysDelta,
+			task: plan.task
 		};
 	}
 
 	return {
-		nextDateLabel: computed.toISOString().slice(0, 10),
+		nextDateLabel: nextDate,
 		state: 'scheduled',
-		daysDelta
+		daysDelta,
+		task: plan.task
 	};
 }
 
@@ -146,6 +156,27 @@ export default function AssetDetailsPage({
 		enabled: Boolean(id)
 	});
 
+	useLiveEquipment(id);
+
+	// hierarquia: caminho até a raiz e componentes diretos
+	const { data: ancestors = [] } = useQuery<Equipment[]>({
+		queryKey: ['equipments', id, 'ancestors', asset?.parentId ?? ''],
+		queryFn: () => getEquipmentAncestors(id),
+		enabled: Boolean(asset)
+	});
+
+	const { data: children = [] } = useQuery<Equipment[]>({
+		queryKey: ['equipments', id, 'children'],
+		queryFn: () => getEquipmentChildren(id),
+		enabled: Boolean(id)
+	});
+
+	const { data: categories = [] } = useQuery<AssetCategory[]>({
+		queryKey: ['categories'],
+		queryFn: () => getCategories({ includeArchived: true }),
+		enabled: Boolean(asset?.categoryId)
+	});
+
 	if (isLoading) {
 		return (
 			<section>
@@ -248,7 +279,9 @@ export default function AssetDetailsPage({
 	const updatedAt = formatTimestamp(asset.updatedAt);
 	const archivedAt = formatTimestamp(asset.archivedAt);
 
-	const intervalDays = asset.serviceIntervalDays ?? 180;
+	const category = categories.find((c) => c.id === asset.categoryId);
+
+	const plans = resolveMaintenancePlans(asset);
 	const nextService = computeNextServiceDue(asset);
 	const nextBadge = nextServiceBadge(nextService.state);
 
@@ -267,6 +300,30 @@ export default function AssetDetailsPage({
 			/>
 
 			<div className='p-4 md:p-6 space-y-4'>
+				<Breadcrumb>
+					<BreadcrumbList>
+						<BreadcrumbItem>
+							<BreadcrumbLink asChild>
+								<Link href='/equipments'>Assets</Link>
+							</BreadcrumbLink>
+						</BreadcrumbItem>
+						{ancestors.map((a) => (
+							<Fragment key={a.id}>
+								<BreadcrumbSeparator />
+								<BreadcrumbItem>
+									<BreadcrumbLink asChild>
+										<Link href={`/equipments/${a.id}`}>{a.name}</Link>
+									</BreadcrumbLink>
+								</BreadcrumbItem>
+							</Fragment>
+						))}
+						<BreadcrumbSeparator />
+						<BreadcrumbItem>
+							<BreadcrumbPage>{asset.name}</BreadcrumbPage>
+						</BreadcrumbItem>
+					</BreadcrumbList>
+				</Breadcrumb>
+
 				<div className='flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between'>
 					<div className='flex items-center gap-3 min-w-0'>
 						<Button
@@ -284,8 +341,8 @@ export default function AssetDetailsPage({
 							<div className='flex items-center gap-2'>
 								<h2 className='text-lg font-semibold truncate'>{asset.name}</h2>
 
-								<Badge variant={statusBadgeVariant(asset.status)}>
-									{statusLabel(asset.status)}
+								<Badge variant={getStatusDefinition(asset.status).badgeVariant}>
+									{getStatusLabel(asset.status)}
 								</Badge>
 
 								{isArchived && (
@@ -342,7 +399,12 @@ export default function AssetDetailsPage({
 							<TabsList>
 								<TabsTrigger value='overview'>Overview</TabsTrigger>
 								<TabsTrigger value='maintenance'>Maintenance</TabsTrigger>
+								<TabsTrigger value='work-orders'>Work Orders</TabsTrigger>
+								<TabsTrigger value='meters'>Meters</TabsTrigger>
+								<TabsTrigger value='downtime'>Downtime</TabsTrigger>
+								<TabsTrigger value='custody'>Custody</TabsTrigger>
 								<TabsTrigger value='activity'>Activity</TabsTrigger>
+								<TabsTrigger value='history'>History</TabsTrigger>
 							</TabsList>
 
 							<Separator className='my-4' />
@@ -354,7 +416,7 @@ export default function AssetDetailsPage({
 								<div className='grid gap-4 sm:grid-cols-2 lg:grid-cols-3'>
 									<InfoCard
 										label='Status'
-										value={statusLabel(asset.status)}
+										value={getStatusLabel(asset.status)}
 									/>
 									<InfoCard
 										label='Serial Number'
@@ -369,10 +431,12 @@ export default function AssetDetailsPage({
 										value={asset.lastServiceDate || '—'}
 									/>
 
-									{/* policy dinâmica */}
+									{/* planos de manutenção */}
 									<InfoCard
-										label='Service Policy'
-										value={`Every ${intervalDays} days`}
+										label={
+											plans.length === 1 ? 'Service Policy' : 'Service Plans'
+										}
+										value={describeMaintenancePlans(plans, asset.meters)}
 									/>
 
 									{/* next service com badge */}
@@ -391,8 +455,32 @@ export default function AssetDetailsPage({
 												{nextBadge.label}
 											</Badge>
 										</div>
+										{nextService.task && plans.length > 1 && (
+											<p className='mt-1 text-xs text-muted-foreground'>
+												{nextService.task}
+											</p>
+										)}
 									</div>
 
+									{category && (
+										<>
+											<InfoCard
+												label='Category'
+												value={category.name}
+											/>
+											{category.fields.map((field) => (
+												<InfoCard
+													key={field.key}
+													label={field.label}
+													value={formatCustomFieldValue(
+														field,
+														asset.customFields?.[field.key]
+													)}
+												/>
+											))}
+										</>
+									)}
+
 									<InfoCard
 										label='Record Source'
 										value='Firestore'
@@ -428,6 +516,40 @@ export default function AssetDetailsPage({
 										</>
 									)}
 								</div>
+
+								{children.length > 0 && (
+									<div className='space-y-2'>
+										<p className='text-sm font-medium'>
+											Components ({children.length})
+										</p>
+										{children.map((child) => (
+											<Link
+												key={child.id}
+												href={`/equipments/${child.id}`}
+												className='flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm hover:bg-muted/50'
+											>
+												<span className='flex min-w-0 items-center gap-2'>
+													<span className='truncate font-medium'>
+														{child.name}
+													</span>
+													{child.archivedAt ? (
+														<Badge
+															variant='outline'
+															className='bg-muted text-muted-foreground'
+														>
+															Archived
+														</Badge>
+													) : (
+														<StatusBadge status={child.status} />
+													)}
+												</span>
+												<span className='text-xs text-muted-foreground'>
+													Next {getNextServiceDate(child) ?? '—'}
+												</span>
+											</Link>
+										))}
+									</div>
+								)}
 							</TabsContent>
 
 							<TabsContent
@@ -447,15 +569,91 @@ export default function AssetDetailsPage({
 										</Badge>
 									</div>
 									<p className='text-xs text-muted-foreground'>
-										Next service due is computed from the policy (last service +
-										interval).
+										Each plan is due its interval after the last service that
+										satisfied it (meter plans: the forecast date the meter
+										reaches its threshold). The earliest one is the asset&apos;s
+										next service.
 									</p>
+
+									<div className='space-y-1 pt-2'>
+										{plans.map((plan) => (
+											<div
+												key={plan.id}
+												className='flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm'
+											>
+												<span className='font-medium truncate'>
+													{plan.task}{' '}
+													<span className='text-xs text-muted-foreground'>
+														{describePlanTrigger(plan, asset.meters)}
+													</span>
+												</span>
+												<span className='text-xs text-muted-foreground'>
+													Last {plan.lastServiceDate || '—'} • Next{' '}
+													{plan.nextServiceDate || '—'}
+												</span>
+											</div>
+										))}
+									</div>
+
 									<div className='pt-2'>
-										<MaintenanceHistorySection equipmentId={asset.id} />
+										<MaintenanceHistorySection
+											equipmentId={asset.id}
+											plans={plans}
+										/>
 									</div>
 								</div>
 							</TabsContent>
 
+							<TabsContent
+								value='work-orders'
+								className='space-y-3'
+							>
+								<p className='text-sm text-muted-foreground'>
+									Planned work on this asset. Completing an order logs its
+									maintenance record.
+								</p>
+
+								<WorkOrdersSection
+									equipmentId={asset.id}
+									isArchived={isArchived}
+								/>
+							</TabsContent>
+
+							<TabsContent
+								value='meters'
+								className='space-y-3'
+							>
+								<p className='text-sm text-muted-foreground'>
+									Usage meters and their reading log. Plans that trigger on a
+									meter come due when it reaches the next threshold.
+								</p>
+
+								<MetersSection asset={asset} />
+							</TabsContent>
+
+							<TabsContent
+								value='downtime'
+								className='space-y-3'
+							>
+								<p className='text-sm text-muted-foreground'>
+									Every status change with how long the asset stayed there.
+								</p>
+
+								<StatusHistorySection equipmentId={asset.id} />
+							</TabsContent>
+
+							<TabsContent
+								value='custody'
+								className='space-y-3'
+							>
+								<p className='text-sm text-muted-foreground'>
+									Where the asset has been and which team held it. Location and
+									owner change through a transfer, never by editing.
+								</p>
+
+								<CustodySection asset={asset} />
+							</TabsContent>
+
 							<TabsContent
 								value='activity'
 								className='space-y-3'
@@ -489,6 +687,18 @@ export default function AssetDetailsPage({
 									/>
 								</div>
 							</TabsContent>
+
+							<TabsContent
+								value='history'
+								className='space-y-3'
+							>
+								<p className='text-sm text-muted-foreground'>
+									Every saved version of this asset. Pick two revisions to
+									compare, or a date to see the record as it was then.
+								</p>
+
+								<HistorySection asset={asset} />
+							</TabsContent>
 						</Tabs>
 					</CardContent>
 				</Card>
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+import {
+	getEquipmentChildren,
+	type ArchiveChildrenMode
+} from '@/data-access/equipments';
+import type { Equipment } from '@/types/equipment';
+
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+
+// also offered by the bulk archive
+export const ARCHIVE_CHILDREN_OPTIONS: Array<{
+	value: ArchiveChildrenMode;
+	label: string;
+	description: string;
+}> = [
+	{
+		value: 'archive',
+		label: 'Archive them too',
+		description: 'The whole subtree is archived with this asset.'
+	},
+	{
+		value: 'detach',
+		label: 'Move to top level',
+		description: 'Children stay in service without a parent.'
+	},
+	{
+		value: 'keep',
+		label: 'Keep linked',
+		description: 'Children stay in service under the archived asset.'
+	}
+];
+
+export default function ArchiveAssetDialog({
+	open,
+	asset,
+	isArchiving,
+	onConfirm,
+	onOpenChange
+}: {
+	open: boolean;
+	asset: Equipment;
+	isArchiving?: boolean;
+	onConfirm: (children: ArchiveChildrenMode) => void;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const [mode, setMode] = useState<ArchiveChildrenMode>('archive');
+
+	const { data: children = [], isLoading } = useQuery<Equipment[]>({
+		queryKey: ['equipments', asset.id, 'children'],
+		queryFn: () => getEquipmentChildren(asset.id),
+		enabled: open
+	});
+
+	const activeChildren = children.filter((c) => !c.archivedAt);
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={onOpenChange}
+		>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Archive {asset.name}?</DialogTitle>
+					<DialogDescription>
+						Archived assets are read-only and release their serial number.
+					</DialogDescription>
+				</DialogHeader>
+
+				{isLoading ? (
+					<Skeleton className='h-16 w-full' />
+				) : activeChildren.length > 0 ? (
+					<div className='space-y-2'>
+						<p className='text-sm'>
+							{activeChildren.length === 1
+								? 'This asset has 1 active child component:'
+								: `This asset has ${activeChildren.length} active child components:`}{' '}
+							<span className='text-muted-foreground'>
+								{activeChildren
+									.slice(0, 3)
+									.map((c) => c.name)
+									.join(', ')}
+								{activeChildren.length > 3 ? ', …' : ''}
+							</span>
+						</p>
+
+						{ARCHIVE_CHILDREN_OPTIONS.map((option) => (
+							<Button
+								key={option.value}
+								type='button'
+								variant={mode === option.value ? 'secondary' : 'outline'}
+								className='h-auto w-full flex-col items-start gap-0.5 py-2 text-left'
+								disabled={isArchiving}
+								onClick={() => setMode(option.value)}
+							>
+								<span className='text-sm font-medium'>{option.label}</span>
+								<span className='text-xs font-normal text-muted-foreground'>
+									{option.description}
+								</span>
+							</Button>
+						))}
+					</div>
+				) : null}
+
+				<DialogFooter className='gap-2'>
+					<Button
+						type='button'
+						variant='outline'
+						disabled={isArchiving}
+						onClick={() => onOpenChange(false)}
+					>
+						Cancel
+					</Button>
+					<Button
+						type='button'
+						variant='destructive'
+						disabled={isArchiving || isLoading}
+						onClick={() => onConfirm(activeChildren.length > 0 ? mode : 'keep')}
+					>
+						{isArchiving ? 'Archiving...' : 'Archive'}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
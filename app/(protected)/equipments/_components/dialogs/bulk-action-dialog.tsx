@@ -0,0 +1,656 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+import {
+	bulkUpdateEquipments,
+	type ArchiveChildrenMode,
+	type EquipmentBulkAction,
+	type EquipmentBulkResult
+} from '@/data-access/equipments';
+import {
+	EQUIPMENT_STATUSES,
+	getStatusLabel,
+	statusHasGuard,
+	type EquipmentStatusId
+} from '@/lib/equipment-status';
+import { DOWNTIME_REASON_LABEL } from '@/lib/downtime';
+import { useAuth } from '@/context/auth-context';
+import type { DowntimeReasonCode } from '@/types/downtime';
+import type { MaintenanceType } from '@/types/maintenance';
+import { ARCHIVE_CHILDREN_OPTIONS } from './archive-asset-dialog';
+import LocationPicker, {
+	type LocationPickerValue
+} from '../form/location-picker';
+import {
+	MAINTENANCE_CURRENCIES,
+	maintenanceRecordSchema,
+	toMaintenanceInput
+} from '../form/maintenance-schema';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+
+export type BulkActionType = EquipmentBulkAction['type'];
+
+// códigos lançados pelas escritas de um asset (ver bulkUpdateEquipments)
+function getBulkErrorMessage(code: string) {
+	if (code === 'CONFLICT') return 'Changed by someone else meanwhile';
+	if (code === 'NOT_FOUND') return 'Asset no longer exists';
+	if (code === 'SERIAL_ALREADY_EXISTS') {
+		return 'Another active asset uses its serial number';
+	}
+	if (code === 'INVALID_TRANSITION') {
+		return 'Status change not allowed from its current status';
+	}
+	if (code === 'REASON_REQUIRED') return 'A status reason is required';
+	if (code === 'OPEN_CORRECTIVE_WORK_ORDER') {
+		return 'Open corrective work orders block this status';
+	}
+	if (code === 'LOCATION_NOT_FOUND') return 'Location no longer exists';
+	if (code === 'ARCHIVE_CHILDREN_FAILED') {
+		return 'Archived, but some of its children were not updated';
+	}
+	return code;
+}
+
+function plural(count: number) {
+	return `${count} asset${count === 1 ? '' : 's'}`;
+}
+
+const TITLE: Record<BulkActionType, (noun: string) => string> = {
+	archive: (noun) => `Archive ${noun}`,
+	restore: (noun) => `Restore ${noun}`,
+	status: (noun) => `Change status of ${noun}`,
+	transfer: (noun) => `Transfer ${noun}`,
+	maintenance: (noun) => `Log maintenance on ${noun}`
+};
+
+const DESCRIPTION: Record<BulkActionType, string> = {
+	archive: 'Each asset is archived on its own, with its event and revision.',
+	restore:
+		'Assets whose serial number was taken by another active asset are reported and stay archived.',
+	status:
+		'Every asset goes through the same status rules as an edit. Archived assets are skipped.',
+	transfer:
+		'Leave a field empty to keep each asset’s current value. Each transfer is kept in its custody log; archived assets are skipped.',
+	maintenance:
+		'One record is logged per asset, with the costs below each. Archived assets are skipped.'
+};
+
+export default function BulkActionDialog({
+	open,
+	action,
+	count,
+	resolveIds,
+	getAssetName,
+	onDone,
+	onOpenChange
+}: {
+	open: boolean;
+	action: BulkActionType;
+	// assets selecionados (ou todos os do filtro)
+	count: number;
+	resolveIds: () => Promise<string[]>;
+	getAssetName: (id: string) => string | undefined;
+	// after a run, even a partial one
+	onDone: () => void;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const { user } = useAuth();
+	const today = format(new Date(), 'yyyy-MM-dd');
+
+	const [status, setStatus] = useState<EquipmentStatusId>('active');
+	// what happens to the active children of each archived asset
+	const [childrenMode, setChildrenMode] =
+		useState<ArchiveChildrenMode>('archive');
+	const [reasonCode, setReasonCode] = useState('');
+	const [reasonNote, setReasonNote] = useState('');
+
+	const [location, setLocation] = useState<LocationPickerValue>({
+		locationId: '',
+		location: ''
+	});
+	const [owner, setOwner] = useState('');
+	const [effectiveDate, setEffectiveDate] = useState(today);
+	const [requestedBy, setRequestedBy] = useState('');
+	const [approvedBy, setApprovedBy] = useState('');
+	const [notes, setNotes] = useState('');
+
+	const [maintenance, setMaintenance] = useState({
+		date: today,
+		type: 'preventive' as MaintenanceType,
+		allPlans: true,
+		technician: '',
+		vendor: '',
+		laborHours: '',
+		laborCost: '',
+		currency: MAINTENANCE_CURRENCIES[0] as string
+	});
+
+	const [progress, setProgress] = useState<{
+		done: number;
+		total: number;
+	} | null>(null);
+	const [result, setResult] = useState<EquipmentBulkResult | null>(null);
+
+	useEffect(() => {
+		if (!open) return;
+		setResult(null);
+		setProgress(null);
+		setChildrenMode('archive');
+		setReasonCode('');
+		setReasonNote('');
+		setLocation({ locationId: '', location: '' });
+		setOwner('');
+		setRequestedBy('');
+		setApprovedBy(user?.email ?? '');
+		setNotes('');
+	}, [open, action, user?.email]);
+
+	const maintenanceParse = maintenanceRecordSchema.safeParse({
+		...maintenance,
+		notes,
+		planIds: [],
+		parts: []
+	});
+
+	const buildAction = (): EquipmentBulkAction | string => {
+		if (action === 'archive') {
+			return { type: 'archive', children: childrenMode };
+		}
+		if (action === 'restore') return { type: 'restore' };
+
+		if (action === 'status') {
+			const reason = {
+				code: (reasonCode || undefined) as DowntimeReasonCode | undefined,
+				note: reasonNote.trim() || undefined
+			};
+			if (
+				statusHasGuard(status, 'reason_required') &&
+				!reason.code &&
+				!reason.note
+			) {
+				return `A reason is required to move to ${getStatusLabel(status)}`;
+			}
+			return { type: 'status', status, reason };
+		}
+
+		if (action === 'transfer') {
+			if (!location.locationId && !owner.trim()) {
+				return 'Pick a new location or owner';
+			}
+			if (!effectiveDate) return 'Effective date is required';
+			if (!requestedBy.trim()) return 'Who requested the transfer?';
+			if (!approvedBy.trim()) return 'Who approved the transfer?';
+			return {
+				type: 'transfer',
+				transfer: {
+					toLocationId: location.locationId || undefined,
+					toOwner: owner.trim() || undefined,
+					effectiveDate,
+					requestedBy: requestedBy.trim(),
+					approvedBy: approvedBy.trim(),
+					notes: notes.trim() || undefined
+				}
+			};
+		}
+
+		if (!maintenanceParse.success) {
+			return maintenanceParse.error.issues[0]?.message ?? 'Invalid record';
+		}
+		return {
+			type: 'maintenance',
+			record: toMaintenanceInput(maintenanceParse.data),
+			allPlans: maintenance.allPlans
+		};
+	};
+
+	const built = buildAction();
+	const validationError = typeof built === 'string' ? built : null;
+
+	const runMutation = useMutation({
+		mutationFn: async (bulkAction: EquipmentBulkAction) => {
+			if (!user) throw new Error('Not authenticated');
+
+			const ids = await resolveIds();
+			setProgress({ done: 0, total: ids.length });
+			return bulkUpdateEquipments(
+				ids,
+				bulkAction,
+				{ uid: user.uid, email: user.email },
+				{ onProgress: (done, total) => setProgress({ done, total }) }
+			);
+		},
+		onSuccess: (data) => {
+			setResult(data);
+			onDone();
+			if (data.failed.length > 0) {
+				toast.error(`${plural(data.failed.length)} failed`);
+			} else {
+				toast.success(`${plural(data.updated)} updated`);
+			}
+		},
+		onError: () => toast.error('Bulk action failed')
+	});
+
+	const isRunning = runMutation.isPending;
+	// a seleção é limpa ao terminar; o total da execução fica
+	const noun = plural(progress?.total ?? count);
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={(next) => {
+				if (!isRunning) onOpenChange(next);
+			}}
+		>
+			<DialogContent className='max-w-xl'>
+				<DialogHeader>
+					<DialogTitle>{TITLE[action](noun)}</DialogTitle>
+					<DialogDescription>{DESCRIPTION[action]}</DialogDescription>
+				</DialogHeader>
+
+				{result ? (
+					<div className='space-y-3'>
+						<p className='text-sm'>
+							{result.updated} updated
+							{result.skipped > 0 && ` • ${result.skipped} skipped`}
+							{result.failed.length > 0 && ` • ${result.failed.length} failed`}
+						</p>
+						{result.skipped > 0 && (
+							<p className='text-xs text-muted-foreground'>
+								Skipped assets were archived or already in the requested state.
+							</p>
+						)}
+						{result.failed.length > 0 && (
+							<ul className='max-h-60 space-y-1 overflow-y-auto text-sm'>
+								{result.failed.map((f) => (
+									<li key={f.equipmentId}>
+										<span className='font-medium'>
+											{getAssetName(f.equipmentId) ?? f.equipmentId}
+										</span>
+										: {getBulkErrorMessage(f.error)}
+									</li>
+								))}
+							</ul>
+						)}
+					</div>
+				) : (
+					<div className='space-y-4'>
+						{action === 'archive' && (
+							<div className='space-y-2'>
+								<Label>Child components of these assets</Label>
+								{ARCHIVE_CHILDREN_OPTIONS.map((option) => (
+									<Button
+										key={option.value}
+										type='button'
+										variant={
+											childrenMode === option.value ? 'secondary' : 'outline'
+										}
+										className='h-auto w-full flex-col items-start gap-0.5 py-2 text-left'
+										disabled={isRunning}
+										onClick={() => setChildrenMode(option.value)}
+									>
+										<span className='text-sm font-medium'>{option.label}</span>
+										<span className='text-xs font-normal text-muted-foreground'>
+											{option.description}
+										</span>
+									</Button>
+								))}
+							</div>
+						)}
+
+						{action === 'status' && (
+							<>
+								<div className='space-y-2'>
+									<Label>New status</Label>
+									<Select
+										value={status}
+										disabled={isRunning}
+										onValueChange={(v) => setStatus(v as EquipmentStatusId)}
+									>
+										<SelectTrigger>
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											{EQUIPMENT_STATUSES.map((s) => (
+												<SelectItem
+													key={s}
+													value={s}
+												>
+													{getStatusLabel(s)}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								</div>
+
+								<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+									<div className='space-y-2'>
+										<Label>Reason</Label>
+										<Select
+											value={reasonCode || 'none'}
+											disabled={isRunning}
+											onValueChange={(v) =>
+												setReasonCode(v === 'none' ? '' : v)
+											}
+										>
+											<SelectTrigger>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value='none'>No reason</SelectItem>
+												{Object.entries(DOWNTIME_REASON_LABEL).map(
+													([code, label]) => (
+														<SelectItem
+															key={code}
+															value={code}
+														>
+															{label}
+														</SelectItem>
+													)
+												)}
+											</SelectContent>
+										</Select>
+									</div>
+									<div className='space-y-2'>
+										<Label htmlFor='bulk-reason-note'>Note</Label>
+										<Input
+											id='bulk-reason-note'
+											disabled={isRunning}
+											value={reasonNote}
+											onChange={(e) => setReasonNote(e.target.value)}
+										/>
+									</div>
+								</div>
+							</>
+						)}
+
+						{action === 'transfer' && (
+							<>
+								<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+									<div className='space-y-2'>
+										<Label>New location</Label>
+										<LocationPicker
+											value={location}
+											disabled={isRunning}
+											onChange={setLocation}
+										/>
+									</div>
+									<div className='space-y-2'>
+										<Label htmlFor='bulk-owner'>New owner</Label>
+										<Input
+											id='bulk-owner'
+											placeholder='e.g. Operations Team'
+											disabled={isRunning}
+											value={owner}
+											onChange={(e) => setOwner(e.target.value)}
+										/>
+									</div>
+								</div>
+
+								<div className='grid grid-cols-1 gap-4 sm:grid-cols-3'>
+									<div className='space-y-2'>
+										<Label htmlFor='bulk-effective-date'>Effective date</Label>
+										<Input
+											id='bulk-effective-date'
+											type='date'
+											disabled={isRunning}
+											value={effectiveDate}
+											onChange={(e) => setEffectiveDate(e.target.value)}
+										/>
+									</div>
+									<div className='space-y-2'>
+										<Label htmlFor='bulk-requested-by'>Requested by</Label>
+										<Input
+											id='bulk-requested-by'
+											placeholder='e.g. jane@company.com'
+											disabled={isRunning}
+											value={requestedBy}
+											onChange={(e) => setRequestedBy(e.target.value)}
+										/>
+									</div>
+									<div className='space-y-2'>
+										<Label htmlFor='bulk-approved-by'>Approved by</Label>
+										<Input
+											id='bulk-approved-by'
+											disabled={isRunning}
+											value={approvedBy}
+											onChange={(e) => setApprovedBy(e.target.value)}
+										/>
+									</div>
+								</div>
+							</>
+						)}
+
+						{action === 'maintenance' && (
+							<>
+								<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+									<div className='space-y-2'>
+										<Label htmlFor='bulk-maintenance-date'>Date</Label>
+										<Input
+											id='bulk-maintenance-date'
+											type='date'
+											disabled={isRunning}
+											value={maintenance.date}
+											onChange={(e) =>
+												setMaintenance((prev) => ({
+													...prev,
+													date: e.target.value
+												}))
+											}
+										/>
+									</div>
+									<div className='space-y-2'>
+										<Label>Type</Label>
+										<Select
+											value={maintenance.type}
+											disabled={isRunning}
+											onValueChange={(v) =>
+												setMaintenance((prev) => ({
+													...prev,
+													type: v as MaintenanceType,
+													// corretiva não conta como serviço dos planos
+													allPlans: v === 'preventive'
+												}))
+											}
+										>
+											<SelectTrigger>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value='preventive'>Preventive</SelectItem>
+												<SelectItem value='corrective'>Corrective</SelectItem>
+											</SelectContent>
+										</Select>
+									</div>
+								</div>
+
+								<div className='flex items-center justify-between gap-4'>
+									<Label htmlFor='bulk-all-plans'>
+										Counts as a service of every maintenance plan
+									</Label>
+									<Switch
+										id='bulk-all-plans'
+										disabled={isRunning}
+										checked={maintenance.allPlans}
+										onCheckedChange={(checked) =>
+											setMaintenance((prev) => ({ ...prev, allPlans: checked }))
+										}
+									/>
+								</div>
+
+								<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+									<div className='space-y-2'>
+										<Label htmlFor='bulk-technician'>Technician</Label>
+										<Input
+											id='bulk-technician'
+											disabled={isRunning}
+											value={maintenance.technician}
+											onChange={(e) =>
+												setMaintenance((prev) => ({
+													...prev,
+													technician: e.target.value
+												}))
+											}
+										/>
+									</div>
+									<div className='space-y-2'>
+										<Label htmlFor='bulk-vendor'>Vendor</Label>
+										<Input
+											id='bulk-vendor'
+											disabled={isRunning}
+											value={maintenance.vendor}
+											onChange={(e) =>
+												setMaintenance((prev) => ({
+													...prev,
+													vendor: e.target.value
+												}))
+											}
+										/>
+									</div>
+								</div>
+
+								<div className='grid grid-cols-1 gap-4 sm:grid-cols-3'>
+									<div className='space-y-2'>
+										<Label htmlFor='bulk-labor-hours'>Labor hours</Label>
+										<Input
+											id='bulk-labor-hours'
+											type='number'
+											min={0}
+											step='0.25'
+											disabled={isRunning}
+											value={maintenance.laborHours}
+											onChange={(e) =>
+												setMaintenance((prev) => ({
+													...prev,
+													laborHours: e.target.value
+												}))
+											}
+										/>
+									</div>
+									<div className='space-y-2'>
+										<Label htmlFor='bulk-labor-cost'>Labor cost</Label>
+										<Input
+											id='bulk-labor-cost'
+											type='number'
+											min={0}
+											step='0.01'
+											disabled={isRunning}
+											value={maintenance.laborCost}
+											onChange={(e) =>
+												setMaintenance((prev) => ({
+													...prev,
+													laborCost: e.target.value
+												}))
+											}
+										/>
+									</div>
+									<div className='space-y-2'>
+										<Label>Currency</Label>
+										<Select
+											value={maintenance.currency}
+											disabled={isRunning}
+											onValueChange={(v) =>
+												setMaintenance((prev) => ({ ...prev, currency: v }))
+											}
+										>
+											<SelectTrigger>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												{MAINTENANCE_CURRENCIES.map((c) => (
+													<SelectItem
+														key={c}
+														value={c}
+													>
+														{c}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</div>
+								</div>
+							</>
+						)}
+
+						{(action === 'transfer' || action === 'maintenance') && (
+							<div className='space-y-2'>
+								<Label htmlFor='bulk-notes'>Notes (optional)</Label>
+								<Input
+									id='bulk-notes'
+									disabled={isRunning}
+									value={notes}
+									onChange={(e) => setNotes(e.target.value)}
+								/>
+							</div>
+						)}
+
+						{progress && (
+							<p className='text-xs text-muted-foreground'>
+								Updating {progress.done}/{progress.total}...
+							</p>
+						)}
+
+						{validationError && (
+							<p className='text-xs text-muted-foreground'>{validationError}</p>
+						)}
+					</div>
+				)}
+
+				<DialogFooter className='gap-2'>
+					{result ? (
+						<Button
+							type='button'
+							onClick={() => onOpenChange(false)}
+						>
+							Close
+						</Button>
+					) : (
+						<>
+							<Button
+								type='button'
+								variant='outline'
+								disabled={isRunning}
+								onClick={() => onOpenChange(false)}
+							>
+								Cancel
+							</Button>
+							<Button
+								type='button'
+								variant={action === 'archive' ? 'destructive' : 'default'}
+								disabled={isRunning || typeof built === 'string'}
+								onClick={() => {
+									if (typeof built !== 'string') runMutation.mutate(built);
+								}}
+							>
+								{isRunning ? 'Working...' : TITLE[action](noun)}
+							</Button>
+						</>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
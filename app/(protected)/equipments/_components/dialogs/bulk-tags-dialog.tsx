@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import TagInput from '../form/tag-input';
+
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+
+export type BulkTagsMode = 'add' | 'remove';
+
+export default function BulkTagsDialog({
+	open,
+	mode,
+	count,
+	suggestions,
+	isSaving,
+	onConfirm,
+	onOpenChange
+}: {
+	open: boolean;
+	mode: BulkTagsMode;
+	// assets selecionados
+	count: number;
+	suggestions: string[];
+	isSaving?: boolean;
+	onConfirm: (tags: string[]) => void;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const [tags, setTags] = useState<string[]>([]);
+
+	useEffect(() => {
+		if (open) setTags([]);
+	}, [open]);
+
+	const noun = `${count} asset${count === 1 ? '' : 's'}`;
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={onOpenChange}
+		>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>
+						{mode === 'add' ? `Tag ${noun}` : `Remove tags from ${noun}`}
+					</DialogTitle>
+					<DialogDescription>
+						{mode === 'add'
+							? 'Tags are added to the ones each asset already has.'
+							: 'Only the tags listed here are removed.'}{' '}
+						Archived assets are skipped.
+					</DialogDescription>
+				</DialogHeader>
+
+				<TagInput
+					value={tags}
+					onChange={setTags}
+					suggestions={suggestions}
+					disabled={isSaving}
+				/>
+
+				<DialogFooter className='gap-2'>
+					<Button
+						type='button'
+						variant='outline'
+						disabled={isSaving}
+						onClick={() => onOpenChange(false)}
+					>
+						Cancel
+					</Button>
+					<Button
+						type='button'
+						disabled={isSaving || tags.length === 0}
+						onClick={() => onConfirm(tags)}
+					>
+						{isSaving
+							? 'Saving...'
+							: mode === 'add'
+								? 'Add tags'
+								: 'Remove tags'}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
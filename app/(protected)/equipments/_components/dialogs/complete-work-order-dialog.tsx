@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+
+import { getEquipmentById } from '@/data-access/equipments';
+import { resolveMaintenancePlans } from '@/lib/maintenance-plans';
+import type { Equipment } from '@/types/equipment';
+import type { MaintenanceRecordInput } from '@/types/maintenance';
+import type { WorkOrder } from '@/types/work-orders';
+import MaintenanceCostFields from '../form/maintenance-cost-fields';
+import MaintenancePlanPicker from '../form/maintenance-plan-picker';
+import {
+	maintenanceRecordSchema,
+	toMaintenanceFormValues,
+	toMaintenanceInput,
+	type MaintenanceFormValues
+} from '../form/maintenance-schema';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage
+} from '@/components/ui/form';
+
+function toFormValues(order: WorkOrder | null): MaintenanceFormValues {
+	return toMaintenanceFormValues({
+		date: format(new Date(), 'yyyy-MM-dd'),
+		type: order?.type,
+		notes: order?.title,
+		planIds: order?.planId ? [order.planId] : []
+	});
+}
+
+export default function CompleteWorkOrderDialog({
+	order,
+	isSaving,
+	onSubmit,
+	onOpenChange
+}: {
+	// null = fechado
+	order: WorkOrder | null;
+	isSaving?: boolean;
+	onSubmit: (data: MaintenanceRecordInput) => void;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const form = useForm<MaintenanceFormValues>({
+		resolver: zodResolver(maintenanceRecordSchema),
+		defaultValues: toFormValues(order),
+		mode: 'onSubmit'
+	});
+
+	useEffect(() => {
+		form.reset(toFormValues(order));
+	}, [order, form]);
+
+	// plans to pick from; same key as the asset page, so usually cached
+	const { data: asset } = useQuery<Equipment | undefined>({
+		queryKey: ['equipments', order?.equipmentId],
+		queryFn: () => getEquipmentById(order!.equipmentId),
+		enabled: Boolean(order?.equipmentId)
+	});
+
+	return (
+		<Dialog
+			open={order !== null}
+			onOpenChange={onOpenChange}
+		>
+			<DialogContent className='max-w-2xl max-h-[90vh] overflow-y-auto'>
+				<DialogHeader>
+					<DialogTitle>Complete work order</DialogTitle>
+					<DialogDescription>
+						{order
+							? `Logs a ${order.type} maintenance record on ${order.equipmentName} and updates its service dates.`
+							: null}
+					</DialogDescription>
+				</DialogHeader>
+
+				<Form {...form}>
+					<form
+						onSubmit={form.handleSubmit((v) =>
+							onSubmit(toMaintenanceInput(maintenanceRecordSchema.parse(v)))
+						)}
+						className='space-y-4'
+					>
+						<FormField
+							control={form.control}
+							name='date'
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Service date</FormLabel>
+									<FormControl>
+										<Input
+											type='date'
+											disabled={isSaving}
+											{...field}
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+
+						<FormField
+							control={form.control}
+							name='notes'
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Notes (optional)</FormLabel>
+									<FormControl>
+										<Input
+											disabled={isSaving}
+											{...field}
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+
+						{asset && (
+							<MaintenancePlanPicker
+								plans={resolveMaintenancePlans(asset)}
+								disabled={isSaving}
+							/>
+						)}
+
+						<MaintenanceCostFields disabled={isSaving} />
+
+						<DialogFooter className='gap-2'>
+							<Button
+								type='button'
+								variant='outline'
+								disabled={isSaving}
+								onClick={() => onOpenChange(false)}
+							>
+								Cancel
+							</Button>
+							<Button
+								type='submit'
+								disabled={isSaving}
+							>
+								{isSaving ? 'Saving...' : 'Complete and log'}
+							</Button>
+						</DialogFooter>
+					</form>
+				</Form>
+			</DialogContent>
+		</Dialog>
+	);
+}
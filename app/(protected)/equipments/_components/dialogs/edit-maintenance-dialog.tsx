@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect } from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import type {
+	MaintenanceRecord,
+	MaintenanceRecordInput
+} from '@/types/maintenance';
+import type { MaintenancePlan } from '@/types/equipment';
+import MaintenanceCostFields from '../form/maintenance-cost-fields';
+import MaintenancePlanPicker from '../form/maintenance-plan-picker';
+import {
+	maintenanceRecordSchema,
+	toMaintenanceFormValues,
+	toMaintenanceInput
+} from '../form/maintenance-schema';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage
+} from '@/components/ui/form';
+
+const schema = maintenanceRecordSchema.extend({
+	reason: z.string().trim().min(1, 'Reason is required')
+});
+
+type FormValues = z.input<typeof schema>;
+
+function toFormValues(record: MaintenanceRecord | null): FormValues {
+	return { ...toMaintenanceFormValues(record), reason: '' };
+}
+
+export default function EditMaintenanceDialog({
+	record,
+	plans,
+	isSaving,
+	onSubmit,
+	onOpenChange
+}: {
+	// null = fechado
+	record: MaintenanceRecord | null;
+	plans: MaintenancePlan[];
+	isSaving?: boolean;
+	onSubmit: (data: MaintenanceRecordInput, reason: string) => void;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const form = useForm<FormValues>({
+		resolver: zodResolver(schema),
+		defaultValues: toFormValues(record),
+		mode: 'onSubmit'
+	});
+
+	useEffect(() => {
+		form.reset(toFormValues(record));
+	}, [record, form]);
+
+	return (
+		<Dialog
+			open={record !== null}
+			onOpenChange={onOpenChange}
+		>
+			<DialogContent className='max-w-2xl max-h-[90vh] overflow-y-auto'>
+				<DialogHeader>
+					<DialogTitle>Edit maintenance record</DialogTitle>
+					<DialogDescription>
+						The asset&apos;s last and next service dates are recalculated from
+						the latest record after saving.
+					</DialogDescription>
+				</DialogHeader>
+
+				<Form {...form}>
+					<form
+						onSubmit={form.handleSubmit((v) => {
+							const parsed = schema.parse(v);
+							onSubmit(toMaintenanceInput(parsed), parsed.reason);
+						})}
+						className='space-y-4'
+					>
+						<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+							<FormField
+								control={form.control}
+								name='date'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Date</FormLabel>
+										<FormControl>
+											<Input
+												type='date'
+												disabled={isSaving}
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name='type'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Type</FormLabel>
+										<Select
+											disabled={isSaving}
+											value={field.value}
+											onValueChange={field.onChange}
+										>
+											<FormControl>
+												<SelectTrigger>
+													<SelectValue placeholder='Select type' />
+												</SelectTrigger>
+											</FormControl>
+											<SelectContent>
+												<SelectItem value='preventive'>Preventive</SelectItem>
+												<SelectItem value='corrective'>Corrective</SelectItem>
+											</SelectContent>
+										</Select>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+
+						<FormField
+							control={form.control}
+							name='notes'
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Notes (optional)</FormLabel>
+									<FormControl>
+										<Input
+											disabled={isSaving}
+											{...field}
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+
+						<MaintenancePlanPicker
+							plans={plans}
+							disabled={isSaving}
+						/>
+
+						<MaintenanceCostFields disabled={isSaving} />
+
+						<FormField
+							control={form.control}
+							name='reason'
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Reason for change</FormLabel>
+									<FormControl>
+										<Input
+											disabled={isSaving}
+											placeholder='e.g. Date was entered as 2025 instead of 2024'
+											{...field}
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+
+						<DialogFooter className='gap-2'>
+							<Button
+								type='button'
+								variant='outline'
+								disabled={isSaving}
+								onClick={() => onOpenChange(false)}
+							>
+								Cancel
+							</Button>
+							<Button
+								type='submit'
+								disabled={isSaving}
+							>
+								{isSaving ? 'Saving...' : 'Save changes'}
+							</Button>
+						</DialogFooter>
+					</form>
+				</Form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,292 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+import type { Equipment } from '@/types/equipment';
+import type { AssetCategory } from '@/types/categories';
+import type { MaintenanceRecord } from '@/types/maintenance';
+import type { EquipmentEvent } from '@/types/events';
+import {
+	getEquipmentEvents,
+	getMaintenanceHistory
+} from '@/data-access/equipments';
+import {
+	buildExportFiles,
+	getBrowserTimeZone,
+	type EquipmentExportData,
+	type EquipmentExportOptions,
+	type ExportFile,
+	type ExportFormat
+} from '@/lib/equipment-export';
+import { isValidTimeZone } from '@/lib/locations';
+import { useLocalStorage } from '@/hooks/use-local-storage';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+
+const FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string }> = [
+	{ value: 'csv', label: 'CSV' },
+	{ value: 'xlsx', label: 'Excel (XLSX)' },
+	{ value: 'json', label: 'JSON' }
+];
+
+// assets whose history is read at the same time
+const HISTORY_CONCURRENCY = 10;
+
+async function loadExportData(
+	assets: Equipment[],
+	options: EquipmentExportOptions,
+	onProgress: (done: number, total: number) => void
+): Promise<EquipmentExportData> {
+	const maintenance = new Map<string, MaintenanceRecord[]>();
+	const events = new Map<string, EquipmentEvent[]>();
+
+	if (options.includeMaintenance || options.includeEvents) {
+		for (let i = 0; i < assets.length; i += HISTORY_CONCURRENCY) {
+			await Promise.all(
+				assets.slice(i, i + HISTORY_CONCURRENCY).map(async (eq) => {
+					const [records, log] = await Promise.all([
+						options.includeMaintenance ? getMaintenanceHistory(eq.id) : [],
+						options.includeEvents ? getEquipmentEvents(eq.id, null) : []
+					]);
+					maintenance.set(eq.id, records);
+					events.set(eq.id, log);
+				})
+			);
+			onProgress(
+				Math.min(i + HISTORY_CONCURRENCY, assets.length),
+				assets.length
+			);
+		}
+	}
+
+	return { assets, maintenance, events };
+}
+
+function downloadFile(file: ExportFile) {
+	const url = URL.createObjectURL(file.blob);
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = file.fileName;
+	document.body.appendChild(link);
+	link.click();
+	link.remove();
+	// revogar na hora cancela o download em alguns browsers
+	setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+const TIME_ZONES =
+	typeof Intl.supportedValuesOf === 'function'
+		? Intl.supportedValuesOf('timeZone')
+		: [];
+
+export default function ExportDialog({
+	open,
+	count,
+	categories,
+	loadAssets,
+	onOpenChange
+}: {
+	open: boolean;
+	// assets que batem com a view/filtros atuais
+	count: number;
+	categories: AssetCategory[];
+	// every asset in the current view (all pages)
+	loadAssets: () => Promise<Equipment[]>;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const [options, setOptions] = useLocalStorage<EquipmentExportOptions>(
+		'assetops.equipments.export',
+		{
+			format: 'csv',
+			includeMaintenance: false,
+			includeEvents: false,
+			timeZone: ''
+		}
+	);
+	const timeZone = options.timeZone || getBrowserTimeZone();
+	const isTimeZoneValid = isValidTimeZone(timeZone);
+
+	const [progress, setProgress] = useState<{
+		done: number;
+		total: number;
+	} | null>(null);
+
+	const exportMutation = useMutation({
+		mutationFn: async () => {
+			const resolved = { ...options, timeZone };
+			const assets = await loadAssets();
+			const data = await loadExportData(assets, resolved, (done, total) =>
+				setProgress({ done, total })
+			);
+			const files = await buildExportFiles(
+				data,
+				categories,
+				resolved,
+				`assets-${format(new Date(), 'yyyy-MM-dd')}`
+			);
+			files.forEach(downloadFile);
+			return assets.length;
+		},
+		onSuccess: (exported) => {
+			toast.success(`Exported ${exported} asset${exported === 1 ? '' : 's'}`);
+			onOpenChange(false);
+		},
+		onError: () => toast.error('Export failed'),
+		onSettled: () => setProgress(null)
+	});
+
+	const isExporting = exportMutation.isPending;
+	const hasHistory = options.includeMaintenance || options.includeEvents;
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={(next) => {
+				if (!isExporting) onOpenChange(next);
+			}}
+		>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Export assets</DialogTitle>
+					<DialogDescription>
+						Exports the {count} asset{count === 1 ? '' : 's'} in the current
+						view, with its search and filters, across all pages.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className='space-y-4'>
+					<div className='space-y-2'>
+						<Label>Format</Label>
+						<Select
+							value={options.format}
+							disabled={isExporting}
+							onValueChange={(v) =>
+								setOptions((prev) => ({ ...prev, format: v as ExportFormat }))
+							}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{FORMAT_OPTIONS.map((o) => (
+									<SelectItem
+										key={o.value}
+										value={o.value}
+									>
+										{o.label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+
+					<div className='flex items-center justify-between gap-4'>
+						<Label htmlFor='export-maintenance'>Maintenance history</Label>
+						<Switch
+							id='export-maintenance'
+							disabled={isExporting}
+							checked={options.includeMaintenance}
+							onCheckedChange={(checked) =>
+								setOptions((prev) => ({ ...prev, includeMaintenance: checked }))
+							}
+						/>
+					</div>
+
+					<div className='flex items-center justify-between gap-4'>
+						<Label htmlFor='export-events'>Event log</Label>
+						<Switch
+							id='export-events'
+							disabled={isExporting}
+							checked={options.includeEvents}
+							onCheckedChange={(checked) =>
+								setOptions((prev) => ({ ...prev, includeEvents: checked }))
+							}
+						/>
+					</div>
+
+					{hasHistory && (
+						<p className='text-xs text-muted-foreground'>
+							{options.format === 'json'
+								? 'Nested under each asset.'
+								: options.format === 'xlsx'
+									? 'Added as extra sheets, one row per record.'
+									: 'Downloaded as extra CSV files, one row per record.'}
+						</p>
+					)}
+
+					<div className='space-y-2'>
+						<Label htmlFor='export-timezone'>Timezone</Label>
+						<Input
+							id='export-timezone'
+							list='export-timezones'
+							placeholder={getBrowserTimeZone()}
+							disabled={isExporting}
+							value={options.timeZone}
+							onChange={(e) =>
+								setOptions((prev) => ({ ...prev, timeZone: e.target.value }))
+							}
+						/>
+						<datalist id='export-timezones'>
+							{TIME_ZONES.map((tz) => (
+								<option
+									key={tz}
+									value={tz}
+								/>
+							))}
+						</datalist>
+						<p className='text-xs text-muted-foreground'>
+							{isTimeZoneValid
+								? 'Timestamps are written as ISO 8601 in this timezone. Calendar dates (purchase, service) are kept as is.'
+								: 'Use an IANA timezone, e.g. America/New_York'}
+						</p>
+					</div>
+
+					{progress && (
+						<p className='text-xs text-muted-foreground'>
+							Reading history {progress.done}/{progress.total}...
+						</p>
+					)}
+				</div>
+
+				<DialogFooter className='gap-2'>
+					<Button
+						type='button'
+						variant='outline'
+						disabled={isExporting}
+						onClick={() => onOpenChange(false)}
+					>
+						Cancel
+					</Button>
+					<Button
+						type='button'
+						disabled={isExporting || count === 0 || !isTimeZoneValid}
+						onClick={() => exportMutation.mutate()}
+					>
+						{isExporting ? 'Exporting...' : 'Export'}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
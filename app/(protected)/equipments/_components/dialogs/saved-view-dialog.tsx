@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import type { SavedViewVisibility } from '@/types/views';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+
+export type SavedViewDialogMode = 'create' | 'rename';
+
+export default function SavedViewDialog({
+	open,
+	mode,
+	initialName = '',
+	canShare,
+	isSaving,
+	onConfirm,
+	onOpenChange
+}: {
+	open: boolean;
+	mode: SavedViewDialogMode;
+	initialName?: string;
+	// admins publish views for the whole team
+	canShare: boolean;
+	isSaving?: boolean;
+	onConfirm: (values: {
+		name: string;
+		visibility: SavedViewVisibility;
+	}) => void;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const [name, setName] = useState(initialName);
+	const [isShared, setIsShared] = useState(false);
+
+	useEffect(() => {
+		if (!open) return;
+		setName(initialName);
+		setIsShared(false);
+	}, [open, initialName]);
+
+	const trimmed = name.trim();
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={(next) => {
+				if (!isSaving) onOpenChange(next);
+			}}
+		>
+			<DialogContent>
+				<form
+					className='space-y-4'
+					onSubmit={(e) => {
+						e.preventDefault();
+						if (!trimmed) return;
+						onConfirm({
+							name: trimmed,
+							visibility: isShared ? 'shared' : 'personal'
+						});
+					}}
+				>
+					<DialogHeader>
+						<DialogTitle>
+							{mode === 'create' ? 'Save view' : 'Rename view'}
+						</DialogTitle>
+						<DialogDescription>
+							{mode === 'create'
+								? 'Saves the current sort, filters, search and columns.'
+								: 'The view keeps its filters and columns.'}
+						</DialogDescription>
+					</DialogHeader>
+
+					<div className='space-y-2'>
+						<Label htmlFor='saved-view-name'>Name</Label>
+						<Input
+							id='saved-view-name'
+							autoFocus
+							maxLength={60}
+							disabled={isSaving}
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+						/>
+					</div>
+
+					{mode === 'create' && canShare && (
+						<div className='flex items-center justify-between gap-4'>
+							<div>
+								<Label htmlFor='saved-view-shared'>Share with the team</Label>
+								<p className='text-xs text-muted-foreground'>
+									Everyone sees shared views; only admins change them.
+								</p>
+							</div>
+							<Switch
+								id='saved-view-shared'
+								disabled={isSaving}
+								checked={isShared}
+								onCheckedChange={setIsShared}
+							/>
+						</div>
+					)}
+
+					<DialogFooter className='gap-2'>
+						<Button
+							type='button'
+							variant='outline'
+							disabled={isSaving}
+							onClick={() => onOpenChange(false)}
+						>
+							Cancel
+						</Button>
+						<Button
+							type='submit'
+							disabled={isSaving || !trimmed}
+						>
+							{isSaving ? 'Saving...' : 'Save'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
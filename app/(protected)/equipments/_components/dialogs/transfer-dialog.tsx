@@ -0,0 +1,268 @@
+'use client';
+
+import { useEffect } from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+
+import type { Equipment } from '@/types/equipment';
+import type { EquipmentTransferInput } from '@/types/transfers';
+import LocationPicker from '../form/location-picker';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage
+} from '@/components/ui/form';
+
+const schema = z.object({
+	toLocationId: z.string(),
+	toLocation: z.string(),
+	toOwner: z.string(),
+	effectiveDate: z.string().min(1, 'Effective date is required'),
+	requestedBy: z.string().trim().min(1, 'Who requested the transfer?'),
+	approvedBy: z.string().trim().min(1, 'Who approved the transfer?'),
+	notes: z.string().optional()
+});
+
+type FormValues = z.input<typeof schema>;
+
+// new location/owner picked before opening (table cells)
+export interface TransferDialogInitial {
+	toLocationId?: string;
+	toLocation?: string;
+	toOwner?: string;
+}
+
+function defaultValues(
+	asset: Equipment,
+	approvedBy?: string | null,
+	initial?: TransferDialogInitial
+): FormValues {
+	return {
+		toLocationId: initial?.toLocationId ?? asset.locationId ?? '',
+		toLocation: initial?.toLocation ?? asset.location ?? '',
+		toOwner: initial?.toOwner ?? asset.owner ?? '',
+		effectiveDate: format(new Date(), 'yyyy-MM-dd'),
+		requestedBy: '',
+		approvedBy: approvedBy ?? '',
+		notes: ''
+	};
+}
+
+export default function TransferDialog({
+	open,
+	asset,
+	approvedBy,
+	initial,
+	isSaving,
+	onSubmit,
+	onOpenChange
+}: {
+	open: boolean;
+	asset: Equipment;
+	initial?: TransferDialogInitial;
+	// padrão: quem está registrando
+	approvedBy?: string | null;
+	isSaving?: boolean;
+	onSubmit: (input: EquipmentTransferInput) => void;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const form = useForm<FormValues>({
+		resolver: zodResolver(
+			schema.refine(
+				(v) =>
+					v.toLocationId !== (asset.locationId ?? '') ||
+					v.toOwner.trim() !== (asset.owner?.trim() ?? ''),
+				{
+					path: ['toOwner'],
+					message: 'Pick a new location or owner'
+				}
+			)
+		),
+		defaultValues: defaultValues(asset, approvedBy, initial),
+		mode: 'onSubmit'
+	});
+
+	useEffect(() => {
+		if (open) form.reset(defaultValues(asset, approvedBy, initial));
+	}, [open, asset, approvedBy, initial, form]);
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={onOpenChange}
+		>
+			<DialogContent className='max-w-xl'>
+				<DialogHeader>
+					<DialogTitle>Transfer asset</DialogTitle>
+					<DialogDescription>
+						Move {asset.name} to another location or owning team. The transfer
+						is kept in the custody log.
+					</DialogDescription>
+				</DialogHeader>
+
+				<Form {...form}>
+					<form
+						onSubmit={form.handleSubmit((v) =>
+							onSubmit({
+								toLocationId: v.toLocationId,
+								toOwner: v.toOwner.trim(),
+								effectiveDate: v.effectiveDate,
+								requestedBy: v.requestedBy.trim(),
+								approvedBy: v.approvedBy.trim(),
+								notes: v.notes?.trim() || undefined
+							})
+						)}
+						className='space-y-4'
+					>
+						<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+							<FormField
+								control={form.control}
+								name='toLocationId'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>New location</FormLabel>
+										<LocationPicker
+											value={{
+												locationId: field.value,
+												location: form.getValues('toLocation')
+											}}
+											disabled={isSaving}
+											onChange={(next) => {
+												form.setValue('toLocation', next.location);
+												field.onChange(next.locationId);
+											}}
+										/>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name='toOwner'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>New owner</FormLabel>
+										<FormControl>
+											<Input
+												disabled={isSaving}
+												placeholder='e.g. Operations Team'
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+
+						<div className='grid grid-cols-1 gap-4 sm:grid-cols-3'>
+							<FormField
+								control={form.control}
+								name='effectiveDate'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Effective date</FormLabel>
+										<FormControl>
+											<Input
+												type='date'
+												disabled={isSaving}
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name='requestedBy'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Requested by</FormLabel>
+										<FormControl>
+											<Input
+												disabled={isSaving}
+												placeholder='e.g. jane@company.com'
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name='approvedBy'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Approved by</FormLabel>
+										<FormControl>
+											<Input
+												disabled={isSaving}
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+
+						<FormField
+							control={form.control}
+							name='notes'
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Notes (optional)</FormLabel>
+									<FormControl>
+										<Input
+											disabled={isSaving}
+											{...field}
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+
+						<DialogFooter className='gap-2'>
+							<Button
+								type='button'
+								variant='outline'
+								disabled={isSaving}
+								onClick={() => onOpenChange(false)}
+							>
+								Cancel
+							</Button>
+							<Button
+								type='submit'
+								disabled={isSaving}
+							>
+								{isSaving ? 'Saving...' : 'Record transfer'}
+							</Button>
+						</DialogFooter>
+					</form>
+				</Form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+
+import { diffEquipmentInput } from '@/data-access/equipments';
+import { resolveMaintenancePlans } from '@/lib/maintenance-plans';
+import type { Equipment, EquipmentInput } from '@/types/equipment';
+import { EQUIPMENT_FIELD_LABEL, formatFieldValue } from '../field-labels';
+
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+
+type Side = 'mine' | 'stored';
+
+function truncateId(value?: string) {
+	if (!value) return '—';
+	return `${value.slice(0, 6)}…${value.slice(-4)}`;
+}
+
+export default function UpdateConflictDialog({
+	open,
+	mine,
+	stored,
+	isSaving,
+	onSaveMerged,
+	onDiscardMine,
+	onOpenChange
+}: {
+	open: boolean;
+	mine: EquipmentInput;
+	stored: Equipment;
+	isSaving?: boolean;
+	onSaveMerged: (merged: EquipmentInput) => void;
+	onDiscardMine: () => void;
+	onOpenChange: (open: boolean) => void;
+}) {
+	// legacy docs have no plans stored; compare against the derived one
+	const storedInput = useMemo(
+		() => ({ ...stored, maintenancePlans: resolveMaintenancePlans(stored) }),
+		[stored]
+	);
+
+	const changes = useMemo(
+		() => diffEquipmentInput(storedInput, mine),
+		[storedInput, mine]
+	);
+
+	// por padrão mantém o que o usuário digitou
+	const [choices, setChoices] = useState<
+		Partial<Record<keyof EquipmentInput, Side>>
+	>({});
+
+	useEffect(() => {
+		setChoices({});
+	}, [stored, mine]);
+
+	function handleSaveMerged() {
+		const merged: EquipmentInput = { ...mine };
+
+		for (const { field } of changes) {
+			if (choices[field] === 'stored') {
+				(merged as Record<string, unknown>)[field] = storedInput[field];
+			}
+		}
+
+		onSaveMerged(merged);
+	}
+
+	const updatedBy =
+		String(stored.updatedByEmail ?? '').trim() || truncateId(stored.updatedBy);
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={onOpenChange}
+		>
+			<DialogContent className='max-w-2xl'>
+				<DialogHeader>
+					<DialogTitle>This asset was changed by someone else</DialogTitle>
+					<DialogDescription>
+						{updatedBy} saved a newer version while you were editing. Pick which
+						value to keep for each field that differs.
+					</DialogDescription>
+				</DialogHeader>
+
+				{changes.length === 0 ? (
+					<p className='text-sm text-muted-foreground'>
+						The stored asset already matches your changes.
+					</p>
+				) : (
+					<div className='space-y-2'>
+						<div className='grid grid-cols-[1fr_1fr_1fr] gap-2 px-1 text-xs text-muted-foreground'>
+							<span>Field</span>
+							<span>Your value</span>
+							<span>Stored value</span>
+						</div>
+
+						{changes.map(({ field, from, to }) => {
+							const side = choices[field] ?? 'mine';
+
+							return (
+								<div
+									key={field}
+									className='grid grid-cols-[1fr_1fr_1fr] items-center gap-2 rounded-md border px-3 py-2'
+								>
+									<span className='text-sm font-medium'>
+										{EQUIPMENT_FIELD_LABEL[field]}
+									</span>
+
+									<Button
+										type='button'
+										size='sm'
+										variant={side === 'mine' ? 'secondary' : 'ghost'}
+										className='justify-start truncate'
+										onClick={() =>
+											setChoices((prev) => ({ ...prev, [field]: 'mine' }))
+										}
+									>
+										{formatFieldValue(to)}
+									</Button>
+
+									<Button
+										type='button'
+										size='sm'
+										variant={side === 'stored' ? 'secondary' : 'ghost'}
+										className='justify-start truncate'
+										onClick={() =>
+											setChoices((prev) => ({ ...prev, [field]: 'stored' }))
+										}
+									>
+										{formatFieldValue(from)}
+									</Button>
+								</div>
+							);
+						})}
+					</div>
+				)}
+
+				<DialogFooter className='gap-2'>
+					<Button
+						type='button'
+						variant='outline'
+						disabled={isSaving}
+						onClick={onDiscardMine}
+					>
+						Discard my changes
+					</Button>
+					<Button
+						type='button'
+						disabled={isSaving}
+						onClick={handleSaveMerged}
+					>
+						{isSaving ? 'Saving...' : 'Save merged'}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import type { MaintenanceRecord } from '@/types/maintenance';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+
+export default function VoidMaintenanceDialog({
+	record,
+	isSaving,
+	onConfirm,
+	onOpenChange
+}: {
+	// null = fechado
+	record: MaintenanceRecord | null;
+	isSaving?: boolean;
+	onConfirm: (reason: string) => void;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const [reason, setReason] = useState('');
+
+	useEffect(() => {
+		setReason('');
+	}, [record]);
+
+	const canConfirm = reason.trim().length > 0 && !isSaving;
+
+	return (
+		<Dialog
+			open={record !== null}
+			onOpenChange={onOpenChange}
+		>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Void maintenance record</DialogTitle>
+					<DialogDescription>
+						{record
+							? `The ${record.type} record from ${record.date} stays in the history but no longer counts as a service.`
+							: null}
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className='space-y-2'>
+					<Label htmlFor='void-reason'>Reason</Label>
+					<Input
+						id='void-reason'
+						value={reason}
+						disabled={isSaving}
+						placeholder='e.g. Logged on the wrong asset'
+						onChange={(e) => setReason(e.target.value)}
+					/>
+				</div>
+
+				<DialogFooter className='gap-2'>
+					<Button
+						type='button'
+						variant='outline'
+						disabled={isSaving}
+						onClick={() => onOpenChange(false)}
+					>
+						Cancel
+					</Button>
+					<Button
+						type='button'
+						variant='destructive'
+						disabled={!canConfirm}
+						onClick={() => onConfirm(reason.trim())}
+					>
+						{isSaving ? 'Voiding...' : 'Void record'}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
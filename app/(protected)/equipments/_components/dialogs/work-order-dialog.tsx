@@ -0,0 +1,341 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+
+import { getEquipmentsList } from '@/data-access/equipments';
+import type { Equipment } from '@/types/equipment';
+import type { WorkOrderInput } from '@/types/work-orders';
+import { WORK_ORDER_PRIORITY_LABEL } from '../work-order-labels';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage
+} from '@/components/ui/form';
+
+const schema = z
+	.object({
+		equipmentId: z.string().min(1, 'Asset is required'),
+		title: z.string().trim().min(1, 'Title is required'),
+		description: z.string().optional(),
+		type: z.enum(['preventive', 'corrective']),
+		priority: z.enum(['low', 'medium', 'high', 'urgent']),
+		assignee: z.string().optional(),
+		dueDate: z.string().min(1, 'Due date is required'),
+		scheduledDate: z.string().optional()
+	})
+	.refine((v) => !v.scheduledDate || v.scheduledDate <= v.dueDate, {
+		path: ['scheduledDate'],
+		message: 'Scheduled date must be on or before the due date'
+	});
+
+type FormValues = z.input<typeof schema>;
+
+function defaultValues(equipmentId?: string): FormValues {
+	return {
+		equipmentId: equipmentId ?? '',
+		title: '',
+		description: '',
+		type: 'corrective',
+		priority: 'medium',
+		assignee: '',
+		dueDate: format(new Date(), 'yyyy-MM-dd'),
+		scheduledDate: ''
+	};
+}
+
+export default function WorkOrderDialog({
+	open,
+	equipmentId,
+	isSaving,
+	onSubmit,
+	onOpenChange
+}: {
+	open: boolean;
+	// fixo quando aberto a partir da página do ativo
+	equipmentId?: string;
+	isSaving?: boolean;
+	onSubmit: (input: WorkOrderInput) => void;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const form = useForm<FormValues>({
+		resolver: zodResolver(schema),
+		defaultValues: defaultValues(equipmentId),
+		mode: 'onSubmit'
+	});
+
+	useEffect(() => {
+		if (open) form.reset(defaultValues(equipmentId));
+	}, [open, equipmentId, form]);
+
+	const { data: assets = [] } = useQuery<Equipment[]>({
+		queryKey: ['equipments', 'list', 'work-order-picker'],
+		queryFn: () => getEquipmentsList({ sort: 'name_asc' }),
+		enabled: open && !equipmentId,
+		staleTime: 60_000
+	});
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={onOpenChange}
+		>
+			<DialogContent className='max-w-2xl max-h-[90vh] overflow-y-auto'>
+				<DialogHeader>
+					<DialogTitle>New work order</DialogTitle>
+					<DialogDescription>
+						Plan work on an asset. Completing it logs the maintenance record.
+					</DialogDescription>
+				</DialogHeader>
+
+				<Form {...form}>
+					<form
+						onSubmit={form.handleSubmit((v) => {
+							const parsed = schema.parse(v);
+							onSubmit({
+								equipmentId: parsed.equipmentId,
+								title: parsed.title,
+								description: parsed.description?.trim() || undefined,
+								type: parsed.type,
+								priority: parsed.priority,
+								assignee: parsed.assignee?.trim() || undefined,
+								dueDate: parsed.dueDate,
+								scheduledDate: parsed.scheduledDate || undefined
+							});
+						})}
+						className='space-y-4'
+					>
+						{!equipmentId && (
+							<FormField
+								control={form.control}
+								name='equipmentId'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Asset</FormLabel>
+										<Select
+											disabled={isSaving}
+											value={field.value}
+											onValueChange={field.onChange}
+										>
+											<FormControl>
+												<SelectTrigger>
+													<SelectValue placeholder='Select asset' />
+												</SelectTrigger>
+											</FormControl>
+											<SelectContent>
+												{assets.map((a) => (
+													<SelectItem
+														key={a.id}
+														value={a.id}
+													>
+														{a.name} • {a.serialNumber || '—'}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						)}
+
+						<FormField
+							control={form.control}
+							name='title'
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Title</FormLabel>
+									<FormControl>
+										<Input
+											disabled={isSaving}
+											placeholder='e.g. Replace hydraulic hose'
+											{...field}
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+
+						<div className='grid grid-cols-1 gap-4 sm:grid-cols-3'>
+							<FormField
+								control={form.control}
+								name='type'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Type</FormLabel>
+										<Select
+											disabled={isSaving}
+											value={field.value}
+											onValueChange={field.onChange}
+										>
+											<FormControl>
+												<SelectTrigger>
+													<SelectValue placeholder='Select type' />
+												</SelectTrigger>
+											</FormControl>
+											<SelectContent>
+												<SelectItem value='preventive'>Preventive</SelectItem>
+												<SelectItem value='corrective'>Corrective</SelectItem>
+											</SelectContent>
+										</Select>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name='priority'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Priority</FormLabel>
+										<Select
+											disabled={isSaving}
+											value={field.value}
+											onValueChange={field.onChange}
+										>
+											<FormControl>
+												<SelectTrigger>
+													<SelectValue placeholder='Select priority' />
+												</SelectTrigger>
+											</FormControl>
+											<SelectContent>
+												{Object.entries(WORK_ORDER_PRIORITY_LABEL).map(
+													([value, label]) => (
+														<SelectItem
+															key={value}
+															value={value}
+														>
+															{label}
+														</SelectItem>
+													)
+												)}
+											</SelectContent>
+										</Select>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name='assignee'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Assignee (optional)</FormLabel>
+										<FormControl>
+											<Input
+												disabled={isSaving}
+												placeholder='e.g. tech@company.com'
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+
+						<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+							<FormField
+								control={form.control}
+								name='dueDate'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Due date</FormLabel>
+										<FormControl>
+											<Input
+												type='date'
+												disabled={isSaving}
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name='scheduledDate'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Scheduled for (optional)</FormLabel>
+										<FormControl>
+											<Input
+												type='date'
+												disabled={isSaving}
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+
+						<FormField
+							control={form.control}
+							name='description'
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Description (optional)</FormLabel>
+									<FormControl>
+										<Input
+											disabled={isSaving}
+											{...field}
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+
+						<DialogFooter className='gap-2'>
+							<Button
+								type='button'
+								variant='outline'
+								disabled={isSaving}
+								onClick={() => onOpenChange(false)}
+							>
+								Cancel
+							</Button>
+							<Button
+								type='submit'
+								disabled={isSaving}
+							>
+								{isSaving ? 'Saving...' : 'Create work order'}
+							</Button>
+						</DialogFooter>
+					</form>
+				</Form>
+			</DialogContent>
+		</Dialog>
+	);
+}
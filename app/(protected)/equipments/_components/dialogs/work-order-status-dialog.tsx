@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import type { WorkOrder, WorkOrderStatus } from '@/types/work-orders';
+import {
+	WORK_ORDER_ACTION_LABEL,
+	WORK_ORDER_STATUS_LABEL
+} from '../work-order-labels';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+
+export type WorkOrderStatusChange = {
+	order: WorkOrder;
+	to: Exclude<WorkOrderStatus, 'completed'>;
+};
+
+// hold/cancel pedem motivo; schedule pede data
+function needsReason(to: WorkOrderStatus) {
+	return to === 'on_hold' || to === 'cancelled';
+}
+
+export default function WorkOrderStatusDialog({
+	change,
+	isSaving,
+	onConfirm,
+	onOpenChange
+}: {
+	// null = fechado
+	change: WorkOrderStatusChange | null;
+	isSaving?: boolean;
+	onConfirm: (options: { reason?: string; scheduledDate?: string }) => void;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const [reason, setReason] = useState('');
+	const [scheduledDate, setScheduledDate] = useState('');
+
+	useEffect(() => {
+		setReason('');
+		setScheduledDate(change?.order.scheduledDate ?? '');
+	}, [change]);
+
+	const to = change?.to;
+	const askReason = to ? needsReason(to) : false;
+	const askDate = to === 'scheduled';
+
+	const canConfirm =
+		!isSaving &&
+		(!askReason || reason.trim().length > 0) &&
+		(!askDate || scheduledDate.length > 0);
+
+	return (
+		<Dialog
+			open={change !== null}
+			onOpenChange={onOpenChange}
+		>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>{to ? WORK_ORDER_ACTION_LABEL[to] : null}</DialogTitle>
+					<DialogDescription>
+						{change
+							? `${change.order.title}: ${WORK_ORDER_STATUS_LABEL[change.order.status]} → ${WORK_ORDER_STATUS_LABEL[change.to]}`
+							: null}
+					</DialogDescription>
+				</DialogHeader>
+
+				{askDate && (
+					<div className='space-y-2'>
+						<Label htmlFor='work-order-scheduled'>Scheduled for</Label>
+						<Input
+							id='work-order-scheduled'
+							type='date'
+							value={scheduledDate}
+							disabled={isSaving}
+							onChange={(e) => setScheduledDate(e.target.value)}
+						/>
+					</div>
+				)}
+
+				<div className='space-y-2'>
+					<Label htmlFor='work-order-reason'>
+						{askReason ? 'Reason' : 'Note (optional)'}
+					</Label>
+					<Input
+						id='work-order-reason'
+						value={reason}
+						disabled={isSaving}
+						placeholder={
+							to === 'on_hold' ? 'e.g. Waiting for parts' : undefined
+						}
+						onChange={(e) => setReason(e.target.value)}
+					/>
+				</div>
+
+				<DialogFooter className='gap-2'>
+					<Button
+						type='button'
+						variant='outline'
+						disabled={isSaving}
+						onClick={() => onOpenChange(false)}
+					>
+						Back
+					</Button>
+					<Button
+						type='button'
+						variant={to === 'cancelled' ? 'destructive' : 'default'}
+						disabled={!canConfirm}
+						onClick={() =>
+							onConfirm({
+								reason: reason.trim() || undefined,
+								scheduledDate: askDate ? scheduledDate : undefined
+							})
+						}
+					>
+						{isSaving ? 'Saving...' : to ? WORK_ORDER_ACTION_LABEL[to] : ''}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
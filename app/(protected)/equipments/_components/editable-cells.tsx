@@ -0,0 +1,277 @@
+'use client';
+
+import { useRef, useState, type ReactNode } from 'react';
+
+import {
+	getStatusLabel,
+	getStatusOptions,
+	statusHasGuard,
+	type EquipmentStatusId
+} from '@/lib/equipment-status';
+import { DOWNTIME_REASON_LABEL } from '@/lib/downtime';
+import type { DowntimeReasonCode, StatusChangeReason } from '@/types/downtime';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+
+import StatusBadge from './status-badge';
+import LocationPicker, {
+	type LocationPickerValue
+} from './form/location-picker';
+
+/* ---------------------------------------
+   Cells the assets table edits in place.
+   Read-only cells render the plain value.
+---------------------------------------- */
+
+export function StatusCell({
+	status,
+	readOnly,
+	onSave
+}: {
+	status: EquipmentStatusId;
+	readOnly?: boolean;
+	onSave: (status: EquipmentStatusId, reason?: StatusChangeReason) => void;
+}) {
+	// status escolhido que ainda espera o motivo
+	const [pending, setPending] = useState<EquipmentStatusId | null>(null);
+	const [reasonCode, setReasonCode] = useState('');
+	const [reasonNote, setReasonNote] = useState('');
+
+	if (readOnly) return <StatusBadge status={status} />;
+
+	const hasReason = Boolean(reasonCode || reasonNote.trim());
+
+	return (
+		<>
+			<Select
+				value={status}
+				onValueChange={(value) => {
+					const next = value as EquipmentStatusId;
+					if (next === status) return;
+					if (statusHasGuard(next, 'reason_required')) {
+						setReasonCode('');
+						setReasonNote('');
+						setPending(next);
+						return;
+					}
+					onSave(next);
+				}}
+			>
+				<SelectTrigger
+					aria-label='Change status'
+					className='h-8 w-auto gap-1 border-none bg-transparent px-1 shadow-none'
+				>
+					<StatusBadge status={status} />
+				</SelectTrigger>
+				<SelectContent>
+					{getStatusOptions(status).map((s) => (
+						<SelectItem
+							key={s}
+							value={s}
+						>
+							{getStatusLabel(s)}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+
+			<Dialog
+				open={Boolean(pending)}
+				onOpenChange={(open) => {
+					if (!open) setPending(null);
+				}}
+			>
+				<DialogContent>
+					<form
+						className='space-y-4'
+						onSubmit={(e) => {
+							e.preventDefault();
+							if (!pending || !hasReason) return;
+							onSave(pending, {
+								code: (reasonCode || undefined) as
+									| DowntimeReasonCode
+									| undefined,
+								note: reasonNote.trim() || undefined
+							});
+							setPending(null);
+						}}
+					>
+						<DialogHeader>
+							<DialogTitle>
+								Move to {pending ? getStatusLabel(pending) : ''}
+							</DialogTitle>
+							<DialogDescription>
+								A reason is required for this status. It is kept on the downtime
+								ledger.
+							</DialogDescription>
+						</DialogHeader>
+
+						<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+							<div className='space-y-2'>
+								<Label>Reason</Label>
+								<Select
+									value={reasonCode || 'none'}
+									onValueChange={(v) => setReasonCode(v === 'none' ? '' : v)}
+								>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value='none'>No reason</SelectItem>
+										{Object.entries(DOWNTIME_REASON_LABEL).map(
+											([code, label]) => (
+												<SelectItem
+													key={code}
+													value={code}
+												>
+													{label}
+												</SelectItem>
+											)
+										)}
+									</SelectContent>
+								</Select>
+							</div>
+							<div className='space-y-2'>
+								<Label htmlFor='inline-reason-note'>Note</Label>
+								<Input
+									id='inline-reason-note'
+									value={reasonNote}
+									onChange={(e) => setReasonNote(e.target.value)}
+								/>
+							</div>
+						</div>
+
+						<DialogFooter className='gap-2'>
+							<Button
+								type='button'
+								variant='outline'
+								onClick={() => setPending(null)}
+							>
+								Cancel
+							</Button>
+							<Button
+								type='submit'
+								disabled={!hasReason}
+							>
+								Change status
+							</Button>
+						</DialogFooter>
+					</form>
+				</DialogContent>
+			</Dialog>
+		</>
+	);
+}
+
+/**
+ * Click to edit; Enter or leaving the input saves, Escape cancels.
+ * `onSave` only runs when the trimmed value changed.
+ */
+export function InputCell({
+	value,
+	label,
+	display,
+	type = 'text',
+	readOnly,
+	onSave
+}: {
+	value: string;
+	// accessible name, e.g. "owner"
+	label: string;
+	display?: ReactNode;
+	type?: 'text' | 'number';
+	readOnly?: boolean;
+	onSave: (value: string) => void;
+}) {
+	const [draft, setDraft] = useState<string | null>(null);
+	// Enter/Escape desmontam o input, e o blur que vem depois não salva de novo
+	const isEditingRef = useRef(false);
+
+	const shown = display ?? (value || '—');
+	if (readOnly) return <>{shown}</>;
+
+	const finish = (save: boolean) => {
+		if (!isEditingRef.current) return;
+		isEditingRef.current = false;
+
+		const next = (draft ?? '').trim();
+		setDraft(null);
+		if (save && next !== value) onSave(next);
+	};
+
+	if (draft === null) {
+		return (
+			<button
+				type='button'
+				aria-label={`Edit ${label}`}
+				className='-mx-1 min-h-7 w-full rounded px-1 text-left hover:bg-muted'
+				onClick={() => {
+					isEditingRef.current = true;
+					setDraft(value);
+				}}
+			>
+				{shown}
+			</button>
+		);
+	}
+
+	return (
+		<Input
+			autoFocus
+			type={type}
+			min={type === 'number' ? 1 : undefined}
+			aria-label={label}
+			className='h-8 min-w-[120px]'
+			value={draft}
+			onChange={(e) => setDraft(e.target.value)}
+			onBlur={() => finish(true)}
+			onKeyDown={(e) => {
+				if (e.key === 'Enter') {
+					e.preventDefault();
+					finish(true);
+				}
+				if (e.key === 'Escape') finish(false);
+			}}
+		/>
+	);
+}
+
+export function LocationCell({
+	value,
+	readOnly,
+	onSave
+}: {
+	value: LocationPickerValue;
+	readOnly?: boolean;
+	onSave: (value: LocationPickerValue) => void;
+}) {
+	if (readOnly) return <>{value.location || '—'}</>;
+
+	return (
+		<LocationPicker
+			variant='ghost'
+			placeholder='—'
+			value={value}
+			onChange={(next) => {
+				if (next.locationId !== value.locationId) onSave(next);
+			}}
+		/>
+	);
+}
@@ -0,0 +1,48 @@
+import { describeMaintenancePlans } from '@/lib/maintenance-plans';
+import { METER_UNIT_LABEL } from '@/lib/meters';
+import type { EquipmentInput, MaintenancePlan } from '@/types/equipment';
+import type { EquipmentMeter } from '@/types/meters';
+
+export const EQUIPMENT_FIELD_LABEL: Record<keyof EquipmentInput, string> = {
+	name: 'Asset name',
+	serialNumber: 'Serial number',
+	status: 'Status',
+	purchaseDate: 'Purchase date',
+	lastServiceDate: 'Last service date',
+	maintenancePlans: 'Maintenance plans',
+	meters: 'Meters',
+	owner: 'Owner',
+	location: 'Location',
+	locationId: 'Location record',
+	parentId: 'Parent asset',
+	categoryId: 'Category',
+	customFields: 'Custom fields',
+	tags: 'Tags'
+};
+
+function isMeterList(value: unknown[]): value is EquipmentMeter[] {
+	return value.every((v) => typeof v === 'object' && v !== null && 'unit' in v);
+}
+
+// valores de diffs/revisões; planos viram "Lubrication (30d), ...",
+// medidores "Engine (h), ...", tags "forklift, cold chain",
+// campos custom "vin: 1HG..., plate: ABC"
+export function formatFieldValue(value: unknown) {
+	if (value === null || value === undefined || value === '') return '—';
+	if (typeof value === 'object' && !Array.isArray(value)) {
+		const entries = Object.entries(value as Record<string, unknown>);
+		if (entries.length === 0) return '—';
+		return entries.map(([k, v]) => `${k}: ${String(v)}`).join(', ');
+	}
+	if (Array.isArray(value)) {
+		if (value.length === 0) return '—';
+		if (value.every((v) => typeof v === 'string')) return value.join(', ');
+		if (isMeterList(value)) {
+			return value
+				.map((m) => `${m.name} (${METER_UNIT_LABEL[m.unit]})`)
+				.join(', ');
+		}
+		return describeMaintenancePlans(value as MaintenancePlan[]);
+	}
+	return String(value);
+}
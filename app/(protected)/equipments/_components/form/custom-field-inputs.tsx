@@ -0,0 +1,141 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+
+import type {
+	CustomFieldDefinition,
+	CustomFieldValue
+} from '@/types/categories';
+
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import {
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage
+} from '@/components/ui/form';
+
+// inputs trabalham com string (e boolean no switch)
+export type CustomFieldFormValues = Record<string, string | boolean>;
+
+export function toCustomFieldFormValues(
+	values?: Record<string, CustomFieldValue>,
+	fields: CustomFieldDefinition[] = []
+): CustomFieldFormValues {
+	const result: CustomFieldFormValues = {};
+	for (const [key, value] of Object.entries(values ?? {})) {
+		result[key] = typeof value === 'boolean' ? value : String(value);
+	}
+	// switch desligado = "No", não "vazio"
+	for (const field of fields) {
+		if (field.type === 'boolean' && result[field.key] === undefined) {
+			result[field.key] = false;
+		}
+	}
+	return result;
+}
+
+type FormValues = { customFields?: CustomFieldFormValues };
+
+/**
+ * Inputs for the custom fields of the asset's category. Validation comes
+ * from the category schema (see buildCustomFieldsSchema).
+ */
+export default function CustomFieldInputs({
+	fields,
+	disabled
+}: {
+	fields: CustomFieldDefinition[];
+	disabled?: boolean;
+}) {
+	const { control } = useFormContext<FormValues>();
+
+	if (fields.length === 0) return null;
+
+	return (
+		<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+			{fields.map((definition) => (
+				<FormField
+					key={definition.key}
+					control={control}
+					name={`customFields.${definition.key}`}
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>
+								{definition.label}
+								{!definition.required && ' (optional)'}
+							</FormLabel>
+
+							{definition.type === 'boolean' ? (
+								<FormControl>
+									<Switch
+										className='block'
+										disabled={disabled}
+										checked={field.value === true}
+										onCheckedChange={field.onChange}
+									/>
+								</FormControl>
+							) : definition.type === 'select' ? (
+								<Select
+									disabled={disabled}
+									value={
+										typeof field.value === 'string' && field.value
+											? field.value
+											: 'none'
+									}
+									onValueChange={(v) => field.onChange(v === 'none' ? '' : v)}
+								>
+									<FormControl>
+										<SelectTrigger>
+											<SelectValue placeholder='Select' />
+										</SelectTrigger>
+									</FormControl>
+									<SelectContent>
+										<SelectItem value='none'>—</SelectItem>
+										{(definition.options ?? []).map((option) => (
+											<SelectItem
+												key={option}
+												value={option}
+											>
+												{option}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							) : (
+								<FormControl>
+									<Input
+										type={
+											definition.type === 'number'
+												? 'number'
+												: definition.type === 'date'
+													? 'date'
+													: 'text'
+										}
+										step={definition.type === 'number' ? 'any' : undefined}
+										disabled={disabled}
+										name={field.name}
+										ref={field.ref}
+										onBlur={field.onBlur}
+										value={typeof field.value === 'string' ? field.value : ''}
+										onChange={(e) => field.onChange(e.target.value)}
+									/>
+								</FormControl>
+							)}
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+			))}
+		</div>
+	);
+}
@@ -1,15 +1,31 @@
 'use client';
 
+import { useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { useForm } from 'react-hook-form';
-import { z } from 'zod';
+import { useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { addDays, format, isAfter, isBefore, parseISO } from 'date-fns';
 
 import type { Equipment, EquipmentInput } from '@/types/equipment';
-import { createEquipment, updateEquipment } from '@/data-access/equipments';
+import type { AssetCategory, CustomFieldDefinition } from '@/types/categories';
+import type { StatusChangeReason } from '@/types/downtime';
+import { DOWNTIME_REASON_LABEL } from '@/lib/downtime';
+import {
+	getStatusLabel,
+	getStatusOptions,
+	statusHasGuard
+} from '@/lib/equipment-status';
+import { resolveMaintenancePlans } from '@/lib/maintenance-plans';
+import { getSubtreeIds } from '@/lib/hierarchy';
+import { countTags } from '@/lib/tags';
+import {
+	createEquipment,
+	getEquipmentsList,
+	updateEquipment,
+	EquipmentConflictError
+} from '@/data-access/equipments';
+import { getCategories } from '@/data-access/categories';
 
 import { useAuth } from '@/context/auth-context';
 import { useUserRole } from '@/hooks/use-user-role';
@@ -26,12 +42,29 @@ import {
 import {
 	Form,
 	FormControl,
+	FormDescription,
 	FormField,
 	FormItem,
 	FormLabel,
 	FormMessage
 } from '@/components/ui/form';
 
+import UpdateConflictDialog from '../dialogs/update-conflict-dialog';
+import MaintenancePlanFields from './maintenance-plan-fields';
+import MeterFields from './meter-fields';
+import LocationPicker from './location-picker';
+import TagInput from './tag-input';
+import CustomFieldInputs, {
+	toCustomFieldFormValues
+} from './custom-field-inputs';
+import {
+	buildEquipmentSchema,
+	toEquipmentFormValues,
+	toEquipmentInput,
+	type EquipmentFormValues,
+	type EquipmentParsedValues
+} from './equipment-schema';
+
 type EquipmentFormAction = 'add' | 'edit';
 
 interface EquipmentFormProps {
@@ -39,64 +72,37 @@ interface EquipmentFormProps {
 	equipment?: Equipment;
 }
 
-/* ---------------- SCHEMA ---------------- */
-
-const equipmentSchema = z
-	.object({
-		name: z.string().min(1, 'Name is required'),
-		serialNumber: z.string().min(1, 'Serial number is required'),
-		status: z.enum(['active', 'inactive', 'maintenance']),
-
-		purchaseDate: z.string().min(1, 'Purchase date is required'),
-		lastServiceDate: z.string().min(1, 'Last service date is required'),
-
-		nextServiceDate: z.string().optional(),
-
-		serviceIntervalDays: z.coerce.number().int().min(1).default(180),
-
-		location: z.string().optional(),
-		owner: z.string().optional()
-	})
-	.superRefine((values, ctx) => {
-		const today = new Date();
-
-		const purchase = values.purchaseDate ? parseISO(values.purchaseDate) : null;
-		const last = values.lastServiceDate
-			? parseISO(values.lastServiceDate)
-			: null;
-
-		const next =
-			values.nextServiceDate && values.nextServiceDate.trim()
-				? parseISO(values.nextServiceDate)
-				: null;
+const PARENT_ERROR_MESSAGE: Record<string, string> = {
+	PARENT_CYCLE: 'An asset cannot sit under itself or its own components',
+	PARENT_NOT_FOUND: 'The selected parent asset no longer exists'
+};
 
-		if (purchase && isAfter(purchase, today)) {
-			ctx.addIssue({
-				code: 'custom',
-				path: ['purchaseDate'],
-				message: 'Purchase date cannot be in the future'
-			});
-		}
-
-		if (last && isAfter(last, today)) {
-			ctx.addIssue({
-				code: 'custom',
-				path: ['lastServiceDate'],
-				message: 'Last service date cannot be in the future'
-			});
-		}
-
-		if (next && isBefore(next, today)) {
-			ctx.addIssue({
-				code: 'custom',
-				path: ['nextServiceDate'],
-				message: 'Next service date cannot be in the past'
-			});
-		}
-	});
+// status rules are enforced in data-access; these are their error codes
+function getStatusRuleMessage(err: unknown): string | null {
+	if (!(err instanceof Error)) return null;
+	if (err.message === 'INVALID_TRANSITION') {
+		return 'That status change is not allowed';
+	}
+	if (err.message === 'REASON_REQUIRED') {
+		return 'A reason is required for this status';
+	}
+	if (err.message === 'OPEN_CORRECTIVE_WORK_ORDER') {
+		return 'Complete or cancel the open corrective work orders first';
+	}
+	return null;
+}
 
-type EquipmentFormValues = z.input<typeof equipmentSchema>;
-type EquipmentParsedValues = z.output<typeof equipmentSchema>;
+// custom fields are validated again against the stored category on write
+function getCategoryMessage(err: unknown): string | null {
+	if (!(err instanceof Error)) return null;
+	if (err.message === 'CATEGORY_NOT_FOUND') {
+		return 'The selected category no longer exists';
+	}
+	if (err.message === 'INVALID_CUSTOM_FIELDS') {
+		return 'Custom fields do not match the category. Reload and try again.';
+	}
+	return null;
+}
 
 /* ---------------- FORM ---------------- */
 
@@ -113,33 +119,83 @@ export default function EquipmentForm({
 	const isAuthBlocked = loading || !user;
 	const isRoleBlocked = roleLoading || !isAdmin;
 	const isBlocked = isAuthBlocked || isRoleBlocked;
+	// chain of custody: existing assets move through transferEquipment
+	const isCustodyLocked = action === 'edit';
 
-	const form = useForm<EquipmentFormValues>({
-		resolver: zodResolver(equipmentSchema),
-		defaultValues: {
-			name: equipment?.name ?? '',
-			serialNumber: equipment?.serialNumber ?? '',
-			status: equipment?.status ?? 'active',
+	const { data: categories = [] } = useQuery<AssetCategory[]>({
+		queryKey: ['categories'],
+		queryFn: () => getCategories({ includeArchived: true })
+	});
 
-			purchaseDate: equipment?.purchaseDate ?? '',
-			lastServiceDate: equipment?.lastServiceDate ?? '',
+	// resolver lê os campos da categoria atual via ref
+	const customFieldsRef = useRef<CustomFieldDefinition[]>([]);
 
-			nextServiceDate: equipment?.nextServiceDate ?? '',
+	const form = useForm<EquipmentFormValues>({
+		resolver: (values, context, options) =>
+			zodResolver(buildEquipmentSchema(customFieldsRef.current))(
+				values,
+				context,
+				options
+			),
+		defaultValues: toEquipmentFormValues(equipment),
+		mode: 'onSubmit'
+	});
 
-			serviceIntervalDays: equipment?.serviceIntervalDays ?? 180,
+	const watchedCategoryId = useWatch({
+		control: form.control,
+		name: 'categoryId'
+	});
+	const selectedCategory = categories.find((c) => c.id === watchedCategoryId);
+	customFieldsRef.current = selectedCategory?.fields ?? [];
+	// arquivadas só aparecem se já são a categoria do asset
+	const categoryOptions = categories.filter(
+		(c) => !c.isArchived || c.id === equipment?.categoryId
+	);
 
-			location: equipment?.location ?? '',
-			owner: equipment?.owner ?? ''
-		},
-		mode: 'onSubmit'
+	// revisão carregada no form; o update é rejeitado se o doc mudou desde então
+	const [baseRevision, setBaseRevision] = useState(equipment?.revision ?? 0);
+
+	// motivo só faz sentido quando o status muda (novo asset: fora de "active")
+	const watchedStatus = useWatch({ control: form.control, name: 'status' });
+	const isStatusChange = watchedStatus !== (equipment?.status ?? 'active');
+	const isReasonRequired =
+		isStatusChange && statusHasGuard(watchedStatus, 'reason_required');
+	const statusOptions = getStatusOptions(
+		action === 'edit' ? equipment?.status : undefined
+	);
+	// candidatos a pai: ativos, menos o próprio asset e seus descendentes
+	const { data: allAssets = [] } = useQuery<Equipment[]>({
+		queryKey: ['equipments', 'list', 'parent-options'],
+		queryFn: () => getEquipmentsList({ sort: 'name_asc' })
 	});
+	const excludedParentIds = equipment?.id
+		? getSubtreeIds(equipment.id, allAssets)
+		: new Set<string>();
+	const parentOptions = allAssets.filter((a) => !excludedParentIds.has(a.id));
+	const tagSuggestions = countTags(allAssets).map((t) => t.tag);
+
+	const [conflict, setConflict] = useState<{
+		mine: EquipmentInput;
+		stored: Equipment;
+		statusReason?: StatusChangeReason;
+	} | null>(null);
 
 	const createMutation = useMutation({
 		//Mutation só faz a escrita. Toast fica no onSuccess/onError
-		mutationFn: async (payload: EquipmentInput) => {
+		mutationFn: async ({
+			payload,
+			statusReason
+		}: {
+			payload: EquipmentInput;
+			statusReason?: StatusChangeReason;
+		}) => {
 			if (!user) throw new Error('Not authenticated');
 			if (!isAdmin) throw new Error('Not authorized');
-			await createEquipment(payload, { uid: user.uid, email: user.email });
+			await createEquipment(
+				payload,
+				{ uid: user.uid, email: user.email },
+				{ statusReason }
+			);
 		},
 		onSuccess: () => {
 			queryClient.invalidateQueries({ queryKey: ['equipments'] });
@@ -157,24 +213,135 @@ export default function EquipmentForm({
 				return;
 			}
 
+			if (err instanceof Error && PARENT_ERROR_MESSAGE[err.message]) {
+				form.setError('parentId', {
+					type: 'validate',
+					message: PARENT_ERROR_MESSAGE[err.message]
+				});
+				return;
+			}
+
+			const statusMessage = getStatusRuleMessage(err);
+			if (statusMessage) {
+				toast.error(statusMessage);
+				return;
+			}
+
+			const categoryMessage = getCategoryMessage(err);
+			if (categoryMessage) {
+				toast.error(categoryMessage);
+				return;
+			}
+
 			toast.error('Failed to create asset');
 		}
 	});
 
 	const updateMutation = useMutation({
-		mutationFn: async ({ id, data }: { id: string; data: EquipmentInput }) => {
+		mutationFn: async ({
+			id,
+			data,
+			expectedRevision,
+			statusReason
+		}: {
+			id: string;
+			data: EquipmentInput;
+			expectedRevision: number;
+			statusReason?: StatusChangeReason;
+		}) => {
 			if (!user) throw new Error('Not authenticated');
 			if (!isAdmin) throw new Error('Not authorized');
-			await updateEquipment(id, data, { uid: user.uid, email: user.email });
+			await updateEquipment(
+				id,
+				data,
+				{ uid: user.uid, email: user.email },
+				{ expectedRevision, statusReason }
+			);
 		},
 		onSuccess: () => {
+			setConflict(null);
 			queryClient.invalidateQueries({ queryKey: ['equipments'] });
 			toast.success('Asset updated');
 			router.push('/equipments');
 		},
-		onError: () => toast.error('Failed to update asset')
+		onError: (err, variables) => {
+			// Outro admin salvou antes: abre o merge com o que está no Firestore
+			if (err instanceof EquipmentConflictError) {
+				setConflict({
+					mine: variables.data,
+					stored: err.current,
+					statusReason: variables.statusReason
+				});
+				toast.error('This asset was changed by someone else');
+				return;
+			}
+
+			if (err instanceof Error && err.message === 'SERIAL_ALREADY_EXISTS') {
+				setConflict(null);
+				form.setError('serialNumber', {
+					type: 'validate',
+					message: 'This serial number is already in use'
+				});
+				toast.error('Serial number already exists');
+				return;
+			}
+
+			if (err instanceof Error && PARENT_ERROR_MESSAGE[err.message]) {
+				setConflict(null);
+				form.setError('parentId', {
+					type: 'validate',
+					message: PARENT_ERROR_MESSAGE[err.message]
+				});
+				return;
+			}
+
+			const statusMessage = getStatusRuleMessage(err);
+			if (statusMessage) {
+				setConflict(null);
+				toast.error(statusMessage);
+				return;
+			}
+
+			const categoryMessage = getCategoryMessage(err);
+			if (categoryMessage) {
+				setConflict(null);
+				toast.error(categoryMessage);
+				return;
+			}
+
+			toast.error('Failed to update asset');
+		}
 	});
 
+	function handleSaveMerged(merged: EquipmentInput) {
+		if (!conflict || !equipment?.id) return;
+
+		const storedRevision = conflict.stored.revision ?? 0;
+		setBaseRevision(storedRevision);
+		form.reset(toEquipmentFormValues(merged, customFieldsRef.current));
+
+		updateMutation.mutate({
+			id: equipment.id,
+			data: merged,
+			expectedRevision: storedRevision,
+			statusReason: conflict.statusReason
+		});
+	}
+
+	function handleDiscardMine() {
+		if (!conflict) return;
+
+		setBaseRevision(conflict.stored.revision ?? 0);
+		form.reset(
+			toEquipmentFormValues(
+				conflict.stored,
+				categories.find((c) => c.id === conflict.stored.categoryId)?.fields
+			)
+		);
+		setConflict(null);
+		toast.message('Form reloaded with the stored values');
+	}
+
 	const isSaving =
 		action === 'add' ? createMutation.isPending : updateMutation.isPending;
 
@@ -188,46 +355,62 @@ export default function EquipmentForm({
 			return;
 		}
 
-		const parsed: EquipmentParsedValues = equipmentSchema.parse(values);
-
-		const interval = parsed.serviceIntervalDays;
-
-		// Se o usuário não preencher nextServiceDate, calculamos automaticamente
-		const rawNext = parsed.nextServiceDate?.trim();
-		let next: string | undefined = rawNext || undefined;
-
-		if (!next && parsed.lastServiceDate) {
-			const computed = addDays(parseISO(parsed.lastServiceDate), interval);
-			next = format(computed, 'yyyy-MM-dd');
+		const parsed: EquipmentParsedValues = buildEquipmentSchema(
+			customFieldsRef.current
+		).parse(values);
+
+		if (
+			isReasonRequired &&
+			!parsed.statusReasonCode &&
+			!parsed.statusReasonNote?.trim()
+		) {
+			form.setError('statusReasonCode', {
+				type: 'validate',
+				message: `A reason is required to move to ${getStatusLabel(parsed.status)}`
+			});
+			return;
 		}
 
-		const payload: EquipmentInput = {
-			name: parsed.name.trim(),
-			serialNumber: parsed.serialNumber.trim(),
-			status: parsed.status,
-
-			purchaseDate: parsed.purchaseDate,
-			lastServiceDate: parsed.lastServiceDate,
+		const payload = toEquipmentInput(parsed, equipment);
 
-			nextServiceDate: next,
-			serviceIntervalDays: interval,
-
-			location: parsed.location?.trim() || undefined,
-			owner: parsed.owner?.trim() || undefined
-		};
+		const statusReason: StatusChangeReason | undefined = isStatusChange
+			? {
+					code: parsed.statusReasonCode || undefined,
+					note: parsed.statusReasonNote?.trim() || undefined
+				}
+			: undefined;
 
 		if (action === 'add') {
-			createMutation.mutate(payload);
+			createMutation.mutate({ payload, statusReason });
 			return;
 		}
 
 		if (action === 'edit' && equipment?.id) {
-			updateMutation.mutate({ id: equipment.id, data: payload });
+			updateMutation.mutate({
+				id: equipment.id,
+				data: payload,
+				expectedRevision: baseRevision,
+				statusReason
+			});
 		}
 	}
 
 	return (
 		<Form {...form}>
+			{conflict && (
+				<UpdateConflictDialog
+					open
+					mine={conflict.mine}
+					stored={conflict.stored}
+					isSaving={updateMutation.isPending}
+					onSaveMerged={handleSaveMerged}
+					onDiscardMine={handleDiscardMine}
+					onOpenChange={(open) => {
+						if (!open) setConflict(null);
+					}}
+				/>
+			)}
+
 			<form
 				onSubmit={form.handleSubmit(onSubmit)}
 				className='space-y-6 max-w-xl'
@@ -284,9 +467,14 @@ export default function EquipmentForm({
 									</SelectTrigger>
 								</FormControl>
 								<SelectContent>
-									<SelectItem value='active'>Active</SelectItem>
-									<SelectItem value='inactive'>Inactive</SelectItem>
-									<SelectItem value='maintenance'>Maintenance</SelectItem>
+									{statusOptions.map((status) => (
+										<SelectItem
+											key={status}
+											value={status}
+										>
+											{getStatusLabel(status)}
+										</SelectItem>
+									))}
 								</SelectContent>
 							</Select>
 							<FormMessage />
@@ -294,6 +482,66 @@ export default function EquipmentForm({
 					)}
 				/>
 
+				{isStatusChange && (
+					<div className='grid grid-cols-1 gap-6 sm:grid-cols-2'>
+						<FormField
+							control={form.control}
+							name='statusReasonCode'
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>
+										{isReasonRequired ? 'Reason' : 'Reason (optional)'}
+									</FormLabel>
+									<Select
+										onValueChange={(v) => field.onChange(v === 'none' ? '' : v)}
+										value={field.value || 'none'}
+									>
+										<FormControl>
+											<SelectTrigger disabled={isSaving || isBlocked}>
+												<SelectValue />
+											</SelectTrigger>
+										</FormControl>
+										<SelectContent>
+											<SelectItem value='none'>No reason</SelectItem>
+											{Object.entries(DOWNTIME_REASON_LABEL).map(
+												([code, label]) => (
+													<SelectItem
+														key={code}
+														value={code}
+													>
+														{label}
+													</SelectItem>
+												)
+											)}
+										</SelectContent>
+									</Select>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+
+						<FormField
+							control={form.control}
+							name='statusReasonNote'
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>
+										{isReasonRequired ? 'Note' : 'Note (optional)'}
+									</FormLabel>
+									<FormControl>
+										<Input
+											{...field}
+											disabled={isSaving || isBlocked}
+											placeholder='e.g. Hydraulic leak on main cylinder'
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+					</div>
+				)}
+
 				<div className='grid grid-cols-1 gap-6 sm:grid-cols-2'>
 					<FormField
 						control={form.control}
@@ -332,60 +580,139 @@ export default function EquipmentForm({
 					/>
 				</div>
 
-				<div className='grid grid-cols-1 gap-6 sm:grid-cols-2'>
-					<FormField
-						control={form.control}
-						name='nextServiceDate'
-						render={({ field }) => (
-							<FormItem>
-								<FormLabel>Next Service Date</FormLabel>
+				<MeterFields disabled={isSaving || isBlocked} />
+
+				<MaintenancePlanFields
+					disabled={isSaving || isBlocked}
+					stored={
+						equipment
+							? {
+									plans: resolveMaintenancePlans(equipment),
+									meters: equipment.meters
+								}
+							: undefined
+					}
+				/>
+
+				<FormField
+					control={form.control}
+					name='categoryId'
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Category (optional)</FormLabel>
+							<Select
+								onValueChange={(v) => {
+									const next = v === 'none' ? '' : v;
+									// valores de outra categoria não se aplicam
+									form.setValue(
+										'customFields',
+										toCustomFieldFormValues(
+											next === (equipment?.categoryId ?? '')
+												? equipment?.customFields
+												: undefined,
+											categories.find((c) => c.id === next)?.fields
+										)
+									);
+									field.onChange(next);
+								}}
+								value={field.value || 'none'}
+							>
 								<FormControl>
-									<Input
-										type='date'
-										disabled={isSaving || isBlocked}
-										{...field}
-									/>
+									<SelectTrigger disabled={isSaving || isBlocked}>
+										<SelectValue />
+									</SelectTrigger>
 								</FormControl>
-								<FormMessage />
-							</FormItem>
-						)}
-					/>
+								<SelectContent>
+									<SelectItem value='none'>No category</SelectItem>
+									{categoryOptions.map((category) => (
+										<SelectItem
+											key={category.id}
+											value={category.id}
+										>
+											{category.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
 
-					<FormField
-						control={form.control}
-						name='serviceIntervalDays'
-						render={({ field }) => (
-							<FormItem>
-								<FormLabel>Service Interval (days)</FormLabel>
+				<CustomFieldInputs
+					fields={selectedCategory?.fields ?? []}
+					disabled={isSaving || isBlocked}
+				/>
+
+				<FormField
+					control={form.control}
+					name='tags'
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Tags (optional)</FormLabel>
+							<TagInput
+								value={field.value}
+								onChange={field.onChange}
+								suggestions={tagSuggestions}
+								disabled={isSaving || isBlocked}
+								placeholder='e.g. cold chain, line 2'
+							/>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+
+				<FormField
+					control={form.control}
+					name='parentId'
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Parent asset (optional)</FormLabel>
+							<Select
+								onValueChange={(v) => field.onChange(v === 'none' ? '' : v)}
+								value={field.value || 'none'}
+							>
 								<FormControl>
-									<Input
-										type='number'
-										min={1}
-										step={1}
-										disabled={isSaving || isBlocked}
-										value={field.value ?? 180}
-										onChange={(e) => field.onChange(e.target.value)}
-									/>
+									<SelectTrigger disabled={isSaving || isBlocked}>
+										<SelectValue />
+									</SelectTrigger>
 								</FormControl>
-								<FormMessage />
-							</FormItem>
-						)}
-					/>
-				</div>
+								<SelectContent>
+									<SelectItem value='none'>None (top level)</SelectItem>
+									{parentOptions.map((asset) => (
+										<SelectItem
+											key={asset.id}
+											value={asset.id}
+										>
+											{asset.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
 
 				<FormField
 					control={form.control}
-					name='location'
+					name='locationId'
 					render={({ field }) => (
 						<FormItem>
 							<FormLabel>Location</FormLabel>
-							<FormControl>
-								<Input
-									{...field}
-									disabled={isSaving || isBlocked}
-									placeholder='e.g. Tampa DC'
-								/>
-							</FormControl>
+							<LocationPicker
+								value={{
+									locationId: field.value ?? '',
+									location: form.getValues('location') ?? ''
+								}}
+								disabled={isSaving || isBlocked || isCustodyLocked}
+								onChange={(next) => {
+									form.setValue('location', next.location, {
+										shouldDirty: true
+									});
+									field.onChange(next.locationId);
+								}}
+							/>
 							<FormMessage />
 						</FormItem>
 					)}
@@ -400,10 +727,15 @@ export default function EquipmentForm({
 							<FormControl>
 								<Input
 									{...field}
-									disabled={isSaving || isBlocked}
+									disabled={isSaving || isBlocked || isCustodyLocked}
 									placeholder='e.g. Operations Team'
 								/>
 							</FormControl>
+							{isCustodyLocked && (
+								<FormDescription>
+									Location and owner change through Transfer on the asset page.
+								</FormDescription>
+							)}
 							<FormMessage />
 						</FormItem>
 					)}
@@ -0,0 +1,208 @@
+import { z } from 'zod';
+import { isAfter, parseISO } from 'date-fns';
+
+import type { Equipment, EquipmentInput } from '@/types/equipment';
+import type { CustomFieldDefinition } from '@/types/categories';
+import { EQUIPMENT_STATUSES } from '@/lib/equipment-status';
+import {
+	normalizeMaintenancePlans,
+	resolveMaintenancePlans,
+	withStoredPlanReadings
+} from '@/lib/maintenance-plans';
+import { mergeMeterReadings, toMeterDefinitions } from '@/lib/meters';
+import { buildCustomFieldsSchema } from '@/lib/custom-fields';
+
+import { maintenancePlansSchema } from './maintenance-plan-fields';
+import { metersSchema } from './meter-fields';
+import { toCustomFieldFormValues } from './custom-field-inputs';
+
+// shared by EquipmentForm, the import wizard and the table's inline edits,
+// so all of them apply the same rules
+
+// custom fields come from the selected category, so the schema is built
+// per category
+export function buildEquipmentSchema(customFields: CustomFieldDefinition[]) {
+	return z
+		.object({
+			name: z.string().min(1, 'Name is required'),
+			serialNumber: z.string().min(1, 'Serial number is required'),
+			status: z.enum(EQUIPMENT_STATUSES),
+			// only sent when the status changes; stored on the downtime ledger
+			statusReasonCode: z
+				.enum([
+					'',
+					'breakdown',
+					'awaiting_parts',
+					'planned_maintenance',
+					'inspection',
+					'no_demand',
+					'other'
+				])
+				.optional(),
+			statusReasonNote: z.string().optional(),
+
+			purchaseDate: z.string().min(1, 'Purchase date is required'),
+			lastServiceDate: z.string().min(1, 'Last service date is required'),
+
+			maintenancePlans: maintenancePlansSchema,
+			meters: metersSchema,
+
+			location: z.string().optional(),
+			locationId: z.string().optional(),
+			owner: z.string().optional(),
+			parentId: z.string().optional(),
+
+			categoryId: z.string().optional(),
+			customFields: buildCustomFieldsSchema(customFields),
+			tags: z.array(z.string())
+		})
+		.superRefine((values, ctx) => {
+			const today = new Date();
+
+			const purchase = values.purchaseDate
+				? parseISO(values.purchaseDate)
+				: null;
+			const last = values.lastServiceDate
+				? parseISO(values.lastServiceDate)
+				: null;
+
+			if (purchase && isAfter(purchase, today)) {
+				ctx.addIssue({
+					code: 'custom',
+					path: ['purchaseDate'],
+					message: 'Purchase date cannot be in the future'
+				});
+			}
+
+			if (last && isAfter(last, today)) {
+				ctx.addIssue({
+					code: 'custom',
+					path: ['lastServiceDate'],
+					message: 'Last service date cannot be in the future'
+				});
+			}
+
+			// plano apontando para um medidor removido
+			values.maintenancePlans.forEach((plan, index) => {
+				if (plan.meterId && !values.meters.some((m) => m.id === plan.meterId)) {
+					ctx.addIssue({
+						code: 'custom',
+						path: ['maintenancePlans', index, 'meterId'],
+						message: 'Meter was removed'
+					});
+				}
+			});
+		});
+}
+
+type EquipmentSchema = ReturnType<typeof buildEquipmentSchema>;
+export type EquipmentFormValues = z.input<EquipmentSchema>;
+export type EquipmentParsedValues = z.output<EquipmentSchema>;
+
+export function toEquipmentFormValues(
+	equipment?: Partial<EquipmentInput> | Equipment,
+	customFields: CustomFieldDefinition[] = []
+): EquipmentFormValues {
+	return {
+		name: equipment?.name ?? '',
+		serialNumber: equipment?.serialNumber ?? '',
+		status: equipment?.status ?? 'active',
+		statusReasonCode: '',
+		statusReasonNote: '',
+
+		purchaseDate: equipment?.purchaseDate ?? '',
+		lastServiceDate: equipment?.lastServiceDate ?? '',
+
+		// assets from before plans get their single interval as one plan
+		maintenancePlans: resolveMaintenancePlans(equipment ?? {}).map((p) => ({
+			id: p.id,
+			task: p.task,
+			intervalDays: p.intervalDays ?? '',
+			meterId: p.meterId ?? '',
+			meterInterval: p.meterInterval ?? '',
+			lastServiceDate: p.lastServiceDate ?? ''
+		})),
+		meters: toMeterDefinitions(equipment?.meters ?? []),
+
+		location: equipment?.location ?? '',
+		locationId: equipment?.locationId ?? '',
+		owner: equipment?.owner ?? '',
+		parentId: equipment?.parentId ?? '',
+
+		categoryId: equipment?.categoryId ?? '',
+		customFields: toCustomFieldFormValues(
+			equipment?.customFields,
+			customFields
+		),
+		tags: equipment?.tags ?? []
+	};
+}
+
+// `equipment` is the stored asset on edit: plans and meters keep its readings
+export function toEquipmentInput(
+	parsed: EquipmentParsedValues,
+	equipment?: Equipment
+): EquipmentInput {
+	return {
+		name: parsed.name.trim(),
+		serialNumber: parsed.serialNumber.trim(),
+		status: parsed.status,
+
+		purchaseDate: parsed.purchaseDate,
+		lastServiceDate: parsed.lastServiceDate,
+
+		// próximo vencimento de cada plano é calculado aqui e no data-access;
+		// leituras dos medidores vêm do que está salvo
+		maintenancePlans: normalizeMaintenancePlans(
+			withStoredPlanReadings(
+				parsed.maintenancePlans.map((p) => ({
+					...p,
+					meterId: p.meterId || undefined
+				})),
+				resolveMaintenancePlans(equipment ?? {})
+			),
+			{
+				fallbackLastServiceDate: parsed.lastServiceDate,
+				meters: mergeMeterReadings(parsed.meters, equipment?.meters)
+			}
+		),
+		meters: toMeterDefinitions(parsed.meters),
+
+		// '' clears the location (picker: "No location")
+		location: parsed.location?.trim() ?? '',
+		locationId: parsed.locationId ?? '',
+		owner: parsed.owner?.trim() || undefined,
+		// '' clears the parent
+		parentId: parsed.parentId ?? '',
+
+		// '' clears the category; values are checked against it on write
+		categoryId: parsed.categoryId ?? '',
+		customFields: parsed.customFields,
+		tags: parsed.tags
+	};
+}
+
+/**
+ * Input for a single-cell edit in the assets table: the stored asset fills
+ * the form, `update` changes the edited field and the whole form schema
+ * runs. Returns the first validation message instead when it fails.
+ */
+export function toInlineEquipmentInput(
+	equipment: Equipment,
+	update: (values: EquipmentFormValues) => EquipmentFormValues,
+	customFields: CustomFieldDefinition[] = []
+): EquipmentInput | string {
+	const result = buildEquipmentSchema(customFields).safeParse(
+		update(toEquipmentFormValues(equipment, customFields))
+	);
+	if (!result.success) {
+		return result.error.issues[0]?.message ?? 'Invalid value';
+	}
+
+	return {
+		...toEquipmentInput(result.data, equipment),
+		// undefined keeps the stored category and values
+		categoryId: undefined,
+		customFields: undefined
+	};
+}
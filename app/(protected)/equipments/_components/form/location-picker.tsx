@@ -0,0 +1,139 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { MapPin } from 'lucide-react';
+
+import { getLocations } from '@/data-access/locations';
+import { LOCATION_KIND_LABEL } from '@/lib/locations';
+import type { Location } from '@/types/locations';
+import { cn } from '@/lib/utils';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+	CommandDialog,
+	CommandEmpty,
+	CommandGroup,
+	CommandInput,
+	CommandItem,
+	CommandList
+} from '@/components/ui/command';
+
+export interface LocationPickerValue {
+	locationId: string;
+	location: string; // path of the record, or legacy free text
+}
+
+/**
+ * Searchable location picker. Assets still holding a free-text location
+ * show it as "not linked" until a record is picked.
+ */
+export default function LocationPicker({
+	value,
+	disabled,
+	variant = 'outline',
+	placeholder = 'Select location',
+	onChange
+}: {
+	value: LocationPickerValue;
+	disabled?: boolean;
+	// ghost: inside a table cell
+	variant?: 'outline' | 'ghost';
+	placeholder?: string;
+	onChange: (value: LocationPickerValue) => void;
+}) {
+	const [open, setOpen] = useState(false);
+
+	const { data: locations = [] } = useQuery<Location[]>({
+		queryKey: ['locations'],
+		queryFn: () => getLocations(),
+		staleTime: 60_000
+	});
+
+	// agrupado por site (primeiro segmento do path)
+	const groups = useMemo(() => {
+		const bySite = new Map<string, Location[]>();
+		for (const location of locations) {
+			const site = location.path.split(' / ')[0];
+			bySite.set(site, [...(bySite.get(site) ?? []), location]);
+		}
+		return Array.from(bySite.entries());
+	}, [locations]);
+
+	const isUnlinked = Boolean(value.location.trim()) && !value.locationId;
+
+	return (
+		<>
+			<Button
+				type='button'
+				variant={variant}
+				className={cn(
+					'w-full justify-start gap-2 font-normal',
+					variant === 'ghost' && 'h-8 px-2'
+				)}
+				disabled={disabled}
+				onClick={() => setOpen(true)}
+			>
+				<MapPin className='h-4 w-4 shrink-0 text-muted-foreground' />
+				<span className='truncate'>{value.location.trim() || placeholder}</span>
+				{isUnlinked && (
+					<Badge
+						variant='outline'
+						className='ml-auto'
+					>
+						Not linked
+					</Badge>
+				)}
+			</Button>
+
+			<CommandDialog
+				open={open}
+				onOpenChange={setOpen}
+			>
+				<CommandInput placeholder='Search sites, buildings and areas...' />
+				<CommandList>
+					<CommandEmpty>No locations found.</CommandEmpty>
+
+					<CommandGroup>
+						<CommandItem
+							value='__none__'
+							onSelect={() => {
+								onChange({ locationId: '', location: '' });
+								setOpen(false);
+							}}
+						>
+							No location
+						</CommandItem>
+					</CommandGroup>
+
+					{groups.map(([site, items]) => (
+						<CommandGroup
+							key={site}
+							heading={site}
+						>
+							{items.map((location) => (
+								<CommandItem
+									key={location.id}
+									value={`${location.path} ${location.id}`}
+									onSelect={() => {
+										onChange({
+											locationId: location.id,
+											location: location.path
+										});
+										setOpen(false);
+									}}
+								>
+									<span className='truncate'>{location.path}</span>
+									<span className='ml-auto text-xs text-muted-foreground'>
+										{LOCATION_KIND_LABEL[location.kind]}
+									</span>
+								</CommandItem>
+							))}
+						</CommandGroup>
+					))}
+				</CommandList>
+			</CommandDialog>
+		</>
+	);
+}
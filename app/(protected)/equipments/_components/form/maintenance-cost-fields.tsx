@@ -0,0 +1,282 @@
+'use client';
+
+import { useFieldArray, useFormContext, useWatch } from 'react-hook-form';
+import { Plus, Trash2 } from 'lucide-react';
+
+import {
+	computeMaintenanceTotalCost,
+	DEFAULT_MAINTENANCE_CURRENCY
+} from '@/data-access/equipments';
+import { formatMoney } from '@/lib/money';
+import {
+	MAINTENANCE_CURRENCIES,
+	type MaintenanceFormValues
+} from './maintenance-schema';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import {
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage
+} from '@/components/ui/form';
+
+function toAmount(value: unknown) {
+	const n = Number(value);
+	return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * Labor, vendor and parts line items. Renders inside a shadcn <Form>
+ * whose values extend MaintenanceFormValues (add form, edit dialog).
+ */
+export default function MaintenanceCostFields({
+	disabled
+}: {
+	disabled?: boolean;
+}) {
+	const { control } = useFormContext<MaintenanceFormValues>();
+	const { fields, append, remove } = useFieldArray({ control, name: 'parts' });
+
+	const [parts, laborCost, currency] = useWatch({
+		control,
+		name: ['parts', 'laborCost', 'currency']
+	});
+
+	const total = computeMaintenanceTotalCost({
+		laborCost: toAmount(laborCost),
+		parts: (parts ?? []).map((p) => ({
+			name: p.name,
+			quantity: toAmount(p.quantity),
+			unitCost: toAmount(p.unitCost)
+		}))
+	});
+
+	return (
+		<div className='space-y-4'>
+			<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+				<FormField
+					control={control}
+					name='technician'
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Technician (optional)</FormLabel>
+							<FormControl>
+								<Input
+									disabled={disabled}
+									placeholder='e.g. J. Silva'
+									{...field}
+								/>
+							</FormControl>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+
+				<FormField
+					control={control}
+					name='vendor'
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Vendor (optional)</FormLabel>
+							<FormControl>
+								<Input
+									disabled={disabled}
+									placeholder='e.g. Acme Service Co.'
+									{...field}
+								/>
+							</FormControl>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+			</div>
+
+			<div className='grid grid-cols-1 gap-4 sm:grid-cols-3'>
+				<FormField
+					control={control}
+					name='laborHours'
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Labor hours</FormLabel>
+							<FormControl>
+								<Input
+									type='number'
+									min={0}
+									step={0.25}
+									disabled={disabled}
+									value={String(field.value ?? '')}
+									onChange={(e) => field.onChange(e.target.value)}
+								/>
+							</FormControl>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+
+				<FormField
+					control={control}
+					name='laborCost'
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Labor cost</FormLabel>
+							<FormControl>
+								<Input
+									type='number'
+									min={0}
+									step={0.01}
+									disabled={disabled}
+									value={String(field.value ?? '')}
+									onChange={(e) => field.onChange(e.target.value)}
+								/>
+							</FormControl>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+
+				<FormField
+					control={control}
+					name='currency'
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Currency</FormLabel>
+							<Select
+								disabled={disabled}
+								value={field.value}
+								onValueChange={field.onChange}
+							>
+								<FormControl>
+									<SelectTrigger>
+										<SelectValue placeholder='Currency' />
+									</SelectTrigger>
+								</FormControl>
+								<SelectContent>
+									{MAINTENANCE_CURRENCIES.map((c) => (
+										<SelectItem
+											key={c}
+											value={c}
+										>
+											{c}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+			</div>
+
+			<div className='space-y-2'>
+				<div className='flex items-center justify-between'>
+					<p className='text-sm font-medium'>Parts</p>
+					<Button
+						type='button'
+						variant='outline'
+						size='sm'
+						disabled={disabled}
+						onClick={() => append({ name: '', quantity: 1, unitCost: 0 })}
+					>
+						<Plus className='h-4 w-4 mr-1' />
+						Add part
+					</Button>
+				</div>
+
+				{fields.length === 0 ? (
+					<p className='text-xs text-muted-foreground'>No parts used.</p>
+				) : (
+					fields.map((item, index) => (
+						<div
+							key={item.id}
+							className='grid grid-cols-[1fr_80px_110px_auto] items-start gap-2'
+						>
+							<FormField
+								control={control}
+								name={`parts.${index}.name`}
+								render={({ field }) => (
+									<FormItem>
+										<FormControl>
+											<Input
+												disabled={disabled}
+												placeholder='Part'
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={control}
+								name={`parts.${index}.quantity`}
+								render={({ field }) => (
+									<FormItem>
+										<FormControl>
+											<Input
+												type='number'
+												min={0}
+												step={1}
+												disabled={disabled}
+												aria-label='Quantity'
+												value={String(field.value ?? '')}
+												onChange={(e) => field.onChange(e.target.value)}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={control}
+								name={`parts.${index}.unitCost`}
+								render={({ field }) => (
+									<FormItem>
+										<FormControl>
+											<Input
+												type='number'
+												min={0}
+												step={0.01}
+												disabled={disabled}
+												aria-label='Unit cost'
+												value={String(field.value ?? '')}
+												onChange={(e) => field.onChange(e.target.value)}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<Button
+								type='button'
+								variant='ghost'
+								size='icon'
+								disabled={disabled}
+								aria-label='Remove part'
+								onClick={() => remove(index)}
+							>
+								<Trash2 className='h-4 w-4' />
+							</Button>
+						</div>
+					))
+				)}
+			</div>
+
+			<div className='flex items-center justify-between rounded-md bg-muted/40 px-3 py-2'>
+				<p className='text-sm text-muted-foreground'>Total cost</p>
+				<p className='text-sm font-semibold'>
+					{formatMoney(total, currency ?? DEFAULT_MAINTENANCE_CURRENCY)}
+				</p>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,316 @@
+'use client';
+
+import { useFieldArray, useFormContext, useWatch } from 'react-hook-form';
+import { z } from 'zod';
+import { isAfter, parseISO } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+
+import {
+	DEFAULT_SERVICE_INTERVAL_DAYS,
+	createMaintenancePlanId,
+	normalizeMaintenancePlans,
+	withStoredPlanReadings
+} from '@/lib/maintenance-plans';
+import { METER_UNIT_LABEL, mergeMeterReadings } from '@/lib/meters';
+import type { MaintenancePlan } from '@/types/equipment';
+import type { EquipmentMeter, MeterUnit } from '@/types/meters';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import {
+	FormControl,
+	FormField,
+	FormItem,
+	FormMessage
+} from '@/components/ui/form';
+
+// blank inputs mean "no interval", not 0
+function optionalInterval(message: string) {
+	return z.preprocess(
+		(v) => (v === '' || v === null ? undefined : v),
+		z.coerce.number().int().min(1, message).optional()
+	);
+}
+
+export const maintenancePlansSchema = z
+	.array(
+		z
+			.object({
+				id: z.string(),
+				task: z.string().trim().min(1, 'Task is required'),
+				intervalDays: optionalInterval('At least 1 day'),
+				meterId: z.string().optional(),
+				meterInterval: optionalInterval('At least 1'),
+				lastServiceDate: z
+					.string()
+					.optional()
+					.refine((v) => !v || !isAfter(parseISO(v), new Date()), {
+						message: 'Cannot be in the future'
+					})
+			})
+			.superRefine((plan, ctx) => {
+				if (plan.meterId && !plan.meterInterval) {
+					ctx.addIssue({
+						code: 'custom',
+						path: ['meterInterval'],
+						message: 'Required with a meter'
+					});
+				}
+				if (!plan.intervalDays && !plan.meterId) {
+					ctx.addIssue({
+						code: 'custom',
+						path: ['intervalDays'],
+						message: 'Set days or a meter'
+					});
+				}
+			})
+	)
+	.min(1, 'Add at least one maintenance plan');
+
+type PlanFormValues = {
+	lastServiceDate: string;
+	maintenancePlans: z.input<typeof maintenancePlansSchema>;
+	meters: Array<{ id: string; name: string; unit: MeterUnit }>;
+};
+
+// raw form row -> plan, for the next-due preview
+function toPreviewPlan(row: Record<string, unknown>): MaintenancePlan {
+	return {
+		id: String(row.id ?? ''),
+		task: String(row.task ?? ''),
+		intervalDays: Number(row.intervalDays) || undefined,
+		meterId: (row.meterId as string) || undefined,
+		meterInterval: Number(row.meterInterval) || undefined,
+		lastServiceDate: (row.lastServiceDate as string) || undefined
+	};
+}
+
+/**
+ * Plan rows of the equipment form: task, calendar and/or meter interval
+ * and when it was last done (blank = the asset's last service date).
+ * `stored` feeds the next-due preview with the logged meter readings.
+ */
+export default function MaintenancePlanFields({
+	disabled,
+	stored
+}: {
+	disabled?: boolean;
+	stored?: { plans: MaintenancePlan[]; meters?: EquipmentMeter[] };
+}) {
+	const { control, formState } = useFormContext<PlanFormValues>();
+	const { fields, append, remove } = useFieldArray({
+		control,
+		name: 'maintenancePlans'
+	});
+
+	const [plans, assetLastService, formMeters] = useWatch({
+		control,
+		name: ['maintenancePlans', 'lastServiceDate', 'meters']
+	});
+
+	const meters = (formMeters ?? []).filter((m) => m.name.trim());
+	const previewMeters = mergeMeterReadings(meters, stored?.meters);
+
+	const rootError = formState.errors.maintenancePlans?.root?.message;
+
+	return (
+		<div className='space-y-2'>
+			<div className='flex items-center justify-between'>
+				<div>
+					<p className='text-sm font-medium'>Maintenance plans</p>
+					<p className='text-xs text-muted-foreground'>
+						The earliest due plan drives the asset&apos;s next service date.
+						Meter plans are forecast from recent usage.
+					</p>
+				</div>
+				<Button
+					type='button'
+					variant='outline'
+					size='sm'
+					disabled={disabled}
+					onClick={() =>
+						append({
+							id: createMaintenancePlanId(),
+							task: '',
+							intervalDays: DEFAULT_SERVICE_INTERVAL_DAYS,
+							meterId: '',
+							meterInterval: '',
+							lastServiceDate: ''
+						})
+					}
+				>
+					<Plus className='h-4 w-4 mr-1' />
+					Add plan
+				</Button>
+			</div>
+
+			{fields.map((item, index) => {
+				const row = plans?.[index];
+				const next = row
+					? normalizeMaintenancePlans(
+							withStoredPlanReadings(
+								[toPreviewPlan(row as Record<string, unknown>)],
+								stored?.plans ?? []
+							),
+							{
+								fallbackLastServiceDate: assetLastService,
+								meters: previewMeters
+							}
+						)[0]
+					: undefined;
+				const meter = meters.find((m) => m.id === row?.meterId);
+
+				return (
+					<div
+						key={item.id}
+						className='space-y-2 rounded-md border p-3'
+					>
+						<div className='grid grid-cols-[1fr_150px_auto] items-start gap-2'>
+							<FormField
+								control={control}
+								name={`maintenancePlans.${index}.task`}
+								render={({ field }) => (
+									<FormItem>
+										<FormControl>
+											<Input
+												disabled={disabled}
+												placeholder='e.g. Lubrication'
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={control}
+								name={`maintenancePlans.${index}.lastServiceDate`}
+								render={({ field }) => (
+									<FormItem>
+										<FormControl>
+											<Input
+												type='date'
+												disabled={disabled}
+												aria-label='Last done'
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<Button
+								type='button'
+								variant='ghost'
+								size='icon'
+								disabled={disabled || fields.length === 1}
+								aria-label='Remove plan'
+								onClick={() => remove(index)}
+							>
+								<Trash2 className='h-4 w-4' />
+							</Button>
+						</div>
+
+						<div className='grid grid-cols-[90px_1fr_90px] items-start gap-2'>
+							<FormField
+								control={control}
+								name={`maintenancePlans.${index}.intervalDays`}
+								render={({ field }) => (
+									<FormItem>
+										<FormControl>
+											<Input
+												type='number'
+												min={1}
+												step={1}
+												disabled={disabled}
+												placeholder='Days'
+												aria-label='Interval in days'
+												value={String(field.value ?? '')}
+												onChange={(e) => field.onChange(e.target.value)}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={control}
+								name={`maintenancePlans.${index}.meterId`}
+								render={({ field }) => (
+									<FormItem>
+										<Select
+											value={field.value || 'none'}
+											onValueChange={(v) =>
+												field.onChange(v === 'none' ? '' : v)
+											}
+										>
+											<FormControl>
+												<SelectTrigger
+													disabled={disabled || meters.length === 0}
+													aria-label='Meter'
+												>
+													<SelectValue />
+												</SelectTrigger>
+											</FormControl>
+											<SelectContent>
+												<SelectItem value='none'>No meter</SelectItem>
+												{meters.map((m) => (
+													<SelectItem
+														key={m.id}
+														value={m.id}
+													>
+														{m.name} ({METER_UNIT_LABEL[m.unit]})
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={control}
+								name={`maintenancePlans.${index}.meterInterval`}
+								render={({ field }) => (
+									<FormItem>
+										<FormControl>
+											<Input
+												type='number'
+												min={1}
+												step={1}
+												disabled={disabled || !meter}
+												placeholder={meter ? METER_UNIT_LABEL[meter.unit] : '—'}
+												aria-label='Meter interval'
+												value={String(field.value ?? '')}
+												onChange={(e) => field.onChange(e.target.value)}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+
+						<p className='text-xs text-muted-foreground'>
+							Next due: {next?.nextServiceDate ?? '—'}
+							{meter && typeof next?.nextServiceReading === 'number'
+								? ` • at ${next.nextServiceReading} ${METER_UNIT_LABEL[meter.unit]}`
+								: ''}
+						</p>
+					</div>
+				);
+			})}
+
+			{rootError && (
+				<p className='text-sm font-medium text-destructive'>{rootError}</p>
+			)}
+		</div>
+	);
+}
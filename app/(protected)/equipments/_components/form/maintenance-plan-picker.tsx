@@ -0,0 +1,81 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+
+import type { MaintenancePlan } from '@/types/equipment';
+import type { MaintenanceFormValues } from './maintenance-schema';
+
+import { Button } from '@/components/ui/button';
+import {
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage
+} from '@/components/ui/form';
+
+/**
+ * Toggles for the plans a maintenance record satisfies. Renders inside a
+ * shadcn <Form> whose values extend MaintenanceFormValues.
+ */
+export default function MaintenancePlanPicker({
+	plans,
+	disabled
+}: {
+	plans: MaintenancePlan[];
+	disabled?: boolean;
+}) {
+	const { control } = useFormContext<MaintenanceFormValues>();
+
+	if (plans.length === 0) return null;
+
+	return (
+		<FormField
+			control={control}
+			name='planIds'
+			render={({ field }) => {
+				const selected = field.value ?? [];
+
+				function toggle(planId: string) {
+					field.onChange(
+						selected.includes(planId)
+							? selected.filter((id) => id !== planId)
+							: [...selected, planId]
+					);
+				}
+
+				return (
+					<FormItem>
+						<FormLabel>Satisfies plans</FormLabel>
+						<FormControl>
+							<div className='flex flex-wrap gap-2'>
+								{plans.map((plan) => (
+									<Button
+										key={plan.id}
+										type='button'
+										size='sm'
+										variant={
+											selected.includes(plan.id) ? 'secondary' : 'outline'
+										}
+										aria-pressed={selected.includes(plan.id)}
+										disabled={disabled}
+										onClick={() => toggle(plan.id)}
+									>
+										{plan.task}
+										<span className='ml-1 text-xs text-muted-foreground'>
+											due {plan.nextServiceDate ?? '—'}
+										</span>
+									</Button>
+								))}
+							</div>
+						</FormControl>
+						<p className='text-xs text-muted-foreground'>
+							Selected plans restart their interval from this date.
+						</p>
+						<FormMessage />
+					</FormItem>
+				);
+			}}
+		/>
+	);
+}
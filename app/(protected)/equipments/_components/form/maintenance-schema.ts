@@ -0,0 +1,86 @@
+import { z } from 'zod';
+
+import { DEFAULT_MAINTENANCE_CURRENCY } from '@/data-access/equipments';
+import { LEGACY_MAINTENANCE_PLAN_ID } from '@/lib/maintenance-plans';
+import type {
+	MaintenanceRecord,
+	MaintenanceRecordInput
+} from '@/types/maintenance';
+
+export const MAINTENANCE_CURRENCIES = ['USD', 'EUR', 'GBP', 'BRL'] as const;
+
+// number inputs hand back '' when left blank
+const optionalAmount = z.preprocess(
+	(v) => (v === '' || v === null ? undefined : v),
+	z.coerce.number().min(0, 'Must be 0 or more').optional()
+);
+
+export const maintenanceRecordSchema = z.object({
+	date: z.string().min(1, 'Date is required'),
+	type: z.enum(['preventive', 'corrective']),
+	notes: z.string().optional(),
+
+	laborHours: optionalAmount,
+	laborCost: optionalAmount,
+	technician: z.string().optional(),
+	vendor: z.string().optional(),
+	currency: z.enum(MAINTENANCE_CURRENCIES),
+
+	// plans this service satisfies
+	planIds: z.array(z.string()),
+
+	parts: z.array(
+		z.object({
+			name: z.string().trim().min(1, 'Part name is required'),
+			quantity: z.coerce.number().positive('Must be more than 0'),
+			unitCost: z.coerce.number().min(0, 'Must be 0 or more')
+		})
+	)
+});
+
+export type MaintenanceFormValues = z.input<typeof maintenanceRecordSchema>;
+type MaintenanceParsedValues = z.output<typeof maintenanceRecordSchema>;
+
+export function toMaintenanceFormValues(
+	record?: Partial<MaintenanceRecord> | null
+): MaintenanceFormValues {
+	const currency = MAINTENANCE_CURRENCIES.find((c) => c === record?.currency);
+
+	return {
+		date: record?.date ?? '',
+		type: record?.type ?? 'preventive',
+		notes: record?.notes ?? '',
+
+		laborHours: record?.laborHours ?? '',
+		laborCost: record?.laborCost ?? '',
+		technician: record?.technician ?? '',
+		vendor: record?.vendor ?? '',
+		currency: currency ?? DEFAULT_MAINTENANCE_CURRENCY,
+
+		// stored records without planIds predate plans
+		planIds:
+			record?.planIds ?? (record?.id ? [LEGACY_MAINTENANCE_PLAN_ID] : []),
+
+		parts: record?.parts ?? []
+	};
+}
+
+export function toMaintenanceInput(
+	parsed: MaintenanceParsedValues
+): MaintenanceRecordInput {
+	return {
+		date: parsed.date,
+		type: parsed.type,
+		notes: parsed.notes?.trim() || undefined,
+
+		laborHours: parsed.laborHours,
+		laborCost: parsed.laborCost,
+		technician: parsed.technician?.trim() || undefined,
+		vendor: parsed.vendor?.trim() || undefined,
+		currency: parsed.currency,
+
+		planIds: parsed.planIds,
+
+		parts: parsed.parts
+	};
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import { z } from 'zod';
+import { Plus, Trash2 } from 'lucide-react';
+
+import { createMeterId } from '@/lib/meters';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import {
+	FormControl,
+	FormField,
+	FormItem,
+	FormMessage
+} from '@/components/ui/form';
+
+export const metersSchema = z.array(
+	z.object({
+		id: z.string(),
+		name: z.string().trim().min(1, 'Name is required'),
+		unit: z.enum(['hours', 'cycles', 'km'])
+	})
+);
+
+type MeterFormValues = {
+	meters: z.input<typeof metersSchema>;
+};
+
+/**
+ * Usage meters of the equipment form (name + unit). Readings are logged
+ * from the asset page, not here.
+ */
+export default function MeterFields({ disabled }: { disabled?: boolean }) {
+	const { control } = useFormContext<MeterFormValues>();
+	const { fields, append, remove } = useFieldArray({
+		control,
+		name: 'meters'
+	});
+
+	return (
+		<div className='space-y-2'>
+			<div className='flex items-center justify-between'>
+				<div>
+					<p className='text-sm font-medium'>Meters</p>
+					<p className='text-xs text-muted-foreground'>
+						Usage counters plans can trigger on, e.g. engine hours.
+					</p>
+				</div>
+				<Button
+					type='button'
+					variant='outline'
+					size='sm'
+					disabled={disabled}
+					onClick={() =>
+						append({ id: createMeterId(), name: '', unit: 'hours' })
+					}
+				>
+					<Plus className='h-4 w-4 mr-1' />
+					Add meter
+				</Button>
+			</div>
+
+			{fields.length === 0 && (
+				<p className='text-xs text-muted-foreground'>No meters.</p>
+			)}
+
+			{fields.map((item, index) => (
+				<div
+					key={item.id}
+					className='grid grid-cols-[1fr_120px_auto] items-start gap-2'
+				>
+					<FormField
+						control={control}
+						name={`meters.${index}.name`}
+						render={({ field }) => (
+							<FormItem>
+								<FormControl>
+									<Input
+										disabled={disabled}
+										placeholder='e.g. Engine'
+										{...field}
+									/>
+								</FormControl>
+								<FormMessage />
+							</FormItem>
+						)}
+					/>
+					<FormField
+						control={control}
+						name={`meters.${index}.unit`}
+						render={({ field }) => (
+							<FormItem>
+								<Select
+									onValueChange={field.onChange}
+									value={field.value}
+								>
+									<FormControl>
+										<SelectTrigger disabled={disabled}>
+											<SelectValue />
+										</SelectTrigger>
+									</FormControl>
+									<SelectContent>
+										<SelectItem value='hours'>Hours</SelectItem>
+										<SelectItem value='cycles'>Cycles</SelectItem>
+										<SelectItem value='km'>Kilometers</SelectItem>
+									</SelectContent>
+								</Select>
+								<FormMessage />
+							</FormItem>
+						)}
+					/>
+					<Button
+						type='button'
+						variant='ghost'
+						size='icon'
+						disabled={disabled}
+						aria-label='Remove meter'
+						onClick={() => remove(index)}
+					>
+						<Trash2 className='h-4 w-4' />
+					</Button>
+				</div>
+			))}
+		</div>
+	);
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState, type KeyboardEvent } from 'react';
+import { X } from 'lucide-react';
+
+import { normalizeTag, normalizeTags } from '@/lib/tags';
+
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Chips + text input. Enter or comma adds the typed tag; suggestions
+ * (existing tags) are filtered by what is typed.
+ */
+export default function TagInput({
+	value,
+	onChange,
+	suggestions = [],
+	disabled,
+	placeholder = 'Add tag...'
+}: {
+	value: string[];
+	onChange: (tags: string[]) => void;
+	suggestions?: string[];
+	disabled?: boolean;
+	placeholder?: string;
+}) {
+	const [draft, setDraft] = useState('');
+	const [isFocused, setIsFocused] = useState(false);
+
+	const term = normalizeTag(draft);
+	const matches = suggestions
+		.filter((tag) => !value.includes(tag) && (!term || tag.includes(term)))
+		.slice(0, MAX_SUGGESTIONS);
+
+	function add(tag: string) {
+		onChange(normalizeTags([...value, tag]));
+		setDraft('');
+	}
+
+	function handleKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+		if ((e.key === 'Enter' || e.key === ',') && term) {
+			e.preventDefault();
+			add(term);
+			return;
+		}
+		if (e.key === 'Backspace' && !draft && value.length > 0) {
+			onChange(value.slice(0, -1));
+		}
+	}
+
+	return (
+		<div className='relative space-y-2'>
+			{value.length > 0 && (
+				<div className='flex flex-wrap gap-1'>
+					{value.map((tag) => (
+						<Badge
+							key={tag}
+							variant='secondary'
+							className='gap-1'
+						>
+							{tag}
+							<button
+								type='button'
+								disabled={disabled}
+								aria-label={`Remove ${tag}`}
+								onClick={() => onChange(value.filter((t) => t !== tag))}
+							>
+								<X className='h-3 w-3' />
+							</button>
+						</Badge>
+					))}
+				</div>
+			)}
+
+			<Input
+				value={draft}
+				disabled={disabled}
+				placeholder={placeholder}
+				onChange={(e) => setDraft(e.target.value)}
+				onKeyDown={handleKeyDown}
+				onFocus={() => setIsFocused(true)}
+				onBlur={() => setIsFocused(false)}
+			/>
+
+			{isFocused && !disabled && matches.length > 0 && (
+				<div className='absolute z-10 w-full rounded-md border bg-popover p-1 shadow-md'>
+					{matches.map((tag) => (
+						<button
+							key={tag}
+							type='button'
+							className='block w-full rounded-sm px-2 py-1.5 text-left text-sm hover:bg-muted'
+							// mantém o foco no input até o clique acontecer
+							onMouseDown={(e) => e.preventDefault()}
+							onClick={() => add(tag)}
+						>
+							{tag}
+						</button>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
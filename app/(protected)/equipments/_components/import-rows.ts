@@ -0,0 +1,293 @@
+import type { Equipment, EquipmentFieldChange } from '@/types/equipment';
+import type { AssetCategory } from '@/types/categories';
+import type { Location } from '@/types/locations';
+import type { StatusChangeReason } from '@/types/downtime';
+import {
+	canTransitionStatus,
+	getStatusLabel,
+	getStatusOptions,
+	statusHasGuard
+} from '@/lib/equipment-status';
+import { resolveMaintenancePlans } from '@/lib/maintenance-plans';
+import { matchLocationText } from '@/lib/locations';
+import { normalizeTags } from '@/lib/tags';
+import {
+	IMPORT_FIELDS,
+	parseImportBoolean,
+	parseImportDate,
+	parseImportStatus,
+	parseImportStatusReason,
+	splitImportList,
+	type ImportSheet,
+	type ImportTarget
+} from '@/lib/equipment-import';
+import {
+	diffEquipmentInput,
+	normalizeSerialNumber,
+	type EquipmentImportRow
+} from '@/data-access/equipments';
+
+import { toCustomFieldFormValues } from './form/custom-field-inputs';
+import {
+	buildEquipmentSchema,
+	toEquipmentFormValues,
+	toEquipmentInput
+} from './form/equipment-schema';
+
+export type ImportRowAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ImportPreviewRow {
+	rowNumber: number;
+	action: ImportRowAction;
+	name: string;
+	serialNumber: string;
+	errors: string[];
+	changes: EquipmentFieldChange[];
+	// what importEquipments writes (create/update only)
+	write?: EquipmentImportRow;
+}
+
+export interface ImportContext {
+	assets: Equipment[]; // archived included
+	categories: AssetCategory[]; // archived included
+	locations: Location[];
+}
+
+function fieldLabel(target: ImportTarget) {
+	return IMPORT_FIELDS.find((f) => f.target === target)?.label ?? target;
+}
+
+function storedSerial(eq: Equipment) {
+	return (
+		eq.serialNumberNormalized || normalizeSerialNumber(eq.serialNumber ?? '')
+	);
+}
+
+/**
+ * Dry run of an import. Each row is matched to an active asset by serial
+ * number (update) or becomes a new asset (create), then goes through the
+ * same schema and status rules as EquipmentForm. Nothing is written.
+ */
+export function buildImportPreview(
+	sheet: ImportSheet,
+	mapping: Array<ImportTarget | null>,
+	context: ImportContext
+): ImportPreviewRow[] {
+	// arquivados não seguram o serial (ver archiveEquipment)
+	const activeBySerial = new Map(
+		context.assets
+			.filter((a) => !a.archivedAt)
+			.map((a) => [storedSerial(a), a] as const)
+	);
+	const seenSerials = new Map<string, number>();
+
+	return sheet.rows.map((row) => {
+		const values = new Map<ImportTarget, string>();
+		mapping.forEach((target, column) => {
+			if (target && row.cells[column]) values.set(target, row.cells[column]);
+		});
+
+		const errors: string[] = [];
+		const serialNumber = values.get('serialNumber') ?? '';
+		const serialNormalized = normalizeSerialNumber(serialNumber);
+
+		if (serialNormalized) {
+			const firstRow = seenSerials.get(serialNormalized);
+			if (firstRow) errors.push(`Serial number repeats row ${firstRow}`);
+			else seenSerials.set(serialNormalized, row.rowNumber);
+		}
+
+		const existing = serialNormalized
+			? activeBySerial.get(serialNormalized)
+			: undefined;
+
+		// category first: it decides which custom fields apply
+		let category = context.categories.find(
+			(c) => c.id === existing?.categoryId
+		);
+		const categoryName = values.get('category');
+		if (categoryName) {
+			const match = context.categories.find(
+				(c) =>
+					!c.isArchived &&
+					c.name.trim().toLowerCase() === categoryName.toLowerCase()
+			);
+			if (match) category = match;
+			else errors.push(`Unknown category "${categoryName}"`);
+		}
+		const customFields = category?.fields ?? [];
+
+		const formValues = toEquipmentFormValues(existing, customFields);
+		if (category && category.id !== existing?.categoryId) {
+			formValues.categoryId = category.id;
+			formValues.customFields = toCustomFieldFormValues(
+				undefined,
+				customFields
+			);
+		}
+
+		for (const [target, value] of Array.from(values.entries())) {
+			if (target === 'name') formValues.name = value;
+			if (target === 'serialNumber') formValues.serialNumber = value;
+
+			if (target === 'status') {
+				const status = parseImportStatus(value);
+				if (status) formValues.status = status;
+				else errors.push(`Unknown status "${value}"`);
+			}
+
+			if (target === 'statusReason') {
+				const reason = parseImportStatusReason(value);
+				formValues.statusReasonCode = reason.code ?? '';
+				formValues.statusReasonNote = reason.note ?? '';
+			}
+
+			if (target === 'purchaseDate' || target === 'lastServiceDate') {
+				const date = parseImportDate(value);
+				if (date) formValues[target] = date;
+				else errors.push(`${fieldLabel(target)}: use yyyy-MM-dd`);
+			}
+
+			if (target === 'serviceIntervalDays') {
+				if (formValues.maintenancePlans.length === 1) {
+					formValues.maintenancePlans[0].intervalDays = value;
+				} else {
+					errors.push(
+						'Service interval: this asset has several maintenance plans; edit them on the asset page'
+					);
+				}
+			}
+
+			if (target === 'location') {
+				const match = matchLocationText(
+					value,
+					context.locations.filter((l) => !l.isArchived)
+				);
+				if (match.kind !== 'exact') {
+					errors.push(`Unknown location "${value}"`);
+				} else if (!existing) {
+					formValues.location = match.location.path;
+					formValues.locationId = match.location.id;
+				} else if (match.location.id !== existing.locationId) {
+					errors.push('Location changes go through a transfer');
+				}
+			}
+
+			if (target === 'owner') {
+				if (!existing) formValues.owner = value;
+				else if (value !== (existing.owner ?? '').trim()) {
+					errors.push('Owner changes go through a transfer');
+				}
+			}
+
+			if (target === 'tags')
+				formValues.tags = normalizeTags(splitImportList(value));
+
+			if (target.startsWith('custom:')) {
+				const key = target.slice('custom:'.length);
+				const field = customFields.find((f) => f.key === key);
+				// só vale para campos da categoria da linha
+				if (!field || !formValues.customFields) continue;
+
+				if (field.type === 'boolean') {
+					const parsed = parseImportBoolean(value);
+					if (parsed === null) errors.push(`${field.label}: use yes or no`);
+					else formValues.customFields[key] = parsed;
+				} else {
+					formValues.customFields[key] = value;
+				}
+			}
+		}
+
+		const status = formValues.status;
+		const isStatusChange = status !== (existing?.status ?? 'active');
+
+		if (!existing && !getStatusOptions().includes(status)) {
+			errors.push(`New assets can't start as ${getStatusLabel(status)}`);
+		}
+		if (existing && !canTransitionStatus(existing.status, status)) {
+			errors.push(
+				`Can't move from ${getStatusLabel(existing.status)} to ${getStatusLabel(status)}`
+			);
+		}
+		if (
+			isStatusChange &&
+			statusHasGuard(status, 'reason_required') &&
+			!formValues.statusReasonCode &&
+			!formValues.statusReasonNote?.trim()
+		) {
+			errors.push(`A reason is required to move to ${getStatusLabel(status)}`);
+		}
+
+		const result = buildEquipmentSchema(customFields).safeParse(formValues);
+		if (!result.success) {
+			for (const issue of result.error.issues) {
+				const field = issue.path[0];
+				if (field === 'customFields') {
+					const label = customFields.find(
+						(f) => f.key === issue.path[1]
+					)?.label;
+					errors.push(
+						label && !issue.message.startsWith(label)
+							? `${label}: ${issue.message}`
+							: issue.message
+					);
+				} else if (field === 'maintenancePlans') {
+					errors.push(`Maintenance plan: ${issue.message}`);
+				} else {
+					errors.push(issue.message);
+				}
+			}
+		}
+
+		const base = {
+			rowNumber: row.rowNumber,
+			name: formValues.name || existing?.name || '',
+			serialNumber
+		};
+
+		if (errors.length > 0 || !result.success) {
+			return { ...base, action: 'error', errors, changes: [] };
+		}
+
+		const data = toEquipmentInput(result.data, existing);
+		const statusReason: StatusChangeReason | undefined = isStatusChange
+			? {
+					code: result.data.statusReasonCode || undefined,
+					note: result.data.statusReasonNote?.trim() || undefined
+				}
+			: undefined;
+
+		if (!existing) {
+			return {
+				...base,
+				action: 'create',
+				errors,
+				changes: [],
+				write: { rowNumber: row.rowNumber, data, statusReason }
+			};
+		}
+
+		const changes = diffEquipmentInput(
+			{ ...existing, maintenancePlans: resolveMaintenancePlans(existing) },
+			data
+		);
+
+		return {
+			...base,
+			action: changes.length > 0 ? 'update' : 'unchanged',
+			errors,
+			changes,
+			write:
+				changes.length > 0
+					? {
+							rowNumber: row.rowNumber,
+							data,
+							statusReason,
+							equipmentId: existing.id,
+							expectedRevision: existing.revision ?? 0
+						}
+					: undefined
+		};
+	});
+}
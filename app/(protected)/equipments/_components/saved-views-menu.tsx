@@ -0,0 +1,406 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Bookmark, BookmarkPlus, Star, Users } from 'lucide-react';
+import { toast } from 'sonner';
+
+import type {
+	EquipmentsSavedView,
+	EquipmentsUserView,
+	EquipmentsUserViewInput,
+	EquipmentsViewState,
+	SavedViewVisibility
+} from '@/types/views';
+import {
+	createEquipmentView,
+	deleteEquipmentView,
+	updateEquipmentView
+} from '@/data-access/views';
+import { setDefaultEquipmentsView } from '@/data-access/users';
+import { useAuth } from '@/context/auth-context';
+import { useUserRole } from '@/hooks/use-user-role';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+	Select,
+	SelectContent,
+	SelectGroup,
+	SelectItem,
+	SelectLabel,
+	SelectSeparator,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+
+import SavedViewDialog, {
+	type SavedViewDialogMode
+} from './dialogs/saved-view-dialog';
+
+// error codes thrown by data-access/views
+function getSavedViewErrorMessage(err: unknown) {
+	if (err instanceof Error) {
+		if (err.message === 'Not authenticated') return 'Sign in to continue.';
+		if (err.message === 'Not authorized') {
+			return 'Only admins change shared views.';
+		}
+		if (err.message === 'VIEW_NOT_FOUND') return 'This view was deleted.';
+		if (err.message === 'VIEW_ADMIN_ONLY') {
+			return 'Only admins publish or change shared views.';
+		}
+		if (err.message === 'VIEW_NOT_OWNED') {
+			return 'Only the owner changes a personal view.';
+		}
+		if (err.message === 'VIEW_ALREADY_EXISTS') {
+			return 'A view with this name already exists.';
+		}
+		if (err.message === 'INVALID_NAME') return 'Give the view a name.';
+		return err.message;
+	}
+	return 'Unexpected error';
+}
+
+export default function SavedViewsMenu({
+	builtInViews,
+	views,
+	activeKey,
+	currentState,
+	isModified,
+	onSelect
+}: {
+	builtInViews: EquipmentsSavedView[];
+	// shared + the user's personal views
+	views: EquipmentsUserView[];
+	// built-in key or view id ('' = none)
+	activeKey: string;
+	currentState: EquipmentsViewState;
+	// filters/columns differ from the active view
+	isModified: boolean;
+	onSelect: (key: string) => void;
+}) {
+	const queryClient = useQueryClient();
+	const { user } = useAuth();
+	const { profile, isAdmin } = useUserRole();
+
+	const [dialogMode, setDialogMode] = useState<SavedViewDialogMode | null>(
+		null
+	);
+	const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+	const activeView = views.find((v) => v.id === activeKey);
+	const defaultKey = profile?.defaultEquipmentsView;
+	const canEditActive = Boolean(
+		activeView &&
+			user &&
+			(activeView.visibility === 'shared'
+				? isAdmin
+				: activeView.ownerId === user.uid)
+	);
+
+	const sharedViews = views.filter((v) => v.visibility === 'shared');
+	const personalViews = views.filter((v) => v.visibility === 'personal');
+
+	const requireActor = (visibility?: SavedViewVisibility) => {
+		if (!user) throw new Error('Not authenticated');
+		if (visibility === 'shared' && !isAdmin) throw new Error('Not authorized');
+		return { uid: user.uid, email: user.email };
+	};
+
+	const createMutation = useMutation({
+		mutationFn: async (values: {
+			name: string;
+			visibility: SavedViewVisibility;
+		}) =>
+			createEquipmentView(
+				{ ...values, state: currentState },
+				requireActor(values.visibility)
+			),
+		onSuccess: (view) => {
+			setDialogMode(null);
+			queryClient.invalidateQueries({ queryKey: ['equipment-views'] });
+			onSelect(view.id);
+			toast.success('View saved');
+		},
+		onError: (err) => toast.error(getSavedViewErrorMessage(err))
+	});
+
+	const updateMutation = useMutation({
+		mutationFn: async ({
+			view,
+			patch
+		}: {
+			view: EquipmentsUserView;
+			patch: Partial<EquipmentsUserViewInput>;
+			message: string;
+		}) => {
+			// publicar/despublicar e editar views compartilhadas: só admin
+			const actor = requireActor(
+				patch.visibility === 'shared' || view.visibility === 'shared'
+					? 'shared'
+					: 'personal'
+			);
+			await updateEquipmentView(view.id, patch, actor);
+		},
+		onSuccess: (_, { message }) => {
+			setDialogMode(null);
+			queryClient.invalidateQueries({ queryKey: ['equipment-views'] });
+			toast.success(message);
+		},
+		onError: (err) => toast.error(getSavedViewErrorMessage(err))
+	});
+
+	const deleteMutation = useMutation({
+		mutationFn: async (view: EquipmentsUserView) => {
+			const actor = requireActor(view.visibility);
+			await deleteEquipmentView(view.id, actor);
+			if (defaultKey === view.id) {
+				await setDefaultEquipmentsView(actor.uid, null);
+			}
+		},
+		onSuccess: () => {
+			setIsDeleteOpen(false);
+			onSelect('operational');
+			queryClient.invalidateQueries({ queryKey: ['equipment-views'] });
+			queryClient.invalidateQueries({ queryKey: ['user-profile'] });
+			toast.success('View deleted');
+		},
+		onError: (err) => toast.error(getSavedViewErrorMessage(err))
+	});
+
+	const defaultMutation = useMutation({
+		mutationFn: async (key: string | null) =>
+			setDefaultEquipmentsView(requireActor().uid, key),
+		onSuccess: (_, key) => {
+			queryClient.invalidateQueries({ queryKey: ['user-profile'] });
+			toast.success(key ? 'Default view set' : 'Default view cleared');
+		},
+		onError: (err) => toast.error(getSavedViewErrorMessage(err))
+	});
+
+	const isSaving = createMutation.isPending || updateMutation.isPending;
+	const isBusy =
+		isSaving || deleteMutation.isPending || defaultMutation.isPending;
+
+	const renderItem = (key: string, label: string, shared?: boolean) => (
+		<SelectItem
+			key={key}
+			value={key}
+		>
+			<div className='flex items-center gap-2'>
+				{shared ? (
+					<Users className='h-4 w-4' />
+				) : (
+					<Bookmark className='h-4 w-4' />
+				)}
+				{label}
+				{defaultKey === key && (
+					<Star className='h-3.5 w-3.5 text-muted-foreground' />
+				)}
+			</div>
+		</SelectItem>
+	);
+
+	return (
+		<div className='flex items-center gap-1'>
+			<Select
+				value={activeKey}
+				onValueChange={onSelect}
+			>
+				<SelectTrigger className='w-[220px]'>
+					<SelectValue placeholder='Saved view' />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectGroup>
+						<SelectLabel>Built-in</SelectLabel>
+						{builtInViews.map((v) => renderItem(v.key, v.label))}
+					</SelectGroup>
+
+					{sharedViews.length > 0 && (
+						<>
+							<SelectSeparator />
+							<SelectGroup>
+								<SelectLabel>Shared</SelectLabel>
+								{sharedViews.map((v) => renderItem(v.id, v.name, true))}
+							</SelectGroup>
+						</>
+					)}
+
+					{personalViews.length > 0 && (
+						<>
+							<SelectSeparator />
+							<SelectGroup>
+								<SelectLabel>My views</SelectLabel>
+								{personalViews.map((v) => renderItem(v.id, v.name))}
+							</SelectGroup>
+						</>
+					)}
+				</SelectContent>
+			</Select>
+
+			{isModified && <Badge variant='secondary'>Modified</Badge>}
+
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button
+						variant='ghost'
+						size='icon'
+						aria-label='View actions'
+						disabled={!user || isBusy}
+					>
+						<BookmarkPlus className='h-4 w-4' />
+					</Button>
+				</DropdownMenuTrigger>
+
+				<DropdownMenuContent align='start'>
+					<DropdownMenuItem onClick={() => setDialogMode('create')}>
+						Save as new view...
+					</DropdownMenuItem>
+
+					{activeView && canEditActive && (
+						<>
+							<DropdownMenuItem
+								disabled={!isModified}
+								onClick={() =>
+									updateMutation.mutate({
+										view: activeView,
+										patch: { state: currentState },
+										message: 'View updated'
+									})
+								}
+							>
+								Save changes to “{activeView.name}”
+							</DropdownMenuItem>
+							<DropdownMenuItem onClick={() => setDialogMode('rename')}>
+								Rename...
+							</DropdownMenuItem>
+						</>
+					)}
+
+					<DropdownMenuSeparator />
+
+					{defaultKey === activeKey ? (
+						<DropdownMenuItem onClick={() => defaultMutation.mutate(null)}>
+							Clear my default
+						</DropdownMenuItem>
+					) : (
+						<DropdownMenuItem
+							// link com uma view que o usuário não vê: sem view ativa
+							disabled={!activeKey}
+							onClick={() => defaultMutation.mutate(activeKey)}
+						>
+							Set as my default
+						</DropdownMenuItem>
+					)}
+
+					{activeView && isAdmin && (
+						<DropdownMenuItem
+							onClick={() =>
+								updateMutation.mutate({
+									view: activeView,
+									patch: {
+										visibility:
+											activeView.visibility === 'shared' ? 'personal' : 'shared'
+									},
+									message:
+										activeView.visibility === 'shared'
+											? 'View is personal again'
+											: 'View shared with the team'
+								})
+							}
+						>
+							{activeView.visibility === 'shared'
+								? 'Unpublish'
+								: 'Share with the team'}
+						</DropdownMenuItem>
+					)}
+
+					{activeView && canEditActive && (
+						<>
+							<DropdownMenuSeparator />
+							<DropdownMenuItem
+								className='text-destructive'
+								onClick={() => setIsDeleteOpen(true)}
+							>
+								Delete view...
+							</DropdownMenuItem>
+						</>
+					)}
+				</DropdownMenuContent>
+			</DropdownMenu>
+
+			{dialogMode && (
+				<SavedViewDialog
+					open
+					mode={dialogMode}
+					initialName={dialogMode === 'rename' ? activeView?.name : ''}
+					canShare={isAdmin}
+					isSaving={isSaving}
+					onConfirm={(values) => {
+						if (dialogMode === 'create') {
+							createMutation.mutate(values);
+						} else if (activeView) {
+							updateMutation.mutate({
+								view: activeView,
+								patch: { name: values.name },
+								message: 'View renamed'
+							});
+						}
+					}}
+					onOpenChange={(open) => {
+						if (!open) setDialogMode(null);
+					}}
+				/>
+			)}
+
+			<AlertDialog
+				open={isDeleteOpen && Boolean(activeView)}
+				onOpenChange={(open) => {
+					if (!open && !deleteMutation.isPending) setIsDeleteOpen(false);
+				}}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Delete {activeView?.name}?</AlertDialogTitle>
+						<AlertDialogDescription>
+							{activeView?.visibility === 'shared'
+								? 'It disappears for the whole team.'
+								: 'Only this saved view is removed; assets are not touched.'}
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel disabled={deleteMutation.isPending}>
+							Cancel
+						</AlertDialogCancel>
+						<AlertDialogAction
+							disabled={deleteMutation.isPending}
+							onClick={(e) => {
+								e.preventDefault();
+								if (activeView) deleteMutation.mutate(activeView);
+							}}
+						>
+							{deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</div>
+	);
+}
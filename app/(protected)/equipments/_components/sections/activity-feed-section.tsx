@@ -5,6 +5,11 @@ import { format } from 'date-fns';
 
 import { getEquipmentEvents } from '@/data-access/equipments';
 import type { EquipmentEvent } from '@/types/events';
+import type { EquipmentFieldChange } from '@/types/equipment';
+import { useLiveEquipmentEvents } from '@/hooks/use-live-equipments';
+import { formatFieldValue } from '../field-labels';
+import { METER_UNIT_LABEL, formatMeterValue } from '@/lib/meters';
+import type { MeterUnit } from '@/types/meters';
 
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -12,18 +17,72 @@ import { Skeleton } from '@/components/ui/skeleton';
 function typeLabel(type: EquipmentEvent['type']) {
 	if (type === 'equipment.created') return 'Created';
 	if (type === 'equipment.updated') return 'Updated';
+	if (type === 'equipment.status_changed') return 'Status';
 	if (type === 'equipment.archived') return 'Archived';
 	if (type === 'equipment.unarchived') return 'Restored';
+	if (type === 'equipment.rolled_back') return 'Rolled back';
+	if (type === 'equipment.transferred') return 'Transferred';
 	if (type === 'maintenance.added') return 'Maintenance';
+	if (type === 'maintenance.updated') return 'Maintenance edited';
+	if (type === 'maintenance.voided') return 'Maintenance voided';
+	if (type === 'work_order.created') return 'Work order';
+	if (type === 'work_order.status_changed') return 'Work order';
+	if (type === 'meter.reading_added') return 'Meter';
 	return type;
 }
 
 function typeVariant(type: EquipmentEvent['type']) {
 	if (type === 'equipment.archived') return 'destructive';
+	if (type === 'maintenance.voided') return 'destructive';
 	if (type === 'maintenance.added') return 'secondary';
+	if (type === 'equipment.status_changed') return 'secondary';
+	if (type === 'equipment.transferred') return 'secondary';
 	return 'outline';
 }
 
+// equipment.updated/rolled_back guardam { changes: [{ field, from, to }] }
+function getFieldChanges(e: EquipmentEvent): EquipmentFieldChange[] {
+	const changes = e.metadata?.changes;
+	return Array.isArray(changes) ? changes : [];
+}
+
+// maintenance.added guarda { plans: [task] }; updated/voided guardam
+// { reason, lastServiceDate: { from, to } }; meter.reading_added guarda
+// { value, unit, nextServiceDate }
+function getMaintenanceChangeNote(e: EquipmentEvent): string | null {
+	if (e.type === 'meter.reading_added') {
+		const { value, unit, nextServiceDate } = e.metadata ?? {};
+		if (typeof value !== 'number' || !isMeterUnit(unit)) return null;
+		return `${formatMeterValue(value, unit)} • next service: ${formatFieldValue(nextServiceDate)}`;
+	}
+	if (e.type === 'maintenance.added') {
+		const plans = e.metadata?.plans;
+		return Array.isArray(plans) && plans.length > 0
+			? `Plans: ${plans.join(', ')}`
+			: null;
+	}
+	if (e.type !== 'maintenance.updated' && e.type !== 'maintenance.voided') {
+		return null;
+	}
+
+	const parts: string[] = [];
+	const reason = e.metadata?.reason;
+	const last = e.metadata?.lastServiceDate;
+
+	if (typeof reason === 'string' && reason) parts.push(`Reason: ${reason}`);
+	if (last && last.from !== last.to) {
+		parts.push(
+			`last service: ${formatFieldValue(last.from)} → ${formatFieldValue(last.to)}`
+		);
+	}
+
+	return parts.length > 0 ? parts.join(' • ') : null;
+}
+
+function isMeterUnit(value: unknown): value is MeterUnit {
+	return typeof value === 'string' && value in METER_UNIT_LABEL;
+}
+
 function formatEventTime(value: any) {
 	if (!value || typeof value?.toDate !== 'function') return '—';
 	const d = value.toDate();
@@ -45,6 +104,8 @@ export default function ActivityFeedSection({
 		enabled: Boolean(equipmentId)
 	});
 
+	useLiveEquipmentEvents(equipmentId, 25);
+
 	if (isLoading) {
 		return (
 			<div className='space-y-2'>
@@ -87,6 +148,28 @@ export default function ActivityFeedSection({
 							<p className='text-sm font-medium truncate'>{e.message || '—'}</p>
 						</div>
 
+						{getFieldChanges(e).length > 0 && (
+							<ul className='mt-1 space-y-0.5'>
+								{getFieldChanges(e).map((c) => (
+									<li
+										key={c.field}
+										className='text-xs text-muted-foreground truncate'
+									>
+										<span className='font-medium text-foreground'>
+											{c.field}
+										</span>
+										: {formatFieldValue(c.from)} → {formatFieldValue(c.to)}
+									</li>
+								))}
+							</ul>
+						)}
+
+						{getMaintenanceChangeNote(e) && (
+							<p className='mt-1 text-xs text-muted-foreground truncate'>
+								{getMaintenanceChangeNote(e)}
+							</p>
+						)}
+
 						<p className='text-xs text-muted-foreground'>
 							{formatEventTime(e.createdAt)}
 						</p>
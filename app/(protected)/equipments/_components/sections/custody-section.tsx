@@ -0,0 +1,193 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { ArrowRightLeft } from 'lucide-react';
+import { toast } from 'sonner';
+
+import {
+	getEquipmentTransfers,
+	transferEquipment
+} from '@/data-access/equipments';
+import type { Equipment } from '@/types/equipment';
+import type {
+	EquipmentTransfer,
+	EquipmentTransferInput
+} from '@/types/transfers';
+import { useAuth } from '@/context/auth-context';
+import { useUserRole } from '@/hooks/use-user-role';
+import TransferDialog from '../dialogs/transfer-dialog';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+
+function getErrorMessage(err: unknown) {
+	if (err instanceof Error) {
+		if (err.message === 'Not authenticated') return 'Sign in to continue.';
+		if (err.message === 'Not authorized') return 'Viewer role: read-only.';
+		if (err.message === 'NOT_FOUND') return 'Asset not found.';
+		if (err.message === 'ARCHIVED') {
+			return 'Archived assets cannot be transferred.';
+		}
+		if (err.message === 'LOCATION_NOT_FOUND') {
+			return 'The selected location no longer exists.';
+		}
+		if (err.message === 'TRANSFER_UNCHANGED') {
+			return 'Pick a new location or owner.';
+		}
+		if (err.message === 'APPROVAL_REQUIRED') {
+			return 'Record who requested and approved the transfer.';
+		}
+		if (err.message === 'INVALID_DATE') return 'Invalid effective date.';
+		return err.message;
+	}
+	return 'Unexpected error';
+}
+
+function formatEffectiveDate(value: string) {
+	return format(parseISO(value), 'MMM dd, yyyy');
+}
+
+function describeTransferMove(
+	from: string | undefined,
+	to: string | undefined,
+	empty: string
+) {
+	return `${from || empty} → ${to || empty}`;
+}
+
+export default function CustodySection({ asset }: { asset: Equipment }) {
+	const queryClient = useQueryClient();
+	const { user } = useAuth();
+	const { isAdmin, isLoading: roleLoading } = useUserRole();
+
+	const isArchived = Boolean(asset.archivedAt);
+	const canTransfer = Boolean(user) && !roleLoading && isAdmin && !isArchived;
+
+	const [showTransfer, setShowTransfer] = useState(false);
+
+	const {
+		data = [],
+		isLoading,
+		isError
+	} = useQuery<EquipmentTransfer[]>({
+		queryKey: ['equipments', asset.id, 'transfers'],
+		queryFn: () => getEquipmentTransfers(asset.id),
+		enabled: Boolean(asset.id)
+	});
+
+	const transferMutation = useMutation({
+		mutationFn: async (input: EquipmentTransferInput) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			await transferEquipment(asset.id, input, {
+				uid: user.uid,
+				email: user.email
+			});
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['equipments'] });
+			queryClient.invalidateQueries({ queryKey: ['transfers'] });
+			toast.success('Transfer recorded');
+			setShowTransfer(false);
+		},
+		onError: (err) => toast.error(getErrorMessage(err))
+	});
+
+	return (
+		<div className='space-y-4'>
+			<div className='flex flex-col gap-3 rounded-md border px-3 py-2 sm:flex-row sm:items-center sm:justify-between'>
+				<div className='min-w-0'>
+					<p className='text-xs text-muted-foreground'>Current custody</p>
+					<p className='text-sm font-medium truncate'>
+						{asset.location || 'No location'} • {asset.owner || 'No owner'}
+					</p>
+				</div>
+				{canTransfer && (
+					<Button
+						size='sm'
+						onClick={() => setShowTransfer(true)}
+					>
+						<ArrowRightLeft className='mr-2 h-4 w-4' />
+						Transfer
+					</Button>
+				)}
+			</div>
+
+			{isLoading ? (
+				<div className='space-y-2'>
+					<Skeleton className='h-10 w-full' />
+					<Skeleton className='h-10 w-2/3' />
+				</div>
+			) : isError ? (
+				<p className='text-sm text-muted-foreground'>
+					Unable to load custody log.
+				</p>
+			) : data.length === 0 ? (
+				<div className='rounded-md border border-dashed p-6'>
+					<p className='text-sm font-medium'>No transfers yet</p>
+					<p className='text-xs text-muted-foreground mt-1'>
+						Transfers between locations or owners show up here.
+					</p>
+				</div>
+			) : (
+				<ol className='relative space-y-4 border-l pl-4'>
+					{data.map((t) => (
+						<li
+							key={t.id}
+							className='relative space-y-1'
+						>
+							<span className='absolute -left-[1.4rem] top-1.5 h-3 w-3 rounded-full border bg-background' />
+							<div className='flex flex-wrap items-center gap-2'>
+								<p className='text-sm font-medium'>
+									{formatEffectiveDate(t.effectiveDate)}
+								</p>
+								{t.fromLocation !== t.toLocation && (
+									<Badge variant='outline'>Location</Badge>
+								)}
+								{t.fromOwner !== t.toOwner && (
+									<Badge variant='outline'>Owner</Badge>
+								)}
+							</div>
+							{t.fromLocation !== t.toLocation && (
+								<p className='text-sm'>
+									{describeTransferMove(
+										t.fromLocation,
+										t.toLocation,
+										'No location'
+									)}
+								</p>
+							)}
+							{t.fromOwner !== t.toOwner && (
+								<p className='text-sm'>
+									{describeTransferMove(t.fromOwner, t.toOwner, 'No owner')}
+								</p>
+							)}
+							<p className='text-xs text-muted-foreground'>
+								Requested by {t.requestedBy} • Approved by {t.approvedBy} •
+								Recorded by {t.actorEmail || '—'}
+							</p>
+							{t.notes && (
+								<p className='text-xs text-muted-foreground'>{t.notes}</p>
+							)}
+						</li>
+					))}
+				</ol>
+			)}
+
+			<TransferDialog
+				open={showTransfer}
+				asset={asset}
+				approvedBy={user?.email}
+				isSaving={transferMutation.isPending}
+				onSubmit={(input) => transferMutation.mutate(input)}
+				onOpenChange={(open) => {
+					if (!open && !transferMutation.isPending) setShowTransfer(false);
+				}}
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,396 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { endOfDay, format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+
+import {
+	EQUIPMENT_INPUT_FIELDS,
+	EquipmentConflictError,
+	getEquipmentRevisions,
+	rollbackEquipmentToRevision
+} from '@/data-access/equipments';
+import type { Equipment, EquipmentInput } from '@/types/equipment';
+import { resolveMaintenancePlans } from '@/lib/maintenance-plans';
+import type { EquipmentRevision } from '@/types/revisions';
+import { useAuth } from '@/context/auth-context';
+import { useUserRole } from '@/hooks/use-user-role';
+import { useLiveEquipmentRevisions } from '@/hooks/use-live-equipments';
+import { EQUIPMENT_FIELD_LABEL, formatFieldValue } from '../field-labels';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Separator } from '@/components/ui/separator';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+
+function reasonLabel(reason: EquipmentRevision['reason']) {
+	if (reason === 'equipment.created') return 'Created';
+	if (reason === 'equipment.updated') return 'Updated';
+	if (reason === 'equipment.status_changed') return 'Status';
+	if (reason === 'equipment.archived') return 'Archived';
+	if (reason === 'equipment.unarchived') return 'Restored';
+	if (reason === 'equipment.rolled_back') return 'Rolled back';
+	if (reason === 'equipment.transferred') return 'Transferred';
+	if (reason === 'maintenance.added') return 'Maintenance';
+	if (reason === 'maintenance.updated') return 'Maintenance edited';
+	if (reason === 'maintenance.voided') return 'Maintenance voided';
+	if (reason === 'meter.reading_added') return 'Meter reading';
+	return reason;
+}
+
+function toDate(value: any): Date | null {
+	if (!value || typeof value?.toDate !== 'function') return null;
+	return value.toDate();
+}
+
+function formatRevisionTime(value: any) {
+	const d = toDate(value);
+	return d ? format(d, 'MMM dd, yyyy • h:mm a') : '—';
+}
+
+// revision em vigor no fim do dia escolhido (lista vem em ordem desc)
+function findRevisionAt(revisions: EquipmentRevision[], day: string) {
+	const cutoff = endOfDay(parseISO(day));
+	return revisions.find((r) => {
+		const d = toDate(r.createdAt);
+		return d !== null && d <= cutoff;
+	});
+}
+
+type CompareRow = { key: string; label: string; left: string; right: string };
+
+function buildCompareRows(
+	left?: EquipmentRevision,
+	right?: EquipmentRevision
+): CompareRow[] {
+	// snapshots from before plans existed show their single legacy plan
+	const value = (
+		r: EquipmentRevision | undefined,
+		field: keyof EquipmentInput
+	) =>
+		field === 'maintenancePlans' && r
+			? resolveMaintenancePlans(r.snapshot)
+			: r?.snapshot[field];
+
+	const rows: CompareRow[] = EQUIPMENT_INPUT_FIELDS.map((field) => ({
+		key: field,
+		label: EQUIPMENT_FIELD_LABEL[field],
+		left: formatFieldValue(value(left, field)),
+		right: formatFieldValue(value(right, field))
+	}));
+
+	rows.push({
+		key: 'archived',
+		label: 'Archived',
+		left: left ? (left.snapshot.archivedAt ? 'Yes' : 'No') : '—',
+		right: right ? (right.snapshot.archivedAt ? 'Yes' : 'No') : '—'
+	});
+
+	return rows;
+}
+
+function getErrorMessage(err: unknown) {
+	if (err instanceof EquipmentConflictError) {
+		return 'This asset changed in the meantime. Review the latest revision and try again.';
+	}
+	if (err instanceof Error) {
+		if (err.message === 'Not authenticated') return 'Sign in to continue.';
+		if (err.message === 'Not authorized') return 'Viewer role: read-only.';
+		if (err.message === 'REVISION_NOT_FOUND') return 'Revision not found.';
+		if (err.message === 'SERIAL_ALREADY_EXISTS') {
+			return 'That revision uses a serial number now held by another asset.';
+		}
+		return err.message;
+	}
+	return 'Unexpected error';
+}
+
+export default function HistorySection({ asset }: { asset: Equipment }) {
+	const queryClient = useQueryClient();
+	const { user } = useAuth();
+	const { isAdmin, isLoading: roleLoading } = useUserRole();
+
+	const isArchived = Boolean(asset.archivedAt);
+	const canRollback = Boolean(user) && !roleLoading && isAdmin && !isArchived;
+
+	const {
+		data = [],
+		isLoading,
+		isError
+	} = useQuery<EquipmentRevision[]>({
+		queryKey: ['equipments', asset.id, 'revisions'],
+		queryFn: () => getEquipmentRevisions(asset.id),
+		enabled: Boolean(asset.id)
+	});
+
+	useLiveEquipmentRevisions(asset.id);
+
+	// null = padrão: anterior (A) x atual (B)
+	const [leftRev, setLeftRev] = useState<number | null>(null);
+	const [rightRev, setRightRev] = useState<number | null>(null);
+	const [asOf, setAsOf] = useState('');
+	const [rollbackTarget, setRollbackTarget] =
+		useState<EquipmentRevision | null>(null);
+
+	const left = useMemo(
+		() =>
+			leftRev === null
+				? (data[1] ?? data[0])
+				: data.find((r) => r.revision === leftRev),
+		[data, leftRev]
+	);
+	const right = useMemo(
+		() =>
+			rightRev === null ? data[0] : data.find((r) => r.revision === rightRev),
+		[data, rightRev]
+	);
+
+	const compareRows = useMemo(
+		() => buildCompareRows(left, right),
+		[left, right]
+	);
+
+	const currentRevision = asset.revision ?? 0;
+
+	const rollbackMutation = useMutation({
+		mutationFn: async (target: EquipmentRevision) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			await rollbackEquipmentToRevision(
+				asset.id,
+				target.revision,
+				{ uid: user.uid, email: user.email },
+				{ expectedRevision: currentRevision }
+			);
+		},
+		onSuccess: (_, target) => {
+			queryClient.invalidateQueries({ queryKey: ['equipments'] });
+			toast.success(`Rolled back to revision ${target.revision}`);
+			setRollbackTarget(null);
+		},
+		onError: (err) => toast.error(getErrorMessage(err))
+	});
+
+	function handleAsOfChange(value: string) {
+		setAsOf(value);
+		if (!value) return;
+
+		const match = findRevisionAt(data, value);
+		if (!match) {
+			toast.error('No revision recorded on or before that date');
+			return;
+		}
+		setLeftRev(match.revision);
+	}
+
+	if (isLoading) {
+		return (
+			<div className='space-y-2'>
+				<Skeleton className='h-10 w-full' />
+				<Skeleton className='h-10 w-full' />
+				<Skeleton className='h-10 w-2/3' />
+			</div>
+		);
+	}
+
+	if (isError) {
+		return (
+			<p className='text-sm text-muted-foreground'>
+				Unable to load revision history.
+			</p>
+		);
+	}
+
+	if (data.length === 0) {
+		return (
+			<div className='rounded-md border border-dashed p-6'>
+				<p className='text-sm font-medium'>No revisions yet</p>
+				<p className='text-xs text-muted-foreground mt-1'>
+					A revision is stored the next time this asset is saved.
+				</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className='space-y-4'>
+			<div className='flex flex-col gap-3 sm:flex-row sm:items-end'>
+				<RevisionSelect
+					label='Compare'
+					revisions={data}
+					value={left?.revision}
+					onChange={setLeftRev}
+				/>
+				<RevisionSelect
+					label='With'
+					revisions={data}
+					value={right?.revision}
+					onChange={setRightRev}
+				/>
+				<div className='space-y-1'>
+					<p className='text-xs text-muted-foreground'>As of date</p>
+					<Input
+						type='date'
+						className='w-[180px]'
+						value={asOf}
+						onChange={(e) => handleAsOfChange(e.target.value)}
+					/>
+				</div>
+			</div>
+
+			<div className='rounded-md border'>
+				<div className='grid grid-cols-[1fr_1fr_1fr] gap-2 border-b px-3 py-2 text-xs text-muted-foreground'>
+					<span>Field</span>
+					<span>Revision {left?.revision ?? '—'}</span>
+					<span>Revision {right?.revision ?? '—'}</span>
+				</div>
+
+				{compareRows.map((row) => (
+					<div
+						key={row.key}
+						className={`grid grid-cols-[1fr_1fr_1fr] gap-2 px-3 py-1.5 text-sm ${
+							row.left !== row.right ? 'bg-muted/50' : ''
+						}`}
+					>
+						<span className='text-muted-foreground'>{row.label}</span>
+						<span className='truncate'>{row.left}</span>
+						<span className='truncate'>{row.right}</span>
+					</div>
+				))}
+			</div>
+
+			<Separator />
+
+			<div className='space-y-2'>
+				{data.map((r) => (
+					<div
+						key={r.id}
+						className='flex items-start justify-between gap-3 rounded-md border px-3 py-2'
+					>
+						<div className='min-w-0'>
+							<div className='flex items-center gap-2'>
+								<p className='text-sm font-medium'>Revision {r.revision}</p>
+								<Badge variant='outline'>{reasonLabel(r.reason)}</Badge>
+								{r.revision === currentRevision && (
+									<Badge variant='secondary'>Current</Badge>
+								)}
+							</div>
+							<p className='text-xs text-muted-foreground truncate'>
+								{r.actorEmail || '—'} • {formatRevisionTime(r.createdAt)}
+							</p>
+						</div>
+
+						<div className='flex gap-2'>
+							<Button
+								variant='ghost'
+								size='sm'
+								onClick={() => setLeftRev(r.revision)}
+							>
+								View
+							</Button>
+							{canRollback && r.revision !== currentRevision && (
+								<Button
+									variant='outline'
+									size='sm'
+									disabled={rollbackMutation.isPending}
+									onClick={() => setRollbackTarget(r)}
+								>
+									Roll back
+								</Button>
+							)}
+						</div>
+					</div>
+				))}
+			</div>
+
+			<AlertDialog
+				open={rollbackTarget !== null}
+				onOpenChange={(open) => {
+					if (!open && !rollbackMutation.isPending) setRollbackTarget(null);
+				}}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>
+							Roll back to revision {rollbackTarget?.revision}?
+						</AlertDialogTitle>
+						<AlertDialogDescription>
+							The asset fields are restored from that revision and saved as a
+							new revision. Existing history is kept.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel disabled={rollbackMutation.isPending}>
+							Cancel
+						</AlertDialogCancel>
+						<AlertDialogAction
+							disabled={rollbackMutation.isPending}
+							onClick={(e) => {
+								e.preventDefault();
+								if (rollbackTarget) rollbackMutation.mutate(rollbackTarget);
+							}}
+						>
+							{rollbackMutation.isPending ? 'Rolling back...' : 'Roll back'}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</div>
+	);
+}
+
+function RevisionSelect({
+	label,
+	revisions,
+	value,
+	onChange
+}: {
+	label: string;
+	revisions: EquipmentRevision[];
+	value?: number;
+	onChange: (revision: number) => void;
+}) {
+	return (
+		<div className='space-y-1'>
+			<p className='text-xs text-muted-foreground'>{label}</p>
+			<Select
+				value={value === undefined ? undefined : String(value)}
+				onValueChange={(v) => onChange(Number(v))}
+			>
+				<SelectTrigger className='w-[220px]'>
+					<SelectValue placeholder='Select revision' />
+				</SelectTrigger>
+				<SelectContent>
+					{revisions.map((r) => (
+						<SelectItem
+							key={r.id}
+							value={String(r.revision)}
+						>
+							Revision {r.revision} • {reasonLabel(r.reason)}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+		</div>
+	);
+}
@@ -0,0 +1,511 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { ColumnDef } from '@tanstack/react-table';
+import { readSheet } from 'read-excel-file/browser';
+import { toast } from 'sonner';
+import { FileUp } from 'lucide-react';
+
+import type { Equipment } from '@/types/equipment';
+import type { AssetCategory } from '@/types/categories';
+import type { Location } from '@/types/locations';
+import { parseCsv } from '@/lib/csv';
+import {
+	IMPORT_FIELDS,
+	buildCustomFieldImportFields,
+	guessImportMapping,
+	toImportSheet,
+	type ImportCell,
+	type ImportSheet,
+	type ImportTarget
+} from '@/lib/equipment-import';
+import {
+	getEquipmentsList,
+	importEquipments,
+	type EquipmentImportResult
+} from '@/data-access/equipments';
+import { getCategories } from '@/data-access/categories';
+import { getLocations } from '@/data-access/locations';
+import { useAuth } from '@/context/auth-context';
+import { useUserRole } from '@/hooks/use-user-role';
+import { DataTable } from '@/components/core/tables/data-table';
+import { EQUIPMENT_FIELD_LABEL } from '../field-labels';
+import {
+	buildImportPreview,
+	type ImportPreviewRow,
+	type ImportRowAction
+} from '../import-rows';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+
+type Step = 'upload' | 'map' | 'review' | 'done';
+
+const ACTION_LABEL: Record<ImportRowAction, string> = {
+	create: 'Create',
+	update: 'Update',
+	unchanged: 'Unchanged',
+	error: 'Error'
+};
+
+const ACTION_VARIANT: Record<
+	ImportRowAction,
+	'secondary' | 'outline' | 'destructive'
+> = {
+	create: 'secondary',
+	update: 'secondary',
+	unchanged: 'outline',
+	error: 'destructive'
+};
+
+// códigos de erro de importEquipments (mesmos de create/updateEquipment)
+function getImportErrorMessage(code: string) {
+	if (code === 'SERIAL_ALREADY_EXISTS') return 'Serial number already in use';
+	if (code === 'CONFLICT') return 'Asset changed after the dry run';
+	if (code === 'NOT_FOUND') return 'Asset no longer exists';
+	if (code === 'CATEGORY_NOT_FOUND') return 'Category no longer exists';
+	if (code === 'INVALID_CUSTOM_FIELDS') {
+		return 'Custom fields no longer match the category';
+	}
+	if (code === 'INVALID_TRANSITION') return 'Status change not allowed';
+	if (code === 'REASON_REQUIRED') return 'A status reason is required';
+	if (code === 'OPEN_CORRECTIVE_WORK_ORDER') {
+		return 'Open corrective work orders block this status';
+	}
+	return code;
+}
+
+async function readImportFile(file: File): Promise<ImportSheet> {
+	if (file.name.toLowerCase().endsWith('.xlsx')) {
+		const data = await readSheet(file);
+		return toImportSheet(data as ImportCell[][]);
+	}
+	return toImportSheet(parseCsv(await file.text()));
+}
+
+const previewColumns: ColumnDef<ImportPreviewRow>[] = [
+	{ accessorKey: 'rowNumber', header: 'Row' },
+	{
+		accessorKey: 'serialNumber',
+		header: 'Serial number',
+		cell: ({ row }) => row.original.serialNumber || '—'
+	},
+	{
+		accessorKey: 'name',
+		header: 'Name',
+		cell: ({ row }) => row.original.name || '—'
+	},
+	{
+		accessorKey: 'action',
+		header: 'Result',
+		cell: ({ row }) => (
+			<Badge variant={ACTION_VARIANT[row.original.action]}>
+				{ACTION_LABEL[row.original.action]}
+			</Badge>
+		)
+	},
+	{
+		id: 'details',
+		header: 'Details',
+		enableSorting: false,
+		cell: ({ row }) => {
+			const { errors, changes } = row.original;
+			if (errors.length > 0) {
+				return (
+					<ul className='text-xs text-destructive space-y-0.5'>
+						{errors.map((e) => (
+							<li key={e}>{e}</li>
+						))}
+					</ul>
+				);
+			}
+			if (changes.length > 0) {
+				return (
+					<span className='text-xs text-muted-foreground'>
+						{changes.map((c) => EQUIPMENT_FIELD_LABEL[c.field]).join(', ')}
+					</span>
+				);
+			}
+			return null;
+		}
+	}
+];
+
+/**
+ * Admin import wizard: upload a CSV/XLSX, map its columns, review a dry
+ * run, then write the rows that passed.
+ */
+export default function EquipmentsImportSection() {
+	const router = useRouter();
+	const queryClient = useQueryClient();
+	const { user } = useAuth();
+	const { isAdmin, isLoading: roleLoading } = useUserRole();
+
+	const [step, setStep] = useState<Step>('upload');
+	const [fileName, setFileName] = useState('');
+	const [sheet, setSheet] = useState<ImportSheet | null>(null);
+	const [mapping, setMapping] = useState<Array<ImportTarget | null>>([]);
+	const [preview, setPreview] = useState<ImportPreviewRow[]>([]);
+	const [actionFilter, setActionFilter] = useState<ImportRowAction | 'all'>(
+		'all'
+	);
+	const [progress, setProgress] = useState({ done: 0, total: 0 });
+	const [result, setResult] = useState<EquipmentImportResult | null>(null);
+
+	const { data: assets = [], isLoading: assetsLoading } = useQuery<Equipment[]>(
+		{
+			queryKey: ['equipments', 'list', 'import'],
+			queryFn: () => getEquipmentsList({ includeArchived: true })
+		}
+	);
+	const { data: categories = [] } = useQuery<AssetCategory[]>({
+		queryKey: ['categories'],
+		queryFn: () => getCategories({ includeArchived: true })
+	});
+	const { data: locations = [] } = useQuery<Location[]>({
+		queryKey: ['locations'],
+		queryFn: () => getLocations()
+	});
+
+	const fields = useMemo(
+		() => [...IMPORT_FIELDS, ...buildCustomFieldImportFields(categories)],
+		[categories]
+	);
+	const mappedTargets = new Set(mapping.filter(Boolean));
+	const missingRequired = fields.filter(
+		(f) => f.required && !mappedTargets.has(f.target)
+	);
+
+	const counts = useMemo(() => {
+		const byAction: Record<ImportRowAction, number> = {
+			create: 0,
+			update: 0,
+			unchanged: 0,
+			error: 0
+		};
+		preview.forEach((r) => (byAction[r.action] += 1));
+		return byAction;
+	}, [preview]);
+
+	const writes = preview.flatMap((r) => (r.write ? [r.write] : []));
+	const visibleRows =
+		actionFilter === 'all'
+			? preview
+			: preview.filter((r) => r.action === actionFilter);
+
+	async function handleFile(file: File | undefined) {
+		if (!file) return;
+		try {
+			const next = await readImportFile(file);
+			if (next.rows.length === 0) {
+				toast.error('The file has no rows below the header');
+				return;
+			}
+			setFileName(file.name);
+			setSheet(next);
+			setMapping(guessImportMapping(next.headers, fields));
+			setStep('map');
+		} catch {
+			toast.error('Unable to read the file. Use CSV or XLSX.');
+		}
+	}
+
+	function handleMappingChange(column: number, value: string) {
+		const target = value === 'ignore' ? null : (value as ImportTarget);
+		// cada campo vem de uma coluna só
+		setMapping((prev) =>
+			prev.map((t, i) =>
+				i === column ? target : t === target && target !== null ? null : t
+			)
+		);
+	}
+
+	function handleDryRun() {
+		if (!sheet) return;
+		setPreview(
+			buildImportPreview(sheet, mapping, { assets, categories, locations })
+		);
+		setActionFilter('all');
+		setStep('review');
+	}
+
+	function handleReset() {
+		setStep('upload');
+		setFileName('');
+		setSheet(null);
+		setMapping([]);
+		setPreview([]);
+		setResult(null);
+	}
+
+	const importMutation = useMutation({
+		mutationFn: async () => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			setProgress({ done: 0, total: writes.length });
+			return importEquipments(
+				writes,
+				{ uid: user.uid, email: user.email },
+				{ onProgress: (done, total) => setProgress({ done, total }) }
+			);
+		},
+		onSuccess: (data) => {
+			queryClient.invalidateQueries({ queryKey: ['equipments'] });
+			setResult(data);
+			setStep('done');
+			if (data.failed.length > 0) {
+				toast.error(`${data.failed.length} rows failed`);
+			} else {
+				toast.success('Import finished');
+			}
+		},
+		// chunks already committed stay; re-running the dry run shows them as updates
+		onError: () => {
+			queryClient.invalidateQueries({ queryKey: ['equipments'] });
+			toast.error('Import stopped. Run the dry run again to see what is left.');
+			setStep('map');
+		}
+	});
+
+	if (roleLoading) return null;
+
+	if (!isAdmin) {
+		return (
+			<p className='text-sm text-muted-foreground'>
+				Only admins can import assets.
+			</p>
+		);
+	}
+
+	return (
+		<div className='space-y-4'>
+			{step === 'upload' && (
+				<Card>
+					<CardHeader>
+						<CardTitle>Upload a spreadsheet</CardTitle>
+					</CardHeader>
+					<CardContent className='space-y-3'>
+						<p className='text-sm text-muted-foreground'>
+							CSV or XLSX (first sheet), with a header row. Rows whose serial
+							number matches an active asset update it; the others create new
+							assets.
+						</p>
+						<Input
+							type='file'
+							accept='.csv,.xlsx,text/csv'
+							className='max-w-sm'
+							disabled={assetsLoading}
+							onChange={(e) => {
+								void handleFile(e.target.files?.[0]);
+								e.target.value = '';
+							}}
+						/>
+					</CardContent>
+				</Card>
+			)}
+
+			{step === 'map' && sheet && (
+				<Card>
+					<CardHeader>
+						<CardTitle>Map columns • {fileName}</CardTitle>
+					</CardHeader>
+					<CardContent className='space-y-4'>
+						<p className='text-sm text-muted-foreground'>
+							{sheet.rows.length} rows. Blank cells keep the stored value on
+							updates. Dates use yyyy-MM-dd; tags are separated by commas.
+						</p>
+
+						<div className='space-y-2'>
+							{sheet.headers.map((header, column) => (
+								<div
+									key={column}
+									className='grid grid-cols-1 gap-2 sm:grid-cols-[1fr_1fr_220px] sm:items-center'
+								>
+									<span className='text-sm font-medium truncate'>
+										{header || `Column ${column + 1}`}
+									</span>
+									<span className='text-xs text-muted-foreground truncate'>
+										{sheet.rows[0]?.cells[column] || '—'}
+									</span>
+									<Select
+										value={mapping[column] ?? 'ignore'}
+										onValueChange={(v) => handleMappingChange(column, v)}
+									>
+										<SelectTrigger>
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectItem value='ignore'>Don&apos;t import</SelectItem>
+											{fields.map((f) => (
+												<SelectItem
+													key={f.target}
+													value={f.target}
+												>
+													{f.label}
+													{f.target.startsWith('custom:') ? ' (custom)' : ''}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								</div>
+							))}
+						</div>
+
+						{missingRequired.length > 0 && (
+							<p className='text-xs text-muted-foreground'>
+								Not mapped: {missingRequired.map((f) => f.label).join(', ')}.
+								{mappedTargets.has('serialNumber')
+									? ' Only updates of existing assets will pass.'
+									: ' Serial number is needed to match rows to assets.'}
+							</p>
+						)}
+
+						<div className='flex gap-2'>
+							<Button
+								variant='outline'
+								onClick={handleReset}
+							>
+								Back
+							</Button>
+							<Button
+								disabled={!mappedTargets.has('serialNumber')}
+								onClick={handleDryRun}
+							>
+								Run dry run
+							</Button>
+						</div>
+					</CardContent>
+				</Card>
+			)}
+
+			{step === 'review' && (
+				<Card>
+					<CardHeader>
+						<CardTitle>Dry run • {fileName}</CardTitle>
+					</CardHeader>
+					<CardContent className='space-y-4'>
+						<div className='flex flex-wrap items-center gap-2'>
+							{(Object.keys(ACTION_LABEL) as ImportRowAction[]).map(
+								(action) => (
+									<Badge
+										key={action}
+										variant={ACTION_VARIANT[action]}
+									>
+										{counts[action]} {ACTION_LABEL[action].toLowerCase()}
+									</Badge>
+								)
+							)}
+
+							<Select
+								value={actionFilter}
+								onValueChange={(v) =>
+									setActionFilter(v as ImportRowAction | 'all')
+								}
+							>
+								<SelectTrigger className='ml-auto w-[160px]'>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value='all'>All rows</SelectItem>
+									{(Object.keys(ACTION_LABEL) as ImportRowAction[]).map(
+										(action) => (
+											<SelectItem
+												key={action}
+												value={action}
+											>
+												{ACTION_LABEL[action]}
+											</SelectItem>
+										)
+									)}
+								</SelectContent>
+							</Select>
+						</div>
+
+						<DataTable
+							columns={previewColumns}
+							data={visibleRows}
+							defaultPageSize={20}
+						/>
+
+						{counts.error > 0 && (
+							<p className='text-xs text-muted-foreground'>
+								Rows with errors are skipped. Fix them in the file and import it
+								again; rows already imported show up as unchanged.
+							</p>
+						)}
+
+						<div className='flex items-center gap-2'>
+							<Button
+								variant='outline'
+								disabled={importMutation.isPending}
+								onClick={() => setStep('map')}
+							>
+								Back
+							</Button>
+							<Button
+								disabled={writes.length === 0 || importMutation.isPending}
+								onClick={() => importMutation.mutate()}
+							>
+								<FileUp className='h-4 w-4 mr-2' />
+								{importMutation.isPending
+									? `Importing ${progress.done}/${progress.total}...`
+									: `Import ${writes.length} rows`}
+							</Button>
+						</div>
+					</CardContent>
+				</Card>
+			)}
+
+			{step === 'done' && result && (
+				<Card>
+					<CardHeader>
+						<CardTitle>Import finished</CardTitle>
+					</CardHeader>
+					<CardContent className='space-y-4'>
+						<p className='text-sm'>
+							{result.created} created • {result.updated} updated •{' '}
+							{result.failed.length} failed
+						</p>
+
+						{result.failed.length > 0 && (
+							<ul className='space-y-1 text-sm'>
+								{result.failed.map((f) => (
+									<li key={f.rowNumber}>
+										<span className='text-muted-foreground'>
+											Row {f.rowNumber}:
+										</span>{' '}
+										{getImportErrorMessage(f.error)}
+									</li>
+								))}
+							</ul>
+						)}
+
+						<div className='flex gap-2'>
+							<Button
+								variant='outline'
+								onClick={handleReset}
+							>
+								Import another file
+							</Button>
+							<Button onClick={() => router.push('/equipments')}>
+								Back to assets
+							</Button>
+						</div>
+					</CardContent>
+				</Card>
+			)}
+		</div>
+	);
+}
@@ -2,19 +2,41 @@
 
 import { useMemo, useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 
 import { useUserRole } from '@/hooks/use-user-role';
-import type { MaintenanceRecord } from '@/types/maintenance';
+import type {
+	MaintenanceRecord,
+	MaintenanceRecordInput
+} from '@/types/maintenance';
 import {
 	addMaintenanceRecord,
-	getMaintenanceHistory
+	DEFAULT_MAINTENANCE_CURRENCY,
+	getMaintenanceHistory,
+	updateMaintenanceRecord,
+	voidMaintenanceRecord
 } from '@/data-access/equipments';
 import { useAuth } from '@/context/auth-context';
+import { useLiveMaintenanceHistory } from '@/hooks/use-live-equipments';
+import EditMaintenanceDialog from '../dialogs/edit-maintenance-dialog';
+import VoidMaintenanceDialog from '../dialogs/void-maintenance-dialog';
+import MaintenanceCostFields from '../form/maintenance-cost-fields';
+import MaintenancePlanPicker from '../form/maintenance-plan-picker';
+import {
+	maintenanceRecordSchema,
+	toMaintenanceFormValues,
+	toMaintenanceInput,
+	type MaintenanceFormValues
+} from '../form/maintenance-schema';
+import { formatMoney } from '@/lib/money';
+import {
+	LEGACY_MAINTENANCE_PLAN_ID,
+	getEarliestDuePlan
+} from '@/lib/maintenance-plans';
+import type { MaintenancePlan } from '@/types/equipment';
 
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -37,14 +59,6 @@ import {
 } from '@/components/ui/form';
 import { Separator } from '@/components/ui/separator';
 
-const schema = z.object({
-	date: z.string().min(1, 'Date is required'),
-	type: z.enum(['preventive', 'corrective']),
-	notes: z.string().optional()
-});
-
-type FormValues = z.input<typeof schema>;
-
 function typeLabel(type: MaintenanceRecord['type']) {
 	return type === 'preventive' ? 'Preventive' : 'Corrective';
 }
@@ -53,19 +67,56 @@ function typeBadgeVariant(type: MaintenanceRecord['type']) {
 	return type === 'preventive' ? 'secondary' : 'outline';
 }
 
+// "2.5h • J. Silva • Acme • 3 parts • $420.00"
+function costSummary(r: MaintenanceRecord) {
+	const parts: string[] = [];
+
+	if (typeof r.laborHours === 'number') parts.push(`${r.laborHours}h`);
+	if (r.technician) parts.push(r.technician);
+	if (r.vendor) parts.push(r.vendor);
+	if (r.parts?.length) {
+		parts.push(r.parts.length === 1 ? '1 part' : `${r.parts.length} parts`);
+	}
+	if (typeof r.totalCost === 'number') {
+		parts.push(
+			formatMoney(r.totalCost, r.currency ?? DEFAULT_MAINTENANCE_CURRENCY)
+		);
+	}
+
+	return parts.join(' • ');
+}
+
+// "Lubrication, Annual inspection"
+function planSummary(r: MaintenanceRecord, plans: MaintenancePlan[]) {
+	const ids = r.planIds ?? [LEGACY_MAINTENANCE_PLAN_ID];
+	return plans
+		.filter((p) => ids.includes(p.id))
+		.map((p) => p.task)
+		.join(', ');
+}
+
 function getErrorMessage(err: unknown) {
 	if (err instanceof Error) {
 		if (err.message === 'Not authenticated') return 'Sign in to continue.';
 		if (err.message === 'Not authorized') return 'Viewer role: read-only.';
+		if (err.message === 'CONFLICT') {
+			return 'Maintenance history changed while saving. Please try again.';
+		}
+		if (err.message === 'MAINTENANCE_VOIDED') {
+			return 'This record was already voided.';
+		}
+		if (err.message === 'MAINTENANCE_NOT_FOUND') return 'Record not found.';
 		return err.message;
 	}
 	return 'Unexpected error';
 }
 
 export default function MaintenanceHistorySection({
-	equipmentId
+	equipmentId,
+	plans
 }: {
 	equipmentId: string;
+	plans: MaintenancePlan[];
 }) {
 	const queryClient = useQueryClient();
 	const { user, loading } = useAuth();
@@ -76,16 +127,23 @@ export default function MaintenanceHistorySection({
 	const isBlocked = isAuthBlocked || isRoleBlocked;
 
 	const [showForm, setShowForm] = useState(false);
+	const [editing, setEditing] = useState<MaintenanceRecord | null>(null);
+	const [voiding, setVoiding] = useState<MaintenanceRecord | null>(null);
 
 	const today = useMemo(() => format(new Date(), 'yyyy-MM-dd'), []);
 
-	const form = useForm<FormValues>({
-		resolver: zodResolver(schema),
-		defaultValues: {
+	// new records start on the plan that is due first
+	const emptyValues = useMemo(() => {
+		const due = getEarliestDuePlan(plans);
+		return toMaintenanceFormValues({
 			date: today,
-			type: 'preventive',
-			notes: ''
-		},
+			planIds: due ? [due.id] : []
+		});
+	}, [plans, today]);
+
+	const form = useForm<MaintenanceFormValues>({
+		resolver: zodResolver(maintenanceRecordSchema),
+		defaultValues: emptyValues,
 		mode: 'onSubmit'
 	});
 
@@ -99,22 +157,19 @@ export default function MaintenanceHistorySection({
 		enabled: Boolean(equipmentId)
 	});
 
+	useLiveMaintenanceHistory(equipmentId);
+
 	const addMutation = useMutation({
-		mutationFn: async (values: FormValues) => {
+		mutationFn: async (values: MaintenanceFormValues) => {
 			if (!user) throw new Error('Not authenticated');
 			if (!isAdmin) throw new Error('Not authorized');
 
-			const parsed = schema.parse(values);
+			const parsed = maintenanceRecordSchema.parse(values);
 
-			await addMaintenanceRecord(
-				equipmentId,
-				{
-					date: parsed.date,
-					type: parsed.type,
-					notes: parsed.notes?.trim() || undefined
-				},
-				{ uid: user.uid, email: user.email }
-			);
+			await addMaintenanceRecord(equipmentId, toMaintenanceInput(parsed), {
+				uid: user.uid,
+				email: user.email
+			});
 		},
 		onSuccess: async () => {
 			// Maintenance history (subcollection)
@@ -140,12 +195,63 @@ export default function MaintenanceHistorySection({
 			});
 
 			toast.success('Maintenance record added');
-			form.reset({ date: today, type: 'preventive', notes: '' });
+			form.reset(emptyValues);
 			setShowForm(false);
 		},
 		onError: (err) => toast.error(getErrorMessage(err))
 	});
 
+	const editMutation = useMutation({
+		mutationFn: async ({
+			record,
+			data,
+			reason
+		}: {
+			record: MaintenanceRecord;
+			data: MaintenanceRecordInput;
+			reason: string;
+		}) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			await updateMaintenanceRecord(equipmentId, record.id, data, reason, {
+				uid: user.uid,
+				email: user.email
+			});
+		},
+		onSuccess: () => {
+			// history, asset dates, events and every list that shows them
+			queryClient.invalidateQueries({ queryKey: ['equipments'] });
+			toast.success('Maintenance record updated');
+			setEditing(null);
+		},
+		onError: (err) => toast.error(getErrorMessage(err))
+	});
+
+	const voidMutation = useMutation({
+		mutationFn: async ({
+			record,
+			reason
+		}: {
+			record: MaintenanceRecord;
+			reason: string;
+		}) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			await voidMaintenanceRecord(equipmentId, record.id, reason, {
+				uid: user.uid,
+				email: user.email
+			});
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['equipments'] });
+			toast.success('Maintenance record voided');
+			setVoiding(null);
+		},
+		onError: (err) => toast.error(getErrorMessage(err))
+	});
+
 	const isSaving = addMutation.isPending;
 
 	function handleToggleForm() {
@@ -157,6 +263,7 @@ export default function MaintenanceHistorySection({
 			);
 			return;
 		}
+		if (!showForm) form.reset(emptyValues);
 		setShowForm((v) => !v);
 	}
 
@@ -166,7 +273,8 @@ export default function MaintenanceHistorySection({
 				<div>
 					<p className='text-sm font-medium'>Maintenance history</p>
 					<p className='text-xs text-muted-foreground'>
-						Log preventive and corrective maintenance events (v1).
+						Log preventive and corrective maintenance events. Admins can edit or
+						void a record with a reason.
 					</p>
 				</div>
 
@@ -260,6 +368,13 @@ export default function MaintenanceHistorySection({
 								)}
 							/>
 
+							<MaintenancePlanPicker
+								plans={plans}
+								disabled={isSaving || isBlocked}
+							/>
+
+							<MaintenanceCostFields disabled={isSaving || isBlocked} />
+
 							<Button
 								type='submit'
 								disabled={isSaving || isBlocked}
@@ -301,32 +416,108 @@ export default function MaintenanceHistorySection({
 					{data.map((r) => (
 						<div
 							key={r.id}
-							className='flex items-start justify-between gap-3 rounded-md border px-3 py-2'
+							className={`flex items-start justify-between gap-3 rounded-md border px-3 py-2 ${
+								r.voided ? 'opacity-60' : ''
+							}`}
 						>
 							<div className='min-w-0'>
 								<div className='flex items-center gap-2'>
-									<p className='text-sm font-medium'>{r.date}</p>
+									<p
+										className={`text-sm font-medium ${r.voided ? 'line-through' : ''}`}
+									>
+										{r.date}
+									</p>
 									<Badge variant={typeBadgeVariant(r.type)}>
 										{typeLabel(r.type)}
 									</Badge>
+									{r.voided && <Badge variant='destructive'>Voided</Badge>}
+									{!r.voided && r.updateReason && (
+										<Badge variant='outline'>Edited</Badge>
+									)}
 								</div>
 								<p className='text-xs text-muted-foreground truncate'>
 									{r.notes || '—'}
 								</p>
+								{planSummary(r, plans) && (
+									<p className='text-xs text-muted-foreground truncate'>
+										Plans: {planSummary(r, plans)}
+									</p>
+								)}
+								{costSummary(r) && (
+									<p className='text-xs text-muted-foreground truncate'>
+										{costSummary(r)}
+									</p>
+								)}
+								{r.voided && r.voidReason && (
+									<p className='text-xs text-muted-foreground truncate'>
+										Void reason: {r.voidReason}
+									</p>
+								)}
+								{!r.voided && r.updateReason && (
+									<p className='text-xs text-muted-foreground truncate'>
+										Edit reason: {r.updateReason}
+									</p>
+								)}
 							</div>
 
-							<p className='text-xs text-muted-foreground'>
-								by{' '}
-								{r.createdByEmail
-									? r.createdByEmail
-									: r.createdBy
-										? `${r.createdBy.slice(0, 6)}…${r.createdBy.slice(-4)}`
-										: '—'}
-							</p>
+							<div className='flex flex-col items-end gap-1'>
+								<p className='text-xs text-muted-foreground'>
+									by{' '}
+									{r.createdByEmail
+										? r.createdByEmail
+										: r.createdBy
+											? `${r.createdBy.slice(0, 6)}…${r.createdBy.slice(-4)}`
+											: '—'}
+								</p>
+
+								{!isBlocked && !r.voided && (
+									<div className='flex gap-1'>
+										<Button
+											variant='ghost'
+											size='sm'
+											onClick={() => setEditing(r)}
+										>
+											Edit
+										</Button>
+										<Button
+											variant='ghost'
+											size='sm'
+											onClick={() => setVoiding(r)}
+										>
+											Void
+										</Button>
+									</div>
+								)}
+							</div>
 						</div>
 					))}
 				</div>
 			)}
+
+			<EditMaintenanceDialog
+				record={editing}
+				plans={plans}
+				isSaving={editMutation.isPending}
+				onSubmit={(values, reason) => {
+					if (editing) {
+						editMutation.mutate({ record: editing, data: values, reason });
+					}
+				}}
+				onOpenChange={(open) => {
+					if (!open && !editMutation.isPending) setEditing(null);
+				}}
+			/>
+
+			<VoidMaintenanceDialog
+				record={voiding}
+				isSaving={voidMutation.isPending}
+				onConfirm={(reason) => {
+					if (voiding) voidMutation.mutate({ record: voiding, reason });
+				}}
+				onOpenChange={(open) => {
+					if (!open && !voidMutation.isPending) setVoiding(null);
+				}}
+			/>
 		</div>
 	);
 }
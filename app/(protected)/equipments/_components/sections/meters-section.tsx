@@ -0,0 +1,382 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format, isAfter, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+
+import { addMeterReading, getMeterReadings } from '@/data-access/equipments';
+import { useAuth } from '@/context/auth-context';
+import { useUserRole } from '@/hooks/use-user-role';
+import { resolveMaintenancePlans } from '@/lib/maintenance-plans';
+import { formatMeterValue, getMeterUsageRate } from '@/lib/meters';
+import type { Equipment } from '@/types/equipment';
+import type { EquipmentMeter, MeterReading } from '@/types/meters';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Separator } from '@/components/ui/separator';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage
+} from '@/components/ui/form';
+
+const meterReadingSchema = z.object({
+	meterId: z.string().min(1, 'Pick a meter'),
+	date: z
+		.string()
+		.min(1, 'Date is required')
+		.refine((v) => !isAfter(parseISO(v), new Date()), {
+			message: 'Cannot be in the future'
+		}),
+	value: z.preprocess(
+		(v) => (v === '' || v === null || v === undefined ? undefined : Number(v)),
+		z
+			.number({ required_error: 'Reading is required' })
+			.min(0, 'Cannot be negative')
+	),
+	notes: z.string().optional()
+});
+
+type MeterReadingFormValues = z.input<typeof meterReadingSchema>;
+
+function getErrorMessage(err: unknown) {
+	if (err instanceof Error) {
+		if (err.message === 'Not authenticated') return 'Sign in to continue.';
+		if (err.message === 'Not authorized') return 'Viewer role: read-only.';
+		if (err.message === 'INVALID_READING') {
+			return 'Meters only count up: the reading conflicts with an earlier or later one.';
+		}
+		if (err.message === 'METER_NOT_FOUND') return 'Meter not found.';
+		if (err.message === 'ARCHIVED') return 'This asset is archived.';
+		return err.message;
+	}
+	return 'Unexpected error';
+}
+
+function formatRate(meter: EquipmentMeter) {
+	const rate = getMeterUsageRate(meter);
+	if (!rate) return 'Not enough readings';
+	return `${formatMeterValue(Math.round(rate * 10) / 10, meter.unit)} / day`;
+}
+
+export default function MetersSection({ asset }: { asset: Equipment }) {
+	const queryClient = useQueryClient();
+	const { user, loading } = useAuth();
+	const { isAdmin, isLoading: roleLoading } = useUserRole();
+
+	const meters = useMemo(() => asset.meters ?? [], [asset.meters]);
+	const plans = useMemo(() => resolveMaintenancePlans(asset), [asset]);
+
+	const isArchived = Boolean(asset.archivedAt);
+	const isBlocked = loading || !user || roleLoading || !isAdmin || isArchived;
+
+	const [showForm, setShowForm] = useState(false);
+
+	const emptyValues = useMemo<MeterReadingFormValues>(
+		() => ({
+			meterId: meters[0]?.id ?? '',
+			date: format(new Date(), 'yyyy-MM-dd'),
+			value: '',
+			notes: ''
+		}),
+		[meters]
+	);
+
+	const form = useForm<MeterReadingFormValues>({
+		resolver: zodResolver(meterReadingSchema),
+		defaultValues: emptyValues,
+		mode: 'onSubmit'
+	});
+
+	const {
+		data = [],
+		isLoading,
+		isError
+	} = useQuery<MeterReading[]>({
+		queryKey: ['equipments', asset.id, 'meterReadings'],
+		queryFn: () => getMeterReadings(asset.id),
+		enabled: Boolean(asset.id) && meters.length > 0
+	});
+
+	const addMutation = useMutation({
+		mutationFn: async (values: MeterReadingFormValues) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			const parsed = meterReadingSchema.parse(values);
+
+			await addMeterReading(
+				asset.id,
+				{
+					meterId: parsed.meterId,
+					date: parsed.date,
+					value: parsed.value,
+					notes: parsed.notes
+				},
+				{ uid: user.uid, email: user.email }
+			);
+		},
+		onSuccess: () => {
+			// readings, plan forecasts and every list that shows the due date
+			queryClient.invalidateQueries({ queryKey: ['equipments'] });
+			toast.success('Meter reading logged');
+			form.reset(emptyValues);
+			setShowForm(false);
+		},
+		onError: (err) => toast.error(getErrorMessage(err))
+	});
+
+	if (meters.length === 0) {
+		return (
+			<div className='rounded-md border border-dashed p-6'>
+				<p className='text-sm font-medium'>No meters on this asset</p>
+				<p className='text-xs text-muted-foreground mt-1'>
+					Add a meter (hours, cycles or km) when editing the asset to trigger
+					maintenance on usage.
+				</p>
+			</div>
+		);
+	}
+
+	const isSaving = addMutation.isPending;
+
+	return (
+		<div className='space-y-4'>
+			<div className='grid gap-3 sm:grid-cols-2'>
+				{meters.map((meter) => {
+					const meterPlans = plans.filter(
+						(p) => p.meterId === meter.id && p.meterInterval
+					);
+
+					return (
+						<div
+							key={meter.id}
+							className='rounded-md border p-4 space-y-2'
+						>
+							<div className='flex items-center justify-between gap-2'>
+								<p className='text-sm font-medium'>{meter.name}</p>
+								<Badge variant='secondary'>
+									{typeof meter.reading === 'number'
+										? formatMeterValue(meter.reading, meter.unit)
+										: 'No reading'}
+								</Badge>
+							</div>
+							<p className='text-xs text-muted-foreground'>
+								Last read {meter.readingDate || '—'} • {formatRate(meter)}
+							</p>
+
+							{meterPlans.map((plan) => (
+								<div
+									key={plan.id}
+									className='flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm'
+								>
+									<span className='font-medium truncate'>{plan.task}</span>
+									<span className='text-xs text-muted-foreground'>
+										at{' '}
+										{typeof plan.nextServiceReading === 'number'
+											? formatMeterValue(plan.nextServiceReading, meter.unit)
+											: '—'}{' '}
+										• due {plan.nextServiceDate || 'not forecast yet'}
+									</span>
+								</div>
+							))}
+						</div>
+					);
+				})}
+			</div>
+
+			<div className='flex items-center justify-between gap-3'>
+				<div>
+					<p className='text-sm font-medium'>Readings</p>
+					<p className='text-xs text-muted-foreground'>
+						Due dates of meter plans are forecast from the usage rate across the
+						recent readings.
+					</p>
+				</div>
+
+				<Button
+					variant='outline'
+					disabled={isBlocked}
+					onClick={() => {
+						if (!showForm) form.reset(emptyValues);
+						setShowForm((v) => !v);
+					}}
+				>
+					{showForm ? 'Cancel' : 'Log reading'}
+				</Button>
+			</div>
+
+			{showForm && (
+				<div className='rounded-md border p-4'>
+					<Form {...form}>
+						<form
+							onSubmit={form.handleSubmit((v) => addMutation.mutate(v))}
+							className='space-y-4'
+						>
+							<div className='grid grid-cols-1 gap-4 sm:grid-cols-3'>
+								<FormField
+									control={form.control}
+									name='meterId'
+									render={({ field }) => (
+										<FormItem>
+											<FormLabel>Meter</FormLabel>
+											<Select
+												disabled={isSaving}
+												value={field.value}
+												onValueChange={field.onChange}
+											>
+												<FormControl>
+													<SelectTrigger>
+														<SelectValue placeholder='Select meter' />
+													</SelectTrigger>
+												</FormControl>
+												<SelectContent>
+													{meters.map((m) => (
+														<SelectItem
+															key={m.id}
+															value={m.id}
+														>
+															{m.name}
+														</SelectItem>
+													))}
+												</SelectContent>
+											</Select>
+											<FormMessage />
+										</FormItem>
+									)}
+								/>
+
+								<FormField
+									control={form.control}
+									name='date'
+									render={({ field }) => (
+										<FormItem>
+											<FormLabel>Date</FormLabel>
+											<FormControl>
+												<Input
+													type='date'
+													disabled={isSaving}
+													{...field}
+												/>
+											</FormControl>
+											<FormMessage />
+										</FormItem>
+									)}
+								/>
+
+								<FormField
+									control={form.control}
+									name='value'
+									render={({ field }) => (
+										<FormItem>
+											<FormLabel>Reading</FormLabel>
+											<FormControl>
+												<Input
+													type='number'
+													min={0}
+													step='any'
+													disabled={isSaving}
+													value={String(field.value ?? '')}
+													onChange={(e) => field.onChange(e.target.value)}
+												/>
+											</FormControl>
+											<FormMessage />
+										</FormItem>
+									)}
+								/>
+							</div>
+
+							<FormField
+								control={form.control}
+								name='notes'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Notes (optional)</FormLabel>
+										<FormControl>
+											<Input
+												disabled={isSaving}
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+
+							<Button
+								type='submit'
+								disabled={isSaving}
+							>
+								{isSaving ? 'Saving...' : 'Save reading'}
+							</Button>
+						</form>
+					</Form>
+				</div>
+			)}
+
+			<Separator />
+
+			{isLoading ? (
+				<div className='space-y-2'>
+					<Skeleton className='h-10 w-full' />
+					<Skeleton className='h-10 w-2/3' />
+				</div>
+			) : isError ? (
+				<p className='text-sm text-muted-foreground'>
+					Unable to load meter readings.
+				</p>
+			) : data.length === 0 ? (
+				<p className='text-sm text-muted-foreground'>No readings logged yet.</p>
+			) : (
+				<div className='space-y-2'>
+					{data.map((r) => {
+						const meter = meters.find((m) => m.id === r.meterId);
+
+						return (
+							<div
+								key={r.id}
+								className='flex items-start justify-between gap-3 rounded-md border px-3 py-2'
+							>
+								<div className='min-w-0'>
+									<p className='text-sm font-medium'>
+										{meter
+											? formatMeterValue(r.value, meter.unit)
+											: String(r.value)}{' '}
+										<span className='text-xs text-muted-foreground'>
+											{meter?.name ?? 'Removed meter'} • {r.date}
+										</span>
+									</p>
+									{r.notes && (
+										<p className='text-xs text-muted-foreground truncate'>
+											{r.notes}
+										</p>
+									)}
+								</div>
+								<p className='text-xs text-muted-foreground'>
+									by {r.createdByEmail || '—'}
+								</p>
+							</div>
+						);
+					})}
+				</div>
+			)}
+		</div>
+	);
+}
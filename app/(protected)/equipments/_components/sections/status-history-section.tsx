@@ -0,0 +1,160 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { differenceInMinutes, format, parseISO, subDays } from 'date-fns';
+
+import { getStatusPeriods } from '@/data-access/equipments';
+import {
+	DOWNTIME_REASON_LABEL,
+	computeReliability,
+	formatHours,
+	formatPercent,
+	isDowntimeStatus
+} from '@/lib/downtime';
+import type { StatusPeriod } from '@/types/downtime';
+import { getStatusLabel } from '@/lib/equipment-status';
+
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+
+// janela dos indicadores do asset
+const RELIABILITY_WINDOW_DAYS = 90;
+
+function formatPeriodTime(value?: string) {
+	return value ? format(parseISO(value), 'MMM dd, yyyy • h:mm a') : 'now';
+}
+
+function formatDuration(period: StatusPeriod) {
+	const end = period.endedAt ? parseISO(period.endedAt) : new Date();
+	const minutes = differenceInMinutes(end, parseISO(period.startedAt));
+	return formatHours(Math.max(minutes, 0) / 60);
+}
+
+export default function StatusHistorySection({
+	equipmentId
+}: {
+	equipmentId: string;
+}) {
+	const {
+		data = [],
+		isLoading,
+		isError
+	} = useQuery<StatusPeriod[]>({
+		queryKey: ['equipments', equipmentId, 'statusPeriods'],
+		queryFn: () => getStatusPeriods(equipmentId),
+		enabled: Boolean(equipmentId)
+	});
+
+	const metrics = useMemo(() => {
+		const end = new Date();
+		return computeReliability(data, {
+			start: subDays(end, RELIABILITY_WINDOW_DAYS),
+			end
+		});
+	}, [data]);
+
+	if (isLoading) {
+		return (
+			<div className='space-y-2'>
+				<Skeleton className='h-10 w-full' />
+				<Skeleton className='h-10 w-full' />
+				<Skeleton className='h-10 w-2/3' />
+			</div>
+		);
+	}
+
+	if (isError) {
+		return (
+			<p className='text-sm text-muted-foreground'>
+				Unable to load status history.
+			</p>
+		);
+	}
+
+	if (data.length === 0) {
+		return (
+			<div className='rounded-md border border-dashed p-6'>
+				<p className='text-sm font-medium'>No status changes recorded yet</p>
+				<p className='text-xs text-muted-foreground mt-1'>
+					The ledger starts with the next status change of this asset.
+				</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className='space-y-4'>
+			<div className='grid gap-3 sm:grid-cols-4'>
+				<Metric
+					label='Availability'
+					value={formatPercent(metrics.availability)}
+				/>
+				<Metric
+					label='MTBF'
+					value={formatHours(metrics.mtbfHours)}
+				/>
+				<Metric
+					label='MTTR'
+					value={formatHours(metrics.mttrHours)}
+				/>
+				<Metric
+					label='Downtime'
+					value={formatHours(metrics.downtimeHours)}
+				/>
+			</div>
+			<p className='text-xs text-muted-foreground'>
+				Last {RELIABILITY_WINDOW_DAYS} days. {metrics.failures} unplanned
+				stop(s); planned maintenance, inspections and no-demand stops count as
+				downtime but not as failures.
+			</p>
+
+			<div className='space-y-2'>
+				{data.map((p) => (
+					<div
+						key={p.id}
+						className='flex items-start justify-between gap-3 rounded-md border px-3 py-2'
+					>
+						<div className='min-w-0'>
+							<div className='flex items-center gap-2'>
+								<Badge
+									variant={isDowntimeStatus(p.status) ? 'outline' : 'secondary'}
+								>
+									{getStatusLabel(p.status)}
+								</Badge>
+								{p.reasonCode && (
+									<Badge variant='outline'>
+										{DOWNTIME_REASON_LABEL[p.reasonCode]}
+									</Badge>
+								)}
+								{!p.endedAt && <Badge variant='secondary'>Current</Badge>}
+								<p className='text-sm font-medium'>{formatDuration(p)}</p>
+							</div>
+							<p className='text-xs text-muted-foreground truncate'>
+								{formatPeriodTime(p.startedAt)} → {formatPeriodTime(p.endedAt)}
+								{p.inferred ? ' • start estimated' : ''}
+							</p>
+							{p.reasonNote && (
+								<p className='text-xs text-muted-foreground truncate'>
+									{p.reasonNote}
+								</p>
+							)}
+						</div>
+						<p className='text-xs text-muted-foreground'>
+							by {p.startedByEmail || '—'}
+						</p>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+	return (
+		<div className='rounded-md border p-3'>
+			<p className='text-xs text-muted-foreground'>{label}</p>
+			<p className='text-sm font-medium'>{value}</p>
+		</div>
+	);
+}
@@ -1,31 +1,61 @@
 'use client';
 
-import { useMemo, useEffect } from 'react';
-import type { ColumnDef, ColumnFiltersState } from '@tanstack/react-table';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useRouter } from 'next/navigation';
+import { useMemo, useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import type { ColumnDef, RowSelectionState } from '@tanstack/react-table';
+import {
+	keepPreviousData,
+	useQuery,
+	useMutation,
+	useQueryClient
+} from '@tanstack/react-query';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import {
 	MoreHorizontal,
 	Package,
 	Archive,
 	ArchiveRestore,
-	Bookmark,
-	Clock
+	ArrowRightLeft,
+	Clock,
+	Download,
+	Tag,
+	Upload,
+	Wrench
 } from 'lucide-react';
 
 import {
 	archiveEquipment,
+	type ArchiveChildrenMode,
+	bulkUpdateEquipmentTags,
+	getEquipmentsByClassification,
 	getEquipmentsList,
+	getEquipmentsPage,
+	getTagCounts,
+	transferEquipment,
 	unarchiveEquipment,
+	updateEquipment,
+	type EquipmentsPage,
 	type EquipmentsSort
 } from '@/data-access/equipments';
 
-import type { Equipment } from '@/types/equipment';
+import { getCategories } from '@/data-access/categories';
+import { getEquipmentViews } from '@/data-access/views';
+import { getLocations } from '@/data-access/locations';
+
+import type { Equipment, EquipmentInput } from '@/types/equipment';
+import type { EquipmentTransferInput } from '@/types/transfers';
+import type { StatusChangeReason } from '@/types/downtime';
+import type { AssetCategory, CustomFieldDefinition } from '@/types/categories';
+import type { Location } from '@/types/locations';
 import { toast } from 'sonner';
 import { useUserRole } from '@/hooks/use-user-role';
 import { useAuth } from '@/context/auth-context';
 
-import { DataTable } from '@/components/core/tables/data-table';
+import {
+	DataTable,
+	type DataTableColumnState,
+	type PageSizeOption
+} from '@/components/core/tables/data-table';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -48,13 +78,50 @@ import {
 } from '@/components/ui/select';
 
 import { useLocalStorage } from '@/hooks/use-local-storage';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useLiveEquipmentsPage } from '@/hooks/use-live-equipments';
+import {
+	getEarliestDuePlan,
+	resolveMaintenancePlans
+} from '@/lib/maintenance-plans';
+import {
+	EQUIPMENT_STATUSES,
+	EQUIPMENT_STATUS_CONFIG
+} from '@/lib/equipment-status';
+import {
+	compareCustomFieldValues,
+	formatCustomFieldValue,
+	matchesCustomFieldFilter,
+	type CustomFieldFilter
+} from '@/lib/custom-fields';
+import { getLocationSubtreeIds } from '@/lib/locations';
+import {
+	BASE_VIEW_STATE,
+	parseEquipmentsUrlState,
+	serializeEquipmentsUrlState,
+	type EquipmentsUrlState
+} from '@/lib/equipments-url';
 import type {
 	EquipmentsSavedView,
-	EquipmentsSavedViewKey,
+	EquipmentsUserView,
+	EquipmentsViewState,
 	StatusFilterValue,
 	MaintenanceWindowValue
 } from '@/types/views';
 
+import { InputCell, LocationCell, StatusCell } from '../editable-cells';
+import { toInlineEquipmentInput } from '../form/equipment-schema';
+import SavedViewsMenu from '../saved-views-menu';
+import ArchiveAssetDialog from '../dialogs/archive-asset-dialog';
+import BulkTagsDialog, { type BulkTagsMode } from '../dialogs/bulk-tags-dialog';
+import ExportDialog from '../dialogs/export-dialog';
+import TransferDialog, {
+	type TransferDialogInitial
+} from '../dialogs/transfer-dialog';
+import BulkActionDialog, {
+	type BulkActionType
+} from '../dialogs/bulk-action-dialog';
+
 /* ---------------------------------------
    Local helpers (UI-only)
 ---------------------------------------- */
@@ -65,46 +132,11 @@ function safeParseDate(value?: string): Date | null {
 	return Number.isNaN(d.getTime()) ? null : d;
 }
 
-function computeNextServiceDate(lastServiceDate: string, intervalDays: number) {
-	const base = new Date(`${lastServiceDate}T00:00:00`);
-	base.setDate(base.getDate() + intervalDays);
-	return base.toISOString().slice(0, 10);
-}
-
-/**
- * - Prefer stored nextServiceDate
- * - Else derive from lastServiceDate + serviceIntervalDays (default 180)
- */
-function getNextServiceDate(eq: Equipment): string | null {
-	const anyEq = eq as any;
-
-	// 1) stored (pode estar em eq.nextServiceDate ou anyEq.nextServiceDate)
-	const stored =
-		typeof anyEq?.nextServiceDate === 'string'
-			? anyEq.nextServiceDate
-			: typeof (eq as any)?.nextServiceDate === 'string'
-				? (eq as any).nextServiceDate
-				: undefined;
-
-	if (stored?.trim()) return stored;
-
-	// 2) derived
-	const last = eq.lastServiceDate?.trim();
-	if (!last) return null;
-
-	const interval =
-		typeof anyEq?.serviceIntervalDays === 'number'
-			? anyEq.serviceIntervalDays
-			: typeof (eq as any)?.serviceIntervalDays === 'number'
-				? (eq as any).serviceIntervalDays
-				: 180;
-
-	return computeNextServiceDate(last, interval);
-}
-
+// earliest due maintenance plan (legacy assets: their single interval)
 function getNextServiceTone(eq: Equipment) {
-	const nextStr = getNextServiceDate(eq);
-	const next = safeParseDate(nextStr ?? undefined);
+	const plan = getEarliestDuePlan(resolveMaintenancePlans(eq));
+	const nextStr = plan?.nextServiceDate;
+	const next = safeParseDate(nextStr);
 	if (!next) return { label: '—', variant: 'outline' as const };
 
 	const today = new Date();
@@ -116,73 +148,192 @@ function getNextServiceTone(eq: Equipment) {
 	if (next.getTime() < startOfToday.getTime()) {
 		return {
 			label: nextStr!,
+			task: plan?.task,
 			variant: 'destructive' as const,
 			note: 'Overdue'
 		};
 	}
 
 	if (next.getTime() <= in30.getTime()) {
-		return { label: nextStr!, variant: 'secondary' as const, note: 'Due soon' };
+		return {
+			label: nextStr!,
+			task: plan?.task,
+			variant: 'secondary' as const,
+			note: 'Due soon'
+		};
 	}
 
-	return { label: nextStr!, variant: 'outline' as const };
+	return { label: nextStr!, task: plan?.task, variant: 'outline' as const };
 }
 
-function matchesMaintenanceWindow(
-	eq: Equipment,
-	window: MaintenanceWindowValue
-) {
-	if (window === 'all') return true;
+function formatTimestamp(value: any) {
+	if (!value || typeof value?.toDate !== 'function') return '—';
+	return format(value.toDate(), 'MMM dd, yyyy • h:mm a');
+}
 
-	const nextStr = getNextServiceDate(eq);
-	const next = safeParseDate(nextStr ?? undefined);
-	if (!next) return false;
+/* ---------------------------------------
+   Inline editing
+---------------------------------------- */
 
-	const today = new Date();
-	const startOfToday = new Date(today.toDateString());
+// owner and location go through transfers to keep the chain of custody
+type InlineEdit =
+	| {
+			kind: 'update';
+			input: EquipmentInput;
+			statusReason?: StatusChangeReason;
+			patch: Partial<Equipment>;
+	  }
+	| {
+			kind: 'transfer';
+			transfer: EquipmentTransferInput;
+			patch: Partial<Equipment>;
+	  };
+
+// caches the table reads from (server page and classification group)
+const TABLE_QUERY_KEYS = [
+	['equipments', 'page'],
+	['equipments', 'classification']
+];
 
-	if (window === 'overdue') {
-		return next.getTime() < startOfToday.getTime();
-	}
+function replaceCachedEquipment(data: unknown, next: Equipment) {
+	const swap = (eq: Equipment) => (eq.id === next.id ? next : eq);
+	if (Array.isArray(data)) return data.map(swap);
 
-	// due_30
-	const in30 = new Date(startOfToday);
-	in30.setDate(in30.getDate() + 30);
+	const page = data as EquipmentsPage | undefined;
+	return page?.items ? { ...page, items: page.items.map(swap) } : data;
+}
 
-	return (
-		next.getTime() >= startOfToday.getTime() && next.getTime() <= in30.getTime()
-	);
+// codes thrown by updateEquipment / transferEquipment
+function getInlineEditErrorMessage(err: unknown) {
+	if (!(err instanceof Error)) return 'Failed to update asset';
+	if (err.message === 'CONFLICT') {
+		return 'This asset was changed by someone else. Reloaded, try again.';
+	}
+	if (err.message === 'NOT_FOUND') return 'Asset no longer exists';
+	if (err.message === 'ARCHIVED') return 'Archived assets are read-only';
+	if (err.message === 'INVALID_TRANSITION') {
+		return 'That status change is not allowed';
+	}
+	if (err.message === 'REASON_REQUIRED') {
+		return 'A reason is required for this status';
+	}
+	if (err.message === 'OPEN_CORRECTIVE_WORK_ORDER') {
+		return 'Complete or cancel the open corrective work orders first';
+	}
+	if (err.message === 'LOCATION_NOT_FOUND') return 'Location no longer exists';
+	if (err.message === 'Not authorized') {
+		return 'Read-only access. Admin role required.';
+	}
+	return 'Failed to update asset';
 }
 
 /* ---------------------------------------
    Badges
 ---------------------------------------- */
 
-function StatusBadge({ status }: { status: Equipment['status'] }) {
-	const map: Record<Equipment['status'], string> = {
-		active: 'bg-green-100 text-green-700',
-		maintenance: 'bg-yellow-100 text-yellow-800',
-		inactive: 'bg-muted text-muted-foreground'
-	};
-
+function ArchivedBadge() {
 	return (
 		<Badge
 			variant='outline'
-			className={map[status]}
+			className='bg-muted text-muted-foreground'
 		>
-			{status}
+			Archived
 		</Badge>
 	);
 }
 
-function ArchivedBadge() {
+/* ---------------------------------------
+   Custom fields (category mode)
+---------------------------------------- */
+
+function buildCustomFieldColumn(
+	field: CustomFieldDefinition
+): ColumnDef<Equipment> {
+	return {
+		id: `custom.${field.key}`,
+		header: field.label,
+		accessorFn: (eq) => eq.customFields?.[field.key],
+		sortingFn: (a, b, columnId) =>
+			compareCustomFieldValues(a.getValue(columnId), b.getValue(columnId)),
+		// vazios no fim também em ordem desc
+		sortUndefined: 'last',
+		cell: ({ row }) =>
+			formatCustomFieldValue(field, row.original.customFields?.[field.key])
+	};
+}
+
+function CustomFieldFilterInputs({
+	field,
+	filter,
+	onChange
+}: {
+	field: CustomFieldDefinition;
+	filter: CustomFieldFilter;
+	onChange: (filter: CustomFieldFilter) => void;
+}) {
+	if (field.type === 'number' || field.type === 'date') {
+		const type = field.type === 'number' ? 'number' : 'date';
+		return (
+			<>
+				<Input
+					type={type}
+					placeholder='Min'
+					value={filter.min ?? ''}
+					onChange={(e) => onChange({ ...filter, min: e.target.value })}
+					className='w-[150px]'
+				/>
+				<Input
+					type={type}
+					placeholder='Max'
+					value={filter.max ?? ''}
+					onChange={(e) => onChange({ ...filter, max: e.target.value })}
+					className='w-[150px]'
+				/>
+			</>
+		);
+	}
+
+	if (field.type === 'select' || field.type === 'boolean') {
+		const options =
+			field.type === 'boolean'
+				? [
+						{ value: 'true', label: 'Yes' },
+						{ value: 'false', label: 'No' }
+					]
+				: (field.options ?? []).map((o) => ({ value: o, label: o }));
+
+		return (
+			<Select
+				value={filter.value || 'all'}
+				onValueChange={(v) =>
+					onChange({ ...filter, value: v === 'all' ? '' : v })
+				}
+			>
+				<SelectTrigger className='w-[180px]'>
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value='all'>Any value</SelectItem>
+					{options.map((o) => (
+						<SelectItem
+							key={o.value}
+							value={o.value}
+						>
+							{o.label}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+		);
+	}
+
 	return (
-		<Badge
-			variant='outline'
-			className='bg-muted text-muted-foreground'
-		>
-			Archived
-		</Badge>
+		<Input
+			placeholder='Contains...'
+			value={filter.value ?? ''}
+			onChange={(e) => onChange({ ...filter, value: e.target.value })}
+			className='w-[180px]'
+		/>
 	);
 }
 
@@ -228,15 +379,37 @@ const DEFAULT_VIEWS: EquipmentsSavedView[] = [
 	}
 ];
 
-function getViewByKey(key: EquipmentsSavedViewKey): EquipmentsSavedView {
-	return DEFAULT_VIEWS.find((v) => v.key === key) ?? DEFAULT_VIEWS[0];
+function toViewState(view: EquipmentsSavedView): EquipmentsViewState {
+	return {
+		sort: view.sort,
+		includeArchived: view.includeArchived,
+		// Archived view = somente arquivados
+		archivedOnly: view.key === 'archived',
+		status: view.status ?? 'all',
+		search: view.search ?? '',
+		maintenanceWindow: view.maintenanceWindow ?? 'all'
+	};
 }
 
-function buildColumnFilters(search: string, status: StatusFilterValue) {
-	const next: ColumnFiltersState = [];
-	if (search.trim()) next.push({ id: 'name', value: search });
-	if (status !== 'all') next.push({ id: 'status', value: status });
-	return next;
+// every key filled in, so two states compare as JSON
+function normalizeViewState(
+	state: Partial<EquipmentsViewState>
+): Required<EquipmentsViewState> {
+	return {
+		sort: state.sort ?? BASE_VIEW_STATE.sort,
+		includeArchived: Boolean(state.includeArchived),
+		archivedOnly: Boolean(state.archivedOnly),
+		status: state.status ?? 'all',
+		search: (state.search ?? '').trim(),
+		maintenanceWindow: state.maintenanceWindow ?? 'all',
+		categoryId: state.categoryId ?? '',
+		customFieldFilter: state.customFieldFilter ?? null,
+		tag: state.tag ?? '',
+		locationId: state.locationId ?? '',
+		hiddenColumns: [...(state.hiddenColumns ?? [])].sort(),
+		shownColumns: [...(state.shownColumns ?? [])].sort(),
+		columnOrder: state.columnOrder ?? []
+	};
 }
 
 /* ---------------------------------------
@@ -245,83 +418,311 @@ function buildColumnFilters(search: string, status: StatusFilterValue) {
 
 export default function EquipmentsTableSection() {
 	const router = useRouter();
+	const pathname = usePathname();
+	const searchParams = useSearchParams();
 	const queryClient = useQueryClient();
 
 	const { user, loading: authLoading } = useAuth();
-	const { isAdmin, isLoading: roleLoading } = useUserRole();
+	const { profile, isAdmin, isLoading: roleLoading } = useUserRole();
 
-	const [savedViewKey, setSavedViewKey] =
-		useLocalStorage<EquipmentsSavedViewKey>(
-			'assetops.equipments.savedViewKey',
-			'operational'
-		);
+	/* ---------------- URL STATE ---------------- */
 
-	const [customState, setCustomState] = useLocalStorage(
-		'assetops.equipments.customState',
-		{
-			sort: 'status_ops' as EquipmentsSort,
-			includeArchived: false,
-			search: '',
-			status: 'all' as StatusFilterValue,
-			maintenanceWindow: 'all' as MaintenanceWindowValue
-		}
+	// filtros, view, colunas e página vivem na query string (links compartilháveis)
+	const urlState = useMemo(
+		() => parseEquipmentsUrlState(searchParams),
+		[searchParams]
 	);
+	const customState = urlState.state;
+	// built-in key (DEFAULT_VIEWS) or id of a Firestore view
+	const savedViewKey = urlState.view ?? '';
+
+	// history API: o Next sincroniza useSearchParams sem nova navegação;
+	// push = entrada nova para o back/forward
+	const navigate = (
+		next: EquipmentsUrlState,
+		mode: 'push' | 'replace' = 'push'
+	) => {
+		const query = serializeEquipmentsUrlState(next);
+		const url = query ? `${pathname}?${query}` : pathname;
+		if (url === `${window.location.pathname}${window.location.search}`) return;
+
+		if (mode === 'push') window.history.pushState(null, '', url);
+		else window.history.replaceState(null, '', url);
+	};
 
-	const sort = customState.sort as EquipmentsSort;
-	const includeArchived = Boolean(customState.includeArchived);
-	const search = (customState.search ?? '') as string;
-	const status = (customState.status ?? 'all') as StatusFilterValue;
-	const maintenanceWindow = (customState.maintenanceWindow ??
-		'all') as MaintenanceWindowValue;
+	// filter change: same view, back to the first page
+	const setCustomState = (
+		update: (
+			prev: Required<EquipmentsViewState>
+		) => Required<EquipmentsViewState>,
+		mode?: 'push' | 'replace'
+	) => {
+		const state = update(customState);
+		const sameColumns =
+			state.categoryId === customState.categoryId &&
+			state.tag === customState.tag &&
+			state.locationId === customState.locationId;
+
+		navigate(
+			{
+				...urlState,
+				state,
+				cursors: [],
+				page: undefined,
+				columnSort: sameColumns ? urlState.columnSort : undefined
+			},
+			mode
+		);
+	};
+
+	const sort = customState.sort;
+	const includeArchived = customState.includeArchived;
+	const search = customState.search;
+	const status = customState.status;
+	const maintenanceWindow = customState.maintenanceWindow;
+	const categoryId = customState.categoryId;
+	const customFieldFilter = customState.customFieldFilter;
+	const tag = customState.tag;
+	const locationId = customState.locationId;
+
+	// o input responde na hora; a URL recebe o termo depois do debounce
+	// (replace: digitar não enche o histórico)
+	const [searchInput, setSearchInput] = useState(search);
+	const debouncedSearchInput = useDebouncedValue(searchInput);
+	const writtenSearchRef = useRef(search);
+
+	useEffect(() => {
+		// back/forward ou troca de view
+		if (search === writtenSearchRef.current) return;
+		writtenSearchRef.current = search;
+		setSearchInput(search);
+	}, [search]);
+
+	useEffect(() => {
+		if (debouncedSearchInput === writtenSearchRef.current) return;
+		writtenSearchRef.current = debouncedSearchInput;
+		setCustomState(
+			(prev) => ({ ...prev, search: debouncedSearchInput }),
+			'replace'
+		);
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [debouncedSearchInput]);
+
+	/* ---------------- SAVED VIEWS ---------------- */
+
+	const { data: userViews = [], isFetched: isViewsFetched } = useQuery<
+		EquipmentsUserView[]
+	>({
+		queryKey: ['equipment-views', user?.uid],
+		queryFn: () => getEquipmentViews(user!.uid),
+		enabled: Boolean(user?.uid)
+	});
+
+	const getViewState = (key: string): EquipmentsViewState | null => {
+		const builtIn = DEFAULT_VIEWS.find((v) => v.key === key);
+		if (builtIn) return toViewState(builtIn);
+		return userViews.find((v) => v.id === key)?.state ?? null;
+	};
+
+	// a view de um link pode não ser visível para quem abre: fica sem view
+	const activeViewState = savedViewKey ? getViewState(savedViewKey) : null;
+	const isViewModified =
+		Boolean(activeViewState) &&
+		JSON.stringify(normalizeViewState(customState)) !==
+			JSON.stringify(normalizeViewState(activeViewState!));
+
+	// a view recém-criada ainda não está na lista: mantém o estado atual
+	const selectView = (key: string, mode?: 'push' | 'replace') => {
+		const state = getViewState(key);
+		navigate(
+			{
+				view: key,
+				state: state ? normalizeViewState(state) : customState,
+				pageSize: urlState.pageSize,
+				cursors: []
+			},
+			mode
+		);
+	};
 
-	const columnFilters = useMemo(
-		() => buildColumnFilters(search, status),
-		[search, status]
+	const [lastViewKey, setLastViewKey] = useLocalStorage<string>(
+		'assetops.equipments.savedViewKey',
+		'operational'
 	);
 
 	useEffect(() => {
-		const view = getViewByKey(savedViewKey);
-
-		setCustomState({
-			sort: view.sort,
-			includeArchived: view.includeArchived,
-			search: view.search ?? '',
-			status: view.status ?? 'all',
-			maintenanceWindow: (view.maintenanceWindow ??
-				'all') as MaintenanceWindowValue
-		});
+		if (savedViewKey) setLastViewKey(savedViewKey);
 		// eslint-disable-next-line react-hooks/exhaustive-deps
 	}, [savedViewKey]);
 
+	// /equipments sem query: default do perfil (segue o usuário) ou a última view
+	const isBareUrl = searchParams.toString() === '';
+
+	useEffect(() => {
+		if (!isBareUrl || authLoading || roleLoading) return;
+
+		const key = profile?.defaultEquipmentsView || lastViewKey;
+		const isBuiltIn = DEFAULT_VIEWS.some((v) => v.key === key);
+		// views do Firestore: espera a lista
+		if (!isBuiltIn && user && !isViewsFetched) return;
+
+		selectView(getViewState(key) ? key : 'operational', 'replace');
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [isBareUrl, authLoading, roleLoading, isViewsFetched]);
+
+	// colunas fazem parte da view (e da URL); larguras ficam no DataTable
+	const columnState = useMemo<DataTableColumnState>(
+		() => ({
+			visibility: Object.fromEntries([
+				...customState.hiddenColumns.map((id) => [id, false]),
+				...customState.shownColumns.map((id) => [id, true])
+			]),
+			order: customState.columnOrder
+		}),
+		[customState]
+	);
+
+	// só as colunas: mantém a página
+	const setColumnState = (next: DataTableColumnState) =>
+		navigate({
+			...urlState,
+			state: {
+				...customState,
+				hiddenColumns: Object.keys(next.visibility).filter(
+					(id) => !next.visibility[id]
+				),
+				shownColumns: Object.keys(next.visibility).filter(
+					(id) => next.visibility[id]
+				),
+				columnOrder: next.order
+			}
+		});
+
 	/* ---------------- DATA ---------------- */
 
+	const [storedPageSize, setStoredPageSize] = useLocalStorage<PageSizeOption>(
+		'assetops.equipments.pageSize',
+		20
+	);
+	const pageSize = (urlState.pageSize ?? storedPageSize) as PageSizeOption;
+
+	const setPageSize = (next: PageSizeOption) => {
+		setStoredPageSize(next);
+		navigate({ ...urlState, pageSize: next, cursors: [], page: undefined });
+	};
+
+	const pageFilters = useMemo(
+		() => ({
+			sort,
+			includeArchived,
+			archivedOnly: customState.archivedOnly,
+			status,
+			search,
+			maintenanceWindow,
+			pageSize
+		}),
+		[
+			sort,
+			includeArchived,
+			customState.archivedOnly,
+			status,
+			search,
+			maintenanceWindow,
+			pageSize
+		]
+	);
+
+	// um cursor por página visitada (na URL);
+	// qualquer mudança de filtro volta para a primeira página
+	const cursors = urlState.cursors;
+	const pageIndex = cursors.length;
+	const cursor = cursors[pageIndex - 1] ?? null;
+
+	const pageQueryKey = ['equipments', 'page', { ...pageFilters, cursor }];
+
+	const { data: categories = [] } = useQuery<AssetCategory[]>({
+		queryKey: ['categories'],
+		queryFn: () => getCategories({ includeArchived: true })
+	});
+	const selectedCategory = categories.find((c) => c.id === categoryId);
+
+	const { data: locations = [] } = useQuery<Location[]>({
+		queryKey: ['locations'],
+		queryFn: () => getLocations()
+	});
+	const selectedLocation = locations.find((l) => l.id === locationId);
+
+	// categoria, tag e/ou local: lista carregada inteira (ver getEquipmentsByClassification)
+	const isGroupMode =
+		Boolean(selectedCategory) || Boolean(tag) || Boolean(selectedLocation);
+
+	const { data: tagCounts = [] } = useQuery({
+		queryKey: ['equipments', 'tagCounts'],
+		queryFn: getTagCounts,
+		staleTime: 60_000
+	});
+	const tagSuggestions = tagCounts.map((t) => t.tag);
+
 	const {
-		data = [],
+		data: page,
 		isLoading,
-		isFetching
+		isFetching,
+		isPlaceholderData
+	} = useQuery<EquipmentsPage>({
+		queryKey: pageQueryKey,
+		queryFn: () => getEquipmentsPage({ ...pageFilters, cursor }),
+		enabled: !isGroupMode,
+		placeholderData: keepPreviousData
+	});
+
+	useLiveEquipmentsPage(pageQueryKey, { ...pageFilters, cursor }, !isGroupMode);
+
+	// categoria/tag/local: carrega todos os assets do grupo; custom fields são
+	// filtrados/ordenados aqui (não há índice para campos dinâmicos)
+	const classification = {
+		categoryId: selectedCategory?.id,
+		tag: tag || undefined,
+		locationIds: selectedLocation
+			? getLocationSubtreeIds(selectedLocation.id, locations)
+			: undefined
+	};
+	const {
+		data: groupAssets = [],
+		isLoading: isGroupLoading,
+		isFetching: isGroupFetching
 	} = useQuery<Equipment[]>({
-		queryKey: ['equipments', { includeArchived, sort }],
-		queryFn: () => getEquipmentsList({ includeArchived, sort })
+		queryKey: ['equipments', 'classification', classification, pageFilters],
+		queryFn: () => getEquipmentsByClassification(classification, pageFilters),
+		enabled: isGroupMode,
+		placeholderData: keepPreviousData
 	});
 
-	const filteredData = useMemo(() => {
-		let list = data;
+	const customField = selectedCategory?.fields.find(
+		(f) => f.key === customFieldFilter?.key
+	);
 
-		// Archived view = somente arquivados
-		if (savedViewKey === 'archived') {
-			list = list.filter((e) => Boolean((e as any)?.archivedAt));
-		} else if (!includeArchived) {
-			// default = sem arquivados
-			list = list.filter((e) => !Boolean((e as any)?.archivedAt));
-		}
+	const groupData = useMemo(
+		() =>
+			customField && customFieldFilter
+				? groupAssets.filter((eq) =>
+						matchesCustomFieldFilter(
+							customField,
+							eq.customFields?.[customField.key],
+							customFieldFilter
+						)
+					)
+				: groupAssets,
+		[groupAssets, customField, customFieldFilter]
+	);
 
-		// Maintenance window (stored/derived)
-		if (maintenanceWindow !== 'all') {
-			list = list.filter((e) => matchesMaintenanceWindow(e, maintenanceWindow));
-		}
+	const data = isGroupMode ? groupData : (page?.items ?? []);
 
-		return list;
-	}, [data, includeArchived, savedViewKey, maintenanceWindow]);
+	// export: a view inteira, não só a página
+	const [isExportOpen, setIsExportOpen] = useState(false);
+	const matchingTotal = isGroupMode ? groupData.length : (page?.total ?? 0);
+	const loadExportAssets = async () =>
+		isGroupMode ? groupData : getEquipmentsList(pageFilters);
+	const nextCursor = isPlaceholderData ? null : (page?.nextCursor ?? null);
 
 	/* ---------------- PERMISSIONS ---------------- */
 
@@ -330,16 +731,40 @@ export default function EquipmentsTableSection() {
 
 	/* ---------------- MUTATIONS ---------------- */
 
+	// archive asks first what to do with the asset's children
+	const [archiveTarget, setArchiveTarget] = useState<Equipment | null>(null);
+
 	const archiveMutation = useMutation({
-		mutationFn: async (equipmentId: string) => {
+		mutationFn: async ({
+			equipmentId,
+			children
+		}: {
+			equipmentId: string;
+			children: ArchiveChildrenMode;
+		}) => {
 			if (!user) throw new Error('Not authenticated');
-			await archiveEquipment(equipmentId, { uid: user.uid, email: user.email });
+			await archiveEquipment(
+				equipmentId,
+				{ uid: user.uid, email: user.email },
+				{ children }
+			);
 		},
 		onSuccess: () => {
+			setArchiveTarget(null);
 			queryClient.invalidateQueries({ queryKey: ['equipments'] });
 			toast.success('Asset archived');
 		},
-		onError: () => toast.error('Failed to archive asset')
+		onError: (err) => {
+			if (err instanceof Error && err.message === 'ARCHIVE_CHILDREN_FAILED') {
+				setArchiveTarget(null);
+				queryClient.invalidateQueries({ queryKey: ['equipments'] });
+				toast.error(
+					'Asset archived, but some of its children were not updated'
+				);
+				return;
+			}
+			toast.error('Failed to archive asset');
+		}
 	});
 
 	const restoreMutation = useMutation({
@@ -354,17 +779,250 @@ export default function EquipmentsTableSection() {
 			queryClient.invalidateQueries({ queryKey: ['equipments'] });
 			toast.success('Asset restored');
 		},
-		onError: () => toast.error('Failed to restore asset')
+		onError: (err) => {
+			if (err instanceof Error && err.message === 'SERIAL_ALREADY_EXISTS') {
+				toast.error(
+					'Cannot restore: another active asset uses this serial number'
+				);
+				return;
+			}
+			toast.error('Failed to restore asset');
+		}
 	});
 
-	const isMutating = archiveMutation.isPending || restoreMutation.isPending;
+	// seleção por id: sobrevive à troca de página
+	const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+	const selectedIds = Object.keys(rowSelection).filter(
+		(id) => rowSelection[id]
+	);
+
+	// "all matching": every asset of the current filters, on any page;
+	// changing the filters or a checkbox drops back to the picked rows
+	const selectionScope = JSON.stringify([
+		pageFilters,
+		classification,
+		customFieldFilter
+	]);
+	const [allMatchingScope, setAllMatchingScope] = useState<string | null>(null);
+	const isAllMatching = allMatchingScope === selectionScope;
+	const selectedCount = isAllMatching ? matchingTotal : selectedIds.length;
+
+	const handleRowSelectionChange: typeof setRowSelection = (updater) => {
+		setAllMatchingScope(null);
+		setRowSelection(updater);
+	};
+
+	const clearSelection = () => {
+		setAllMatchingScope(null);
+		setRowSelection({});
+	};
+
+	// nomes para o resumo de falhas (linhas de outras páginas)
+	const loadedNamesRef = useRef(new Map<string, string>());
+
+	const resolveSelectedIds = async () => {
+		if (!isAllMatching) return selectedIds;
+		const assets = isGroupMode
+			? groupData
+			: await getEquipmentsList(pageFilters);
+		assets.forEach((eq) => loadedNamesRef.current.set(eq.id, eq.name));
+		return assets.map((eq) => eq.id);
+	};
+
+	const getAssetName = (id: string) =>
+		data.find((eq) => eq.id === id)?.name ?? loadedNamesRef.current.get(id);
+
+	const [bulkTagsMode, setBulkTagsMode] = useState<BulkTagsMode | null>(null);
+	const [bulkAction, setBulkAction] = useState<BulkActionType | null>(null);
+
+	const bulkTagsMutation = useMutation({
+		mutationFn: async ({
+			mode,
+			tags
+		}: {
+			mode: BulkTagsMode;
+			tags: string[];
+		}) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+			return bulkUpdateEquipmentTags(
+				await resolveSelectedIds(),
+				mode === 'add' ? { add: tags } : { remove: tags },
+				{ uid: user.uid, email: user.email }
+			);
+		},
+		onSuccess: (updated) => {
+			setBulkTagsMode(null);
+			clearSelection();
+			queryClient.invalidateQueries({ queryKey: ['equipments'] });
+			toast.success(
+				`Tags updated on ${updated} asset${updated === 1 ? '' : 's'}`
+			);
+		},
+		onError: () => toast.error('Failed to update tags')
+	});
+
+	// edição na célula: a linha muda na hora e volta se a escrita falhar
+	const inlineEditMutation = useMutation({
+		mutationFn: async ({
+			equipment,
+			edit
+		}: {
+			equipment: Equipment;
+			edit: InlineEdit;
+		}) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+			const actor = { uid: user.uid, email: user.email };
+
+			if (edit.kind === 'update') {
+				await updateEquipment(equipment.id, edit.input, actor, {
+					expectedRevision: equipment.revision ?? 0,
+					statusReason: edit.statusReason
+				});
+				return;
+			}
+
+			await transferEquipment(equipment.id, edit.transfer, actor);
+		},
+		onMutate: async ({ equipment, edit }) => {
+			await Promise.all(
+				TABLE_QUERY_KEYS.map((queryKey) =>
+					queryClient.cancelQueries({ queryKey })
+				)
+			);
+
+			const previous = TABLE_QUERY_KEYS.flatMap((queryKey) =>
+				queryClient.getQueriesData({ queryKey })
+			);
+			const optimistic: Equipment = {
+				...equipment,
+				...edit.patch,
+				// both writes bump it; a second edit on the row must expect the new one
+				revision: (equipment.revision ?? 0) + 1
+			};
+			TABLE_QUERY_KEYS.forEach((queryKey) =>
+				queryClient.setQueriesData({ queryKey }, (data: unknown) =>
+					replaceCachedEquipment(data, optimistic)
+				)
+			);
+
+			return { previous };
+		},
+		onError: (err, _, context) => {
+			context?.previous.forEach(([queryKey, data]) =>
+				queryClient.setQueryData(queryKey, data)
+			);
+			toast.error(getInlineEditErrorMessage(err));
+		},
+		onSettled: () => {
+			queryClient.invalidateQueries({ queryKey: ['equipments'] });
+		}
+	});
+
+	const canEditCells = (equipment: Equipment) =>
+		canWrite && !isAuthBlocked && !(equipment as any)?.archivedAt;
+
+	// status and service interval: same schema as EquipmentForm
+	const saveInlineUpdate = (
+		equipment: Equipment,
+		update: Parameters<typeof toInlineEquipmentInput>[1],
+		statusReason?: StatusChangeReason
+	) => {
+		const input = toInlineEquipmentInput(
+			equipment,
+			update,
+			categories.find((c) => c.id === equipment.categoryId)?.fields
+		);
+		if (typeof input === 'string') {
+			toast.error(input);
+			return;
+		}
+
+		inlineEditMutation.mutate({
+			equipment,
+			edit: {
+				kind: 'update',
+				input,
+				statusReason,
+				patch: {
+					status: input.status,
+					maintenancePlans: input.maintenancePlans,
+					nextServiceDate: getEarliestDuePlan(input.maintenancePlans)
+						?.nextServiceDate
+				}
+			}
+		});
+	};
+
+	// owner and location: the transfer dialog opens with the new value, and
+	// whoever requested and approved the move is entered there
+	const [transferDraft, setTransferDraft] = useState<{
+		equipment: Equipment;
+		initial: TransferDialogInitial;
+	} | null>(null);
+
+	const saveInlineTransfer = (
+		equipment: Equipment,
+		transfer: EquipmentTransferInput
+	) => {
+		setTransferDraft(null);
+		inlineEditMutation.mutate({
+			equipment,
+			edit: {
+				kind: 'transfer',
+				transfer,
+				patch: {
+					owner: transfer.toOwner,
+					locationId: transfer.toLocationId,
+					location:
+						transfer.toLocationId === (equipment.locationId ?? '')
+							? equipment.location
+							: (locations.find((l) => l.id === transfer.toLocationId)?.path ??
+								'')
+				}
+			}
+		});
+	};
+
+	const isMutating =
+		archiveMutation.isPending ||
+		restoreMutation.isPending ||
+		bulkTagsMutation.isPending;
 
 	/* ---------------- COLUMNS ---------------- */
 
+	const selectColumn: ColumnDef<Equipment> = {
+		id: 'select',
+		enableSorting: false,
+		enableHiding: false,
+		meta: { fixed: true },
+		header: ({ table }) => (
+			<input
+				type='checkbox'
+				aria-label='Select all on this page'
+				className='h-4 w-4 accent-primary'
+				checked={table.getIsAllPageRowsSelected()}
+				onChange={(e) => table.toggleAllPageRowsSelected(e.target.checked)}
+			/>
+		),
+		cell: ({ row }) => (
+			<input
+				type='checkbox'
+				aria-label={`Select ${row.original.name}`}
+				className='h-4 w-4 accent-primary'
+				checked={row.getIsSelected()}
+				onChange={(e) => row.toggleSelected(e.target.checked)}
+			/>
+		)
+	};
+
 	const columns: ColumnDef<Equipment>[] = [
+		...(canWrite ? [selectColumn] : []),
 		{
 			accessorKey: 'name',
 			header: 'Asset',
+			enableHiding: false,
 			cell: ({ row }) => {
 				const equipment = row.original;
 				const isArchived = Boolean((equipment as any)?.archivedAt);
@@ -383,14 +1041,26 @@ export default function EquipmentsTableSection() {
 			header: 'Status',
 			filterFn: (row, columnId, filterValue) =>
 				row.getValue(columnId) === filterValue,
-			cell: ({ row }) => <StatusBadge status={row.original.status} />
+			cell: ({ row }) => (
+				<StatusCell
+					status={row.original.status}
+					readOnly={!canEditCells(row.original)}
+					onSave={(next, reason) =>
+						saveInlineUpdate(
+							row.original,
+							(values) => ({ ...values, status: next }),
+							reason
+						)
+					}
+				/>
+			)
 		},
 		{
 			accessorKey: 'lastServiceDate',
 			header: 'Last Service'
 		},
 
-		// Next Service (stored/derived) + badges ops
+		// Next Service (earliest plan) + badges ops
 		{
 			id: 'nextService',
 			header: 'Next Service',
@@ -400,7 +1070,12 @@ export default function EquipmentsTableSection() {
 
 				return (
 					<div className='flex items-center gap-2'>
-						<Badge variant={tone.variant}>{tone.label}</Badge>
+						<Badge
+							variant={tone.variant}
+							title={tone.task}
+						>
+							{tone.label}
+						</Badge>
 
 						{tone.note ? (
 							<Badge
@@ -418,8 +1093,133 @@ export default function EquipmentsTableSection() {
 			}
 		},
 
+		{
+			id: 'tags',
+			header: 'Tags',
+			enableSorting: false,
+			cell: ({ row }) => {
+				const tags = row.original.tags ?? [];
+				if (tags.length === 0) return '—';
+
+				return (
+					<div className='flex flex-wrap gap-1'>
+						{tags.map((t) => (
+							<Badge
+								key={t}
+								variant='outline'
+								className='cursor-pointer'
+								onClick={() =>
+									setCustomState((prev: any) => ({ ...prev, tag: t }))
+								}
+							>
+								{t}
+							</Badge>
+						))}
+					</div>
+				);
+			}
+		},
+
+		// optional columns: off until picked in the Columns menu
+		{
+			accessorKey: 'purchaseDate',
+			header: 'Purchase date',
+			meta: { defaultHidden: true }
+		},
+		{
+			id: 'serviceInterval',
+			header: 'Service interval',
+			meta: { defaultHidden: true },
+			accessorFn: (eq) =>
+				getEarliestDuePlan(resolveMaintenancePlans(eq))?.intervalDays,
+			sortUndefined: 'last',
+			cell: ({ row }) => {
+				const eq = row.original;
+				// the plan shown is the one edited
+				const plan = getEarliestDuePlan(resolveMaintenancePlans(eq));
+				const days = plan?.intervalDays;
+
+				return (
+					<InputCell
+						type='number'
+						label='service interval'
+						value={days ? String(days) : ''}
+						display={days ? `${days} days` : '—'}
+						readOnly={!plan || !canEditCells(eq)}
+						onSave={(next) =>
+							saveInlineUpdate(eq, (values) => ({
+								...values,
+								maintenancePlans: values.maintenancePlans.map((p) =>
+									p.id === plan?.id ? { ...p, intervalDays: next } : p
+								)
+							}))
+						}
+					/>
+				);
+			}
+		},
+		{
+			accessorKey: 'owner',
+			header: 'Owner',
+			meta: { defaultHidden: true },
+			cell: ({ row }) => (
+				<InputCell
+					label='owner'
+					value={row.original.owner ?? ''}
+					readOnly={!canEditCells(row.original)}
+					onSave={(next) =>
+						setTransferDraft({
+							equipment: row.original,
+							initial: { toOwner: next }
+						})
+					}
+				/>
+			)
+		},
+		{
+			accessorKey: 'location',
+			header: 'Location',
+			meta: { defaultHidden: true },
+			cell: ({ row }) => (
+				<LocationCell
+					value={{
+						locationId: row.original.locationId ?? '',
+						location: row.original.location ?? ''
+					}}
+					readOnly={!canEditCells(row.original)}
+					onSave={(next) =>
+						setTransferDraft({
+							equipment: row.original,
+							initial: {
+								toLocationId: next.locationId,
+								toLocation: next.location
+							}
+						})
+					}
+				/>
+			)
+		},
+		{
+			id: 'createdBy',
+			header: 'Created by',
+			meta: { defaultHidden: true },
+			accessorFn: (eq) => eq.createdByEmail ?? eq.createdBy,
+			cell: ({ getValue }) => getValue<string>() || '—'
+		},
+		{
+			id: 'updatedAt',
+			header: 'Updated',
+			meta: { defaultHidden: true },
+			accessorFn: (eq) => (eq.updatedAt as any)?.toMillis?.() ?? 0,
+			cell: ({ row }) => formatTimestamp(row.original.updatedAt)
+		},
+
+		...(selectedCategory?.fields ?? []).map(buildCustomFieldColumn),
+
 		{
 			id: 'actions',
+			enableHiding: false,
+			meta: { fixed: true },
 			cell: ({ row }) => {
 				const equipment = row.original;
 				const isArchived = Boolean((equipment as any)?.archivedAt);
@@ -433,7 +1233,7 @@ export default function EquipmentsTableSection() {
 						toast.error('Read-only access. Admin role required.');
 						return;
 					}
-					archiveMutation.mutate(equipment.id);
+					setArchiveTarget(equipment);
 				};
 
 				const handleRestore = () => {
@@ -498,7 +1298,7 @@ export default function EquipmentsTableSection() {
 
 	/* ---------------- SKELETON ---------------- */
 
-	if (isLoading) {
+	if (isGroupMode ? isGroupLoading : isLoading) {
 		return (
 			<div className='space-y-4'>
 				<div className='flex justify-between'>
@@ -521,62 +1321,178 @@ export default function EquipmentsTableSection() {
 
 	return (
 		<div className='space-y-4'>
+			{archiveTarget && (
+				<ArchiveAssetDialog
+					open
+					asset={archiveTarget}
+					isArchiving={archiveMutation.isPending}
+					onConfirm={(children) =>
+						archiveMutation.mutate({
+							equipmentId: archiveTarget.id,
+							children
+						})
+					}
+					onOpenChange={(open) => {
+						if (!open && !archiveMutation.isPending) setArchiveTarget(null);
+					}}
+				/>
+			)}
+
+			{transferDraft && (
+				<TransferDialog
+					open
+					asset={transferDraft.equipment}
+					initial={transferDraft.initial}
+					approvedBy={user?.email}
+					onSubmit={(input) =>
+						saveInlineTransfer(transferDraft.equipment, input)
+					}
+					onOpenChange={(open) => {
+						if (!open) setTransferDraft(null);
+					}}
+				/>
+			)}
+
+			{bulkTagsMode && (
+				<BulkTagsDialog
+					open
+					mode={bulkTagsMode}
+					count={selectedCount}
+					suggestions={tagSuggestions}
+					isSaving={bulkTagsMutation.isPending}
+					onConfirm={(tags) =>
+						bulkTagsMutation.mutate({ mode: bulkTagsMode, tags })
+					}
+					onOpenChange={(open) => {
+						if (!open && !bulkTagsMutation.isPending) setBulkTagsMode(null);
+					}}
+				/>
+			)}
+
+			{bulkAction && (
+				<BulkActionDialog
+					open
+					action={bulkAction}
+					count={selectedCount}
+					resolveIds={resolveSelectedIds}
+					getAssetName={getAssetName}
+					onDone={() => {
+						clearSelection();
+						queryClient.invalidateQueries({ queryKey: ['equipments'] });
+					}}
+					onOpenChange={(open) => {
+						if (!open) setBulkAction(null);
+					}}
+				/>
+			)}
+
+			<ExportDialog
+				open={isExportOpen}
+				count={matchingTotal}
+				categories={categories}
+				loadAssets={loadExportAssets}
+				onOpenChange={setIsExportOpen}
+			/>
+
 			<div className='flex flex-wrap gap-4 items-center justify-between'>
 				<div className='flex gap-2 flex-wrap items-center'>
 					{/* Saved Views */}
+					<SavedViewsMenu
+						builtInViews={DEFAULT_VIEWS}
+						views={userViews}
+						activeKey={savedViewKey}
+						currentState={customState}
+						isModified={isViewModified}
+						onSelect={selectView}
+					/>
+
+					{/* Search */}
+					<Input
+						placeholder='Search assets...'
+						value={searchInput}
+						onChange={(e) => setSearchInput(e.target.value)}
+						className='max-w-sm'
+					/>
+
+					{/* Status */}
 					<Select
-						value={savedViewKey}
-						onValueChange={(v) => setSavedViewKey(v as EquipmentsSavedViewKey)}
+						value={status}
+						onValueChange={(value) =>
+							setCustomState((prev: any) => ({
+								...prev,
+								status: value as StatusFilterValue
+							}))
+						}
 					>
-						<SelectTrigger className='w-[220px]'>
-							<SelectValue placeholder='Saved view' />
+						<SelectTrigger className='w-[180px]'>
+							<SelectValue placeholder='Status' />
 						</SelectTrigger>
 						<SelectContent>
-							{DEFAULT_VIEWS.map((v) => (
+							<SelectItem value='all'>All statuses</SelectItem>
+							{EQUIPMENT_STATUSES.map((s) => (
 								<SelectItem
-									key={v.key}
-									value={v.key}
+									key={s}
+									value={s}
 								>
-									<div className='flex items-center gap-2'>
-										<Bookmark className='h-4 w-4' />
-										{v.label}
-									</div>
+									{EQUIPMENT_STATUS_CONFIG[s].label}
 								</SelectItem>
 							))}
 						</SelectContent>
 					</Select>
 
-					{/* Search */}
-					<Input
-						placeholder='Search assets...'
-						value={search}
-						onChange={(e) =>
+					{/* Tag */}
+					<Select
+						value={tag || 'all'}
+						onValueChange={(value) =>
 							setCustomState((prev: any) => ({
 								...prev,
-								search: e.target.value
+								tag: value === 'all' ? '' : value
 							}))
 						}
-						className='max-w-sm'
-					/>
+					>
+						<SelectTrigger className='w-[180px]'>
+							<SelectValue placeholder='Tag' />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value='all'>All tags</SelectItem>
+							{/* tag vinda de um clique pode não estar na contagem ainda */}
+							{tag && !tagSuggestions.includes(tag) && (
+								<SelectItem value={tag}>{tag}</SelectItem>
+							)}
+							{tagCounts.map((t) => (
+								<SelectItem
+									key={t.tag}
+									value={t.tag}
+								>
+									{t.tag} ({t.count})
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
 
-					{/* Status */}
+					{/* Location (and everything under it) */}
 					<Select
-						value={status}
+						value={locationId || 'all'}
 						onValueChange={(value) =>
-							setCustomState((prev: any) => ({
+							setCustomState((prev) => ({
 								...prev,
-								status: value as StatusFilterValue
+								locationId: value === 'all' ? '' : value
 							}))
 						}
 					>
-						<SelectTrigger className='w-[180px]'>
-							<SelectValue placeholder='Status' />
+						<SelectTrigger className='w-[220px]'>
+							<SelectValue placeholder='Location' />
 						</SelectTrigger>
 						<SelectContent>
-							<SelectItem value='all'>All statuses</SelectItem>
-							<SelectItem value='active'>Active</SelectItem>
-							<SelectItem value='maintenance'>Maintenance</SelectItem>
-							<SelectItem value='inactive'>Inactive</SelectItem>
+							<SelectItem value='all'>All locations</SelectItem>
+							{locations.map((l) => (
+								<SelectItem
+									key={l.id}
+									value={l.id}
+								>
+									{l.path}
+								</SelectItem>
+							))}
 						</SelectContent>
 					</Select>
 
@@ -595,11 +1511,82 @@ export default function EquipmentsTableSection() {
 						</SelectTrigger>
 						<SelectContent>
 							<SelectItem value='all'>Maintenance window: All</SelectItem>
+							<SelectItem value='due_7'>Due this week (≤ 7d)</SelectItem>
 							<SelectItem value='due_30'>Due soon (≤ 30d)</SelectItem>
 							<SelectItem value='overdue'>Overdue</SelectItem>
+							<SelectItem value='attention'>Overdue or due ≤ 30d</SelectItem>
+						</SelectContent>
+					</Select>
+
+					{/* Category + custom field */}
+					<Select
+						value={categoryId || 'all'}
+						onValueChange={(value) =>
+							setCustomState((prev: any) => ({
+								...prev,
+								categoryId: value === 'all' ? '' : value,
+								customFieldFilter: null
+							}))
+						}
+					>
+						<SelectTrigger className='w-[200px]'>
+							<SelectValue placeholder='Category' />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value='all'>All categories</SelectItem>
+							{categories
+								.filter((c) => !c.isArchived || c.id === categoryId)
+								.map((c) => (
+									<SelectItem
+										key={c.id}
+										value={c.id}
+									>
+										{c.name}
+									</SelectItem>
+								))}
 						</SelectContent>
 					</Select>
 
+					{selectedCategory && selectedCategory.fields.length > 0 && (
+						<Select
+							value={customFieldFilter?.key ?? 'none'}
+							onValueChange={(value) =>
+								setCustomState((prev: any) => ({
+									...prev,
+									customFieldFilter: value === 'none' ? null : { key: value }
+								}))
+							}
+						>
+							<SelectTrigger className='w-[200px]'>
+								<SelectValue placeholder='Filter by field' />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value='none'>No field filter</SelectItem>
+								{selectedCategory.fields.map((f) => (
+									<SelectItem
+										key={f.key}
+										value={f.key}
+									>
+										{f.label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					)}
+
+					{customField && customFieldFilter && (
+						<CustomFieldFilterInputs
+							field={customField}
+							filter={customFieldFilter}
+							onChange={(next) =>
+								setCustomState((prev: any) => ({
+									...prev,
+									customFieldFilter: next
+								}))
+							}
+						/>
+					)}
+
 					{/* Sort */}
 					<Select
 						value={sort}
@@ -641,25 +1628,147 @@ export default function EquipmentsTableSection() {
 					{/* Reset */}
 					<Button
 						variant='ghost'
-						onClick={() => setSavedViewKey('operational')}
+						onClick={() => selectView('operational')}
 					>
 						Reset
 					</Button>
 				</div>
 
-				<Button
-					disabled={!canWrite}
-					onClick={() => router.push('/equipments/action?action=add')}
-				>
-					Add asset
-				</Button>
+				<div className='flex gap-2'>
+					<Button
+						variant='outline'
+						disabled={isAuthBlocked}
+						onClick={() => setIsExportOpen(true)}
+					>
+						<Download className='h-4 w-4 mr-2' />
+						Export
+					</Button>
+					<Button
+						variant='outline'
+						disabled={!canWrite}
+						onClick={() => router.push('/equipments/import')}
+					>
+						<Upload className='h-4 w-4 mr-2' />
+						Import
+					</Button>
+					<Button
+						disabled={!canWrite}
+						onClick={() => router.push('/equipments/action?action=add')}
+					>
+						Add asset
+					</Button>
+				</div>
 			</div>
 
-			{isFetching && (
+			{selectedCount > 0 && canWrite && (
+				<div className='flex flex-wrap items-center gap-2 rounded-md border bg-muted/40 px-3 py-2'>
+					<p className='text-sm'>
+						{isAllMatching
+							? `All ${selectedCount} matching assets selected`
+							: `${selectedCount} selected`}
+					</p>
+					{!isAllMatching && matchingTotal > selectedCount && (
+						<Button
+							size='sm'
+							variant='link'
+							onClick={() => setAllMatchingScope(selectionScope)}
+						>
+							Select all {matchingTotal} matching
+						</Button>
+					)}
+					<Button
+						size='sm'
+						variant='outline'
+						disabled={isMutating}
+						onClick={() => setBulkTagsMode('add')}
+					>
+						<Tag className='h-4 w-4 mr-2' />
+						Add tags
+					</Button>
+					<Button
+						size='sm'
+						variant='outline'
+						disabled={isMutating}
+						onClick={() => setBulkTagsMode('remove')}
+					>
+						Remove tags
+					</Button>
+					<Button
+						size='sm'
+						variant='outline'
+						disabled={isMutating}
+						onClick={() => setBulkAction('status')}
+					>
+						<Clock className='h-4 w-4 mr-2' />
+						Change status
+					</Button>
+					<Button
+						size='sm'
+						variant='outline'
+						disabled={isMutating}
+						onClick={() => setBulkAction('transfer')}
+					>
+						<ArrowRightLeft className='h-4 w-4 mr-2' />
+						Transfer
+					</Button>
+					<Button
+						size='sm'
+						variant='outline'
+						disabled={isMutating}
+						onClick={() => setBulkAction('maintenance')}
+					>
+						<Wrench className='h-4 w-4 mr-2' />
+						Log maintenance
+					</Button>
+					<Button
+						size='sm'
+						variant='outline'
+						disabled={isMutating}
+						onClick={() => setBulkAction('archive')}
+					>
+						<Archive className='h-4 w-4 mr-2' />
+						Archive
+					</Button>
+					<Button
+						size='sm'
+						variant='outline'
+						disabled={isMutating}
+						onClick={() => setBulkAction('restore')}
+					>
+						<ArchiveRestore className='h-4 w-4 mr-2' />
+						Restore
+					</Button>
+					<Button
+						size='sm'
+						variant='ghost'
+						onClick={clearSelection}
+					>
+						Clear selection
+					</Button>
+				</div>
+			)}
+
+			{(isGroupMode ? isGroupFetching : isFetching) && (
 				<p className='text-xs text-muted-foreground'>Refreshing...</p>
 			)}
 
-			{filteredData.length === 0 ? (
+			{maintenanceWindow !== 'all' && (
+				<p className='text-xs text-muted-foreground'>
+					Maintenance window results are ordered by next service date.
+				</p>
+			)}
+
+			{isGroupMode && (
+				<p className='text-xs text-muted-foreground'>
+					Showing every matching asset
+					{selectedCategory ? ` in ${selectedCategory.name}` : ''}
+					{tag ? ` tagged “${tag}”` : ''}
+					{selectedLocation ? ` at ${selectedLocation.path}` : ''}. Click a
+					column header to sort by it.
+				</p>
+			)}
+
+			{data.length === 0 ? (
 				<div className='flex flex-col items-center justify-center rounded-lg border border-dashed p-10 text-center'>
 					<div className='flex h-12 w-12 items-center justify-center rounded-full bg-muted'>
 						<Package className='h-6 w-6 text-muted-foreground' />
@@ -689,15 +1798,51 @@ export default function EquipmentsTableSection() {
 						</p>
 					)}
 				</div>
+			) : isGroupMode ? (
+				<DataTable
+					key={categoryId}
+					columns={columns}
+					data={data}
+					persistKey={`assetops.equipments.category.${categoryId || 'none'}`}
+					defaultPageSize={pageSize}
+					sorting={urlState.columnSort ?? []}
+					onSortingChange={(columnSort) =>
+						navigate({ ...urlState, columnSort, page: undefined })
+					}
+					pageIndex={urlState.page ?? 0}
+					onPageIndexChange={(page) =>
+						navigate({ ...urlState, page: page || undefined })
+					}
+					rowSelection={rowSelection}
+					onRowSelectionChange={canWrite ? handleRowSelectionChange : undefined}
+					getRowId={(eq) => eq.id}
+					enableColumnControls
+					columnState={columnState}
+					onColumnStateChange={setColumnState}
+				/>
 			) : (
 				<DataTable
 					columns={columns}
-					data={filteredData}
-					columnFilters={columnFilters}
-					onColumnFiltersChange={() => {
-						// TanStack table fica só como render;
-						// o estado fonte é o customState.
+					data={data}
+					serverPagination={{
+						pageIndex,
+						pageSize,
+						total: page?.total ?? 0,
+						hasNextPage: Boolean(nextCursor),
+						onNextPage: () => {
+							if (!nextCursor) return;
+							navigate({ ...urlState, cursors: [...cursors, nextCursor] });
+						},
+						onPreviousPage: () =>
+							navigate({ ...urlState, cursors: cursors.slice(0, -1) }),
+						onPageSizeChange: setPageSize
 					}}
+					rowSelection={rowSelection}
+					onRowSelectionChange={canWrite ? handleRowSelectionChange : undefined}
+					getRowId={(eq) => eq.id}
+					enableColumnControls
+					columnState={columnState}
+					onColumnStateChange={setColumnState}
 				/>
 			)}
 		</div>
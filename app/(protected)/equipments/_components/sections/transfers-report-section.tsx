@@ -0,0 +1,139 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { format, parseISO, subDays } from 'date-fns';
+
+import { getTransfersBetween } from '@/data-access/equipments';
+import type { EquipmentTransfer } from '@/types/transfers';
+
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+
+// período padrão do relatório
+const DEFAULT_PERIOD_DAYS = 90;
+
+export default function TransfersReportSection() {
+	const [from, setFrom] = useState(() =>
+		format(subDays(new Date(), DEFAULT_PERIOD_DAYS), 'yyyy-MM-dd')
+	);
+	const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+	const isValidPeriod = Boolean(from && to && from <= to);
+
+	const {
+		data = [],
+		isLoading,
+		isError
+	} = useQuery<EquipmentTransfer[]>({
+		queryKey: ['transfers', { from, to }],
+		queryFn: () => getTransfersBetween(from, to),
+		enabled: isValidPeriod,
+		staleTime: 60_000
+	});
+
+	const summary = useMemo(
+		() => ({
+			assets: new Set(data.map((t) => t.equipmentId)).size,
+			locationMoves: data.filter((t) => t.fromLocation !== t.toLocation).length,
+			ownerChanges: data.filter((t) => t.fromOwner !== t.toOwner).length
+		}),
+		[data]
+	);
+
+	return (
+		<div className='space-y-4'>
+			<div className='flex flex-col gap-3 sm:flex-row sm:items-end'>
+				<div className='space-y-1'>
+					<p className='text-xs text-muted-foreground'>From</p>
+					<Input
+						type='date'
+						className='w-[180px]'
+						value={from}
+						onChange={(e) => setFrom(e.target.value)}
+					/>
+				</div>
+				<div className='space-y-1'>
+					<p className='text-xs text-muted-foreground'>To</p>
+					<Input
+						type='date'
+						className='w-[180px]'
+						value={to}
+						onChange={(e) => setTo(e.target.value)}
+					/>
+				</div>
+				{isValidPeriod ? (
+					<p className='text-sm text-muted-foreground sm:ml-auto'>
+						{data.length} transfers • {summary.assets} assets •{' '}
+						{summary.locationMoves} location moves • {summary.ownerChanges}{' '}
+						owner changes
+					</p>
+				) : (
+					<p className='text-sm text-destructive sm:ml-auto'>
+						Pick a start date on or before the end date.
+					</p>
+				)}
+			</div>
+
+			{isLoading && isValidPeriod ? (
+				<div className='space-y-2'>
+					<Skeleton className='h-10 w-full' />
+					<Skeleton className='h-10 w-full' />
+					<Skeleton className='h-10 w-2/3' />
+				</div>
+			) : isError ? (
+				<p className='text-sm text-muted-foreground'>
+					Unable to load transfers.
+				</p>
+			) : data.length === 0 ? (
+				<div className='rounded-md border border-dashed p-6'>
+					<p className='text-sm font-medium'>No transfers in this period</p>
+				</div>
+			) : (
+				<div className='rounded-md border overflow-x-auto'>
+					<div className='grid min-w-[860px] grid-cols-[110px_1.2fr_1.5fr_1.2fr_1.2fr] gap-2 border-b px-3 py-2 text-xs text-muted-foreground'>
+						<span>Effective</span>
+						<span>Asset</span>
+						<span>Location</span>
+						<span>Owner</span>
+						<span>Requested / approved</span>
+					</div>
+
+					{data.map((t) => (
+						<div
+							key={t.id}
+							className='grid min-w-[860px] grid-cols-[110px_1.2fr_1.5fr_1.2fr_1.2fr] gap-2 px-3 py-2 text-sm'
+						>
+							<span>{format(parseISO(t.effectiveDate), 'MMM dd, yyyy')}</span>
+							<Link
+								href={`/equipments/${t.equipmentId}`}
+								className='truncate font-medium hover:underline'
+							>
+								{t.equipmentName || t.equipmentId}
+							</Link>
+							<span className='truncate'>
+								{t.fromLocation !== t.toLocation ? (
+									`${t.fromLocation || '—'} → ${t.toLocation || '—'}`
+								) : (
+									<Badge variant='outline'>Unchanged</Badge>
+								)}
+							</span>
+							<span className='truncate'>
+								{t.fromOwner !== t.toOwner ? (
+									`${t.fromOwner || '—'} → ${t.toOwner || '—'}`
+								) : (
+									<Badge variant='outline'>Unchanged</Badge>
+								)}
+							</span>
+							<span className='truncate text-xs text-muted-foreground'>
+								{t.requestedBy} / {t.approvedBy}
+							</span>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronRight, Network } from 'lucide-react';
+
+import { getEquipmentsList } from '@/data-access/equipments';
+import { useLiveEquipmentsList } from '@/hooks/use-live-equipments';
+import {
+	buildAssetTree,
+	countInSubtree,
+	type AssetTreeNode
+} from '@/lib/hierarchy';
+import { getNextServiceDate } from '@/lib/maintenance-plans';
+import type { Equipment } from '@/types/equipment';
+
+import StatusBadge from '../status-badge';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+
+const TREE_QUERY_KEY = ['equipments', 'tree'];
+
+function isOverdue(eq: Equipment, todayKey: string) {
+	const next = getNextServiceDate(eq);
+	return Boolean(next && next < todayKey);
+}
+
+/**
+ * Active assets as a parent/child tree. Loads the whole list (the table
+ * is the paginated view); counts roll up overdue assets below each node.
+ */
+export default function EquipmentsTreeSection() {
+	const {
+		data = [],
+		isLoading,
+		isError
+	} = useQuery<Equipment[]>({
+		queryKey: TREE_QUERY_KEY,
+		queryFn: () => getEquipmentsList({ sort: 'name_asc' })
+	});
+
+	useLiveEquipmentsList(TREE_QUERY_KEY, { sort: 'name_asc' });
+
+	const roots = useMemo(() => buildAssetTree(data), [data]);
+	const todayKey = format(new Date(), 'yyyy-MM-dd');
+
+	// tudo expandido por padrão
+	const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+	function toggle(id: string) {
+		setCollapsed((prev) => {
+			const next = new Set(prev);
+			if (next.has(id)) next.delete(id);
+			else next.add(id);
+			return next;
+		});
+	}
+
+	if (isLoading) {
+		return (
+			<div className='space-y-2'>
+				<Skeleton className='h-8 w-full' />
+				<Skeleton className='h-8 w-5/6' />
+				<Skeleton className='h-8 w-2/3' />
+			</div>
+		);
+	}
+
+	if (isError) {
+		return (
+			<p className='text-sm text-muted-foreground'>
+				Unable to load the asset tree.
+			</p>
+		);
+	}
+
+	if (roots.length === 0) {
+		return (
+			<div className='rounded-md border border-dashed p-6'>
+				<p className='text-sm font-medium'>No active assets</p>
+			</div>
+		);
+	}
+
+	const renderNode = (node: AssetTreeNode, depth: number): JSX.Element => {
+		const { asset, children } = node;
+		const isOpen = !collapsed.has(asset.id);
+		const overdueBelow = children.reduce(
+			(sum, child) =>
+				sum + countInSubtree(child, (a) => isOverdue(a, todayKey)),
+			0
+		);
+		const next = getNextServiceDate(asset);
+
+		return (
+			<div key={asset.id}>
+				<div
+					className='flex items-center gap-2 border-b px-2 py-1.5 text-sm'
+					style={{ paddingLeft: `${depth * 20 + 8}px` }}
+				>
+					{children.length > 0 ? (
+						<Button
+							variant='ghost'
+							size='icon'
+							className='h-6 w-6'
+							onClick={() => toggle(asset.id)}
+						>
+							{isOpen ? (
+								<ChevronDown className='h-4 w-4' />
+							) : (
+								<ChevronRight className='h-4 w-4' />
+							)}
+						</Button>
+					) : (
+						<span className='w-6' />
+					)}
+
+					<Link
+						href={`/equipments/${asset.id}`}
+						className='truncate font-medium hover:underline'
+					>
+						{asset.name}
+					</Link>
+					<StatusBadge status={asset.status} />
+
+					{children.length > 0 && (
+						<span className='text-xs text-muted-foreground'>
+							{children.length === 1
+								? '1 component'
+								: `${children.length} components`}
+						</span>
+					)}
+
+					<div className='ml-auto flex items-center gap-2'>
+						{overdueBelow > 0 && (
+							<Badge variant='destructive'>{overdueBelow} overdue below</Badge>
+						)}
+						<Badge
+							variant={isOverdue(asset, todayKey) ? 'destructive' : 'outline'}
+						>
+							{next ?? '—'}
+						</Badge>
+					</div>
+				</div>
+
+				{isOpen && children.map((child) => renderNode(child, depth + 1))}
+			</div>
+		);
+	};
+
+	return (
+		<div className='space-y-2'>
+			<p className='flex items-center gap-2 text-xs text-muted-foreground'>
+				<Network className='h-3.5 w-3.5' />
+				Set an asset&apos;s parent in its edit form. Assets without a parent are
+				shown at the top level.
+			</p>
+			<div className='rounded-md border'>
+				{roots.map((root) => renderNode(root, 0))}
+			</div>
+		</div>
+	);
+}
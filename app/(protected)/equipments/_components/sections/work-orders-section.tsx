@@ -0,0 +1,373 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { MoreHorizontal, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+import {
+	ACTIVE_WORK_ORDER_STATUSES,
+	WORK_ORDER_TRANSITIONS,
+	completeWorkOrder,
+	createWorkOrder,
+	getWorkOrders,
+	updateWorkOrderStatus
+} from '@/data-access/work-orders';
+import type { MaintenanceRecordInput } from '@/types/maintenance';
+import type {
+	WorkOrder,
+	WorkOrderInput,
+	WorkOrderStatus
+} from '@/types/work-orders';
+import { useAuth } from '@/context/auth-context';
+import { useUserRole } from '@/hooks/use-user-role';
+import WorkOrderDialog from '../dialogs/work-order-dialog';
+import WorkOrderStatusDialog, {
+	type WorkOrderStatusChange
+} from '../dialogs/work-order-status-dialog';
+import CompleteWorkOrderDialog from '../dialogs/complete-work-order-dialog';
+import {
+	WORK_ORDER_ACTION_LABEL,
+	WORK_ORDER_PRIORITY_LABEL,
+	WORK_ORDER_STATUS_LABEL,
+	workOrderPriorityVariant,
+	workOrderStatusVariant
+} from '../work-order-labels';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+
+type StatusFilter = 'active' | 'all' | WorkOrderStatus;
+
+function getErrorMessage(err: unknown) {
+	if (err instanceof Error) {
+		if (err.message === 'Not authenticated') return 'Sign in to continue.';
+		if (err.message === 'Not authorized') return 'Viewer role: read-only.';
+		if (err.message === 'NOT_FOUND') return 'Asset not found.';
+		if (err.message === 'ARCHIVED') {
+			return 'Archived assets cannot receive work orders.';
+		}
+		if (err.message === 'WORK_ORDER_NOT_FOUND') return 'Work order not found.';
+		if (err.message === 'INVALID_TRANSITION') {
+			return 'This work order changed in the meantime. Refresh and try again.';
+		}
+		return err.message;
+	}
+	return 'Unexpected error';
+}
+
+export default function WorkOrdersSection({
+	equipmentId,
+	isArchived = false
+}: {
+	// sem equipmentId = todas as ordens (página /work-orders)
+	equipmentId?: string;
+	isArchived?: boolean;
+}) {
+	const queryClient = useQueryClient();
+	const { user, loading } = useAuth();
+	const { isAdmin, isLoading: roleLoading } = useUserRole();
+
+	const isBlocked = loading || !user || roleLoading || !isAdmin;
+
+	const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+	const [showCreate, setShowCreate] = useState(false);
+	const [statusChange, setStatusChange] =
+		useState<WorkOrderStatusChange | null>(null);
+	const [completing, setCompleting] = useState<WorkOrder | null>(null);
+
+	const today = useMemo(() => format(new Date(), 'yyyy-MM-dd'), []);
+
+	const {
+		data = [],
+		isLoading,
+		isError
+	} = useQuery<WorkOrder[]>({
+		queryKey: ['workOrders', { equipmentId: equipmentId ?? null }],
+		queryFn: () => getWorkOrders({ equipmentId })
+	});
+
+	const rows = useMemo(() => {
+		if (statusFilter === 'all') return data;
+		if (statusFilter === 'active') {
+			return data.filter((w) => ACTIVE_WORK_ORDER_STATUSES.includes(w.status));
+		}
+		return data.filter((w) => w.status === statusFilter);
+	}, [data, statusFilter]);
+
+	function invalidate() {
+		queryClient.invalidateQueries({ queryKey: ['workOrders'] });
+		queryClient.invalidateQueries({ queryKey: ['equipments'] });
+	}
+
+	const createMutation = useMutation({
+		mutationFn: async (input: WorkOrderInput) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			return createWorkOrder(input, { uid: user.uid, email: user.email });
+		},
+		onSuccess: () => {
+			invalidate();
+			toast.success('Work order created');
+			setShowCreate(false);
+		},
+		onError: (err) => toast.error(getErrorMessage(err))
+	});
+
+	const statusMutation = useMutation({
+		mutationFn: async ({
+			change,
+			options
+		}: {
+			change: WorkOrderStatusChange;
+			options: { reason?: string; scheduledDate?: string };
+		}) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			await updateWorkOrderStatus(
+				change.order.id,
+				change.to,
+				{ uid: user.uid, email: user.email },
+				options
+			);
+		},
+		onSuccess: (_, { change }) => {
+			invalidate();
+			toast.success(`Work order ${WORK_ORDER_STATUS_LABEL[change.to]}`);
+			setStatusChange(null);
+		},
+		onError: (err) => toast.error(getErrorMessage(err))
+	});
+
+	const completeMutation = useMutation({
+		mutationFn: async ({
+			order,
+			data
+		}: {
+			order: WorkOrder;
+			data: MaintenanceRecordInput;
+		}) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			await completeWorkOrder(order.id, data, {
+				uid: user.uid,
+				email: user.email
+			});
+		},
+		onSuccess: () => {
+			invalidate();
+			toast.success('Work order completed and maintenance logged');
+			setCompleting(null);
+		},
+		onError: (err) => toast.error(getErrorMessage(err))
+	});
+
+	const isMutating =
+		createMutation.isPending ||
+		statusMutation.isPending ||
+		completeMutation.isPending;
+
+	function handleTransition(order: WorkOrder, to: WorkOrderStatus) {
+		if (to === 'completed') {
+			setCompleting(order);
+			return;
+		}
+		setStatusChange({ order, to });
+	}
+
+	return (
+		<div className='space-y-3'>
+			<div className='flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between'>
+				<Select
+					value={statusFilter}
+					onValueChange={(v) => setStatusFilter(v as StatusFilter)}
+				>
+					<SelectTrigger className='w-[180px]'>
+						<SelectValue placeholder='Status' />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value='active'>Active</SelectItem>
+						<SelectItem value='all'>All</SelectItem>
+						{Object.entries(WORK_ORDER_STATUS_LABEL).map(([value, label]) => (
+							<SelectItem
+								key={value}
+								value={value}
+							>
+								{label}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+
+				<Button
+					size='sm'
+					disabled={isBlocked || isArchived || isMutating}
+					onClick={() => setShowCreate(true)}
+				>
+					<Plus className='h-4 w-4 mr-2' />
+					New work order
+				</Button>
+			</div>
+
+			{isLoading ? (
+				<div className='space-y-2'>
+					<Skeleton className='h-12 w-full' />
+					<Skeleton className='h-12 w-full' />
+					<Skeleton className='h-12 w-2/3' />
+				</div>
+			) : isError ? (
+				<p className='text-sm text-muted-foreground'>
+					Unable to load work orders.
+				</p>
+			) : rows.length === 0 ? (
+				<div className='rounded-md border border-dashed p-6'>
+					<p className='text-sm font-medium'>No work orders</p>
+					<p className='text-xs text-muted-foreground mt-1'>
+						Preventive orders are generated when an asset&apos;s next service
+						comes within 30 days.
+					</p>
+				</div>
+			) : (
+				<div className='space-y-2'>
+					{rows.map((w) => {
+						const isOverdue =
+							ACTIVE_WORK_ORDER_STATUSES.includes(w.status) &&
+							w.dueDate < today;
+						const transitions = WORK_ORDER_TRANSITIONS[w.status];
+
+						return (
+							<div
+								key={w.id}
+								className='flex items-start justify-between gap-3 rounded-md border px-3 py-2'
+							>
+								<div className='min-w-0 space-y-1'>
+									<div className='flex flex-wrap items-center gap-2'>
+										<p className='text-sm font-medium truncate'>{w.title}</p>
+										<Badge variant={workOrderStatusVariant(w.status)}>
+											{WORK_ORDER_STATUS_LABEL[w.status]}
+										</Badge>
+										<Badge variant={workOrderPriorityVariant(w.priority)}>
+											{WORK_ORDER_PRIORITY_LABEL[w.priority]}
+										</Badge>
+										{w.source === 'auto' && (
+											<Badge variant='outline'>Auto</Badge>
+										)}
+									</div>
+
+									<p className='text-xs text-muted-foreground truncate'>
+										{!equipmentId && (
+											<>
+												<Link
+													href={`/equipments/${w.equipmentId}`}
+													className='underline-offset-2 hover:underline'
+												>
+													{w.equipmentName}
+												</Link>
+												{' • '}
+											</>
+										)}
+										<span
+											className={
+												isOverdue ? 'text-destructive font-medium' : ''
+											}
+										>
+											Due {w.dueDate}
+											{isOverdue ? ' (overdue)' : ''}
+										</span>
+										{w.scheduledDate ? ` • Scheduled ${w.scheduledDate}` : ''}
+										{' • '}
+										{w.assignee || 'Unassigned'}
+									</p>
+
+									{w.statusReason && (
+										<p className='text-xs text-muted-foreground'>
+											Reason: {w.statusReason}
+										</p>
+									)}
+								</div>
+
+								{transitions.length > 0 && (
+									<DropdownMenu>
+										<DropdownMenuTrigger asChild>
+											<Button
+												variant='ghost'
+												size='icon'
+												disabled={isBlocked || isMutating}
+											>
+												<MoreHorizontal className='h-4 w-4' />
+											</Button>
+										</DropdownMenuTrigger>
+
+										<DropdownMenuContent align='end'>
+											{transitions.map((to) => (
+												<DropdownMenuItem
+													key={to}
+													onClick={() => handleTransition(w, to)}
+												>
+													{WORK_ORDER_ACTION_LABEL[to]}
+												</DropdownMenuItem>
+											))}
+										</DropdownMenuContent>
+									</DropdownMenu>
+								)}
+							</div>
+						);
+					})}
+				</div>
+			)}
+
+			<WorkOrderDialog
+				open={showCreate}
+				equipmentId={equipmentId}
+				isSaving={createMutation.isPending}
+				onSubmit={(input) => createMutation.mutate(input)}
+				onOpenChange={(open) => {
+					if (!createMutation.isPending) setShowCreate(open);
+				}}
+			/>
+
+			<WorkOrderStatusDialog
+				change={statusChange}
+				isSaving={statusMutation.isPending}
+				onConfirm={(options) => {
+					if (statusChange) {
+						statusMutation.mutate({ change: statusChange, options });
+					}
+				}}
+				onOpenChange={(open) => {
+					if (!open && !statusMutation.isPending) setStatusChange(null);
+				}}
+			/>
+
+			<CompleteWorkOrderDialog
+				order={completing}
+				isSaving={completeMutation.isPending}
+				onSubmit={(data) => {
+					if (completing) completeMutation.mutate({ order: completing, data });
+				}}
+				onOpenChange={(open) => {
+					if (!open && !completeMutation.isPending) setCompleting(null);
+				}}
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,26 @@
+import { getStatusDefinition } from '@/lib/equipment-status';
+import type { Equipment } from '@/types/equipment';
+
+import { Badge } from '@/components/ui/badge';
+
+// colors come from the status config, so they can't be Tailwind classes
+export default function StatusBadge({
+	status
+}: {
+	status: Equipment['status'];
+}) {
+	const { label, color } = getStatusDefinition(status);
+
+	return (
+		<Badge
+			variant='outline'
+			style={{
+				color,
+				backgroundColor: `${color}1a`,
+				borderColor: `${color}40`
+			}}
+		>
+			{label}
+		</Badge>
+	);
+}
@@ -0,0 +1,41 @@
+import type { WorkOrderPriority, WorkOrderStatus } from '@/types/work-orders';
+
+export const WORK_ORDER_STATUS_LABEL: Record<WorkOrderStatus, string> = {
+	open: 'Open',
+	scheduled: 'Scheduled',
+	in_progress: 'In progress',
+	on_hold: 'On hold',
+	completed: 'Completed',
+	cancelled: 'Cancelled'
+};
+
+// label of the action that moves a work order *into* the status
+export const WORK_ORDER_ACTION_LABEL: Record<WorkOrderStatus, string> = {
+	open: 'Reopen',
+	scheduled: 'Schedule',
+	in_progress: 'Start work',
+	on_hold: 'Put on hold',
+	completed: 'Complete',
+	cancelled: 'Cancel'
+};
+
+export const WORK_ORDER_PRIORITY_LABEL: Record<WorkOrderPriority, string> = {
+	low: 'Low',
+	medium: 'Medium',
+	high: 'High',
+	urgent: 'Urgent'
+};
+
+export function workOrderStatusVariant(status: WorkOrderStatus) {
+	if (status === 'completed') return 'secondary' as const;
+	if (status === 'cancelled') return 'outline' as const;
+	if (status === 'on_hold') return 'outline' as const;
+	return 'default' as const;
+}
+
+export function workOrderPriorityVariant(priority: WorkOrderPriority) {
+	if (priority === 'urgent' || priority === 'high') {
+		return 'destructive' as const;
+	}
+	return 'outline' as const;
+}
@@ -0,0 +1,18 @@
+import PageHeader from '@/components/core/headers/page-header';
+import EquipmentsImportSection from '../_components/sections/import-section';
+
+const EquipmentsImportPage = () => {
+	return (
+		<section>
+			<PageHeader
+				pageTitle='Import assets'
+				pageDescription='Create or update assets from a CSV or XLSX file'
+			/>
+			<div className='p-4'>
+				<EquipmentsImportSection />
+			</div>
+		</section>
+	);
+};
+
+export default EquipmentsImportPage;
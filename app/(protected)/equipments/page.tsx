@@ -1,5 +1,10 @@
+import { Suspense } from 'react';
+
 import PageHeader from '@/components/core/headers/page-header';
 import EquipmentsTableSection from './_components/sections/table-section';
+import EquipmentsTreeSection from './_components/sections/tree-section';
+
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 const EquipmentsPage = () => {
 	return (
@@ -9,7 +14,21 @@ const EquipmentsPage = () => {
 				pageDescription='Manage equipments'
 			/>
 			<div className='p-4'>
-				<EquipmentsTableSection />
+				<Tabs defaultValue='table'>
+					<TabsList className='mb-4'>
+						<TabsTrigger value='table'>Table</TabsTrigger>
+						<TabsTrigger value='tree'>Tree</TabsTrigger>
+					</TabsList>
+					<TabsContent value='table'>
+						{/* a tabela lê o estado da URL (useSearchParams) */}
+						<Suspense>
+							<EquipmentsTableSection />
+						</Suspense>
+					</TabsContent>
+					<TabsContent value='tree'>
+						<EquipmentsTreeSection />
+					</TabsContent>
+				</Tabs>
 			</div>
 		</section>
 	);
@@ -8,6 +8,7 @@ import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
 import EquipmentDashboardQueryClientProvider from '@/components/providers/query-provider';
 import { useAuth } from '@/context/auth-context';
 import { CommandPalette } from '@/components/core/overlays/command-palette';
+import WorkOrderAutomation from '@/components/providers/work-order-automation';
 
 export default function PrivateLayout({
 	children
@@ -44,6 +45,7 @@ export default function PrivateLayout({
 	return (
 		<SidebarProvider>
 			<EquipmentDashboardQueryClientProvider>
+				<WorkOrderAutomation />
 				<AppSidebar />
 				<SidebarInset>
 					<CommandPalette />
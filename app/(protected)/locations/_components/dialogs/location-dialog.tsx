@@ -0,0 +1,299 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import {
+	LOCATION_KIND_LABEL,
+	LOCATION_PARENT_KIND,
+	isValidTimeZone
+} from '@/lib/locations';
+import type { Location, LocationInput } from '@/types/locations';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage
+} from '@/components/ui/form';
+
+const schema = z
+	.object({
+		name: z.string().trim().min(1, 'Name is required'),
+		kind: z.enum(['site', 'building', 'area']),
+		parentId: z.string().optional(),
+		address: z.string().optional(),
+		timezone: z.string().optional()
+	})
+	.refine((v) => LOCATION_PARENT_KIND[v.kind] === null || Boolean(v.parentId), {
+		path: ['parentId'],
+		message: 'Pick where this location is'
+	})
+	.refine((v) => !v.timezone?.trim() || isValidTimeZone(v.timezone.trim()), {
+		path: ['timezone'],
+		message: 'Use an IANA timezone, e.g. America/New_York'
+	});
+
+type FormValues = z.input<typeof schema>;
+
+function defaultValues(location?: Location): FormValues {
+	return {
+		name: location?.name ?? '',
+		kind: location?.kind ?? 'site',
+		parentId: location?.parentId ?? '',
+		address: location?.address ?? '',
+		timezone: location?.timezone ?? ''
+	};
+}
+
+export default function LocationDialog({
+	open,
+	location,
+	locations,
+	isSaving,
+	onSubmit,
+	onOpenChange
+}: {
+	open: boolean;
+	// undefined = nova
+	location?: Location;
+	locations: Location[];
+	isSaving?: boolean;
+	onSubmit: (input: LocationInput) => void;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const form = useForm<FormValues>({
+		resolver: zodResolver(schema),
+		defaultValues: defaultValues(location),
+		mode: 'onSubmit'
+	});
+
+	useEffect(() => {
+		if (open) form.reset(defaultValues(location));
+	}, [open, location, form]);
+
+	const kind = form.watch('kind');
+	const parentKind = LOCATION_PARENT_KIND[kind];
+
+	const parentOptions = useMemo(
+		() =>
+			parentKind === null
+				? []
+				: locations.filter(
+						(l) => l.kind === parentKind && l.id !== location?.id
+					),
+		[locations, parentKind, location?.id]
+	);
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={onOpenChange}
+		>
+			<DialogContent className='max-w-xl'>
+				<DialogHeader>
+					<DialogTitle>
+						{location ? 'Edit location' : 'New location'}
+					</DialogTitle>
+					<DialogDescription>
+						Sites hold buildings and buildings hold areas. Renaming updates the
+						assets linked to it.
+					</DialogDescription>
+				</DialogHeader>
+
+				<Form {...form}>
+					<form
+						onSubmit={form.handleSubmit((v) => {
+							const parsed = schema.parse(v);
+							onSubmit({
+								name: parsed.name,
+								kind: parsed.kind,
+								parentId:
+									LOCATION_PARENT_KIND[parsed.kind] === null
+										? undefined
+										: parsed.parentId || undefined,
+								address: parsed.address?.trim() || undefined,
+								timezone: parsed.timezone?.trim() || undefined
+							});
+						})}
+						className='space-y-4'
+					>
+						<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+							<FormField
+								control={form.control}
+								name='kind'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Kind</FormLabel>
+										<Select
+											disabled={isSaving}
+											value={field.value}
+											onValueChange={(v) => {
+												field.onChange(v);
+												form.setValue('parentId', '');
+											}}
+										>
+											<FormControl>
+												<SelectTrigger>
+													<SelectValue placeholder='Select kind' />
+												</SelectTrigger>
+											</FormControl>
+											<SelectContent>
+												{Object.entries(LOCATION_KIND_LABEL).map(
+													([value, label]) => (
+														<SelectItem
+															key={value}
+															value={value}
+														>
+															{label}
+														</SelectItem>
+													)
+												)}
+											</SelectContent>
+										</Select>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name='name'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Name</FormLabel>
+										<FormControl>
+											<Input
+												disabled={isSaving}
+												placeholder='e.g. Tampa DC'
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+
+						{parentKind !== null && (
+							<FormField
+								control={form.control}
+								name='parentId'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>{LOCATION_KIND_LABEL[parentKind]}</FormLabel>
+										<Select
+											disabled={isSaving}
+											value={field.value || undefined}
+											onValueChange={field.onChange}
+										>
+											<FormControl>
+												<SelectTrigger>
+													<SelectValue
+														placeholder={`Select ${LOCATION_KIND_LABEL[
+															parentKind
+														].toLowerCase()}`}
+													/>
+												</SelectTrigger>
+											</FormControl>
+											<SelectContent>
+												{parentOptions.map((l) => (
+													<SelectItem
+														key={l.id}
+														value={l.id}
+													>
+														{l.path}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						)}
+
+						<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+							<FormField
+								control={form.control}
+								name='address'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Address (optional)</FormLabel>
+										<FormControl>
+											<Input
+												disabled={isSaving}
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name='timezone'
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Timezone (optional)</FormLabel>
+										<FormControl>
+											<Input
+												disabled={isSaving}
+												placeholder='e.g. America/New_York'
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+
+						<DialogFooter className='gap-2'>
+							<Button
+								type='button'
+								variant='outline'
+								disabled={isSaving}
+								onClick={() => onOpenChange(false)}
+							>
+								Cancel
+							</Button>
+							<Button
+								type='submit'
+								disabled={isSaving}
+							>
+								{isSaving
+									? 'Saving...'
+									: location
+										? 'Save location'
+										: 'Create location'}
+							</Button>
+						</DialogFooter>
+					</form>
+				</Form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,23 @@
+// error codes thrown by data-access/locations
+export function getLocationErrorMessage(err: unknown) {
+	if (err instanceof Error) {
+		if (err.message === 'Not authenticated') return 'Sign in to continue.';
+		if (err.message === 'Not authorized') return 'Viewer role: read-only.';
+		if (err.message === 'LOCATION_NOT_FOUND') return 'Location not found.';
+		if (err.message === 'INVALID_PARENT') {
+			return 'Buildings belong to a site and areas to a building.';
+		}
+		if (err.message === 'INVALID_TIMEZONE') return 'Unknown timezone.';
+		if (err.message === 'LOCATION_ALREADY_EXISTS') {
+			return 'A location with this name already exists there.';
+		}
+		if (err.message === 'LOCATION_HAS_CHILDREN') {
+			return 'Archive or move the locations inside it first.';
+		}
+		if (err.message === 'LOCATION_IN_USE') {
+			return 'Active assets are still at this location.';
+		}
+		return err.message;
+	}
+	return 'Unexpected error';
+}
@@ -0,0 +1,306 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { createLocation, getLocations } from '@/data-access/locations';
+import {
+	assignEquipmentLocation,
+	getEquipmentsList
+} from '@/data-access/equipments';
+import {
+	type LocationTextGroup,
+	type LocationTextMatch,
+	groupUnlinkedLocationTexts,
+	isPossibleLocationMatch,
+	matchLocationText
+} from '@/lib/locations';
+import type { Equipment } from '@/types/equipment';
+import type { Location } from '@/types/locations';
+import { useAuth } from '@/context/auth-context';
+import { useUserRole } from '@/hooks/use-user-role';
+import { getLocationErrorMessage } from '../location-errors';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+
+// 'create' | 'skip' | `loc:<locationId>` | `group:<key>`; '' = a revisar
+type Decision = string;
+
+type ReviewRow = LocationTextGroup & {
+	match: LocationTextMatch;
+	similarGroups: LocationTextGroup[];
+};
+
+type Target = { locationId: string } | { createKey: string } | 'skip';
+
+function defaultDecision(row: ReviewRow): Decision {
+	if (row.match.kind === 'exact') return `loc:${row.match.location.id}`;
+	if (row.match.kind === 'none' && row.similarGroups.length === 0) {
+		return 'create';
+	}
+	return '';
+}
+
+// segue "same as" até um local; null = sem decisão ou ciclo
+function resolveTarget(
+	key: string,
+	decisions: Record<string, Decision>,
+	seen: string[] = []
+): Target | null {
+	const decision = decisions[key] ?? '';
+	if (decision === 'skip') return 'skip';
+	if (decision === 'create') return { createKey: key };
+	if (decision.startsWith('loc:')) return { locationId: decision.slice(4) };
+	if (decision.startsWith('group:')) {
+		const next = decision.slice(6);
+		if (seen.includes(next)) return null;
+		return resolveTarget(next, decisions, [...seen, key]);
+	}
+	return null;
+}
+
+/**
+ * Links assets that still hold a free-text location to location records.
+ * Same text (ignoring case and punctuation) is one group; groups that only
+ * look alike are never merged without the admin picking it.
+ */
+export default function LocationMigrationSection() {
+	const queryClient = useQueryClient();
+	const { user } = useAuth();
+	const { isAdmin, isLoading: roleLoading } = useUserRole();
+
+	const { data: assets = [], isLoading: assetsLoading } = useQuery<Equipment[]>(
+		{
+			queryKey: ['equipments', 'list', 'location-migration'],
+			queryFn: () => getEquipmentsList({ includeArchived: true }),
+			enabled: isAdmin
+		}
+	);
+
+	const { data: locations = [], isLoading: locationsLoading } = useQuery<
+		Location[]
+	>({
+		queryKey: ['locations'],
+		queryFn: () => getLocations()
+	});
+
+	const rows = useMemo<ReviewRow[]>(() => {
+		const groups = groupUnlinkedLocationTexts(assets);
+		return groups.map((group) => ({
+			...group,
+			match: matchLocationText(group.label, locations),
+			similarGroups: groups.filter(
+				(g) => g.key !== group.key && isPossibleLocationMatch(g.key, group.key)
+			)
+		}));
+	}, [assets, locations]);
+
+	const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+
+	useEffect(() => {
+		setDecisions(
+			Object.fromEntries(rows.map((row) => [row.key, defaultDecision(row)]))
+		);
+	}, [rows]);
+
+	const unresolved = rows.filter(
+		(row) => resolveTarget(row.key, decisions) === null
+	);
+
+	const applyMutation = useMutation({
+		mutationFn: async () => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			const actor = { uid: user.uid, email: user.email };
+			const byId = new Map(locations.map((l) => [l.id, l]));
+			const created = new Map<string, Location>();
+
+			let linked = 0;
+			let failed = 0;
+
+			for (const row of rows) {
+				const target = resolveTarget(row.key, decisions);
+				if (!target || target === 'skip') continue;
+
+				let location: Location | undefined;
+				if ('locationId' in target) {
+					location = byId.get(target.locationId);
+				} else {
+					location = created.get(target.createKey);
+					if (!location) {
+						const source = rows.find((r) => r.key === target.createKey);
+						location = await createLocation(
+							{ name: source?.label ?? row.label, kind: 'site' },
+							actor
+						);
+						created.set(target.createKey, location);
+					}
+				}
+				if (!location) continue;
+
+				for (const equipmentId of row.equipmentIds) {
+					try {
+						await assignEquipmentLocation(equipmentId, location, actor);
+						linked += 1;
+					} catch {
+						failed += 1;
+					}
+				}
+			}
+
+			return { linked, failed, created: created.size };
+		},
+		onSuccess: ({ linked, failed, created }) => {
+			queryClient.invalidateQueries({ queryKey: ['locations'] });
+			queryClient.invalidateQueries({ queryKey: ['equipments'] });
+
+			const summary = `Linked ${linked} asset${linked === 1 ? '' : 's'}${
+				created ? `, created ${created} site${created === 1 ? '' : 's'}` : ''
+			}`;
+			if (failed > 0) toast.warning(`${summary}. ${failed} failed.`);
+			else toast.success(summary);
+		},
+		onError: (err) => toast.error(getLocationErrorMessage(err))
+	});
+
+	if (roleLoading || !isAdmin) return null;
+
+	const heading = (
+		<h2 className='text-sm font-semibold'>Free-text locations</h2>
+	);
+
+	if (assetsLoading || locationsLoading) {
+		return (
+			<div className='space-y-3'>
+				{heading}
+				<Skeleton className='h-24 w-full' />
+			</div>
+		);
+	}
+
+	if (rows.length === 0) {
+		return (
+			<div className='space-y-3'>
+				{heading}
+				<p className='text-sm text-muted-foreground'>
+					Every asset with a location is linked to a location record.
+				</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className='space-y-3'>
+			{heading}
+			<p className='text-sm text-muted-foreground'>
+				{rows.length} free-text location{rows.length === 1 ? '' : 's'} not
+				linked yet. Exact matches are pre-selected; similar spellings need a
+				decision.
+			</p>
+
+			<div className='rounded-md border divide-y'>
+				{rows.map((row) => {
+					const decision = decisions[row.key] ?? '';
+					const candidates =
+						row.match.kind === 'ambiguous' ? row.match.candidates : [];
+
+					return (
+						<div
+							key={row.key}
+							className='flex flex-col gap-2 px-3 py-2 sm:flex-row sm:items-center sm:justify-between'
+						>
+							<div className='min-w-0'>
+								<div className='flex items-center gap-2'>
+									<p className='text-sm font-medium truncate'>{row.label}</p>
+									<Badge variant='secondary'>
+										{row.equipmentIds.length} assets
+									</Badge>
+									{row.match.kind === 'exact' ? (
+										<Badge variant='outline'>Matched</Badge>
+									) : row.match.kind === 'ambiguous' ||
+									  row.similarGroups.length > 0 ? (
+										<Badge variant='destructive'>Review</Badge>
+									) : (
+										<Badge variant='outline'>New</Badge>
+									)}
+								</div>
+								<p className='text-xs text-muted-foreground truncate'>
+									{row.variants.length > 1
+										? `Also written: ${row.variants.slice(1).join(', ')}`
+										: row.similarGroups.length > 0
+											? `Looks like: ${row.similarGroups
+													.map((g) => g.label)
+													.join(', ')}`
+											: ' '}
+								</p>
+							</div>
+
+							<Select
+								disabled={applyMutation.isPending}
+								value={decision || undefined}
+								onValueChange={(v) =>
+									setDecisions((prev) => ({ ...prev, [row.key]: v }))
+								}
+							>
+								<SelectTrigger className='w-full sm:w-[280px]'>
+									<SelectValue placeholder='Choose…' />
+								</SelectTrigger>
+								<SelectContent>
+									{/* candidatos primeiro, depois o resto */}
+									{[
+										...candidates,
+										...locations.filter((l) => !candidates.includes(l))
+									].map((l) => (
+										<SelectItem
+											key={l.id}
+											value={`loc:${l.id}`}
+										>
+											{l.path}
+										</SelectItem>
+									))}
+									{row.similarGroups.map((g) => (
+										<SelectItem
+											key={g.key}
+											value={`group:${g.key}`}
+										>
+											Same place as “{g.label}”
+										</SelectItem>
+									))}
+									<SelectItem value='create'>New site “{row.label}”</SelectItem>
+									<SelectItem value='skip'>Skip for now</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+					);
+				})}
+			</div>
+
+			<div className='flex items-center justify-end gap-3'>
+				{unresolved.length > 0 && (
+					<p className='text-xs text-muted-foreground'>
+						{unresolved.length} group{unresolved.length === 1 ? '' : 's'} need a
+						decision
+					</p>
+				)}
+				<Button
+					size='sm'
+					disabled={unresolved.length > 0 || applyMutation.isPending}
+					onClick={() => applyMutation.mutate()}
+				>
+					{applyMutation.isPending ? 'Linking...' : 'Link assets'}
+				</Button>
+			</div>
+		</div>
+	);
+}
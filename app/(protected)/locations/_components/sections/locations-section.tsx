@@ -0,0 +1,274 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { MoreHorizontal, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+import {
+	archiveLocation,
+	createLocation,
+	getLocations,
+	updateLocation
+} from '@/data-access/locations';
+import { getEquipmentsList } from '@/data-access/equipments';
+import { LOCATION_KIND_LABEL } from '@/lib/locations';
+import type { Equipment } from '@/types/equipment';
+import type { Location, LocationInput, LocationKind } from '@/types/locations';
+import { useAuth } from '@/context/auth-context';
+import { useUserRole } from '@/hooks/use-user-role';
+import LocationDialog from '../dialogs/location-dialog';
+import { getLocationErrorMessage } from '../location-errors';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+
+const KIND_INDENT: Record<LocationKind, string> = {
+	site: '',
+	building: 'pl-6',
+	area: 'pl-12'
+};
+
+export default function LocationsSection() {
+	const queryClient = useQueryClient();
+	const { user, loading } = useAuth();
+	const { isAdmin, isLoading: roleLoading } = useUserRole();
+
+	const isBlocked = loading || !user || roleLoading || !isAdmin;
+
+	// undefined = fechado, null = nova
+	const [editing, setEditing] = useState<Location | null | undefined>();
+	const [archiving, setArchiving] = useState<Location | null>(null);
+
+	const {
+		data: locations = [],
+		isLoading,
+		isError
+	} = useQuery<Location[]>({
+		queryKey: ['locations'],
+		queryFn: () => getLocations()
+	});
+
+	const { data: assets = [] } = useQuery<Equipment[]>({
+		queryKey: ['equipments', 'list', 'locations'],
+		queryFn: () => getEquipmentsList(),
+		staleTime: 60_000
+	});
+
+	// ativos por local, somando os locais abaixo
+	const assetCounts = useMemo(() => {
+		const direct = new Map<string, number>();
+		for (const asset of assets) {
+			if (!asset.locationId) continue;
+			direct.set(asset.locationId, (direct.get(asset.locationId) ?? 0) + 1);
+		}
+
+		const counts = new Map<string, number>();
+		const byId = new Map(locations.map((l) => [l.id, l]));
+		for (const location of locations) {
+			const n = direct.get(location.id) ?? 0;
+			let current: Location | undefined = location;
+			while (current) {
+				counts.set(current.id, (counts.get(current.id) ?? 0) + n);
+				current = current.parentId ? byId.get(current.parentId) : undefined;
+			}
+		}
+		return counts;
+	}, [assets, locations]);
+
+	function invalidate() {
+		queryClient.invalidateQueries({ queryKey: ['locations'] });
+		queryClient.invalidateQueries({ queryKey: ['equipments'] });
+	}
+
+	const saveMutation = useMutation({
+		mutationFn: async ({
+			id,
+			input
+		}: {
+			id?: string;
+			input: LocationInput;
+		}) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			const actor = { uid: user.uid, email: user.email };
+			if (id) await updateLocation(id, input, actor);
+			else await createLocation(input, actor);
+		},
+		onSuccess: (_, { id }) => {
+			invalidate();
+			toast.success(id ? 'Location updated' : 'Location created');
+			setEditing(undefined);
+		},
+		onError: (err) => toast.error(getLocationErrorMessage(err))
+	});
+
+	const archiveMutation = useMutation({
+		mutationFn: async (location: Location) => {
+			if (!user) throw new Error('Not authenticated');
+			if (!isAdmin) throw new Error('Not authorized');
+
+			await archiveLocation(location.id, { uid: user.uid, email: user.email });
+		},
+		onSuccess: () => {
+			invalidate();
+			toast.success('Location archived');
+			setArchiving(null);
+		},
+		onError: (err) => toast.error(getLocationErrorMessage(err))
+	});
+
+	return (
+		<div className='space-y-3'>
+			<div className='flex items-center justify-between gap-2'>
+				<p className='text-sm text-muted-foreground'>
+					{locations.length} location{locations.length === 1 ? '' : 's'}
+				</p>
+				{!isBlocked && (
+					<Button
+						size='sm'
+						onClick={() => setEditing(null)}
+					>
+						<Plus className='mr-2 h-4 w-4' />
+						New location
+					</Button>
+				)}
+			</div>
+
+			{isLoading ? (
+				<div className='space-y-2'>
+					<Skeleton className='h-12 w-full' />
+					<Skeleton className='h-12 w-full' />
+					<Skeleton className='h-12 w-2/3' />
+				</div>
+			) : isError ? (
+				<p className='text-sm text-muted-foreground'>
+					Unable to load locations.
+				</p>
+			) : locations.length === 0 ? (
+				<div className='rounded-md border border-dashed p-6'>
+					<p className='text-sm font-medium'>No locations yet</p>
+					<p className='text-xs text-muted-foreground mt-1'>
+						Create a site, then the buildings and areas inside it.
+					</p>
+				</div>
+			) : (
+				<div className='rounded-md border divide-y'>
+					{/* ordenado por path: cada local vem logo depois do pai */}
+					{locations.map((location) => (
+						<div
+							key={location.id}
+							className='flex items-center justify-between gap-3 px-3 py-2'
+						>
+							<div className={`min-w-0 ${KIND_INDENT[location.kind]}`}>
+								<div className='flex items-center gap-2'>
+									<p className='text-sm font-medium truncate'>
+										{location.name}
+									</p>
+									<Badge variant='outline'>
+										{LOCATION_KIND_LABEL[location.kind]}
+									</Badge>
+								</div>
+								<p className='text-xs text-muted-foreground truncate'>
+									{[location.address, location.timezone]
+										.filter(Boolean)
+										.join(' • ') || '—'}
+								</p>
+							</div>
+
+							<div className='flex items-center gap-2'>
+								<Badge variant='secondary'>
+									{assetCounts.get(location.id) ?? 0} assets
+								</Badge>
+								{!isBlocked && (
+									<DropdownMenu>
+										<DropdownMenuTrigger asChild>
+											<Button
+												variant='ghost'
+												size='icon'
+												aria-label='Location actions'
+											>
+												<MoreHorizontal className='h-4 w-4' />
+											</Button>
+										</DropdownMenuTrigger>
+										<DropdownMenuContent align='end'>
+											<DropdownMenuItem onClick={() => setEditing(location)}>
+												Edit
+											</DropdownMenuItem>
+											<DropdownMenuItem
+												className='text-destructive'
+												onClick={() => setArchiving(location)}
+											>
+												Archive
+											</DropdownMenuItem>
+										</DropdownMenuContent>
+									</DropdownMenu>
+								)}
+							</div>
+						</div>
+					))}
+				</div>
+			)}
+
+			<LocationDialog
+				open={editing !== undefined}
+				location={editing ?? undefined}
+				locations={locations}
+				isSaving={saveMutation.isPending}
+				onSubmit={(input) => saveMutation.mutate({ id: editing?.id, input })}
+				onOpenChange={(open) => {
+					if (!open && !saveMutation.isPending) setEditing(undefined);
+				}}
+			/>
+
+			<AlertDialog
+				open={archiving !== null}
+				onOpenChange={(open) => {
+					if (!open && !archiveMutation.isPending) setArchiving(null);
+				}}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Archive {archiving?.name}?</AlertDialogTitle>
+						<AlertDialogDescription>
+							It no longer shows up in the location picker. Assets keep their
+							history.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel disabled={archiveMutation.isPending}>
+							Cancel
+						</AlertDialogCancel>
+						<AlertDialogAction
+							disabled={archiveMutation.isPending}
+							onClick={(e) => {
+								e.preventDefault();
+								if (archiving) archiveMutation.mutate(archiving);
+							}}
+						>
+							{archiveMutation.isPending ? 'Archiving...' : 'Archive'}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</div>
+	);
+}
@@ -0,0 +1,20 @@
+import PageHeader from '@/components/core/headers/page-header';
+import LocationsSection from './_components/sections/locations-section';
+import LocationMigrationSection from './_components/sections/location-migration-section';
+
+const LocationsPage = () => {
+	return (
+		<section>
+			<PageHeader
+				pageTitle='Locations'
+				pageDescription='Sites, buildings and areas where assets are kept'
+			/>
+			<div className='p-4 space-y-8'>
+				<LocationsSection />
+				<LocationMigrationSection />
+			</div>
+		</section>
+	);
+};
+
+export default LocationsPage;
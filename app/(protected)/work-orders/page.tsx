@@ -0,0 +1,18 @@
+import PageHeader from '@/components/core/headers/page-header';
+import WorkOrdersSection from '../equipments/_components/sections/work-orders-section';
+
+const WorkOrdersPage = () => {
+	return (
+		<section>
+			<PageHeader
+				pageTitle='Work Orders'
+				pageDescription='Plan, track and complete maintenance work'
+			/>
+			<div className='p-4'>
+				<WorkOrdersSection />
+			</div>
+		</section>
+	);
+};
+
+export default WorkOrdersPage;
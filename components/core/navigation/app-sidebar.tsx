@@ -1,7 +1,14 @@
 'use client';
 
 import * as React from 'react';
-import { LayoutDashboard, Wrench, LineChart } from 'lucide-react';
+import {
+	ClipboardList,
+	LayoutDashboard,
+	LineChart,
+	MapPin,
+	Shapes,
+	Wrench
+} from 'lucide-react';
 import { useAuth } from '@/context/auth-context';
 import { useUserRole } from '@/hooks/use-user-role';
 import { Badge } from '@/components/ui/badge';
@@ -35,6 +42,21 @@ const data = {
 			url: '/equipments',
 			icon: Wrench
 		},
+		{
+			title: 'Work Orders',
+			url: '/work-orders',
+			icon: ClipboardList
+		},
+		{
+			title: 'Locations',
+			url: '/locations',
+			icon: MapPin
+		},
+		{
+			title: 'Categories',
+			url: '/categories',
+			icon: Shapes
+		},
 		{
 			title: 'Analytics',
 			url: '/analytics',
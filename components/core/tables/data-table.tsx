@@ -4,7 +4,13 @@ import { useEffect, useMemo, useState } from 'react';
 import {
 	ColumnDef,
 	ColumnFiltersState,
+	ColumnOrderState,
+	ColumnSizingState,
+	PaginationState,
+	RowData,
+	RowSelectionState,
 	SortingState,
+	VisibilityState,
 	flexRender,
 	getCoreRowModel,
 	getFilteredRowModel,
@@ -12,7 +18,13 @@ import {
 	getSortedRowModel,
 	useReactTable
 } from '@tanstack/react-table';
-import { ChevronDown, ChevronUp, ChevronsUpDown } from 'lucide-react';
+import {
+	ChevronDown,
+	ChevronUp,
+	ChevronsUpDown,
+	Columns3,
+	GripVertical
+} from 'lucide-react';
 
 import {
 	Table,
@@ -23,8 +35,57 @@ import {
 	TableRow
 } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
+import {
+	DropdownMenu,
+	DropdownMenuCheckboxItem,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+
+declare module '@tanstack/react-table' {
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	interface ColumnMeta<TData extends RowData, TValue> {
+		// nome no menu de colunas (default: header em texto ou id)
+		label?: string;
+		// coluna opcional: começa oculta
+		defaultHidden?: boolean;
+		// não sai do lugar (seleção, ações)
+		fixed?: boolean;
+	}
+}
 
-type PageSizeOption = 10 | 20 | 50 | 100;
+export type PageSizeOption = 10 | 20 | 50 | 100;
+
+/**
+ * Colunas visíveis e ordem. Guarda só o que difere do padrão:
+ * visibility vazio = padrão das colunas (meta.defaultHidden),
+ * order vazio = ordem da definição.
+ */
+export interface DataTableColumnState {
+	visibility: VisibilityState;
+	order: ColumnOrderState;
+}
+
+const DEFAULT_COLUMN_STATE: DataTableColumnState = {
+	visibility: {},
+	order: []
+};
+
+/**
+ * Paginação feita no servidor (cursor):
+ * a tabela renderiza só a página recebida e delega a navegação para fora.
+ */
+export interface ServerPagination {
+	pageIndex: number;
+	pageSize: PageSizeOption;
+	total: number;
+	hasNextPage: boolean;
+	onNextPage: () => void;
+	onPreviousPage: () => void;
+	onPageSizeChange: (pageSize: PageSizeOption) => void;
+}
 
 interface DataTableProps<TData, TValue> {
 	columns: ColumnDef<TData, TValue>[];
@@ -44,6 +105,42 @@ interface DataTableProps<TData, TValue> {
 	 * Default page size (se não tiver persistência)
 	 */
 	defaultPageSize?: PageSizeOption;
+
+	/**
+	 * Se informado, desliga paginação/sort/filtro locais
+	 * (os dados já chegam paginados e ordenados do servidor)
+	 */
+	serverPagination?: ServerPagination;
+
+	/**
+	 * Seleção de linhas controlada por fora (ações em massa).
+	 * Use com getRowId para a seleção sobreviver à troca de página.
+	 */
+	rowSelection?: RowSelectionState;
+	onRowSelectionChange?: (selection: RowSelectionState) => void;
+	getRowId?: (row: TData) => string;
+
+	/**
+	 * Menu "Columns" (mostrar/ocultar, reset) + arrastar e redimensionar
+	 * cabeçalhos. Preferências persistidas com persistKey.
+	 */
+	enableColumnControls?: boolean;
+
+	/**
+	 * Colunas controladas por fora (ex: saved views na URL); sem isso a
+	 * tabela guarda o próprio estado. Larguras ficam sempre aqui dentro.
+	 */
+	columnState?: DataTableColumnState;
+	onColumnStateChange?: (state: DataTableColumnState) => void;
+
+	/**
+	 * Sort e página locais controlados por fora (ex: estado na URL).
+	 * Sem eles a tabela guarda o próprio estado (sort persistido via persistKey).
+	 */
+	sorting?: SortingState;
+	onSortingChange?: (sorting: SortingState) => void;
+	pageIndex?: number;
+	onPageIndexChange?: (pageIndex: number) => void;
 }
 
 function safeReadJson<T>(key: string): T | null {
@@ -64,14 +161,39 @@ function safeWriteJson(key: string, value: unknown) {
 	}
 }
 
+function getColumnId<TData, TValue>(column: ColumnDef<TData, TValue>) {
+	return (
+		column.id ?? String((column as { accessorKey?: unknown }).accessorKey ?? '')
+	);
+}
+
+function resolveUpdater<T>(updaterOrValue: T | ((old: T) => T), old: T): T {
+	return typeof updaterOrValue === 'function'
+		? (updaterOrValue as (old: T) => T)(old)
+		: updaterOrValue;
+}
+
 export function DataTable<TData, TValue>({
 	columns,
 	data,
 	columnFilters,
 	onColumnFiltersChange,
 	persistKey,
-	defaultPageSize = 10
+	defaultPageSize = 10,
+	serverPagination,
+	rowSelection,
+	onRowSelectionChange,
+	getRowId,
+	enableColumnControls,
+	columnState: controlledColumnState,
+	onColumnStateChange,
+	sorting: controlledSorting,
+	onSortingChange,
+	pageIndex: controlledPageIndex,
+	onPageIndexChange
 }: DataTableProps<TData, TValue>) {
+	const isServer = Boolean(serverPagination);
+
 	/* ---------------------------------------
 	   Sorting + Pagination state
 	---------------------------------------- */
@@ -93,8 +215,99 @@ export function DataTable<TData, TValue>({
 		return defaultPageSize;
 	}, [persistPageSizeKey, defaultPageSize]);
 
-	const [sorting, setSorting] = useState<SortingState>(initialSorting);
-	const [pageSize, setPageSize] = useState<PageSizeOption>(initialPageSize);
+	const [localSorting, setSorting] = useState<SortingState>(initialSorting);
+	const sorting = controlledSorting ?? localSorting;
+	const [localPagination, setLocalPagination] = useState<PaginationState>({
+		pageIndex: 0,
+		pageSize: initialPageSize
+	});
+
+	const pagination: PaginationState = serverPagination
+		? {
+				pageIndex: serverPagination.pageIndex,
+				pageSize: serverPagination.pageSize
+			}
+		: {
+				pageIndex: controlledPageIndex ?? localPagination.pageIndex,
+				pageSize: localPagination.pageSize
+			};
+
+	const pageSize = pagination.pageSize as PageSizeOption;
+
+	/* ---------------------------------------
+	   Columns (visibility, order, sizing)
+	---------------------------------------- */
+
+	const persistColumnsKey = persistKey ? `${persistKey}:columns` : null;
+	const persistSizingKey = persistKey ? `${persistKey}:columnSizing` : null;
+
+	const [localColumnState, setLocalColumnState] =
+		useState<DataTableColumnState>(() => {
+			const saved = persistColumnsKey
+				? safeReadJson<DataTableColumnState>(persistColumnsKey)
+				: null;
+			return saved?.visibility && Array.isArray(saved.order)
+				? saved
+				: DEFAULT_COLUMN_STATE;
+		});
+	const [columnSizing, setColumnSizing] = useState<ColumnSizingState>(
+		() =>
+			(persistSizingKey
+				? safeReadJson<ColumnSizingState>(persistSizingKey)
+				: null) ?? {}
+	);
+
+	const columnState = controlledColumnState ?? localColumnState;
+
+	function setColumnState(next: DataTableColumnState) {
+		if (onColumnStateChange) onColumnStateChange(next);
+		else setLocalColumnState(next);
+	}
+
+	const defaultVisibility = useMemo<VisibilityState>(
+		() =>
+			Object.fromEntries(
+				columns
+					.filter((c) => c.meta?.defaultHidden)
+					.map((c) => [getColumnId(c), false])
+			),
+		[columns]
+	);
+
+	const columnVisibility: VisibilityState = {
+		...defaultVisibility,
+		...columnState.visibility
+	};
+
+	function resetColumns() {
+		setColumnState(DEFAULT_COLUMN_STATE);
+		setColumnSizing({});
+	}
+
+	// arrastar um cabeçalho para cima de outro move a coluna para lá
+	const [draggingColumnId, setDraggingColumnId] = useState<string | null>(null);
+
+	function moveColumn(fromId: string, toId: string) {
+		if (fromId === toId) return;
+		const allIds = columns.map(getColumnId);
+		const current = [
+			...columnState.order.filter((id) => allIds.includes(id)),
+			...allIds.filter((id) => !columnState.order.includes(id))
+		];
+		const next = current.filter((id) => id !== fromId);
+		next.splice(current.indexOf(toId), 0, fromId);
+		setColumnState({ ...columnState, order: next });
+	}
+
+	function setPageSize(next: PageSizeOption) {
+		if (serverPagination) {
+			serverPagination.onPageSizeChange(next);
+			return;
+		}
+		// quando troca pageSize, volta para primeira página (mais previsível)
+		setLocalPagination({ pageIndex: 0, pageSize: next });
+		onPageIndexChange?.(0);
+	}
 
 	/* ---------------------------------------
 	   Table instance
@@ -110,12 +323,64 @@ export function DataTable<TData, TValue>({
 		state: {
 			columnFilters,
 			sorting,
-			pagination: {
-				pageIndex: 0, // sempre inicia no 0; TanStack gerencia o resto
-				pageSize
+			pagination,
+			rowSelection: rowSelection ?? {},
+			columnVisibility,
+			columnOrder: columnState.order,
+			columnSizing
+		},
+
+		getRowId: getRowId ? (row) => getRowId(row) : undefined,
+		enableRowSelection: Boolean(onRowSelectionChange),
+		onRowSelectionChange: onRowSelectionChange
+			? (updaterOrValue) =>
+					onRowSelectionChange(
+						typeof updaterOrValue === 'function'
+							? updaterOrValue(rowSelection ?? {})
+							: updaterOrValue
+					)
+			: undefined,
+
+		// guarda só o que difere do padrão da coluna
+		onColumnVisibilityChange: (updaterOrValue) => {
+			const next = resolveUpdater(updaterOrValue, columnVisibility);
+			setColumnState({
+				...columnState,
+				visibility: Object.fromEntries(
+					Object.entries(next).filter(
+						([id, visible]) => visible !== (defaultVisibility[id] ?? true)
+					)
+				)
+			});
+		},
+		onColumnOrderChange: (updaterOrValue) =>
+			setColumnState({
+				...columnState,
+				order: resolveUpdater(updaterOrValue, columnState.order)
+			}),
+
+		enableColumnResizing: Boolean(enableColumnControls),
+		columnResizeMode: 'onChange',
+		onColumnSizingChange: setColumnSizing,
+
+		onPaginationChange: (updaterOrValue) => {
+			const next =
+				typeof updaterOrValue === 'function'
+					? updaterOrValue(pagination)
+					: updaterOrValue;
+			if (onPageIndexChange && next.pageIndex !== pagination.pageIndex) {
+				onPageIndexChange(next.pageIndex);
 			}
+			setLocalPagination(next);
 		},
 
+		// modo servidor: dados já chegam filtrados/ordenados/paginados
+		manualPagination: isServer,
+		manualFiltering: isServer,
+		manualSorting: isServer,
+		enableSorting: !isServer,
+		rowCount: serverPagination?.total,
+
 		// filtros externos
 		onColumnFiltersChange: onColumnFiltersChange
 			? (updaterOrValue) => {
@@ -128,8 +393,15 @@ export function DataTable<TData, TValue>({
 				}
 			: undefined,
 
-		// sorting interno
-		onSortingChange: setSorting,
+		// sorting interno (ou controlado por fora)
+		onSortingChange: (updaterOrValue) => {
+			const next =
+				typeof updaterOrValue === 'function'
+					? updaterOrValue(sorting)
+					: updaterOrValue;
+			if (onSortingChange) onSortingChange(next);
+			else setSorting(next);
+		},
 
 		getCoreRowModel: getCoreRowModel(),
 		getSortedRowModel: getSortedRowModel(),
@@ -146,27 +418,32 @@ export function DataTable<TData, TValue>({
 
 	useEffect(() => {
 		if (!persistSortingKey) return;
-		safeWriteJson(persistSortingKey, sorting);
-	}, [persistSortingKey, sorting]);
+		safeWriteJson(persistSortingKey, localSorting);
+	}, [persistSortingKey, localSorting]);
 
 	useEffect(() => {
 		if (!persistPageSizeKey) return;
 		safeWriteJson(persistPageSizeKey, pageSize);
 	}, [persistPageSizeKey, pageSize]);
 
-	// quando troca pageSize, volta para primeira página (mais previsível)
 	useEffect(() => {
-		table.setPageSize(pageSize);
-		table.setPageIndex(0);
-		// eslint-disable-next-line react-hooks/exhaustive-deps
-	}, [pageSize]);
+		if (!persistColumnsKey) return;
+		safeWriteJson(persistColumnsKey, localColumnState);
+	}, [persistColumnsKey, localColumnState]);
+
+	useEffect(() => {
+		if (!persistSizingKey) return;
+		safeWriteJson(persistSizingKey, columnSizing);
+	}, [persistSizingKey, columnSizing]);
 
 	/* ---------------------------------------
 	   Helpers de UI (contagem)
 	---------------------------------------- */
 
-	const filteredCount = table.getFilteredRowModel().rows.length;
-	const pageIndex = table.getState().pagination.pageIndex;
+	const filteredCount = serverPagination
+		? serverPagination.total
+		: table.getFilteredRowModel().rows.length;
+	const pageIndex = pagination.pageIndex;
 	const currentPageRows = table.getRowModel().rows.length;
 
 	const start = filteredCount === 0 ? 0 : pageIndex * pageSize + 1;
@@ -178,6 +455,47 @@ export function DataTable<TData, TValue>({
 
 	return (
 		<div className='space-y-4'>
+			{enableColumnControls && (
+				<div className='flex justify-end'>
+					<DropdownMenu>
+						<DropdownMenuTrigger asChild>
+							<Button
+								variant='outline'
+								size='sm'
+							>
+								<Columns3 className='h-4 w-4 mr-2' />
+								Columns
+							</Button>
+						</DropdownMenuTrigger>
+						<DropdownMenuContent align='end'>
+							{table
+								.getAllLeafColumns()
+								.filter((column) => column.getCanHide())
+								.map((column) => (
+									<DropdownMenuCheckboxItem
+										key={column.id}
+										checked={column.getIsVisible()}
+										// mantém o menu aberto para marcar várias
+										onSelect={(e) => e.preventDefault()}
+										onCheckedChange={(checked) =>
+											column.toggleVisibility(checked)
+										}
+									>
+										{column.columnDef.meta?.label ??
+											(typeof column.columnDef.header === 'string'
+												? column.columnDef.header
+												: column.id)}
+									</DropdownMenuCheckboxItem>
+								))}
+							<DropdownMenuSeparator />
+							<DropdownMenuItem onClick={resetColumns}>
+								Reset columns
+							</DropdownMenuItem>
+						</DropdownMenuContent>
+					</DropdownMenu>
+				</div>
+			)}
+
 			<div className='rounded-md border'>
 				<Table>
 					<TableHeader>
@@ -186,9 +504,59 @@ export function DataTable<TData, TValue>({
 								{headerGroup.headers.map((header) => {
 									const canSort = header.column.getCanSort();
 									const sortState = header.column.getIsSorted(); // 'asc' | 'desc' | false
+									const canMove =
+										enableColumnControls &&
+										!header.column.columnDef.meta?.fixed;
+									const canResize = canMove && header.column.getCanResize();
 
 									return (
-										<TableHead key={header.id}>
+										<TableHead
+											key={header.id}
+											className={
+												enableColumnControls ? 'relative group' : undefined
+											}
+											// só colunas redimensionadas ganham largura fixa
+											style={
+												columnSizing[header.column.id]
+													? { width: header.getSize() }
+													: undefined
+											}
+											onDragOver={(e) => {
+												if (canMove && draggingColumnId) e.preventDefault();
+											}}
+											onDrop={(e) => {
+												e.preventDefault();
+												if (draggingColumnId) {
+													moveColumn(draggingColumnId, header.column.id);
+												}
+												setDraggingColumnId(null);
+											}}
+										>
+											{/* só a alça arrasta: não briga com o resize nem com o sort */}
+											{canMove && (
+												<span
+													draggable
+													aria-label='Drag to reorder'
+													onDragStart={(e) => {
+														e.dataTransfer.effectAllowed = 'move';
+														setDraggingColumnId(header.column.id);
+													}}
+													onDragEnd={() => setDraggingColumnId(null)}
+													className='absolute left-0 top-1/2 -translate-y-1/2 cursor-grab text-muted-foreground opacity-0 group-hover:opacity-100'
+												>
+													<GripVertical className='h-3.5 w-3.5' />
+												</span>
+											)}
+											{canResize && (
+												<div
+													role='separator'
+													aria-label='Resize column'
+													onMouseDown={header.getResizeHandler()}
+													onTouchStart={header.getResizeHandler()}
+													onDoubleClick={() => header.column.resetSize()}
+													className='absolute right-0 top-0 h-full w-1 cursor-col-resize select-none touch-none bg-border opacity-0 group-hover:opacity-100'
+												/>
+											)}
 											{header.isPlaceholder ? null : canSort ? (
 												<button
 													type='button'
@@ -227,7 +595,10 @@ export function DataTable<TData, TValue>({
 					<TableBody>
 						{table.getRowModel().rows.length ? (
 							table.getRowModel().rows.map((row) => (
-								<TableRow key={row.id}>
+								<TableRow
+									key={row.id}
+									data-state={row.getIsSelected() ? 'selected' : undefined}
+								>
 									{row.getVisibleCells().map((cell) => (
 										<TableCell key={cell.id}>
 											{flexRender(
@@ -241,7 +612,7 @@ export function DataTable<TData, TValue>({
 						) : (
 							<TableRow>
 								<TableCell
-									colSpan={columns.length}
+									colSpan={table.getVisibleLeafColumns().length}
 									className='h-24 text-center text-sm text-muted-foreground'
 								>
 									No results.
@@ -281,8 +652,16 @@ export function DataTable<TData, TValue>({
 					<Button
 						variant='outline'
 						size='sm'
-						onClick={() => table.previousPage()}
-						disabled={!table.getCanPreviousPage()}
+						onClick={() =>
+							serverPagination
+								? serverPagination.onPreviousPage()
+								: table.previousPage()
+						}
+						disabled={
+							serverPagination
+								? serverPagination.pageIndex === 0
+								: !table.getCanPreviousPage()
+						}
 					>
 						Previous
 					</Button>
@@ -290,8 +669,16 @@ export function DataTable<TData, TValue>({
 					<Button
 						variant='outline'
 						size='sm'
-						onClick={() => table.nextPage()}
-						disabled={!table.getCanNextPage()}
+						onClick={() =>
+							serverPagination
+								? serverPagination.onNextPage()
+								: table.nextPage()
+						}
+						disabled={
+							serverPagination
+								? !serverPagination.hasNextPage
+								: !table.getCanNextPage()
+						}
 					>
 						Next
 					</Button>
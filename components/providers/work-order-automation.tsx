@@ -0,0 +1,9 @@
+'use client';
+
+import { usePreventiveWorkOrders } from '@/hooks/use-preventive-work-orders';
+
+// precisa ficar dentro do QueryClientProvider
+export default function WorkOrderAutomation() {
+	usePreventiveWorkOrders();
+	return null;
+}
@@ -0,0 +1,163 @@
+import { db } from '@/lib/firebase';
+import { findCustomFieldSchemaError } from '@/lib/custom-fields';
+import type {
+	AssetCategory,
+	AssetCategoryInput,
+	CustomFieldDefinition
+} from '@/types/categories';
+
+import {
+	collection,
+	doc,
+	getDoc,
+	getDocs,
+	orderBy,
+	query,
+	serverTimestamp,
+	setDoc,
+	updateDoc
+} from 'firebase/firestore';
+
+const categoriesCollection = collection(db, 'categories');
+
+/* ---------------------------------------
+   Reads
+---------------------------------------- */
+
+export const getCategories = async (
+	options: { includeArchived?: boolean } = {}
+): Promise<AssetCategory[]> => {
+	const snapshot = await getDocs(
+		query(categoriesCollection, orderBy('name', 'asc'))
+	);
+
+	const categories = snapshot.docs.map((d) => ({
+		id: d.id,
+		...(d.data() as Omit<AssetCategory, 'id'>)
+	}));
+
+	return options.includeArchived
+		? categories
+		: categories.filter((c) => !c.isArchived);
+};
+
+/* ---------------------------------------
+   Writes
+---------------------------------------- */
+
+// only the rules that apply to the field's type are kept
+function cleanFieldDefinition(
+	field: CustomFieldDefinition
+): CustomFieldDefinition {
+	const clean: CustomFieldDefinition & Record<string, any> = {
+		key: field.key.trim(),
+		label: field.label.trim(),
+		type: field.type,
+		required: Boolean(field.required),
+		options:
+			field.type === 'select'
+				? Array.from(
+						new Set((field.options ?? []).map((o) => o.trim()).filter(Boolean))
+					)
+				: undefined,
+		min: field.type === 'number' ? field.min : undefined,
+		max: field.type === 'number' ? field.max : undefined,
+		maxLength: field.type === 'text' ? field.maxLength : undefined,
+		pattern:
+			field.type === 'text' ? field.pattern?.trim() || undefined : undefined
+	};
+
+	Object.keys(clean).forEach((k) => clean[k] === undefined && delete clean[k]);
+	return clean;
+}
+
+function buildCategoryFields(input: AssetCategoryInput) {
+	const fields = input.fields.map(cleanFieldDefinition);
+
+	if (findCustomFieldSchemaError(fields)) {
+		throw new Error('INVALID_FIELD_SCHEMA');
+	}
+
+	return {
+		name: input.name.trim(),
+		// '' clears
+		description: input.description?.trim() ?? '',
+		fields
+	};
+}
+
+async function assertUniqueName(name: string, id?: string) {
+	const categories = await getCategories();
+	const taken = categories.some(
+		(c) =>
+			c.id !== id && c.name.trim().toLowerCase() === name.trim().toLowerCase()
+	);
+	if (taken) throw new Error('CATEGORY_ALREADY_EXISTS');
+}
+
+export const createCategory = async (
+	input: AssetCategoryInput,
+	actor: { uid: string; email?: string | null }
+): Promise<string> => {
+	const fields = buildCategoryFields(input);
+	await assertUniqueName(fields.name);
+
+	const ref = doc(categoriesCollection); // auto-id
+	await setDoc(ref, {
+		...fields,
+		isArchived: false,
+
+		createdBy: actor.uid,
+		createdByEmail: actor.email ?? null,
+		createdAt: serverTimestamp(),
+		updatedBy: actor.uid,
+		updatedByEmail: actor.email ?? null,
+		updatedAt: serverTimestamp()
+	});
+
+	return ref.id;
+};
+
+/**
+ * Saves the category's schema. Stored asset values are left as they are;
+ * the new rules apply the next time each asset is saved.
+ */
+export const updateCategory = async (
+	id: string,
+	input: AssetCategoryInput,
+	actor: { uid: string; email?: string | null }
+): Promise<void> => {
+	const ref = doc(categoriesCollection, id);
+	const snap = await getDoc(ref);
+	if (!snap.exists()) throw new Error('CATEGORY_NOT_FOUND');
+
+	const fields = buildCategoryFields(input);
+	await assertUniqueName(fields.name, id);
+
+	await updateDoc(ref, {
+		...fields,
+		updatedBy: actor.uid,
+		updatedByEmail: actor.email ?? null,
+		updatedAt: serverTimestamp()
+	});
+};
+
+/**
+ * Archived categories disappear from the asset form; assets already in
+ * them keep the category and its values.
+ */
+export const archiveCategory = async (
+	id: string,
+	actor: { uid: string; email?: string | null }
+): Promise<void> => {
+	const ref = doc(categoriesCollection, id);
+	const snap = await getDoc(ref);
+	if (!snap.exists()) throw new Error('CATEGORY_NOT_FOUND');
+
+	await updateDoc(ref, {
+		isArchived: true,
+		updatedBy: actor.uid,
+		updatedByEmail: actor.email ?? null,
+		updatedAt: serverTimestamp()
+	});
+};
@@ -1,12 +1,74 @@
 import { db } from '@/lib/firebase';
-import type { Equipment, EquipmentInput } from '@/types/equipment';
-import type { MaintenanceRecord } from '@/types/maintenance';
+import { format } from 'date-fns';
+import {
+	LEGACY_MAINTENANCE_PLAN_ID,
+	getEarliestDuePlan,
+	normalizeMaintenancePlans,
+	resolveMaintenancePlans,
+	withStoredPlanReadings
+} from '@/lib/maintenance-plans';
+import { OPEN_STATUS_PERIOD_END_KEY } from '@/lib/downtime';
+import { buildCustomFieldsSchema } from '@/lib/custom-fields';
+import {
+	applyTagChanges,
+	normalizeTags,
+	sortTagCounts,
+	type TagCount
+} from '@/lib/tags';
+import {
+	STATUS_GUARD_ERROR,
+	canTransitionStatus,
+	findFailingStatusGuard,
+	getStatusDefinition,
+	statusHasGuard
+} from '@/lib/equipment-status';
+import {
+	mergeMeterReadings,
+	toMeterDefinitions,
+	withMeterReading
+} from '@/lib/meters';
+import type {
+	Equipment,
+	EquipmentFieldChange,
+	EquipmentInput,
+	MaintenancePlan
+} from '@/types/equipment';
+import type {
+	MaintenanceRecord,
+	MaintenanceRecordInput,
+	MaintenanceRecordWithAsset
+} from '@/types/maintenance';
 import type { EquipmentEvent } from '@/types/events';
+import type {
+	StatusChangeReason,
+	StatusPeriod,
+	StatusPeriodWithAsset
+} from '@/types/downtime';
+import type {
+	EquipmentMeter,
+	MeterReading,
+	MeterReadingInput
+} from '@/types/meters';
+import type {
+	EquipmentRevision,
+	EquipmentRevisionSnapshot
+} from '@/types/revisions';
+import type { Location } from '@/types/locations';
+import type { AssetCategory, CustomFieldValue } from '@/types/categories';
+import type {
+	EquipmentTransfer,
+	EquipmentTransferDetails,
+	EquipmentTransferInput
+} from '@/types/transfers';
+import type { MaintenanceWindowValue } from '@/types/views';
 
 import {
 	collection,
+	collectionGroup,
 	getDocs,
 	getDoc,
+	getCountFromServer,
+	onSnapshot,
 	doc,
 	addDoc,
 	updateDoc,
@@ -15,71 +77,206 @@ import {
 	orderBy,
 	limit,
 	where,
-	writeBatch,
-	type WriteBatch
+	startAfter,
+	documentId,
+	runTransaction,
+	deleteField,
+	increment,
+	Timestamp,
+	type DocumentData,
+	type DocumentReference,
+	type DocumentSnapshot,
+	type OrderByDirection,
+	type QueryConstraint,
+	type QueryDocumentSnapshot,
+	type QuerySnapshot,
+	type Transaction,
+	type Unsubscribe
 } from 'firebase/firestore';
 
 const equipmentsCollection = collection(db, 'equipments');
 
+/* ---------------------------------------
+   Errors
+---------------------------------------- */
+
+/**
+ * Thrown by updateEquipment when the stored revision no longer matches the
+ * one the caller loaded. `current` is the asset as it is stored now.
+ */
+export class EquipmentConflictError extends Error {
+	readonly code = 'CONFLICT' as const;
+
+	constructor(readonly current: Equipment) {
+		super('CONFLICT');
+		this.name = 'EquipmentConflictError';
+		Object.setPrototypeOf(this, EquipmentConflictError.prototype);
+	}
+}
+
+// internal: maintenance history changed between the read and the write
+class StaleMaintenanceHistoryError extends Error {
+	constructor(readonly current: Equipment) {
+		super('STALE_MAINTENANCE_HISTORY');
+		this.name = 'StaleMaintenanceHistoryError';
+		Object.setPrototypeOf(this, StaleMaintenanceHistoryError.prototype);
+	}
+}
+
 /* ---------------------------------------
    Helpers
 ---------------------------------------- */
 
-// lastServiceDate: "yyyy-MM-dd"
-function computeNextServiceDate(
-	lastServiceDate: string,
-	intervalDays: number
-): string {
-	const base = new Date(`${lastServiceDate}T00:00:00`);
-	base.setDate(base.getDate() + intervalDays);
-	return base.toISOString().slice(0, 10);
+function statusPriority(status: Equipment['status']): number {
+	return getStatusDefinition(status).opsRank;
 }
 
-function safeParseDate(value?: string): Date | null {
-	if (!value) return null;
-	const d = new Date(`${value}T00:00:00`);
-	return Number.isNaN(d.getTime()) ? null : d;
+/* ---------------------------------------
+   Stored sort keys
+   Firestore can only filter/order by stored fields, so every write keeps
+   these in sync with the asset (see scripts/backfill-sort-keys.mjs for
+   documents created before they existed).
+---------------------------------------- */
+
+// assets without a next service date sort last in "next_service_asc"
+const NO_NEXT_SERVICE_SORT_KEY = '9999-12-31';
+
+const SEARCH_KEYWORD_MAX_LENGTH = 20;
+
+function toDateKey(date: Date): string {
+	return format(date, 'yyyy-MM-dd');
 }
 
-function getDocTimestampMillis(value: any): number {
-	if (!value) return 0;
-	if (typeof value?.toMillis === 'function') return value.toMillis();
-	if (typeof value?.toDate === 'function') return value.toDate().getTime();
-	return 0;
+// "Câmara" and "camara" give the same words
+function tokenize(value: string): string[] {
+	return value
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean);
 }
 
-function getEquipmentNextServiceMillis(eq: Equipment): number {
-	const anyEq = eq as any;
+// every prefix of every word in name + serial, so "dock" matches "Dock Lift"
+function buildSearchKeywords(name: string, serialNumber?: string): string[] {
+	const keywords = new Set<string>();
 
-	// 1) stored nextServiceDate
-	const stored =
-		typeof anyEq?.nextServiceDate === 'string'
-			? anyEq.nextServiceDate
-			: undefined;
-	const derived = stored || eq.nextServiceDate;
-	const next = safeParseDate(derived);
-	if (next) return next.getTime();
+	for (const word of tokenize(`${name} ${serialNumber ?? ''}`)) {
+		const max = Math.min(word.length, SEARCH_KEYWORD_MAX_LENGTH);
+		for (let i = 1; i <= max; i += 1) keywords.add(word.slice(0, i));
+	}
 
-	// 2) fallback: lastServiceDate + interval
-	const last = safeParseDate(eq.lastServiceDate);
-	if (!last) return 0;
+	return Array.from(keywords);
+}
 
-	const interval =
-		typeof anyEq?.serviceIntervalDays === 'number'
-			? anyEq.serviceIntervalDays
-			: 180;
-	last.setDate(last.getDate() + interval);
-	return last.getTime();
+// search input as keyword prefixes, in the order typed
+function getSearchTerms(search?: string): string[] {
+	return Array.from(
+		new Set(
+			tokenize(search ?? '').map((t) => t.slice(0, SEARCH_KEYWORD_MAX_LENGTH))
+		)
+	);
 }
 
-function statusPriority(status: Equipment['status']): number {
-	if (status === 'maintenance') return 0;
-	if (status === 'inactive') return 1;
-	return 2;
+function matchesSearchTerms(
+	data: { name: string; serialNumber?: string },
+	terms: string[]
+): boolean {
+	if (terms.length === 0) return true;
+	const keywords = new Set(buildSearchKeywords(data.name, data.serialNumber));
+	return terms.every((t) => keywords.has(t));
+}
+
+function buildSortKeys(data: {
+	name: string;
+	serialNumber?: string;
+	status: Equipment['status'];
+	nextServiceDate?: string;
+}) {
+	return {
+		statusRank: statusPriority(data.status),
+		nextServiceSortKey:
+			data.nextServiceDate?.trim() || NO_NEXT_SERVICE_SORT_KEY,
+		searchKeywords: buildSearchKeywords(data.name, data.serialNumber)
+	};
 }
 
 /* ---------------------------------------
-   Public API
+   Field diffs
+---------------------------------------- */
+
+export const EQUIPMENT_INPUT_FIELDS: Array<keyof EquipmentInput> = [
+	'name',
+	'serialNumber',
+	'status',
+	'purchaseDate',
+	'lastServiceDate',
+	'maintenancePlans',
+	'meters',
+	'owner',
+	'location',
+	'locationId',
+	'parentId',
+	'categoryId',
+	'customFields',
+	'tags'
+];
+
+// '', [], undefined and null all mean "not set"
+function normalizeFieldValue(value: unknown) {
+	if (value === undefined || value === null) return null;
+	if (typeof value === 'string') return value.trim() || null;
+	if (Array.isArray(value) && value.length === 0) return null;
+	if (isPlainObject(value) && Object.keys(value).length === 0) return null;
+	return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// maps (customFields) compare with their keys in a stable order
+function toComparable(value: unknown): unknown {
+	if (!isPlainObject(value)) return value;
+	return Object.keys(value)
+		.sort()
+		.map((k) => [k, value[k]]);
+}
+
+// arrays (maintenancePlans, meters) and maps are compared by content
+function isSameFieldValue(a: unknown, b: unknown) {
+	if (typeof a === 'object' && typeof b === 'object') {
+		return JSON.stringify(toComparable(a)) === JSON.stringify(toComparable(b));
+	}
+	return a === b;
+}
+
+export function diffEquipmentInput(
+	before: Partial<EquipmentInput>,
+	after: Partial<EquipmentInput>
+): EquipmentFieldChange[] {
+	const changes: EquipmentFieldChange[] = [];
+
+	// meter readings move on their own; only definitions count as edits
+	const value = (
+		input: Partial<EquipmentInput>,
+		field: keyof EquipmentInput
+	) =>
+		field === 'meters' && input.meters
+			? toMeterDefinitions(input.meters)
+			: input[field];
+
+	for (const field of EQUIPMENT_INPUT_FIELDS) {
+		const from = normalizeFieldValue(value(before, field));
+		const to = normalizeFieldValue(value(after, field));
+		if (!isSameFieldValue(from, to)) changes.push({ field, from, to });
+	}
+
+	return changes;
+}
+
+/* ---------------------------------------
+   Query builders
 ---------------------------------------- */
 
 export type EquipmentsSort =
@@ -89,82 +286,308 @@ export type EquipmentsSort =
 	| 'status_ops'
 	| 'next_service_asc';
 
-export interface GetEquipmentsListOptions {
+type SortField = { field: string; direction: OrderByDirection };
+
+const SORT_FIELDS: Record<EquipmentsSort, SortField[]> = {
+	updated_desc: [{ field: 'updatedAt', direction: 'desc' }],
+	created_desc: [{ field: 'createdAt', direction: 'desc' }],
+	name_asc: [{ field: 'name', direction: 'asc' }],
+	status_ops: [
+		{ field: 'statusRank', direction: 'asc' },
+		{ field: 'nextServiceSortKey', direction: 'asc' },
+		{ field: 'name', direction: 'asc' }
+	],
+	next_service_asc: [
+		{ field: 'nextServiceSortKey', direction: 'asc' },
+		{ field: 'updatedAt', direction: 'desc' }
+	]
+};
+
+interface EquipmentsFilter {
 	includeArchived?: boolean;
+	archivedOnly?: boolean;
+	status?: Equipment['status'] | 'all';
+	search?: string;
+	maintenanceWindow?: MaintenanceWindowValue;
+}
+
+function buildFilterConstraints(filter: EquipmentsFilter): QueryConstraint[] {
+	const constraints: QueryConstraint[] = [];
+
+	if (filter.archivedOnly) constraints.push(where('isArchived', '==', true));
+	else if (!filter.includeArchived)
+		constraints.push(where('isArchived', '==', false));
+
+	if (filter.status && filter.status !== 'all')
+		constraints.push(where('status', '==', filter.status));
+
+	// Firestore takes one array-contains per query: the first term narrows
+	// the read, the others are checked in memory (matchesSearchTerms)
+	const [term] = getSearchTerms(filter.search);
+	if (term) constraints.push(where('searchKeywords', 'array-contains', term));
+
+	const window = filter.maintenanceWindow ?? 'all';
+	if (window !== 'all') {
+		const range = getMaintenanceWindowRange(window);
+		if (range.before)
+			constraints.push(where('nextServiceSortKey', '<', range.before));
+		if (range.from)
+			constraints.push(where('nextServiceSortKey', '>=', range.from));
+		if (range.to) constraints.push(where('nextServiceSortKey', '<=', range.to));
+	}
+
+	return constraints;
+}
+
+/**
+ * Date keys bounding a maintenance window: `before` is exclusive, `from`
+ * and `to` inclusive. Assets without a next service never match (their
+ * sort key sorts after any date).
+ */
+function getMaintenanceWindowRange(
+	window: Exclude<MaintenanceWindowValue, 'all'>
+): { before?: string; from?: string; to?: string } {
+	const today = new Date();
+	const inDays = (days: number) => {
+		const date = new Date(today);
+		date.setDate(date.getDate() + days);
+		return toDateKey(date);
+	};
+
+	if (window === 'overdue') return { before: toDateKey(today) };
+	// overdue + due within 30 days
+	if (window === 'attention') return { to: inDays(30) };
+	return {
+		from: toDateKey(today),
+		to: inDays(window === 'due_7' ? 7 : 30)
+	};
+}
+
+/**
+ * A range filter on nextServiceSortKey requires ordering by it first,
+ * so maintenance window queries always come back soonest-first.
+ */
+function resolveSortFields(
+	sort: EquipmentsSort,
+	maintenanceWindow: MaintenanceWindowValue = 'all'
+): SortField[] {
+	if (maintenanceWindow !== 'all') return SORT_FIELDS.next_service_asc;
+	return SORT_FIELDS[sort];
+}
+
+function buildOrderConstraints(fields: SortField[]): QueryConstraint[] {
+	const last = fields[fields.length - 1];
+	return [
+		...fields.map((f) => orderBy(f.field, f.direction)),
+		// tie-breaker so cursors are stable between equal sort values
+		orderBy(documentId(), last.direction)
+	];
+}
+
+/* ---------------------------------------
+   Cursors (opaque to callers)
+---------------------------------------- */
+
+type CursorValue = string | number | boolean | null | { ts: [number, number] };
+
+function encodeCursor(fields: SortField[], id: string, data: DocumentData) {
+	const values: CursorValue[] = fields.map((f) => {
+		const value = data[f.field];
+		if (value instanceof Timestamp)
+			return { ts: [value.seconds, value.nanoseconds] };
+		return value ?? null;
+	});
+
+	return btoa(encodeURIComponent(JSON.stringify({ v: values, id })));
+}
+
+function decodeCursor(cursor: string): unknown[] {
+	try {
+		const parsed = JSON.parse(decodeURIComponent(atob(cursor))) as {
+			v: CursorValue[];
+			id: string;
+		};
+
+		const values = parsed.v.map((value) =>
+			value && typeof value === 'object' && 'ts' in value
+				? new Timestamp(value.ts[0], value.ts[1])
+				: value
+		);
+
+		return [...values, parsed.id];
+	} catch {
+		throw new Error('INVALID_CURSOR');
+	}
+}
+
+/* ---------------------------------------
+   Public API
+---------------------------------------- */
+
+export interface GetEquipmentsListOptions extends EquipmentsFilter {
 	sort?: EquipmentsSort;
 	limit?: number;
 }
 
+function buildListConstraints(
+	options: GetEquipmentsListOptions
+): QueryConstraint[] {
+	const { sort = 'updated_desc', limit: max, ...filter } = options;
+
+	const constraints = [
+		...buildFilterConstraints(filter),
+		...buildOrderConstraints(resolveSortFields(sort, filter.maintenanceWindow))
+	];
+
+	// with more terms the limit applies after the in-memory match
+	if (typeof max === 'number' && getSearchTerms(filter.search).length <= 1)
+		constraints.push(limit(max));
+
+	return constraints;
+}
+
+function toEquipmentsList(
+	snapshot: QuerySnapshot,
+	options: GetEquipmentsListOptions
+): Equipment[] {
+	const terms = getSearchTerms(options.search);
+
+	const list = snapshot.docs
+		.map((d) => ({
+			id: d.id,
+			...(d.data() as Omit<Equipment, 'id'>)
+		}))
+		.filter((eq) => matchesSearchTerms(eq, terms));
+
+	return typeof options.limit === 'number'
+		? list.slice(0, options.limit)
+		: list;
+}
+
 export const getEquipmentsList = async (
 	options: GetEquipmentsListOptions = {}
 ): Promise<Equipment[]> => {
-	const {
-		includeArchived = false,
-		sort = 'updated_desc',
-		limit: max
-	} = options;
+	const constraints = buildListConstraints(options);
 
-	const clauses: any[] = [];
+	const snapshot = await getDocs(query(equipmentsCollection, ...constraints));
 
-	if (sort === 'updated_desc') clauses.push(orderBy('updatedAt', 'desc'));
-	else if (sort === 'created_desc') clauses.push(orderBy('createdAt', 'desc'));
-	else if (sort === 'name_asc') clauses.push(orderBy('name', 'asc'));
-	else clauses.push(orderBy('updatedAt', 'desc'));
+	return toEquipmentsList(snapshot, options);
+};
 
-	if (typeof max === 'number') clauses.push(limit(max));
+export interface GetEquipmentsPageOptions extends EquipmentsFilter {
+	sort?: EquipmentsSort;
+	pageSize?: number;
+	cursor?: string | null;
+}
 
-	let list: Equipment[] = [];
+export interface EquipmentsPage {
+	items: Equipment[];
+	/** pass back as `cursor` to fetch the following page */
+	nextCursor: string | null;
+	hasMore: boolean;
+	/** total matching the filters (all pages) */
+	total: number;
+}
 
-	try {
-		const q = query(equipmentsCollection, ...clauses);
-		const snapshot = await getDocs(q);
+function buildPageQueries(options: GetEquipmentsPageOptions) {
+	const { sort = 'updated_desc', pageSize = 20, cursor, ...filter } = options;
 
-		list = snapshot.docs.map((d) => ({
-			id: d.id,
-			...(d.data() as Omit<Equipment, 'id'>)
-		}));
-	} catch {
-		const snapshot = await getDocs(equipmentsCollection);
-		list = snapshot.docs.map((d) => ({
-			id: d.id,
-			...(d.data() as Omit<Equipment, 'id'>)
-		}));
+	const filtered = query(
+		equipmentsCollection,
+		...buildFilterConstraints(filter)
+	);
+	const fields = resolveSortFields(sort, filter.maintenanceWindow);
+	const terms = getSearchTerms(filter.search);
+
+	const constraints = buildOrderConstraints(fields);
+
+	// searches with several terms read every match of the first one and
+	// page in memory: a server limit would count docs the other terms drop
+	if (terms.length > 1) {
+		return {
+			filtered,
+			paged: query(filtered, ...constraints),
+			fields,
+			pageSize,
+			inMemory: { terms, cursor }
+		};
 	}
 
-	if (!includeArchived) {
-		list = list.filter((e) => !Boolean((e as any)?.archivedAt));
-	}
+	if (cursor) constraints.push(startAfter(...decodeCursor(cursor)));
+	// one extra doc tells us whether there is a next page
+	constraints.push(limit(pageSize + 1));
+
+	return {
+		filtered,
+		paged: query(filtered, ...constraints),
+		fields,
+		pageSize,
+		inMemory: null
+	};
+}
 
-	if (sort === 'status_ops') {
-		list.sort((a, b) => {
-			const ap = statusPriority(a.status);
-			const bp = statusPriority(b.status);
-			if (ap !== bp) return ap - bp;
+// every doc matching the first term, in query order
+function toSearchedEquipmentsPage(
+	snapshot: QuerySnapshot,
+	fields: SortField[],
+	pageSize: number,
+	{ terms, cursor }: { terms: string[]; cursor?: string | null }
+): EquipmentsPage {
+	const matches = snapshot.docs.filter((d) =>
+		matchesSearchTerms(d.data() as Omit<Equipment, 'id'>, terms)
+	);
 
-			const an = getEquipmentNextServiceMillis(a);
-			const bn = getEquipmentNextServiceMillis(b);
-			if (an !== bn) return an - bn;
+	// the cursor's id is its last value (see decodeCursor)
+	const afterId = cursor ? decodeCursor(cursor).at(-1) : undefined;
+	const start = afterId ? matches.findIndex((d) => d.id === afterId) + 1 : 0;
 
-			return (a.name || '').localeCompare(b.name || '');
-		});
-	} else if (sort === 'next_service_asc') {
-		list.sort((a, b) => {
-			const an = getEquipmentNextServiceMillis(a);
-			const bn = getEquipmentNextServiceMillis(b);
-
-			if (!an && bn) return 1;
-			if (an && !bn) return -1;
-			if (an !== bn) return an - bn;
-
-			const au = getDocTimestampMillis((a as any).updatedAt);
-			const bu = getDocTimestampMillis((b as any).updatedAt);
-			return bu - au;
-		});
+	return toEquipmentsPage(
+		matches.slice(start, start + pageSize + 1),
+		fields,
+		pageSize,
+		matches.length
+	);
+}
+
+function toEquipmentsPage(
+	pageDocs: QueryDocumentSnapshot[],
+	fields: SortField[],
+	pageSize: number,
+	total: number
+): EquipmentsPage {
+	const docs = pageDocs.slice(0, pageSize);
+	const hasMore = pageDocs.length > pageSize;
+	const last = docs[docs.length - 1];
+
+	return {
+		items: docs.map((d) => ({
+			id: d.id,
+			...(d.data() as Omit<Equipment, 'id'>)
+		})),
+		nextCursor:
+			hasMore && last ? encodeCursor(fields, last.id, last.data()) : null,
+		hasMore,
+		total
+	};
+}
+
+export const getEquipmentsPage = async (
+	options: GetEquipmentsPageOptions = {}
+): Promise<EquipmentsPage> => {
+	const { filtered, paged, fields, pageSize, inMemory } =
+		buildPageQueries(options);
+
+	if (inMemory) {
+		const snapshot = await getDocs(paged);
+		return toSearchedEquipmentsPage(snapshot, fields, pageSize, inMemory);
 	}
 
-	if (typeof max === 'number') list = list.slice(0, max);
+	const [snapshot, count] = await Promise.all([
+		getDocs(paged),
+		getCountFromServer(filtered)
+	]);
 
-	return list;
+	return toEquipmentsPage(snapshot.docs, fields, pageSize, count.data().count);
 };
 
 export const getEquipmentById = async (
@@ -189,15 +612,15 @@ function eventsCollection(equipmentId: string) {
 	return collection(db, 'equipments', equipmentId, 'events');
 }
 
+// max = null reads the whole log (exports)
 export const getEquipmentEvents = async (
 	equipmentId: string,
-	max = 25
+	max: number | null = 25
 ): Promise<EquipmentEvent[]> => {
-	const q = query(
-		eventsCollection(equipmentId),
-		orderBy('createdAt', 'desc'),
-		limit(max)
-	);
+	const constraints: QueryConstraint[] = [orderBy('createdAt', 'desc')];
+	if (max !== null) constraints.push(limit(max));
+
+	const q = query(eventsCollection(equipmentId), ...constraints);
 	const snapshot = await getDocs(q);
 
 	return snapshot.docs.map((d) => ({
@@ -239,152 +662,1526 @@ function addEquipmentEvent(
 	return addDoc(eventsCollection(equipmentId), payload);
 }
 
-function addEquipmentEventInBatch(
-	batch: WriteBatch,
+// also used by data-access/work-orders to log on the asset's timeline
+export function addEquipmentEventInTransaction(
+	tx: Transaction,
 	equipmentId: string,
 	data: Omit<EquipmentEvent, 'id' | 'createdAt' | 'equipmentId'>
 ) {
 	const payload = buildEventPayload({ equipmentId, ...data });
 	const ref = doc(eventsCollection(equipmentId)); // auto-id
-	batch.set(ref, payload);
+	tx.set(ref, payload);
 }
 
 /* ---------------------------------------
-   Create / Update / Archive
+   Revisions
+   Immutable snapshot of the asset after every write, stored as
+   `revisions/{revision}` in the same transaction as the write itself.
 ---------------------------------------- */
 
-export const createEquipment = async (
-	data: EquipmentInput,
-	actor: { uid: string; email?: string | null }
-): Promise<void> => {
-	const serial = data.serialNumber?.trim();
+function revisionsCollection(equipmentId: string) {
+	return collection(db, 'equipments', equipmentId, 'revisions');
+}
 
-	if (serial) {
-		const snapshot = await getDocs(
-			query(equipmentsCollection, where('serialNumber', '==', serial))
-		);
+// derived from the other fields, so not worth keeping per revision
+const REVISION_OMITTED_FIELDS = [
+	'id',
+	'serialNumberNormalized',
+	'statusRank',
+	'nextServiceSortKey',
+	'searchKeywords',
+	'currentStatusPeriodId',
+	'statusChangedAt'
+];
+
+function buildRevisionSnapshot(data: DocumentData): EquipmentRevisionSnapshot {
+	const snapshot: Record<string, any> = { ...data };
+	REVISION_OMITTED_FIELDS.forEach((k) => delete snapshot[k]);
+	return snapshot as EquipmentRevisionSnapshot;
+}
 
-		const serialExistsInActiveAsset = snapshot.docs.some((d) => {
-			const existing = d.data() as any;
-			const isArchived = Boolean(existing?.archivedAt);
-			return !isArchived;
-		});
+type RevisionParams = {
+	revision: number;
+	reason: EquipmentRevision['reason'];
+	data: DocumentData; // asset state after the write
+	actorId: string;
+	actorEmail: string | null;
+};
 
-		if (serialExistsInActiveAsset) throw new Error('SERIAL_ALREADY_EXISTS');
-	}
+function buildRevisionPayload(equipmentId: string, params: RevisionParams) {
+	return {
+		equipmentId,
+		revision: params.revision,
+		reason: params.reason,
+		snapshot: buildRevisionSnapshot(params.data),
+		actorId: params.actorId,
+		actorEmail: params.actorEmail ?? null,
+		createdAt: serverTimestamp()
+	};
+}
 
-	const interval = data.serviceIntervalDays ?? 180;
-	const next =
-		data.nextServiceDate?.trim() ||
-		(data.lastServiceDate
-			? computeNextServiceDate(data.lastServiceDate, interval)
-			: undefined);
+function addRevisionInTransaction(
+	tx: Transaction,
+	equipmentId: string,
+	params: RevisionParams
+) {
+	const ref = doc(revisionsCollection(equipmentId), String(params.revision));
+	tx.set(ref, buildRevisionPayload(equipmentId, params));
+}
 
-	const equipmentRef = doc(equipmentsCollection); // pre-generate id
+/**
+ * Assets written before revisions existed have no `revision` field and no
+ * history. Their first write also stores the state it replaces as
+ * revision 0, so nothing recorded before the change is lost.
+ */
+function addBaselineRevisionInTransaction(
+	tx: Transaction,
+	equipmentId: string,
+	current: DocumentData
+) {
+	if (typeof current.revision === 'number') return;
+
+	addRevisionInTransaction(tx, equipmentId, {
+		revision: 0,
+		reason: 'equipment.created',
+		data: { ...current, revision: 0 },
+		actorId: current.createdBy ?? '',
+		actorEmail: current.createdByEmail ?? null
+	});
+}
 
-	const payload: Omit<Equipment, 'id'> & Record<string, any> = {
-		...data,
+export const getEquipmentRevisions = async (
+	equipmentId: string,
+	max = 100
+): Promise<EquipmentRevision[]> => {
+	const q = query(
+		revisionsCollection(equipmentId),
+		orderBy('revision', 'desc'),
+		limit(max)
+	);
+	const snapshot = await getDocs(q);
 
-		serviceIntervalDays: interval,
-		nextServiceDate: next,
+	return snapshot.docs.map((d) => ({
+		id: d.id,
+		...(d.data() as Omit<EquipmentRevision, 'id'>)
+	}));
+};
 
-		createdBy: actor.uid,
-		createdByEmail: actor.email ?? null,
-		updatedBy: actor.uid,
-		updatedByEmail: actor.email ?? null,
+/* ---------------------------------------
+   Serial number reservations
+   One doc per normalized serial in `serialNumbers`, held by the active
+   asset that uses it. Always read and written inside the same transaction
+   as the asset, so two concurrent writes can't both claim a serial.
+---------------------------------------- */
 
-		archivedAt: null,
-		archivedBy: null,
-		archivedByEmail: null,
+// "fl-tam 0001" and "FL-TAM-0001" are the same serial
+export function normalizeSerialNumber(serial: string): string {
+	return serial
+		.trim()
+		.toUpperCase()
+		.replace(/[\s-]+/g, '');
+}
 
-		createdAt: serverTimestamp(),
-		updatedAt: serverTimestamp()
-	};
+function serialReservationRef(normalized: string) {
+	// doc ids can't contain "/"
+	return doc(db, 'serialNumbers', encodeURIComponent(normalized));
+}
 
-	// remove only undefined optional fields
-	Object.keys(payload).forEach(
-		(k) => payload[k] === undefined && delete payload[k]
+function getStoredSerialNormalized(data: DocumentData | undefined): string {
+	return (
+		data?.serialNumberNormalized ||
+		normalizeSerialNumber(String(data?.serialNumber ?? ''))
 	);
+}
 
-	const batch = writeBatch(db);
-	batch.set(equipmentRef, payload);
+function isReservationHeldByOther(
+	reservation: DocumentSnapshot | null,
+	equipmentId: string
+) {
+	return Boolean(
+		reservation?.exists() && reservation.data()?.equipmentId !== equipmentId
+	);
+}
 
-	addEquipmentEventInBatch(batch, equipmentRef.id, {
-		type: 'equipment.created',
-		actorId: actor.uid,
-		actorEmail: actor.email ?? null,
-		message: 'Asset created'
-	});
+function isReservationHeldBy(
+	reservation: DocumentSnapshot | null,
+	equipmentId: string
+) {
+	return Boolean(
+		reservation?.exists() && reservation.data()?.equipmentId === equipmentId
+	);
+}
 
-	await batch.commit();
-};
+function buildSerialReservation(equipmentId: string, serialNumber: string) {
+	return { equipmentId, serialNumber, reservedAt: serverTimestamp() };
+}
 
-export const updateEquipment = async (
-	id: string,
-	data: EquipmentInput,
-	actor: { uid: string; email?: string | null }
-): Promise<void> => {
-	const ref = doc(db, 'equipments', id);
+function reserveSerialInTransaction(
+	tx: Transaction,
+	ref: DocumentReference,
+	equipmentId: string,
+	serialNumber: string
+) {
+	tx.set(ref, buildSerialReservation(equipmentId, serialNumber));
+}
 
-	const interval = data.serviceIntervalDays ?? 180;
-	const next =
-		data.nextServiceDate?.trim() ||
-		(data.lastServiceDate
-			? computeNextServiceDate(data.lastServiceDate, interval)
-			: undefined);
+/* ---------------------------------------
+   Status ledger
+   Every status change closes the asset's open period and opens the next
+   one, in the same transaction as the asset write. The asset keeps the
+   open period's id so the close needs no query.
+---------------------------------------- */
 
-	const patch: Record<string, any> = {
-		...data,
-		serviceIntervalDays: interval,
-		nextServiceDate: next,
+function statusPeriodsCollection(equipmentId: string) {
+	return collection(db, 'equipments', equipmentId, 'statusPeriods');
+}
 
-		updatedBy: actor.uid,
-		updatedByEmail: actor.email ?? null,
-		updatedAt: serverTimestamp()
+function buildStatusReasonFields(reason?: StatusChangeReason) {
+	const fields: Record<string, any> = {
+		reasonCode: reason?.code || undefined,
+		reasonNote: reason?.note?.trim() || undefined
 	};
+	Object.keys(fields).forEach(
+		(k) => fields[k] === undefined && delete fields[k]
+	);
+	return fields;
+}
 
-	Object.keys(patch).forEach((k) => patch[k] === undefined && delete patch[k]);
-
-	const batch = writeBatch(db);
-	batch.update(ref, patch);
+function buildOpenStatusPeriod(
+	status: Equipment['status'],
+	startedAt: string,
+	actor: { uid: string; email?: string | null },
+	reason?: StatusChangeReason
+) {
+	return {
+		status,
+		startedAt,
+		startedAtServer: serverTimestamp(),
+		endKey: OPEN_STATUS_PERIOD_END_KEY,
+		...buildStatusReasonFields(reason),
+		startedBy: actor.uid,
+		startedByEmail: actor.email ?? null,
+		createdAt: serverTimestamp()
+	};
+}
 
-	addEquipmentEventInBatch(batch, id, {
-		type: 'equipment.updated',
-		actorId: actor.uid,
-		actorEmail: actor.email ?? null,
-		message: 'Asset updated'
-	});
+function toDateValue(value: unknown): Date | null {
+	const maybe = value as { toDate?: () => Date } | null | undefined;
+	return typeof maybe?.toDate === 'function' ? maybe.toDate() : null;
+}
 
-	await batch.commit();
-};
+/**
+ * Records a move to `status`. `current` is the stored asset (null on
+ * create). Returns the asset fields pointing at the new open period.
+ */
+function recordStatusChangeInTransaction(
+	tx: Transaction,
+	equipmentId: string,
+	current: DocumentData | null,
+	status: Equipment['status'],
+	actor: { uid: string; email?: string | null },
+	reason?: StatusChangeReason
+) {
+	const now = new Date();
+	const nowIso = now.toISOString();
+
+	if (current?.currentStatusPeriodId) {
+		tx.update(
+			doc(statusPeriodsCollection(equipmentId), current.currentStatusPeriodId),
+			{
+				endedAt: nowIso,
+				endedAtServer: serverTimestamp(),
+				endKey: toDateKey(now),
+				endedBy: actor.uid,
+				endedByEmail: actor.email ?? null
+			}
+		);
+	} else if (current) {
+		// assets from before the ledger: close out the previous status from
+		// the last time the asset was written
+		const since =
+			toDateValue(current.updatedAt) ?? toDateValue(current.createdAt) ?? now;
+
+		tx.set(doc(statusPeriodsCollection(equipmentId)), {
+			status: current.status,
+			startedAt: since.toISOString(),
+			startedAtServer:
+				current.updatedAt ?? current.createdAt ?? serverTimestamp(),
+			endedAt: nowIso,
+			endedAtServer: serverTimestamp(),
+			endKey: toDateKey(now),
+			inferred: true,
+			startedBy: current.updatedBy ?? '',
+			startedByEmail: current.updatedByEmail ?? null,
+			endedBy: actor.uid,
+			endedByEmail: actor.email ?? null,
+			createdAt: serverTimestamp()
+		});
+	}
 
-export const archiveEquipment = async (
-	id: string,
-	actor: { uid: string; email?: string | null }
-): Promise<void> => {
-	const ref = doc(db, 'equipments', id);
+	const periodRef = doc(statusPeriodsCollection(equipmentId)); // auto-id
+	tx.set(periodRef, buildOpenStatusPeriod(status, nowIso, actor, reason));
 
-	const patch: Record<string, any> = {
-		archivedAt: serverTimestamp(),
-		archivedBy: actor.uid,
-		archivedByEmail: actor.email ?? null,
+	return { currentStatusPeriodId: periodRef.id, statusChangedAt: nowIso };
+}
 
-		updatedBy: actor.uid,
-		updatedByEmail: actor.email ?? null,
-		updatedAt: serverTimestamp()
-	};
+function hasStatusReason(reason?: StatusChangeReason) {
+	return Boolean(reason?.code || reason?.note?.trim());
+}
 
-	const batch = writeBatch(db);
-	batch.update(ref, patch);
+/**
+ * Applies the transition rules of lib/equipment-status.ts to a move from
+ * `from` (null on create) to `to`. Throws the guard's error code.
+ */
+function assertStatusChangeAllowed(
+	from: Equipment['status'] | null,
+	to: Equipment['status'],
+	context: { reason?: StatusChangeReason; openCorrectiveWorkOrders: number }
+) {
+	if (
+		from === null
+			? !getStatusDefinition(to).initial
+			: !canTransitionStatus(from, to)
+	) {
+		throw new Error('INVALID_TRANSITION');
+	}
 
-	addEquipmentEventInBatch(batch, id, {
-		type: 'equipment.archived',
-		actorId: actor.uid,
-		actorEmail: actor.email ?? null,
-		message: 'Asset archived'
+	const failing = findFailingStatusGuard(to, {
+		hasReason: hasStatusReason(context.reason),
+		openCorrectiveWorkOrders: context.openCorrectiveWorkOrders
+	});
+	if (failing) throw new Error(STATUS_GUARD_ERROR[failing]);
+}
+
+/**
+ * Corrective work orders of the asset that still need work. Transactions
+ * can't run queries, so guards load this before the write.
+ */
+async function countOpenCorrectiveWorkOrders(equipmentId: string) {
+	const snapshot = await getDocs(
+		query(
+			collection(db, 'workOrders'),
+			where('equipmentId', '==', equipmentId),
+			where('type', '==', 'corrective')
+		)
+	);
+
+	return snapshot.docs.filter((d) => {
+		const status = d.data().status;
+		return status !== 'completed' && status !== 'cancelled';
+	}).length;
+}
+
+// period bounds from the server clock, so availability, MTBF and MTTR don't
+// depend on each admin's clock (older periods only have the ISO keys)
+function toStatusPeriod(id: string, data: DocumentData): StatusPeriod {
+	const started = toDateValue(data.startedAtServer);
+	const ended = toDateValue(data.endedAtServer);
+
+	return {
+		id,
+		...(data as Omit<StatusPeriod, 'id'>),
+		startedAt: started?.toISOString() ?? data.startedAt,
+		endedAt: ended?.toISOString() ?? data.endedAt
+	};
+}
+
+export const getStatusPeriods = async (
+	equipmentId: string,
+	max = 100
+): Promise<StatusPeriod[]> => {
+	const q = query(
+		statusPeriodsCollection(equipmentId),
+		orderBy('startedAt', 'desc'),
+		limit(max)
+	);
+	const snapshot = await getDocs(q);
+
+	return snapshot.docs.map((d) => toStatusPeriod(d.id, d.data()));
+};
+
+/**
+ * Status periods of every asset that were still running on or after
+ * `since` (yyyy-MM-dd), via a collection group query over `statusPeriods`
+ * (see the fieldOverrides in firestore.indexes.json).
+ */
+export const getStatusPeriodsSince = async (
+	since: string
+): Promise<StatusPeriodWithAsset[]> => {
+	const q = query(
+		collectionGroup(db, 'statusPeriods'),
+		where('endKey', '>=', since)
+	);
+	const snapshot = await getDocs(q);
+
+	return snapshot.docs.map((d) => ({
+		...toStatusPeriod(d.id, d.data()),
+		equipmentId: d.ref.parent.parent?.id ?? ''
+	}));
+};
+
+/* ---------------------------------------
+   Hierarchy
+   Assets can hang under a parent (line > machine > component) through
+   `parentId`. Chains are short, so they are walked doc by doc.
+---------------------------------------- */
+
+// deeper chains are treated as broken (and can't be created)
+const MAX_HIERARCHY_DEPTH = 20;
+
+/**
+ * Rejects a parent that doesn't exist or that would make `equipmentId` its
+ * own ancestor. Reads only, so it runs before the transaction's writes.
+ */
+async function assertValidParentInTransaction(
+	tx: Transaction,
+	equipmentId: string,
+	parentId: string
+) {
+	let cursor: string | undefined = parentId;
+
+	for (let depth = 0; cursor; depth++) {
+		if (cursor === equipmentId || depth >= MAX_HIERARCHY_DEPTH) {
+			throw new Error('PARENT_CYCLE');
+		}
+
+		const snap: DocumentSnapshot = await tx.get(doc(db, 'equipments', cursor));
+		if (!snap.exists()) {
+			// only the direct parent has to exist; a dangling link further up
+			// just ends the chain
+			if (depth === 0) throw new Error('PARENT_NOT_FOUND');
+			return;
+		}
+
+		cursor = snap.data()?.parentId || undefined;
+	}
+}
+
+export const getEquipmentChildren = async (
+	equipmentId: string
+): Promise<Equipment[]> => {
+	const snapshot = await getDocs(
+		query(equipmentsCollection, where('parentId', '==', equipmentId))
+	);
+
+	return snapshot.docs
+		.map((d) => ({ id: d.id, ...(d.data() as Omit<Equipment, 'id'>) }))
+		.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Ancestors of the asset, root first (for breadcrumbs). Stops at a missing
+ * parent.
+ */
+export const getEquipmentAncestors = async (
+	equipmentId: string
+): Promise<Equipment[]> => {
+	const ancestors: Equipment[] = [];
+	const seen = new Set([equipmentId]);
+
+	let parentId = (await getEquipmentById(equipmentId))?.parentId;
+
+	while (parentId && !seen.has(parentId)) {
+		if (ancestors.length >= MAX_HIERARCHY_DEPTH) break;
+		seen.add(parentId);
+
+		const parent = await getEquipmentById(parentId);
+		if (!parent) break;
+
+		ancestors.unshift(parent);
+		parentId = parent.parentId;
+	}
+
+	return ancestors;
+};
+
+/**
+ * Moves the asset to the top level. Used when its parent is archived and
+ * the children should stay in service.
+ */
+export const detachEquipmentFromParent = async (
+	id: string,
+	actor: { uid: string; email?: string | null }
+): Promise<void> => {
+	await patchEquipmentFields(
+		id,
+		{ parentId: '' },
+		actor,
+		'Detached from parent asset'
+	);
+};
+
+type PatchableFields = Partial<
+	Pick<EquipmentInput, 'parentId' | 'location' | 'locationId' | 'tags'>
+>;
+
+/**
+ * Writes a few reference fields (parent, location link, tags) without
+ * going through the full edit path. Fields may be computed from the
+ * stored asset. No-op when nothing changes; otherwise one revision and
+ * one `equipment.updated` event, like any edit. Returns whether it wrote.
+ */
+async function patchEquipmentFields(
+	id: string,
+	buildFields: PatchableFields | ((current: Equipment) => PatchableFields),
+	actor: { uid: string; email?: string | null },
+	message: string
+): Promise<boolean> {
+	const ref = doc(db, 'equipments', id);
+
+	return runTransaction(db, async (tx) => {
+		const snap = await tx.get(ref);
+		if (!snap.exists()) throw new Error('NOT_FOUND');
+
+		const current = { id, ...(snap.data() as Omit<Equipment, 'id'>) };
+		const fields =
+			typeof buildFields === 'function' ? buildFields(current) : buildFields;
+		const changes = diffEquipmentInput(current, { ...current, ...fields });
+		if (changes.length === 0) return false;
+
+		const patch = {
+			...fields,
+			updatedBy: actor.uid,
+			updatedByEmail: actor.email ?? null,
+			updatedAt: serverTimestamp()
+		};
+
+		const nextRevision = (snap.data().revision ?? 0) + 1;
+		tx.update(ref, { ...patch, revision: nextRevision });
+		writeTagCountsInTransaction(
+			tx,
+			diffTagCounts(
+				countedTags(snap.data()),
+				countedTags({ ...snap.data(), ...patch })
+			)
+		);
+
+		addEquipmentEventInTransaction(tx, id, {
+			type: 'equipment.updated',
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null,
+			message,
+			metadata: { changes }
+		});
+
+		addBaselineRevisionInTransaction(tx, id, snap.data());
+		addRevisionInTransaction(tx, id, {
+			revision: nextRevision,
+			reason: 'equipment.updated',
+			data: { ...snap.data(), ...patch, revision: nextRevision },
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null
+		});
+
+		return true;
+	});
+}
+
+/* ---------------------------------------
+   Locations
+   Assets link a record of the `locations` collection by `locationId` and
+   keep its path in `location`, which lists, search and analytics read.
+---------------------------------------- */
+
+/**
+ * Links the asset to a location record (the free-text migration and
+ * location renames go through here).
+ */
+export const assignEquipmentLocation = async (
+	id: string,
+	location: Pick<Location, 'id' | 'path'>,
+	actor: { uid: string; email?: string | null }
+): Promise<void> => {
+	await patchEquipmentFields(
+		id,
+		{ locationId: location.id, location: location.path },
+		actor,
+		`Location set to ${location.path}`
+	);
+};
+
+export const getEquipmentsByLocation = async (
+	locationId: string
+): Promise<Equipment[]> => {
+	const snapshot = await getDocs(
+		query(equipmentsCollection, where('locationId', '==', locationId))
+	);
+
+	return snapshot.docs.map((d) => ({
+		id: d.id,
+		...(d.data() as Omit<Equipment, 'id'>)
+	}));
+};
+
+/* ---------------------------------------
+   Categories
+   An asset's category (`categories` collection) defines its custom
+   fields; their values are stored in `customFields`, keyed by field key.
+---------------------------------------- */
+
+/**
+ * Validates the values against the category's current schema and returns
+ * them cleaned (unknown keys dropped). No category = no custom fields.
+ */
+async function resolveCustomFieldsInTransaction(
+	tx: Transaction,
+	categoryId: string | undefined,
+	values: Record<string, unknown> | undefined
+): Promise<Record<string, CustomFieldValue>> {
+	if (!categoryId) return {};
+
+	const snap = await tx.get(doc(db, 'categories', categoryId));
+	if (!snap.exists()) throw new Error('CATEGORY_NOT_FOUND');
+
+	return validateCustomFields(snap.data() as Omit<AssetCategory, 'id'>, values);
+}
+
+function validateCustomFields(
+	category: Pick<AssetCategory, 'fields'>,
+	values: Record<string, unknown> | undefined
+): Record<string, CustomFieldValue> {
+	const result = buildCustomFieldsSchema(category.fields ?? []).safeParse(
+		values ?? {}
+	);
+	if (!result.success) throw new Error('INVALID_CUSTOM_FIELDS');
+
+	return result.data;
+}
+
+// same semantics as buildFilterConstraints, applied in memory
+function matchesEquipmentsFilter(
+	eq: Equipment,
+	filter: EquipmentsFilter
+): boolean {
+	const isArchived = Boolean(eq.archivedAt);
+	if (filter.archivedOnly && !isArchived) return false;
+	if (!filter.archivedOnly && !filter.includeArchived && isArchived) {
+		return false;
+	}
+
+	if (filter.status && filter.status !== 'all' && eq.status !== filter.status)
+		return false;
+
+	const keys = buildSortKeys(eq);
+
+	if (!matchesSearchTerms(eq, getSearchTerms(filter.search))) return false;
+
+	const window = filter.maintenanceWindow ?? 'all';
+	if (window !== 'all') {
+		const range = getMaintenanceWindowRange(window);
+		const key = keys.nextServiceSortKey;
+		if (range.before && !(key < range.before)) return false;
+		if (range.from && key < range.from) return false;
+		if (range.to && key > range.to) return false;
+	}
+
+	return true;
+}
+
+function toSortValue(eq: Equipment, field: string): string | number {
+	if (field === 'statusRank' || field === 'nextServiceSortKey') {
+		return buildSortKeys(eq)[field];
+	}
+	const value = (eq as unknown as Record<string, unknown>)[field];
+	if (value instanceof Timestamp) return value.toMillis();
+	return typeof value === 'number' ? value : String(value ?? '');
+}
+
+function compareBySortFields(fields: SortField[]) {
+	return (a: Equipment, b: Equipment) => {
+		for (const { field, direction } of fields) {
+			const left = toSortValue(a, field);
+			const right = toSortValue(b, field);
+			if (left === right) continue;
+			const result =
+				typeof left === 'number' && typeof right === 'number'
+					? left - right
+					: String(left).localeCompare(String(right));
+			return direction === 'desc' ? -result : result;
+		}
+		return a.id.localeCompare(b.id);
+	};
+}
+
+export interface EquipmentsClassification {
+	categoryId?: string;
+	tag?: string;
+	// a location and every location under it
+	locationIds?: string[];
+}
+
+// limite do operador "in"
+const IN_QUERY_MAX = 30;
+
+export interface GetEquipmentsByClassificationOptions extends EquipmentsFilter {
+	sort?: EquipmentsSort;
+}
+
+/**
+ * Every asset of the category, with the tag and/or under the location,
+ * matching the filters and sorted like the paged query. Custom fields are
+ * defined by admins at runtime, tags would take the query's only
+ * array-contains (search uses it) and a location subtree is an "in" over
+ * several ids, so there are no indexes to page them with: the group is
+ * loaded whole and callers filter/sort its custom fields in memory.
+ */
+export const getEquipmentsByClassification = async (
+	by: EquipmentsClassification,
+	options: GetEquipmentsByClassificationOptions = {}
+): Promise<Equipment[]> => {
+	const { sort = 'updated_desc', ...filter } = options;
+
+	const constraints: QueryConstraint[] = [];
+	if (by.categoryId) {
+		constraints.push(where('categoryId', '==', by.categoryId));
+	}
+	if (by.tag) constraints.push(where('tags', 'array-contains', by.tag));
+
+	const locationIds = by.locationIds ?? [];
+	if (constraints.length === 0 && locationIds.length === 0) {
+		throw new Error('CLASSIFICATION_REQUIRED');
+	}
+
+	// one query per chunk of locations
+	const queries =
+		locationIds.length > 0
+			? Array.from(
+					{ length: Math.ceil(locationIds.length / IN_QUERY_MAX) },
+					(_, i) =>
+						query(
+							equipmentsCollection,
+							...constraints,
+							where(
+								'locationId',
+								'in',
+								locationIds.slice(i * IN_QUERY_MAX, (i + 1) * IN_QUERY_MAX)
+							)
+						)
+				)
+			: [query(equipmentsCollection, ...constraints)];
+	const snapshots = await Promise.all(queries.map((q) => getDocs(q)));
+
+	return snapshots
+		.flatMap((snapshot) => snapshot.docs)
+		.map((d) => ({
+			id: d.id,
+			...(d.data() as Omit<Equipment, 'id'>)
+		}))
+		.filter((eq) => matchesEquipmentsFilter(eq, filter))
+		.sort(
+			compareBySortFields(resolveSortFields(sort, filter.maintenanceWindow))
+		);
+};
+
+/* ---------------------------------------
+   Tags
+   Free-form labels in `tags`, normalized by lib/tags. The table's filter
+   and autocomplete read how many active assets carry each tag from one
+   `equipmentStats/tagCounts` doc, kept in the same transaction as every
+   write that changes an asset's tags or archives/restores it (see
+   scripts/backfill-tag-counts.mjs for assets written before it existed).
+   The analytics dimension counts them from the asset list.
+---------------------------------------- */
+
+function tagCountsRef() {
+	return doc(db, 'equipmentStats', 'tagCounts');
+}
+
+// archived assets don't count
+function countedTags(data: DocumentData | undefined): string[] {
+	return data && !data.archivedAt ? normalizeTags(data.tags) : [];
+}
+
+/** Adds the change from `before` to `after` to `deltas` (tag -> +/-n). */
+function diffTagCounts(
+	before: string[],
+	after: string[],
+	deltas = new Map<string, number>()
+) {
+	for (const tag of before) {
+		if (!after.includes(tag)) deltas.set(tag, (deltas.get(tag) ?? 0) - 1);
+	}
+	for (const tag of after) {
+		if (!before.includes(tag)) deltas.set(tag, (deltas.get(tag) ?? 0) + 1);
+	}
+	return deltas;
+}
+
+// no reads, so it can go after the transaction's other writes
+function writeTagCountsInTransaction(
+	tx: Transaction,
+	deltas: Map<string, number>
+) {
+	const counts: Record<string, ReturnType<typeof increment>> = {};
+	deltas.forEach((delta, tag) => {
+		if (delta !== 0) counts[tag] = increment(delta);
+	});
+	if (Object.keys(counts).length === 0) return;
+
+	// a nested map (not field paths), so tags may contain dots
+	tx.set(tagCountsRef(), { counts }, { merge: true });
+}
+
+/** Tags of active assets, most used first. */
+export const getTagCounts = async (): Promise<TagCount[]> => {
+	const snap = await getDoc(tagCountsRef());
+	const counts = (snap.data()?.counts ?? {}) as Record<string, number>;
+
+	return sortTagCounts(
+		Object.entries(counts)
+			.filter(([, count]) => count > 0)
+			.map(([tag, count]) => ({ tag, count }))
+	);
+};
+
+/**
+ * Adds and/or removes tags on several assets, one revisioned write each
+ * (like an edit). Archived assets are skipped. Returns how many changed.
+ */
+export const bulkUpdateEquipmentTags = async (
+	ids: string[],
+	changes: { add?: string[]; remove?: string[] },
+	actor: { uid: string; email?: string | null }
+): Promise<number> => {
+	const add = normalizeTags(changes.add);
+	const remove = normalizeTags(changes.remove);
+	if (add.length === 0 && remove.length === 0) throw new Error('NO_TAGS');
+
+	const message = [
+		add.length ? `Tagged ${add.join(', ')}` : '',
+		remove.length ? `Untagged ${remove.join(', ')}` : ''
+	]
+		.filter(Boolean)
+		.join('; ');
+
+	let updated = 0;
+
+	for (const id of ids) {
+		const didUpdate = await patchEquipmentFields(
+			id,
+			(current) =>
+				current.archivedAt
+					? {}
+					: { tags: applyTagChanges(current.tags, { add, remove }) },
+			actor,
+			message
+		);
+		if (didUpdate) updated += 1;
+	}
+
+	return updated;
+};
+
+/* ---------------------------------------
+   Transfers
+   Moving an asset to another location or owning team is recorded as an
+   `equipment.transferred` event carrying from/to, the effective date and
+   who requested and approved it. Those events are the custody log.
+---------------------------------------- */
+
+const TRANSFER_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toEquipmentTransfer(
+	id: string,
+	data: DocumentData
+): EquipmentTransfer {
+	const details = (data.metadata ?? {}) as EquipmentTransferDetails & {
+		equipmentName?: string;
+	};
+	const recordedAt = data.createdAt?.toDate?.() as Date | undefined;
+
+	return {
+		...details,
+		id,
+		equipmentId: data.equipmentId,
+		actorId: data.actorId,
+		actorEmail: data.actorEmail ?? null,
+		recordedAt: recordedAt?.toISOString()
+	};
+}
+
+// newest effective date first; same day: newest recorded first
+function sortTransfersDesc(transfers: EquipmentTransfer[]) {
+	return transfers.sort(
+		(a, b) =>
+			b.effectiveDate.localeCompare(a.effectiveDate) ||
+			(b.recordedAt ?? '').localeCompare(a.recordedAt ?? '')
+	);
+}
+
+export const getEquipmentTransfers = async (
+	equipmentId: string
+): Promise<EquipmentTransfer[]> => {
+	const snapshot = await getDocs(
+		query(
+			eventsCollection(equipmentId),
+			where('type', '==', 'equipment.transferred')
+		)
+	);
+
+	return sortTransfersDesc(
+		snapshot.docs.map((d) => toEquipmentTransfer(d.id, d.data()))
+	);
+};
+
+/**
+ * Transfers of every asset effective between `from` and `to` (yyyy-MM-dd,
+ * inclusive), via a collection group query over `events` (see the
+ * composite index in firestore.indexes.json).
+ */
+export const getTransfersBetween = async (
+	from: string,
+	to: string
+): Promise<EquipmentTransfer[]> => {
+	const snapshot = await getDocs(
+		query(
+			collectionGroup(db, 'events'),
+			where('type', '==', 'equipment.transferred'),
+			where('metadata.effectiveDate', '>=', from),
+			where('metadata.effectiveDate', '<=', to)
+		)
+	);
+
+	return sortTransfersDesc(
+		snapshot.docs.map((d) => toEquipmentTransfer(d.id, d.data()))
+	);
+};
+
+/**
+ * Moves the asset to another location and/or owner. A location id equal to
+ * the current one keeps the stored label (legacy free text included).
+ */
+export const transferEquipment = async (
+	id: string,
+	input: EquipmentTransferInput,
+	actor: { uid: string; email?: string | null }
+): Promise<void> => {
+	const ref = doc(db, 'equipments', id);
+
+	const requestedBy = input.requestedBy.trim();
+	const approvedBy = input.approvedBy.trim();
+	if (!requestedBy || !approvedBy) throw new Error('APPROVAL_REQUIRED');
+	if (!TRANSFER_DATE_PATTERN.test(input.effectiveDate)) {
+		throw new Error('INVALID_DATE');
+	}
+
+	await runTransaction(db, async (tx) => {
+		const snap = await tx.get(ref);
+		if (!snap.exists()) throw new Error('NOT_FOUND');
+
+		const current = snap.data() as Omit<Equipment, 'id'>;
+		if (current.archivedAt) throw new Error('ARCHIVED');
+
+		const fromLocationId = current.locationId ?? '';
+		const fromLocation = current.location?.trim() ?? '';
+		const fromOwner = current.owner?.trim() ?? '';
+		const toLocationId = input.toLocationId ?? fromLocationId;
+		const toOwner = input.toOwner?.trim() ?? fromOwner;
+
+		const locationChanged = toLocationId !== fromLocationId;
+		let toLocation = fromLocation;
+
+		if (locationChanged && toLocationId) {
+			const locationSnap = await tx.get(doc(db, 'locations', toLocationId));
+			if (!locationSnap.exists() || locationSnap.data().isArchived) {
+				throw new Error('LOCATION_NOT_FOUND');
+			}
+			toLocation = locationSnap.data().path;
+		} else if (locationChanged) {
+			toLocation = '';
+		}
+
+		if (!locationChanged && toOwner === fromOwner) {
+			throw new Error('TRANSFER_UNCHANGED');
+		}
+
+		const details: EquipmentTransferDetails = {
+			fromLocationId: fromLocationId || undefined,
+			fromLocation: fromLocation || undefined,
+			toLocationId: toLocationId || undefined,
+			toLocation: toLocation || undefined,
+			fromOwner: fromOwner || undefined,
+			toOwner: toOwner || undefined,
+			effectiveDate: input.effectiveDate,
+			requestedBy,
+			approvedBy,
+			notes: input.notes?.trim() || undefined
+		};
+		const metadata: Record<string, any> = {
+			...details,
+			equipmentName: current.name
+		};
+		Object.keys(metadata).forEach(
+			(k) => metadata[k] === undefined && delete metadata[k]
+		);
+
+		const nextRevision = (current.revision ?? 0) + 1;
+		// '' clears, same as the edit form
+		const patch = {
+			locationId: toLocationId,
+			location: toLocation,
+			owner: toOwner,
+			revision: nextRevision,
+
+			updatedBy: actor.uid,
+			updatedByEmail: actor.email ?? null,
+			updatedAt: serverTimestamp()
+		};
+
+		tx.update(ref, patch);
+
+		const moves = [
+			locationChanged &&
+				`${fromLocation || 'no location'} → ${toLocation || 'no location'}`,
+			toOwner !== fromOwner &&
+				`${fromOwner || 'no owner'} → ${toOwner || 'no owner'}`
+		].filter(Boolean);
+
+		addEquipmentEventInTransaction(tx, id, {
+			type: 'equipment.transferred',
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null,
+			message: `Transferred: ${moves.join(' • ')}`,
+			metadata
+		});
+
+		addBaselineRevisionInTransaction(tx, id, current);
+		addRevisionInTransaction(tx, id, {
+			revision: nextRevision,
+			reason: 'equipment.transferred',
+			data: { ...current, ...patch },
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null
+		});
+	});
+};
+
+/* ---------------------------------------
+   Create / Update / Archive
+---------------------------------------- */
+
+// stored fields of a new asset, minus the custom field values (checked
+// against the category) and the status period
+function buildNewEquipmentPayload(
+	data: EquipmentInput,
+	actor: { uid: string; email?: string | null }
+) {
+	const serialNormalized = normalizeSerialNumber(data.serialNumber ?? '');
+
+	const meters = toMeterDefinitions(data.meters ?? []);
+	const plans = normalizeMaintenancePlans(data.maintenancePlans, {
+		fallbackLastServiceDate: data.lastServiceDate,
+		meters
+	});
+	const next = getEarliestDuePlan(plans)?.nextServiceDate;
+
+	const payload: Omit<Equipment, 'id'> & Record<string, any> = {
+		...data,
+
+		maintenancePlans: plans,
+		meters,
+		nextServiceDate: next,
+		parentId: data.parentId || undefined,
+		locationId: data.locationId || undefined,
+		categoryId: data.categoryId || undefined,
+		customFields: undefined, // validated in the transaction
+		tags: data.tags ? normalizeTags(data.tags) : undefined,
+
+		serialNumberNormalized: serialNormalized || undefined,
+
+		...buildSortKeys({ ...data, nextServiceDate: next }),
+		isArchived: false,
+		revision: 1,
+
+		createdBy: actor.uid,
+		createdByEmail: actor.email ?? null,
+		updatedBy: actor.uid,
+		updatedByEmail: actor.email ?? null,
+
+		archivedAt: null,
+		archivedBy: null,
+		archivedByEmail: null,
+
+		createdAt: serverTimestamp(),
+		updatedAt: serverTimestamp()
+	};
+
+	// remove only undefined optional fields
+	Object.keys(payload).forEach(
+		(k) => payload[k] === undefined && delete payload[k]
+	);
+	return payload;
+}
+
+export const createEquipment = async (
+	data: EquipmentInput,
+	actor: { uid: string; email?: string | null },
+	options: { statusReason?: StatusChangeReason } = {}
+): Promise<void> => {
+	const serial = data.serialNumber?.trim() ?? '';
+	const serialNormalized = normalizeSerialNumber(serial);
+
+	assertStatusChangeAllowed(null, data.status, {
+		reason: options.statusReason,
+		openCorrectiveWorkOrders: 0
+	});
+
+	const equipmentRef = doc(equipmentsCollection); // pre-generate id
+	const payload = buildNewEquipmentPayload(data, actor);
+
+	await runTransaction(db, async (tx) => {
+		if (data.parentId) {
+			await assertValidParentInTransaction(tx, equipmentRef.id, data.parentId);
+		}
+
+		if (data.categoryId) {
+			payload.customFields = await resolveCustomFieldsInTransaction(
+				tx,
+				data.categoryId,
+				data.customFields
+			);
+		}
+
+		if (serialNormalized) {
+			const reservationRef = serialReservationRef(serialNormalized);
+			const reservation = await tx.get(reservationRef);
+
+			if (reservation.exists()) throw new Error('SERIAL_ALREADY_EXISTS');
+
+			reserveSerialInTransaction(tx, reservationRef, equipmentRef.id, serial);
+		}
+
+		Object.assign(
+			payload,
+			recordStatusChangeInTransaction(
+				tx,
+				equipmentRef.id,
+				null,
+				data.status,
+				actor,
+				options.statusReason
+			)
+		);
+
+		tx.set(equipmentRef, payload);
+		writeTagCountsInTransaction(tx, diffTagCounts([], countedTags(payload)));
+
+		addEquipmentEventInTransaction(tx, equipmentRef.id, {
+			type: 'equipment.created',
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null,
+			message: 'Asset created'
+		});
+
+		addRevisionInTransaction(tx, equipmentRef.id, {
+			revision: 1,
+			reason: 'equipment.created',
+			data: payload,
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null
+		});
+	});
+};
+
+export interface UpdateEquipmentOptions {
+	/**
+	 * Revision the caller loaded. When set, the write is rejected with an
+	 * EquipmentConflictError if someone saved the asset in the meantime.
+	 */
+	expectedRevision?: number;
+	// stored on the status period opened when the status changes
+	statusReason?: StatusChangeReason;
+}
+
+type EquipmentUpdateEvent = Pick<
+	EquipmentEvent,
+	'type' | 'message' | 'metadata'
+>;
+
+/**
+ * Shared write path of updateEquipment and rollbackEquipmentToRevision.
+ * `describe` builds the main event from the field changes it computed.
+ * Rollbacks restore a recorded state, so they skip the status rules and
+ * the custom field schema.
+ */
+async function runEquipmentUpdate(
+	id: string,
+	data: EquipmentInput,
+	actor: { uid: string; email?: string | null },
+	options: UpdateEquipmentOptions,
+	describe: (changes: EquipmentFieldChange[]) => EquipmentUpdateEvent,
+	enforceRules = true
+): Promise<void> {
+	const ref = doc(db, 'equipments', id);
+
+	const serial = data.serialNumber?.trim() ?? '';
+	const serialNormalized = normalizeSerialNumber(serial);
+
+	const openCorrectiveWorkOrders =
+		enforceRules && statusHasGuard(data.status, 'no_open_corrective_work_order')
+			? await countOpenCorrectiveWorkOrders(id)
+			: 0;
+
+	await runTransaction(db, async (tx) => {
+		const snap = await tx.get(ref);
+		if (!snap.exists()) throw new Error('NOT_FOUND');
+
+		const current: Equipment = {
+			id: snap.id,
+			...(snap.data() as Omit<Equipment, 'id'>)
+		};
+
+		// plans and meters depend on the stored readings, so they're
+		// rebuilt from what this transaction read
+		const meters = mergeMeterReadings(data.meters ?? [], current.meters);
+		const plans = normalizeMaintenancePlans(
+			withStoredPlanReadings(
+				data.maintenancePlans,
+				resolveMaintenancePlans(current)
+			),
+			{ fallbackLastServiceDate: data.lastServiceDate, meters }
+		);
+		const next = getEarliestDuePlan(plans)?.nextServiceDate;
+
+		const patch: Record<string, any> = {
+			...data,
+			maintenancePlans: plans,
+			meters,
+			nextServiceDate: next,
+			tags: data.tags ? normalizeTags(data.tags) : undefined,
+			serialNumberNormalized: serialNormalized || undefined,
+
+			...buildSortKeys({ ...data, nextServiceDate: next }),
+
+			updatedBy: actor.uid,
+			updatedByEmail: actor.email ?? null,
+			updatedAt: serverTimestamp()
+		};
+
+		Object.keys(patch).forEach(
+			(k) => patch[k] === undefined && delete patch[k]
+		);
+
+		// assets written before revisions existed count as revision 0
+		const currentRevision = current.revision ?? 0;
+
+		if (
+			typeof options.expectedRevision === 'number' &&
+			options.expectedRevision !== currentRevision
+		) {
+			throw new EquipmentConflictError(current);
+		}
+
+		if (data.parentId && data.parentId !== (current.parentId ?? '')) {
+			await assertValidParentInTransaction(tx, id, data.parentId);
+		}
+
+		// undefined keeps the stored category and values
+		if (
+			enforceRules &&
+			(data.categoryId !== undefined || data.customFields !== undefined)
+		) {
+			patch.customFields = await resolveCustomFieldsInTransaction(
+				tx,
+				data.categoryId ?? current.categoryId,
+				data.customFields ?? current.customFields
+			);
+		}
+
+		// archived assets don't hold a reservation (see archiveEquipment)
+		const holdsSerial = !current.archivedAt;
+		const previousNormalized = getStoredSerialNormalized(current);
+		const serialChanged = serialNormalized !== previousNormalized;
+
+		const nextReservationRef = serialNormalized
+			? serialReservationRef(serialNormalized)
+			: null;
+		const previousReservationRef =
+			serialChanged && previousNormalized
+				? serialReservationRef(previousNormalized)
+				: null;
+
+		const nextReservation =
+			holdsSerial && nextReservationRef
+				? await tx.get(nextReservationRef)
+				: null;
+		const previousReservation =
+			holdsSerial && previousReservationRef
+				? await tx.get(previousReservationRef)
+				: null;
+
+		// only block on a new serial; legacy duplicates predate reservations
+		if (serialChanged && isReservationHeldByOther(nextReservation, id)) {
+			throw new Error('SERIAL_ALREADY_EXISTS');
+		}
+
+		if (nextReservationRef && nextReservation && !nextReservation.exists()) {
+			reserveSerialInTransaction(tx, nextReservationRef, id, serial);
+		}
+
+		if (
+			previousReservationRef &&
+			isReservationHeldBy(previousReservation, id)
+		) {
+			tx.delete(previousReservationRef);
+		}
+
+		if (data.status !== current.status) {
+			if (enforceRules) {
+				assertStatusChangeAllowed(current.status, data.status, {
+					reason: options.statusReason,
+					openCorrectiveWorkOrders
+				});
+			}
+
+			Object.assign(
+				patch,
+				recordStatusChangeInTransaction(
+					tx,
+					id,
+					current,
+					data.status,
+					actor,
+					options.statusReason
+				)
+			);
+		}
+
+		const nextRevision = currentRevision + 1;
+		tx.update(ref, { ...patch, revision: nextRevision });
+		writeTagCountsInTransaction(
+			tx,
+			diffTagCounts(countedTags(current), countedTags({ ...current, ...patch }))
+		);
+
+		// patch has no undefined keys, so omitted fields keep their stored value
+		const changes = diffEquipmentInput(
+			{ ...current, maintenancePlans: resolveMaintenancePlans(current) },
+			{ ...current, ...patch }
+		);
+		const event = describe(changes);
+
+		addEquipmentEventInTransaction(tx, id, {
+			...event,
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null
+		});
+
+		const statusChange = changes.find((c) => c.field === 'status');
+		if (statusChange) {
+			addEquipmentEventInTransaction(tx, id, {
+				type: 'equipment.status_changed',
+				actorId: actor.uid,
+				actorEmail: actor.email ?? null,
+				message: `Status changed to ${getStatusDefinition(String(statusChange.to)).label}`,
+				metadata: {
+					from: statusChange.from,
+					to: statusChange.to,
+					...buildStatusReasonFields(options.statusReason)
+				}
+			});
+		}
+
+		addBaselineRevisionInTransaction(tx, id, snap.data());
+		addRevisionInTransaction(tx, id, {
+			revision: nextRevision,
+			reason: event.type,
+			data: { ...snap.data(), ...patch, revision: nextRevision },
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null
+		});
+	});
+}
+
+export const updateEquipment = async (
+	id: string,
+	data: EquipmentInput,
+	actor: { uid: string; email?: string | null },
+	options: UpdateEquipmentOptions = {}
+): Promise<void> => {
+	await runEquipmentUpdate(id, data, actor, options, (changes) => ({
+		type: 'equipment.updated',
+		message:
+			changes.length === 1
+				? 'Asset updated (1 field)'
+				: `Asset updated (${changes.length} fields)`,
+		metadata: { changes }
+	}));
+};
+
+function toEquipmentInput(snapshot: EquipmentRevisionSnapshot): EquipmentInput {
+	return {
+		name: snapshot.name,
+		serialNumber: snapshot.serialNumber ?? '',
+		status: snapshot.status,
+		purchaseDate: snapshot.purchaseDate,
+		lastServiceDate: snapshot.lastServiceDate,
+		maintenancePlans: resolveMaintenancePlans(snapshot),
+		meters: toMeterDefinitions(snapshot.meters ?? []),
+		// '' (not undefined) so fields that were empty back then get cleared
+		owner: snapshot.owner ?? '',
+		location: snapshot.location ?? '',
+		locationId: snapshot.locationId ?? '',
+		parentId: snapshot.parentId ?? '',
+		categoryId: snapshot.categoryId ?? '',
+		customFields: snapshot.customFields ?? {},
+		tags: snapshot.tags ?? []
+	};
+}
+
+/**
+ * Writes the asset fields of a previous revision back as a new revision.
+ * History is never rewritten: the rollback is one more revision and event.
+ */
+export const rollbackEquipmentToRevision = async (
+	id: string,
+	revision: number,
+	actor: { uid: string; email?: string | null },
+	options: UpdateEquipmentOptions = {}
+): Promise<void> => {
+	// revisions are immutable, so reading outside the transaction is safe
+	const snap = await getDoc(doc(revisionsCollection(id), String(revision)));
+	if (!snap.exists()) throw new Error('REVISION_NOT_FOUND');
+
+	const target = snap.data() as Omit<EquipmentRevision, 'id'>;
+
+	await runEquipmentUpdate(
+		id,
+		toEquipmentInput(target.snapshot),
+		actor,
+		options,
+		(changes) => ({
+			type: 'equipment.rolled_back',
+			message: `Rolled back to revision ${revision}`,
+			metadata: { toRevision: revision, changes }
+		}),
+		false
+	);
+};
+
+/**
+ * Moves the asset to `status` and keeps every other field, through the
+ * same status rules and events as an edit (bulk status change). Throws
+ * EquipmentConflictError if the asset is saved in between.
+ */
+export const changeEquipmentStatus = async (
+	id: string,
+	status: Equipment['status'],
+	actor: { uid: string; email?: string | null },
+	statusReason?: StatusChangeReason
+): Promise<void> => {
+	const current = await getEquipmentById(id);
+	if (!current) throw new Error('NOT_FOUND');
+	if (current.archivedAt) throw new Error('ARCHIVED');
+	if (current.status === status) throw new Error('STATUS_UNCHANGED');
+
+	await runEquipmentUpdate(
+		id,
+		{
+			...toEquipmentInput(current),
+			status,
+			// undefined keeps the stored category and values
+			categoryId: undefined,
+			customFields: undefined
+		},
+		actor,
+		{ expectedRevision: current.revision ?? 0, statusReason },
+		(changes) => ({
+			type: 'equipment.updated',
+			message: 'Status updated',
+			metadata: { changes }
+		})
+	);
+};
+
+// what happens to the children of an archived asset
+export type ArchiveChildrenMode = 'archive' | 'detach' | 'keep';
+
+/**
+ * Archives the asset. Its active children are then archived too (down the
+ * whole subtree), detached to the top level, or kept linked, one
+ * transaction per child. A child that fails doesn't stop the others; the
+ * asset stays archived and ARCHIVE_CHILDREN_FAILED is thrown at the end.
+ */
+export const archiveEquipment = async (
+	id: string,
+	actor: { uid: string; email?: string | null },
+	options: { children?: ArchiveChildrenMode } = {}
+): Promise<void> => {
+	const ref = doc(db, 'equipments', id);
+
+	const patch: Record<string, any> = {
+		isArchived: true,
+		archivedAt: serverTimestamp(),
+		archivedBy: actor.uid,
+		archivedByEmail: actor.email ?? null,
+
+		updatedBy: actor.uid,
+		updatedByEmail: actor.email ?? null,
+		updatedAt: serverTimestamp()
+	};
+
+	await runTransaction(db, async (tx) => {
+		const snap = await tx.get(ref);
+		if (!snap.exists()) throw new Error('NOT_FOUND');
+		if (snap.data().archivedAt) throw new Error('ALREADY_ARCHIVED');
+
+		// release the serial so a replacement asset can use it
+		const normalized = getStoredSerialNormalized(snap.data());
+		const reservationRef = normalized ? serialReservationRef(normalized) : null;
+		const reservation = reservationRef ? await tx.get(reservationRef) : null;
+
+		const nextRevision = (snap.data().revision ?? 0) + 1;
+		tx.update(ref, { ...patch, revision: nextRevision });
+		writeTagCountsInTransaction(
+			tx,
+			diffTagCounts(countedTags(snap.data()), [])
+		);
+
+		if (reservationRef && isReservationHeldBy(reservation, id)) {
+			tx.delete(reservationRef);
+		}
+
+		addEquipmentEventInTransaction(tx, id, {
+			type: 'equipment.archived',
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null,
+			message: 'Asset archived'
+		});
+
+		addBaselineRevisionInTransaction(tx, id, snap.data());
+		addRevisionInTransaction(tx, id, {
+			revision: nextRevision,
+			reason: 'equipment.archived',
+			data: { ...snap.data(), ...patch, revision: nextRevision },
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null
+		});
 	});
 
-	await batch.commit();
+	const mode = options.children ?? 'keep';
+	if (mode === 'keep') return;
+
+	const children = (await getEquipmentChildren(id)).filter(
+		(child) => !child.archivedAt
+	);
+
+	let failed = 0;
+	for (const child of children) {
+		try {
+			if (mode === 'archive') {
+				await archiveEquipment(child.id, actor, { children: 'archive' });
+			} else {
+				await detachEquipmentFromParent(child.id, actor);
+			}
+		} catch (err) {
+			// archived meanwhile (e.g. picked in the same bulk archive)
+			if (err instanceof Error && err.message === 'ALREADY_ARCHIVED') continue;
+			failed += 1;
+		}
+	}
+
+	if (failed > 0) throw new Error('ARCHIVE_CHILDREN_FAILED');
 };
 
 export const unarchiveEquipment = async (
@@ -394,6 +2191,7 @@ export const unarchiveEquipment = async (
 	const ref = doc(db, 'equipments', id);
 
 	const patch: Record<string, any> = {
+		isArchived: false,
 		archivedAt: null,
 		archivedBy: null,
 		archivedByEmail: null,
@@ -403,17 +2201,490 @@ export const unarchiveEquipment = async (
 		updatedAt: serverTimestamp()
 	};
 
-	const batch = writeBatch(db);
-	batch.update(ref, patch);
+	await runTransaction(db, async (tx) => {
+		const snap = await tx.get(ref);
+		if (!snap.exists()) throw new Error('NOT_FOUND');
+		if (!snap.data().archivedAt) throw new Error('NOT_ARCHIVED');
 
-	addEquipmentEventInBatch(batch, id, {
-		type: 'equipment.unarchived',
-		actorId: actor.uid,
-		actorEmail: actor.email ?? null,
-		message: 'Asset restored'
+		// reclaim the serial; fails if another active asset took it meanwhile
+		const data = snap.data();
+		const normalized = getStoredSerialNormalized(data);
+		const reservationRef = normalized ? serialReservationRef(normalized) : null;
+		const reservation = reservationRef ? await tx.get(reservationRef) : null;
+
+		if (isReservationHeldByOther(reservation, id)) {
+			throw new Error('SERIAL_ALREADY_EXISTS');
+		}
+
+		if (reservationRef) {
+			reserveSerialInTransaction(
+				tx,
+				reservationRef,
+				id,
+				String(data?.serialNumber ?? '').trim()
+			);
+		}
+
+		const nextRevision = (data?.revision ?? 0) + 1;
+		const restored = {
+			...patch,
+			serialNumberNormalized: normalized || null,
+			revision: nextRevision
+		};
+		tx.update(ref, restored);
+		writeTagCountsInTransaction(
+			tx,
+			diffTagCounts([], normalizeTags(data.tags))
+		);
+
+		addEquipmentEventInTransaction(tx, id, {
+			type: 'equipment.unarchived',
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null,
+			message: 'Asset restored'
+		});
+
+		addBaselineRevisionInTransaction(tx, id, snap.data());
+		addRevisionInTransaction(tx, id, {
+			revision: nextRevision,
+			reason: 'equipment.unarchived',
+			data: { ...data, ...restored },
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null
+		});
+	});
+};
+
+/* ---------------------------------------
+   Import
+   Rows checked by the import wizard's dry run. New assets are written
+   in chunked transactions (asset, serial reservation, status period,
+   created event and revision 1 per row); rows matching an existing asset
+   go through updateEquipment, one revisioned write each.
+---------------------------------------- */
+
+// 5 writes per new asset; a transaction takes at most 500
+const IMPORT_BATCH_SIZE = 50;
+
+export interface EquipmentImportRow {
+	rowNumber: number;
+	data: EquipmentInput;
+	statusReason?: StatusChangeReason;
+	// update: the matched asset and the revision the dry run saw
+	equipmentId?: string;
+	expectedRevision?: number;
+}
+
+export interface EquipmentImportResult {
+	created: number;
+	updated: number;
+	// error codes, as thrown by createEquipment/updateEquipment
+	failed: Array<{ rowNumber: number; error: string }>;
+}
+
+function toWriteErrorCode(err: unknown) {
+	if (err instanceof EquipmentConflictError) return 'CONFLICT';
+	return err instanceof Error ? err.message : 'UNKNOWN';
+}
+
+/**
+ * The dry run already checked every row, but time passes between the
+ * preview and the commit: status rules and categories are checked again
+ * right before each chunk and serial reservations inside its transaction,
+ * and rows that no longer pass are reported instead of written. A chunk
+ * that fails to commit reports its rows and the import goes on.
+ */
+export const importEquipments = async (
+	rows: EquipmentImportRow[],
+	actor: { uid: string; email?: string | null },
+	options: { onProgress?: (done: number, total: number) => void } = {}
+): Promise<EquipmentImportResult> => {
+	const result: EquipmentImportResult = { created: 0, updated: 0, failed: [] };
+	const creates = rows.filter((r) => !r.equipmentId);
+	const updates = rows.filter((r) => r.equipmentId);
+
+	const categories = new Map<string, Promise<AssetCategory | null>>();
+	const getCategory = (id: string) => {
+		if (!categories.has(id)) {
+			categories.set(
+				id,
+				getDoc(doc(db, 'categories', id)).then((snap) =>
+					snap.exists()
+						? { id: snap.id, ...(snap.data() as Omit<AssetCategory, 'id'>) }
+						: null
+				)
+			);
+		}
+		return categories.get(id)!;
+	};
+
+	const claimedSerials = new Set<string>();
+	let done = 0;
+
+	for (let i = 0; i < creates.length; i += IMPORT_BATCH_SIZE) {
+		const chunk = creates.slice(i, i + IMPORT_BATCH_SIZE);
+
+		const checked = await Promise.all(
+			chunk.map(async (row) => {
+				try {
+					assertStatusChangeAllowed(null, row.data.status, {
+						reason: row.statusReason,
+						openCorrectiveWorkOrders: 0
+					});
+
+					let customFields: Record<string, CustomFieldValue> | undefined;
+					if (row.data.categoryId) {
+						const category = await getCategory(row.data.categoryId);
+						if (!category) throw new Error('CATEGORY_NOT_FOUND');
+						customFields = validateCustomFields(
+							category,
+							row.data.customFields
+						);
+					}
+
+					// reservations are read in the chunk's transaction; here only
+					// repeats within the file
+					const serial = row.data.serialNumber.trim();
+					const serialNormalized = normalizeSerialNumber(serial);
+					if (serialNormalized) {
+						if (claimedSerials.has(serialNormalized)) {
+							throw new Error('SERIAL_ALREADY_EXISTS');
+						}
+						claimedSerials.add(serialNormalized);
+					}
+
+					return { row, serial, serialNormalized, customFields };
+				} catch (err) {
+					result.failed.push({
+						rowNumber: row.rowNumber,
+						error: toWriteErrorCode(err)
+					});
+					return null;
+				}
+			})
+		);
+
+		const items = checked.filter((item) => item !== null);
+
+		try {
+			// the callback may run again on contention: it only returns what
+			// it wrote and what it skipped
+			const outcome = await runTransaction(db, async (tx) => {
+				const reservations = await Promise.all(
+					items.map((item) =>
+						item.serialNormalized
+							? tx.get(serialReservationRef(item.serialNormalized))
+							: null
+					)
+				);
+
+				const taken: number[] = [];
+				const tagDeltas = new Map<string, number>();
+				let written = 0;
+
+				items.forEach((item, index) => {
+					const { row, serial, serialNormalized, customFields } = item;
+
+					// another admin created or restored an asset with this serial
+					if (reservations[index]?.exists()) {
+						taken.push(row.rowNumber);
+						return;
+					}
+
+					const equipmentRef = doc(equipmentsCollection); // pre-generate id
+					const payload = buildNewEquipmentPayload(row.data, actor);
+					if (customFields) payload.customFields = customFields;
+
+					if (serialNormalized) {
+						reserveSerialInTransaction(
+							tx,
+							serialReservationRef(serialNormalized),
+							equipmentRef.id,
+							serial
+						);
+					}
+
+					Object.assign(
+						payload,
+						recordStatusChangeInTransaction(
+							tx,
+							equipmentRef.id,
+							null,
+							row.data.status,
+							actor,
+							row.statusReason
+						)
+					);
+
+					tx.set(equipmentRef, payload);
+					diffTagCounts([], countedTags(payload), tagDeltas);
+
+					addEquipmentEventInTransaction(tx, equipmentRef.id, {
+						type: 'equipment.created',
+						actorId: actor.uid,
+						actorEmail: actor.email ?? null,
+						message: 'Asset created (import)'
+					});
+
+					addRevisionInTransaction(tx, equipmentRef.id, {
+						revision: 1,
+						reason: 'equipment.created',
+						data: payload,
+						actorId: actor.uid,
+						actorEmail: actor.email ?? null
+					});
+
+					written += 1;
+				});
+
+				// one write for the whole chunk
+				writeTagCountsInTransaction(tx, tagDeltas);
+
+				return { written, taken };
+			});
+
+			result.created += outcome.written;
+			outcome.taken.forEach((rowNumber) =>
+				result.failed.push({ rowNumber, error: 'SERIAL_ALREADY_EXISTS' })
+			);
+		} catch (err) {
+			// nothing of this chunk was written
+			const error = toWriteErrorCode(err);
+			items.forEach((item) =>
+				result.failed.push({ rowNumber: item.row.rowNumber, error })
+			);
+		}
+
+		done += chunk.length;
+		options.onProgress?.(done, rows.length);
+	}
+
+	for (const row of updates) {
+		try {
+			await updateEquipment(row.equipmentId!, row.data, actor, {
+				expectedRevision: row.expectedRevision,
+				statusReason: row.statusReason
+			});
+			result.updated += 1;
+		} catch (err) {
+			result.failed.push({
+				rowNumber: row.rowNumber,
+				error: toWriteErrorCode(err)
+			});
+		}
+
+		done += 1;
+		options.onProgress?.(done, rows.length);
+	}
+
+	result.failed.sort((a, b) => a.rowNumber - b.rowNumber);
+	return result;
+};
+
+/* ---------------------------------------
+   Bulk actions
+   Selected assets are written in chunks. Each asset is still its own
+   transaction (the write re-reads it for its revision, and archive and
+   restore also the serial reservation) with its own events, so one asset
+   failing never rolls back the others: failures are reported per asset.
+---------------------------------------- */
+
+const BULK_CHUNK_SIZE = 10;
+
+export type EquipmentBulkAction =
+	| { type: 'archive'; children: ArchiveChildrenMode }
+	| { type: 'restore' }
+	| {
+			type: 'status';
+			status: Equipment['status'];
+			reason?: StatusChangeReason;
+	  }
+	| { type: 'transfer'; transfer: EquipmentTransferInput }
+	| {
+			type: 'maintenance';
+			record: Omit<MaintenanceRecordInput, 'planIds'>;
+			// counts as a service of every plan of each asset, or of none
+			allPlans: boolean;
+	  };
+
+export interface EquipmentBulkResult {
+	updated: number;
+	// already in the requested state, or archived
+	skipped: number;
+	// error codes, as thrown by the single-asset writes
+	failed: Array<{ equipmentId: string; error: string }>;
+}
+
+const BULK_SKIPPED_ERRORS = [
+	'ALREADY_ARCHIVED',
+	'NOT_ARCHIVED',
+	'ARCHIVED',
+	'STATUS_UNCHANGED',
+	'TRANSFER_UNCHANGED'
+];
+
+async function logBulkMaintenance(
+	id: string,
+	action: Extract<EquipmentBulkAction, { type: 'maintenance' }>,
+	actor: { uid: string; email?: string | null }
+) {
+	const ref = doc(db, 'equipments', id);
+
+	await runTransaction(db, async (tx) => {
+		const snap = await tx.get(ref);
+		if (!snap.exists()) throw new Error('NOT_FOUND');
+		if (snap.data().archivedAt) throw new Error('ARCHIVED');
+
+		const planIds = action.allPlans
+			? resolveMaintenancePlans(snap.data() as Omit<Equipment, 'id'>).map(
+					(p) => p.id
+				)
+			: [];
+
+		addMaintenanceRecordInTransaction(
+			tx,
+			id,
+			snap.data(),
+			{ ...action.record, planIds },
+			actor
+		);
 	});
+}
+
+function runBulkAction(
+	id: string,
+	action: EquipmentBulkAction,
+	actor: { uid: string; email?: string | null }
+): Promise<void> {
+	switch (action.type) {
+		case 'archive':
+			return archiveEquipment(id, actor, { children: action.children });
+		case 'restore':
+			return unarchiveEquipment(id, actor);
+		case 'status':
+			return changeEquipmentStatus(id, action.status, actor, action.reason);
+		case 'transfer':
+			return transferEquipment(id, action.transfer, actor);
+		case 'maintenance':
+			return logBulkMaintenance(id, action, actor);
+	}
+}
+
+/**
+ * Nearest ancestor of each id that is also in `ids`, if any, and how many
+ * selected ancestors it has (its level).
+ */
+async function findSelectedAncestors(ids: string[]) {
+	const selected = new Set(ids);
+	const parentOf = new Map<string, string | undefined>();
+
+	const readParent = async (id: string) => {
+		if (!parentOf.has(id)) {
+			const snap = await getDoc(doc(db, 'equipments', id));
+			parentOf.set(id, snap.data()?.parentId || undefined);
+		}
+		return parentOf.get(id);
+	};
+
+	const found = new Map<string, { nearest?: string; level: number }>();
+
+	for (let i = 0; i < ids.length; i += BULK_CHUNK_SIZE) {
+		await Promise.all(
+			ids.slice(i, i + BULK_CHUNK_SIZE).map(async (id) => {
+				let nearest: string | undefined;
+				let level = 0;
+				let cursor = await readParent(id);
+
+				for (
+					let depth = 0;
+					cursor && cursor !== id && depth < MAX_HIERARCHY_DEPTH;
+					depth++
+				) {
+					if (selected.has(cursor)) {
+						nearest ??= cursor;
+						level += 1;
+					}
+					cursor = await readParent(cursor);
+				}
+
+				found.set(id, { nearest, level });
+			})
+		);
+	}
+
+	return found;
+}
 
-	await batch.commit();
+/**
+ * Archiving with children walks each subtree, so a parent and a child
+ * picked together would race. Their ids run level by level instead,
+ * ancestors first.
+ */
+function groupBulkIds(
+	ids: string[],
+	ancestors: Map<string, { nearest?: string; level: number }>
+): string[][] {
+	const levels: string[][] = [];
+	for (const id of ids) {
+		const level = ancestors.get(id)?.level ?? 0;
+		(levels[level] ??= []).push(id);
+	}
+	return levels.filter(Boolean);
+}
+
+export const bulkUpdateEquipments = async (
+	ids: string[],
+	action: EquipmentBulkAction,
+	actor: { uid: string; email?: string | null },
+	options: { onProgress?: (done: number, total: number) => void } = {}
+): Promise<EquipmentBulkResult> => {
+	const result: EquipmentBulkResult = { updated: 0, skipped: 0, failed: [] };
+
+	const ancestors =
+		action.type === 'archive' && action.children === 'archive'
+			? await findSelectedAncestors(ids)
+			: new Map<string, { nearest?: string; level: number }>();
+	// archived along with their whole subtree
+	const archivedSubtrees = new Set<string>();
+
+	let done = 0;
+	for (const group of groupBulkIds(ids, ancestors)) {
+		// descendants of a subtree archived above are dropped: already done
+		const pending = group.filter((id) => {
+			const nearest = ancestors.get(id)?.nearest;
+			if (!nearest || !archivedSubtrees.has(nearest)) return true;
+			archivedSubtrees.add(id);
+			result.updated += 1;
+			return false;
+		});
+		if (pending.length < group.length) {
+			done += group.length - pending.length;
+			options.onProgress?.(done, ids.length);
+		}
+
+		for (let i = 0; i < pending.length; i += BULK_CHUNK_SIZE) {
+			const chunk = pending.slice(i, i + BULK_CHUNK_SIZE);
+			const settled = await Promise.allSettled(
+				chunk.map((id) => runBulkAction(id, action, actor))
+			);
+
+			settled.forEach((outcome, index) => {
+				if (outcome.status === 'fulfilled') {
+					archivedSubtrees.add(chunk[index]);
+					result.updated += 1;
+					return;
+				}
+				const error = toWriteErrorCode(outcome.reason);
+				if (BULK_SKIPPED_ERRORS.includes(error)) result.skipped += 1;
+				else result.failed.push({ equipmentId: chunk[index], error });
+			});
+
+			done += chunk.length;
+			options.onProgress?.(done, ids.length);
+		}
+	}
+
+	return result;
 };
 
 /* ---------------------------------------
@@ -424,6 +2695,123 @@ function maintenanceCollection(equipmentId: string) {
 	return collection(db, 'equipments', equipmentId, 'maintenance');
 }
 
+// what a record says about the service itself (not audit/void bookkeeping)
+const MAINTENANCE_RECORD_FIELDS = [
+	'date',
+	'type',
+	'notes',
+	'laborHours',
+	'laborCost',
+	'technician',
+	'vendor',
+	'parts',
+	'totalCost',
+	'currency',
+	'planIds'
+] as const;
+
+export const DEFAULT_MAINTENANCE_CURRENCY = 'USD';
+
+// to the cent, so float noise (0.1 + 0.2) never reaches stored totals
+function roundMoney(value: number) {
+	return Math.round(value * 100) / 100;
+}
+
+export function computeMaintenanceTotalCost(
+	data: Pick<MaintenanceRecordInput, 'laborCost' | 'parts'>
+): number {
+	const partsCost = (data.parts ?? []).reduce(
+		(sum, p) => sum + p.quantity * p.unitCost,
+		0
+	);
+	return roundMoney((data.laborCost ?? 0) + partsCost);
+}
+
+// trims text, drops empty optionals and derives totalCost
+function buildMaintenanceFields(
+	data: MaintenanceRecordInput
+): Record<string, any> {
+	const parts = (data.parts ?? [])
+		.filter((p) => p.name.trim())
+		.map((p) => ({
+			name: p.name.trim(),
+			quantity: p.quantity,
+			unitCost: roundMoney(p.unitCost)
+		}));
+
+	const laborCost =
+		typeof data.laborCost === 'number' ? roundMoney(data.laborCost) : undefined;
+	const hasCost = laborCost !== undefined || parts.length > 0;
+
+	const fields: Record<string, any> = {
+		date: data.date,
+		type: data.type,
+		notes: data.notes?.trim() || undefined,
+
+		laborHours: data.laborHours,
+		laborCost,
+		technician: data.technician?.trim() || undefined,
+		vendor: data.vendor?.trim() || undefined,
+		parts: parts.length > 0 ? parts : undefined,
+
+		totalCost: hasCost
+			? computeMaintenanceTotalCost({ laborCost, parts })
+			: undefined,
+		currency: hasCost
+			? data.currency || DEFAULT_MAINTENANCE_CURRENCY
+			: undefined,
+
+		// kept even when empty: [] = satisfies no plan (see recordPlanIds)
+		planIds: data.planIds ? Array.from(new Set(data.planIds)) : undefined
+	};
+
+	Object.keys(fields).forEach(
+		(k) => fields[k] === undefined && delete fields[k]
+	);
+	return fields;
+}
+
+// records logged before plans existed count towards the legacy plan
+function recordPlanIds(record: Pick<MaintenanceRecord, 'planIds'>) {
+	return record.planIds ?? [LEGACY_MAINTENANCE_PLAN_ID];
+}
+
+// "yyyy-MM-dd" strings compare in date order
+function laterDate(a?: string, b?: string) {
+	if (!a) return b;
+	if (!b) return a;
+	return a > b ? a : b;
+}
+
+// restarts a plan from a service; meter plans count from `reading`
+// (the meter's current reading when not given)
+function withPlanService(
+	plan: MaintenancePlan,
+	service: { date?: string; reading?: number },
+	meters: EquipmentMeter[] = []
+): MaintenancePlan {
+	return normalizeMaintenancePlans(
+		[
+			{
+				...plan,
+				lastServiceDate: service.date,
+				lastServiceReading: service.reading
+			}
+		],
+		{ meters }
+	)[0];
+}
+
+function pickMaintenanceFields(
+	record: Partial<MaintenanceRecord>
+): Record<string, any> {
+	const fields: Record<string, any> = {};
+	for (const key of MAINTENANCE_RECORD_FIELDS) {
+		if (record[key] !== undefined) fields[key] = record[key];
+	}
+	return fields;
+}
+
 export const getMaintenanceHistory = async (
 	equipmentId: string
 ): Promise<MaintenanceRecord[]> => {
@@ -436,70 +2824,710 @@ export const getMaintenanceHistory = async (
 	}));
 };
 
-export const addMaintenanceRecord = async (
+/**
+ * Writes a maintenance record and moves the asset's service dates. Runs in
+ * a transaction that has already read the asset (`existing`), since every
+ * read must happen before the first write. Returns the new record id.
+ * Used by addMaintenanceRecord and by work order completion.
+ */
+export function addMaintenanceRecordInTransaction(
+	tx: Transaction,
 	equipmentId: string,
-	data: Omit<
-		MaintenanceRecord,
-		'id' | 'createdAt' | 'createdBy' | 'createdByEmail'
-	>,
-	actor: { uid: string; email?: string | null }
-): Promise<void> => {
-	// Read interval first (read outside batch is OK)
+	existing: DocumentData,
+	data: MaintenanceRecordInput,
+	actor: { uid: string; email?: string | null },
+	extra: { workOrderId?: string } = {}
+): string {
 	const equipmentRef = doc(db, 'equipments', equipmentId);
-	const snap = await getDoc(equipmentRef);
+	const maintenanceRef = doc(maintenanceCollection(equipmentId)); // auto-id
 
-	let interval = 180;
-	if (snap.exists()) {
-		const existing = snap.data() as any;
-		if (typeof existing?.serviceIntervalDays === 'number')
-			interval = existing.serviceIntervalDays;
-	}
+	// only the plans picked for this service move forward
+	const plans = resolveMaintenancePlans(existing as Omit<Equipment, 'id'>);
+	const meters: EquipmentMeter[] = existing.meters ?? [];
+	const planIds = plans
+		.map((p) => p.id)
+		.filter((planId) => data.planIds?.includes(planId));
+
+	const previousPlanServiceDates: Record<string, string> = {};
+	const planServiceReadings: Record<string, number> = {};
+	const previousPlanServiceReadings: Record<string, number> = {};
+	const nextPlans = plans.map((plan) => {
+		if (!planIds.includes(plan.id)) return plan;
+		if (plan.lastServiceDate) {
+			previousPlanServiceDates[plan.id] = plan.lastServiceDate;
+		}
 
-	const nextServiceDate = computeNextServiceDate(data.date, interval);
+		// meter plans restart from the latest reading
+		const reading = meters.find((m) => m.id === plan.meterId)?.reading;
+		if (typeof reading === 'number') {
+			planServiceReadings[plan.id] = reading;
+			if (plan.lastServiceReading !== undefined) {
+				previousPlanServiceReadings[plan.id] = plan.lastServiceReading;
+			}
+		}
 
-	const maintenanceRef = doc(maintenanceCollection(equipmentId)); // auto-id
+		return withPlanService(
+			plan,
+			{ date: laterDate(plan.lastServiceDate, data.date), reading },
+			meters
+		);
+	});
 
 	const maintenancePayload: Omit<MaintenanceRecord, 'id'> &
 		Record<string, any> = {
-		date: data.date,
-		type: data.type,
-		notes: data.notes?.trim() || undefined,
+		...(buildMaintenanceFields(data) as MaintenanceRecordInput),
+		planIds,
+		...(existing.lastServiceDate
+			? { previousLastServiceDate: existing.lastServiceDate }
+			: {}),
+		...(Object.keys(previousPlanServiceDates).length > 0
+			? { previousPlanServiceDates }
+			: {}),
+		...(Object.keys(planServiceReadings).length > 0
+			? { planServiceReadings }
+			: {}),
+		...(Object.keys(previousPlanServiceReadings).length > 0
+			? { previousPlanServiceReadings }
+			: {}),
+		...(extra.workOrderId ? { workOrderId: extra.workOrderId } : {}),
 
 		createdBy: actor.uid,
 		createdByEmail: actor.email ?? null,
 		createdAt: serverTimestamp()
 	};
 
-	Object.keys(maintenancePayload).forEach(
-		(k) => maintenancePayload[k] === undefined && delete maintenancePayload[k]
-	);
+	const lastServiceDate = laterDate(existing.lastServiceDate, data.date);
+	const nextServiceDate = getEarliestDuePlan(nextPlans)?.nextServiceDate;
+	const nextRevision = (existing.revision ?? 0) + 1;
 
 	const equipmentPatch: Record<string, any> = {
-		lastServiceDate: data.date,
+		lastServiceDate,
+		maintenancePlans: nextPlans,
 		nextServiceDate,
+		nextServiceSortKey: nextServiceDate || NO_NEXT_SERVICE_SORT_KEY,
+		revision: nextRevision,
 
 		updatedBy: actor.uid,
 		updatedByEmail: actor.email ?? null,
 		updatedAt: serverTimestamp()
 	};
 
-	const batch = writeBatch(db);
+	Object.keys(equipmentPatch).forEach(
+		(k) => equipmentPatch[k] === undefined && delete equipmentPatch[k]
+	);
 
-	batch.set(maintenanceRef, maintenancePayload);
-	batch.update(equipmentRef, equipmentPatch);
+	tx.set(maintenanceRef, maintenancePayload);
+	tx.update(equipmentRef, equipmentPatch);
 
-	addEquipmentEventInBatch(batch, equipmentId, {
+	addEquipmentEventInTransaction(tx, equipmentId, {
 		type: 'maintenance.added',
 		actorId: actor.uid,
 		actorEmail: actor.email ?? null,
-		message: 'Maintenance record added',
+		message: extra.workOrderId
+			? 'Maintenance record added from work order'
+			: 'Maintenance record added',
 		metadata: {
 			date: data.date,
 			maintenanceType: data.type,
-			nextServiceDate,
-			serviceIntervalDays: interval
+			nextServiceDate: nextServiceDate ?? null,
+			planIds,
+			plans: nextPlans.filter((p) => planIds.includes(p.id)).map((p) => p.task),
+			...(extra.workOrderId ? { workOrderId: extra.workOrderId } : {})
+		}
+	});
+
+	addBaselineRevisionInTransaction(tx, equipmentId, existing);
+	addRevisionInTransaction(tx, equipmentId, {
+		revision: nextRevision,
+		reason: 'maintenance.added',
+		data: { ...existing, ...equipmentPatch },
+		actorId: actor.uid,
+		actorEmail: actor.email ?? null
+	});
+
+	return maintenanceRef.id;
+}
+
+export const addMaintenanceRecord = async (
+	equipmentId: string,
+	data: MaintenanceRecordInput,
+	actor: { uid: string; email?: string | null }
+): Promise<void> => {
+	const equipmentRef = doc(db, 'equipments', equipmentId);
+
+	// transaction (not a batch) so the revision snapshot matches what's stored
+	await runTransaction(db, async (tx) => {
+		const snap = await tx.get(equipmentRef);
+		if (!snap.exists()) throw new Error('NOT_FOUND');
+
+		addMaintenanceRecordInTransaction(
+			tx,
+			equipmentId,
+			snap.data(),
+			data,
+			actor
+		);
+	});
+};
+
+// how many times a maintenance edit/void re-reads history before giving up
+const MAINTENANCE_CHANGE_ATTEMPTS = 3;
+
+/**
+ * Shared path of updateMaintenanceRecord and voidMaintenanceRecord.
+ *
+ * Firestore transactions can't run queries, so the history is read first
+ * and the transaction then checks the asset revision it was read at. Every
+ * maintenance write bumps that revision, so a mismatch means the history
+ * moved and the whole read is retried.
+ */
+async function runMaintenanceChange(
+	equipmentId: string,
+	recordId: string,
+	actor: { uid: string; email?: string | null },
+	change: {
+		type: 'maintenance.updated' | 'maintenance.voided';
+		message: string;
+		reason: string;
+		// null = void the record
+		next: MaintenanceRecordInput | null;
+	}
+): Promise<void> {
+	const reason = change.reason.trim();
+	if (!reason) throw new Error('REASON_REQUIRED');
+
+	const equipmentRef = doc(db, 'equipments', equipmentId);
+	const recordRef = doc(maintenanceCollection(equipmentId), recordId);
+
+	for (let attempt = 1; ; attempt++) {
+		const [equipmentSnap, history] = await Promise.all([
+			getDoc(equipmentRef),
+			getMaintenanceHistory(equipmentId)
+		]);
+		if (!equipmentSnap.exists()) throw new Error('NOT_FOUND');
+
+		const readRevision = equipmentSnap.data().revision;
+
+		try {
+			await runTransaction(db, async (tx) => {
+				const snap = await tx.get(equipmentRef);
+				const recordSnap = await tx.get(recordRef);
+
+				if (!snap.exists()) throw new Error('NOT_FOUND');
+				if (!recordSnap.exists()) throw new Error('MAINTENANCE_NOT_FOUND');
+
+				const existing = snap.data();
+				const record = recordSnap.data() as Omit<MaintenanceRecord, 'id'>;
+
+				if (existing.revision !== readRevision) {
+					throw new StaleMaintenanceHistoryError({
+						id: snap.id,
+						...(existing as Omit<Equipment, 'id'>)
+					});
+				}
+				if (record.voided) throw new Error('MAINTENANCE_VOIDED');
+
+				const before = pickMaintenanceFields(record);
+				const after = change.next ? buildMaintenanceFields(change.next) : null;
+
+				// non-voided records, with this change applied
+				const remaining: Array<
+					Pick<MaintenanceRecord, 'date' | 'planIds' | 'planServiceReadings'>
+				> = history.filter((r) => !r.voided && r.id !== recordId);
+				if (after) {
+					remaining.push({
+						date: after.date,
+						planIds: after.planIds,
+						planServiceReadings: record.planServiceReadings
+					});
+				}
+
+				const latestRecord = (planId?: string) =>
+					remaining
+						.filter((r) => !planId || recordPlanIds(r).includes(planId))
+						.sort((a, b) => a.date.localeCompare(b.date))
+						.pop();
+				const latestDate = (planId?: string) => latestRecord(planId)?.date;
+
+				// records that don't say what they replaced (logged before that was
+				// kept, or nothing was on record) fall back to the stored date only
+				// when it is later than the record; otherwise the record set it
+				const unlessSetByRecord = (date?: string) =>
+					date && date > record.date ? date : undefined;
+
+				// no service left on record: back to the date before this one
+				const lastServiceDate =
+					latestDate() ??
+					record.previousLastServiceDate ??
+					unlessSetByRecord(existing.lastServiceDate);
+
+				// plans this record satisfied before or after the change
+				const affected = new Set([
+					...recordPlanIds(record),
+					...(after ? recordPlanIds(after) : [])
+				]);
+
+				const plans = resolveMaintenancePlans(
+					existing as Omit<Equipment, 'id'>
+				);
+				const nextPlans = plans.map((plan) => {
+					if (!affected.has(plan.id)) return plan;
+
+					const latest = latestRecord(plan.id);
+					const fallback =
+						record.previousPlanServiceDates?.[plan.id] ??
+						(plan.id === LEGACY_MAINTENANCE_PLAN_ID
+							? record.previousLastServiceDate
+							: undefined) ??
+						unlessSetByRecord(plan.lastServiceDate);
+					const fallbackReading =
+						record.previousPlanServiceReadings?.[plan.id] ??
+						plan.lastServiceReading;
+
+					return withPlanService(
+						plan,
+						{
+							date: latest?.date ?? fallback,
+							reading: latest
+								? (latest.planServiceReadings?.[plan.id] ?? fallbackReading)
+								: fallbackReading
+						},
+						existing.meters
+					);
+				});
+
+				// without any service the stored due date came from this record too
+				const nextServiceDate =
+					getEarliestDuePlan(nextPlans)?.nextServiceDate ??
+					(lastServiceDate ? existing.nextServiceDate : undefined);
+				const nextRevision = (existing.revision ?? 0) + 1;
+
+				// fields cleared in the edit are removed, not left behind
+				const cleared: Record<string, any> = {};
+				if (after) {
+					MAINTENANCE_RECORD_FIELDS.filter((k) => !(k in after)).forEach(
+						(k) => (cleared[k] = deleteField())
+					);
+				}
+
+				const recordPatch: Record<string, any> = after
+					? {
+							...after,
+							...cleared,
+							updatedBy: actor.uid,
+							updatedByEmail: actor.email ?? null,
+							updatedAt: serverTimestamp(),
+							updateReason: reason
+						}
+					: {
+							voided: true,
+							voidedBy: actor.uid,
+							voidedByEmail: actor.email ?? null,
+							voidedAt: serverTimestamp(),
+							voidReason: reason
+						};
+
+				const equipmentPatch: Record<string, any> = {
+					lastServiceDate,
+					maintenancePlans: nextPlans,
+					nextServiceDate,
+					nextServiceSortKey: nextServiceDate || NO_NEXT_SERVICE_SORT_KEY,
+					revision: nextRevision,
+
+					updatedBy: actor.uid,
+					updatedByEmail: actor.email ?? null,
+					updatedAt: serverTimestamp()
+				};
+
+				Object.keys(equipmentPatch).forEach(
+					(k) => equipmentPatch[k] === undefined && delete equipmentPatch[k]
+				);
+
+				// dates left with nothing behind them are removed from the asset
+				const revisionData: Record<string, any> = {
+					...existing,
+					...equipmentPatch
+				};
+				if (!lastServiceDate) {
+					equipmentPatch.lastServiceDate = deleteField();
+					delete revisionData.lastServiceDate;
+				}
+				if (!nextServiceDate) {
+					equipmentPatch.nextServiceDate = deleteField();
+					delete revisionData.nextServiceDate;
+				}
+
+				tx.update(recordRef, recordPatch);
+				tx.update(equipmentRef, equipmentPatch);
+
+				addEquipmentEventInTransaction(tx, equipmentId, {
+					type: change.type,
+					actorId: actor.uid,
+					actorEmail: actor.email ?? null,
+					message: change.message,
+					metadata: {
+						recordId,
+						reason,
+						before,
+						after,
+						lastServiceDate: {
+							from: existing.lastServiceDate ?? null,
+							to: lastServiceDate ?? null
+						},
+						nextServiceDate: {
+							from: existing.nextServiceDate ?? null,
+							to: nextServiceDate ?? null
+						}
+					}
+				});
+
+				addBaselineRevisionInTransaction(tx, equipmentId, existing);
+				addRevisionInTransaction(tx, equipmentId, {
+					revision: nextRevision,
+					reason: change.type,
+					data: revisionData,
+					actorId: actor.uid,
+					actorEmail: actor.email ?? null
+				});
+			});
+			return;
+		} catch (err) {
+			if (!(err instanceof StaleMaintenanceHistoryError)) throw err;
+			if (attempt >= MAINTENANCE_CHANGE_ATTEMPTS) {
+				throw new EquipmentConflictError(err.current);
+			}
+		}
+	}
+}
+
+/**
+ * Service records of every asset from `since` (yyyy-MM-dd) on, voided ones
+ * included. Uses a collection group query over all `maintenance`
+ * subcollections (see the fieldOverrides in firestore.indexes.json).
+ */
+export const getMaintenanceRecordsSince = async (
+	since: string
+): Promise<MaintenanceRecordWithAsset[]> => {
+	const q = query(
+		collectionGroup(db, 'maintenance'),
+		where('date', '>=', since),
+		orderBy('date', 'asc')
+	);
+	const snapshot = await getDocs(q);
+
+	return snapshot.docs.map((d) => ({
+		id: d.id,
+		equipmentId: d.ref.parent.parent?.id ?? '',
+		...(d.data() as Omit<MaintenanceRecord, 'id'>)
+	}));
+};
+
+/**
+ * Corrects a logged record. The asset's last/next service dates are
+ * recomputed from the latest non-voided record afterwards.
+ */
+export const updateMaintenanceRecord = async (
+	equipmentId: string,
+	recordId: string,
+	data: MaintenanceRecordInput,
+	reason: string,
+	actor: { uid: string; email?: string | null }
+): Promise<void> => {
+	await runMaintenanceChange(equipmentId, recordId, actor, {
+		type: 'maintenance.updated',
+		message: 'Maintenance record edited',
+		reason,
+		next: data
+	});
+};
+
+/**
+ * Voided records stay visible in the history but stop counting as a
+ * service, so the asset's dates fall back to the latest remaining record
+ * (or to none, when no other service is known).
+ */
+export const voidMaintenanceRecord = async (
+	equipmentId: string,
+	recordId: string,
+	reason: string,
+	actor: { uid: string; email?: string | null }
+): Promise<void> => {
+	await runMaintenanceChange(equipmentId, recordId, actor, {
+		type: 'maintenance.voided',
+		message: 'Maintenance record voided',
+		reason,
+		next: null
+	});
+};
+
+/* ---------------------------------------
+   Meters
+   Readings are logged in equipments/{id}/meterReadings; the asset keeps
+   the latest one plus a short window for usage rates and forecasts.
+---------------------------------------- */
+
+function meterReadingsCollection(equipmentId: string) {
+	return collection(db, 'equipments', equipmentId, 'meterReadings');
+}
+
+export const getMeterReadings = async (
+	equipmentId: string,
+	max = 50
+): Promise<MeterReading[]> => {
+	const q = query(
+		meterReadingsCollection(equipmentId),
+		orderBy('date', 'desc'),
+		limit(max)
+	);
+	const snapshot = await getDocs(q);
+
+	return snapshot.docs.map((d) => ({
+		id: d.id,
+		...(d.data() as Omit<MeterReading, 'id'>)
+	}));
+};
+
+/**
+ * Logs a meter reading and re-forecasts the asset's plans from it.
+ * Meters only count up, so a reading lower than an earlier one (or higher
+ * than a later one) is rejected with INVALID_READING.
+ */
+export const addMeterReading = async (
+	equipmentId: string,
+	data: MeterReadingInput,
+	actor: { uid: string; email?: string | null }
+): Promise<void> => {
+	const equipmentRef = doc(db, 'equipments', equipmentId);
+	const readingRef = doc(meterReadingsCollection(equipmentId)); // auto-id
+
+	await runTransaction(db, async (tx) => {
+		const snap = await tx.get(equipmentRef);
+		if (!snap.exists()) throw new Error('NOT_FOUND');
+
+		const existing = snap.data() as Omit<Equipment, 'id'>;
+		if (existing.archivedAt) throw new Error('ARCHIVED');
+
+		const meters = existing.meters ?? [];
+		const meter = meters.find((m) => m.id === data.meterId);
+		if (!meter) throw new Error('METER_NOT_FOUND');
+
+		const outOfOrder = (meter.recentReadings ?? []).some(
+			(r) =>
+				(r.date <= data.date && r.value > data.value) ||
+				(r.date >= data.date && r.value < data.value)
+		);
+		if (!Number.isFinite(data.value) || data.value < 0 || outOfOrder) {
+			throw new Error('INVALID_READING');
 		}
+
+		const nextMeters = meters.map((m) =>
+			m.id === meter.id
+				? withMeterReading(m, { date: data.date, value: data.value })
+				: m
+		);
+		const plans = normalizeMaintenancePlans(resolveMaintenancePlans(existing), {
+			meters: nextMeters
+		});
+		const nextServiceDate = getEarliestDuePlan(plans)?.nextServiceDate;
+		const nextRevision = (existing.revision ?? 0) + 1;
+
+		const readingPayload: Record<string, any> = {
+			meterId: meter.id,
+			date: data.date,
+			value: data.value,
+			notes: data.notes?.trim() || undefined,
+
+			createdBy: actor.uid,
+			createdByEmail: actor.email ?? null,
+			createdAt: serverTimestamp()
+		};
+
+		const equipmentPatch: Record<string, any> = {
+			meters: nextMeters,
+			maintenancePlans: plans,
+			nextServiceDate,
+			nextServiceSortKey: nextServiceDate || NO_NEXT_SERVICE_SORT_KEY,
+			revision: nextRevision,
+
+			updatedBy: actor.uid,
+			updatedByEmail: actor.email ?? null,
+			updatedAt: serverTimestamp()
+		};
+
+		[readingPayload, equipmentPatch].forEach((payload) =>
+			Object.keys(payload).forEach(
+				(k) => payload[k] === undefined && delete payload[k]
+			)
+		);
+
+		tx.set(readingRef, readingPayload);
+		tx.update(equipmentRef, equipmentPatch);
+
+		addEquipmentEventInTransaction(tx, equipmentId, {
+			type: 'meter.reading_added',
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null,
+			message: `Meter reading logged: ${meter.name}`,
+			metadata: {
+				meterId: meter.id,
+				meter: meter.name,
+				unit: meter.unit,
+				date: data.date,
+				value: data.value,
+				nextServiceDate: nextServiceDate ?? null
+			}
+		});
+
+		addBaselineRevisionInTransaction(tx, equipmentId, existing);
+		addRevisionInTransaction(tx, equipmentId, {
+			revision: nextRevision,
+			reason: 'meter.reading_added',
+			data: { ...existing, ...equipmentPatch },
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null
+		});
 	});
+};
+
+/* ---------------------------------------
+   Live subscriptions (onSnapshot)
+   Same shapes as the one-shot getters above, so callers can write the
+   results straight into the React Query cache.
+---------------------------------------- */
+
+type SubscriptionErrorHandler = (error: Error) => void;
+
+export const subscribeToEquipmentsList = (
+	options: GetEquipmentsListOptions,
+	onData: (list: Equipment[]) => void,
+	onError?: SubscriptionErrorHandler
+): Unsubscribe => {
+	const constraints = buildListConstraints(options);
 
-	await batch.commit();
+	return onSnapshot(
+		query(equipmentsCollection, ...constraints),
+		(snapshot) => onData(toEquipmentsList(snapshot, options)),
+		onError
+	);
+};
+
+export const subscribeToEquipmentsPage = (
+	options: GetEquipmentsPageOptions,
+	onData: (page: EquipmentsPage) => void,
+	onError?: SubscriptionErrorHandler
+): Unsubscribe => {
+	const { filtered, paged, fields, pageSize, inMemory } =
+		buildPageQueries(options);
+
+	// listeners don't carry aggregate counts; re-count on every change
+	return onSnapshot(
+		paged,
+		(snapshot) => {
+			if (inMemory) {
+				onData(toSearchedEquipmentsPage(snapshot, fields, pageSize, inMemory));
+				return;
+			}
+
+			getCountFromServer(filtered)
+				.then((count) =>
+					onData(
+						toEquipmentsPage(
+							snapshot.docs,
+							fields,
+							pageSize,
+							count.data().count
+						)
+					)
+				)
+				.catch((err) => onError?.(err));
+		},
+		onError
+	);
+};
+
+export const subscribeToEquipment = (
+	id: string,
+	onData: (equipment: Equipment | undefined) => void,
+	onError?: SubscriptionErrorHandler
+): Unsubscribe => {
+	return onSnapshot(
+		doc(db, 'equipments', id),
+		(snap) =>
+			onData(
+				snap.exists()
+					? { id: snap.id, ...(snap.data() as Omit<Equipment, 'id'>) }
+					: undefined
+			),
+		onError
+	);
+};
+
+export const subscribeToEquipmentEvents = (
+	equipmentId: string,
+	max: number,
+	onData: (events: EquipmentEvent[]) => void,
+	onError?: SubscriptionErrorHandler
+): Unsubscribe => {
+	const q = query(
+		eventsCollection(equipmentId),
+		orderBy('createdAt', 'desc'),
+		limit(max)
+	);
+
+	return onSnapshot(
+		q,
+		(snapshot) =>
+			onData(
+				snapshot.docs.map((d) => ({
+					id: d.id,
+					...(d.data() as Omit<EquipmentEvent, 'id'>)
+				}))
+			),
+		onError
+	);
+};
+
+export const subscribeToMaintenanceHistory = (
+	equipmentId: string,
+	onData: (records: MaintenanceRecord[]) => void,
+	onError?: SubscriptionErrorHandler
+): Unsubscribe => {
+	const q = query(maintenanceCollection(equipmentId), orderBy('date', 'desc'));
+
+	return onSnapshot(
+		q,
+		(snapshot) =>
+			onData(
+				snapshot.docs.map((d) => ({
+					id: d.id,
+					...(d.data() as Omit<MaintenanceRecord, 'id'>)
+				}))
+			),
+		onError
+	);
+};
+
+export const subscribeToEquipmentRevisions = (
+	equipmentId: string,
+	max: number,
+	onData: (revisions: EquipmentRevision[]) => void,
+	onError?: SubscriptionErrorHandler
+): Unsubscribe => {
+	const q = query(
+		revisionsCollection(equipmentId),
+		orderBy('revision', 'desc'),
+		limit(max)
+	);
+
+	return onSnapshot(
+		q,
+		(snapshot) =>
+			onData(
+				snapshot.docs.map((d) => ({
+					id: d.id,
+					...(d.data() as Omit<EquipmentRevision, 'id'>)
+				}))
+			),
+		onError
+	);
 };
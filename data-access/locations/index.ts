@@ -0,0 +1,229 @@
+import { db } from '@/lib/firebase';
+import {
+	LOCATION_PARENT_KIND,
+	buildLocationPath,
+	isValidTimeZone,
+	normalizeLocationText
+} from '@/lib/locations';
+import {
+	assignEquipmentLocation,
+	getEquipmentsByLocation
+} from '@/data-access/equipments';
+import type { Location, LocationInput } from '@/types/locations';
+
+import {
+	collection,
+	doc,
+	getDoc,
+	getDocs,
+	orderBy,
+	query,
+	serverTimestamp,
+	setDoc,
+	updateDoc,
+	writeBatch
+} from 'firebase/firestore';
+
+const locationsCollection = collection(db, 'locations');
+
+/* ---------------------------------------
+   Reads
+---------------------------------------- */
+
+export const getLocations = async (
+	options: { includeArchived?: boolean } = {}
+): Promise<Location[]> => {
+	const snapshot = await getDocs(
+		query(locationsCollection, orderBy('path', 'asc'))
+	);
+
+	const locations = snapshot.docs.map((d) => ({
+		id: d.id,
+		...(d.data() as Omit<Location, 'id'>)
+	}));
+
+	return options.includeArchived
+		? locations
+		: locations.filter((l) => !l.isArchived);
+};
+
+/* ---------------------------------------
+   Writes
+---------------------------------------- */
+
+function buildLocationFields(input: LocationInput): Record<string, any> {
+	const fields: Record<string, any> = {
+		name: input.name.trim(),
+		kind: input.kind,
+		parentId: input.parentId || undefined,
+		address: input.address?.trim() || undefined,
+		timezone: input.timezone?.trim() || undefined
+	};
+
+	Object.keys(fields).forEach(
+		(k) => fields[k] === undefined && delete fields[k]
+	);
+	return fields;
+}
+
+/**
+ * Checks the parent kind, the timezone and that no sibling has the same
+ * name. Returns the parent (undefined for sites).
+ */
+function validateLocationInput(
+	input: LocationInput,
+	locations: Location[],
+	id?: string
+): Location | undefined {
+	const parentKind = LOCATION_PARENT_KIND[input.kind];
+	const parent = input.parentId
+		? locations.find((l) => l.id === input.parentId)
+		: undefined;
+
+	if (
+		parentKind === null ? Boolean(input.parentId) : parent?.kind !== parentKind
+	) {
+		throw new Error('INVALID_PARENT');
+	}
+
+	if (input.timezone?.trim() && !isValidTimeZone(input.timezone.trim())) {
+		throw new Error('INVALID_TIMEZONE');
+	}
+
+	const name = normalizeLocationText(input.name);
+	const duplicate = locations.some(
+		(l) =>
+			l.id !== id &&
+			!l.isArchived &&
+			(l.parentId ?? '') === (input.parentId ?? '') &&
+			normalizeLocationText(l.name) === name
+	);
+	if (duplicate) throw new Error('LOCATION_ALREADY_EXISTS');
+
+	return parent;
+}
+
+export const createLocation = async (
+	input: LocationInput,
+	actor: { uid: string; email?: string | null }
+): Promise<Location> => {
+	const locations = await getLocations();
+	const parent = validateLocationInput(input, locations);
+
+	const ref = doc(locationsCollection); // auto-id
+	const data = {
+		...buildLocationFields(input),
+		path: buildLocationPath(input.name, parent),
+		isArchived: false,
+
+		createdBy: actor.uid,
+		createdByEmail: actor.email ?? null,
+		createdAt: serverTimestamp(),
+		updatedBy: actor.uid,
+		updatedByEmail: actor.email ?? null,
+		updatedAt: serverTimestamp()
+	};
+
+	await setDoc(ref, data);
+
+	return { id: ref.id, ...(data as Omit<Location, 'id'>) };
+};
+
+// the location and everything under it
+function getSubtree(id: string, locations: Location[]): Location[] {
+	const children = locations.filter((l) => l.parentId === id);
+	return children.flatMap((c) => [c, ...getSubtree(c.id, locations)]);
+}
+
+/**
+ * Saves the location. A rename or move rewrites the paths below it and
+ * relabels the assets linked to any of them.
+ */
+export const updateLocation = async (
+	id: string,
+	input: LocationInput,
+	actor: { uid: string; email?: string | null }
+): Promise<void> => {
+	const locations = await getLocations();
+	const current = locations.find((l) => l.id === id);
+	if (!current) throw new Error('LOCATION_NOT_FOUND');
+
+	if (
+		input.parentId &&
+		getSubtree(id, locations).some((l) => l.id === input.parentId)
+	) {
+		throw new Error('INVALID_PARENT');
+	}
+
+	const parent = validateLocationInput(input, locations, id);
+	const path = buildLocationPath(input.name, parent);
+
+	// paths of the subtree, rebuilt top-down from the new path
+	const renamed: Array<Pick<Location, 'id' | 'path'>> = [];
+	if (path !== current.path) {
+		const pathById = new Map([[id, path]]);
+		for (const child of getSubtree(id, locations)) {
+			const childPath = buildLocationPath(child.name, {
+				path: pathById.get(child.parentId ?? '') ?? ''
+			});
+			pathById.set(child.id, childPath);
+			renamed.push({ id: child.id, path: childPath });
+		}
+		renamed.unshift({ id, path });
+	}
+
+	const batch = writeBatch(db);
+	batch.update(doc(locationsCollection, id), {
+		...buildLocationFields(input),
+		// cleared fields
+		...(input.parentId ? {} : { parentId: '' }),
+		...(input.address?.trim() ? {} : { address: '' }),
+		...(input.timezone?.trim() ? {} : { timezone: '' }),
+		path,
+		updatedBy: actor.uid,
+		updatedByEmail: actor.email ?? null,
+		updatedAt: serverTimestamp()
+	});
+	renamed
+		.filter((r) => r.id !== id)
+		.forEach((r) =>
+			batch.update(doc(locationsCollection, r.id), { path: r.path })
+		);
+	await batch.commit();
+
+	// one transaction per asset, like any other asset write
+	for (const location of renamed) {
+		const assets = await getEquipmentsByLocation(location.id);
+		for (const asset of assets) {
+			await assignEquipmentLocation(asset.id, location, actor);
+		}
+	}
+};
+
+/**
+ * Archived locations are hidden from pickers. Blocked while active child
+ * locations or active assets still point at it.
+ */
+export const archiveLocation = async (
+	id: string,
+	actor: { uid: string; email?: string | null }
+): Promise<void> => {
+	const ref = doc(locationsCollection, id);
+	const snap = await getDoc(ref);
+	if (!snap.exists()) throw new Error('LOCATION_NOT_FOUND');
+
+	const locations = await getLocations();
+	if (locations.some((l) => l.parentId === id)) {
+		throw new Error('LOCATION_HAS_CHILDREN');
+	}
+
+	const assets = await getEquipmentsByLocation(id);
+	if (assets.some((a) => !a.archivedAt)) throw new Error('LOCATION_IN_USE');
+
+	await updateDoc(ref, {
+		isArchived: true,
+		updatedBy: actor.uid,
+		updatedByEmail: actor.email ?? null,
+		updatedAt: serverTimestamp()
+	});
+};
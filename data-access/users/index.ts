@@ -1,6 +1,13 @@
 import { db } from '@/lib/firebase';
 import type { UserProfile } from '@/types/user-profile';
-import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import {
+	deleteField,
+	doc,
+	getDoc,
+	setDoc,
+	serverTimestamp,
+	updateDoc
+} from 'firebase/firestore';
 
 export const getUserProfile = async (
 	uid: string
@@ -50,3 +57,17 @@ export const ensureUserProfile = async (params: {
 		updatedAt: payload.updatedAt
 	};
 };
+
+/**
+ * Stores the equipments view the user lands on (null = back to the
+ * built-in default). Kept on the profile so it follows the user.
+ */
+export const setDefaultEquipmentsView = async (
+	uid: string,
+	viewKey: string | null
+): Promise<void> => {
+	await updateDoc(doc(db, 'users', uid), {
+		defaultEquipmentsView: viewKey ?? deleteField(),
+		updatedAt: serverTimestamp()
+	});
+};
@@ -0,0 +1,192 @@
+import { db } from '@/lib/firebase';
+import { getUserProfile } from '@/data-access/users';
+import type {
+	EquipmentsUserView,
+	EquipmentsUserViewInput,
+	EquipmentsViewState
+} from '@/types/views';
+
+import {
+	collection,
+	deleteDoc,
+	doc,
+	getDoc,
+	getDocs,
+	query,
+	serverTimestamp,
+	setDoc,
+	updateDoc,
+	where
+} from 'firebase/firestore';
+
+const viewsCollection = collection(db, 'equipmentViews');
+
+/* ---------------------------------------
+   Reads
+---------------------------------------- */
+
+/**
+ * Views the user can pick: every shared view plus their own personal ones,
+ * sorted by name.
+ */
+export const getEquipmentViews = async (
+	uid: string
+): Promise<EquipmentsUserView[]> => {
+	// duas queries simples: sem índice composto e sem "or"
+	const [shared, own] = await Promise.all([
+		getDocs(query(viewsCollection, where('visibility', '==', 'shared'))),
+		getDocs(query(viewsCollection, where('ownerId', '==', uid)))
+	]);
+
+	const byId = new Map<string, EquipmentsUserView>();
+	[...shared.docs, ...own.docs].forEach((d) =>
+		byId.set(d.id, {
+			id: d.id,
+			...(d.data() as Omit<EquipmentsUserView, 'id'>)
+		})
+	);
+
+	return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/* ---------------------------------------
+   Writes
+---------------------------------------- */
+
+function cleanViewState(state: EquipmentsViewState): EquipmentsViewState {
+	const clean: EquipmentsViewState & Record<string, any> = {
+		sort: state.sort,
+		includeArchived: Boolean(state.includeArchived),
+		archivedOnly: Boolean(state.archivedOnly),
+		status: state.status,
+		search: state.search.trim(),
+		maintenanceWindow: state.maintenanceWindow,
+		categoryId: state.categoryId || undefined,
+		customFieldFilter: state.categoryId
+			? (state.customFieldFilter ?? undefined)
+			: undefined,
+		tag: state.tag || undefined,
+		locationId: state.locationId || undefined,
+		hiddenColumns: state.hiddenColumns?.length
+			? state.hiddenColumns
+			: undefined,
+		shownColumns: state.shownColumns?.length ? state.shownColumns : undefined,
+		columnOrder: state.columnOrder?.length ? state.columnOrder : undefined
+	};
+
+	Object.keys(clean).forEach((k) => clean[k] === undefined && delete clean[k]);
+	if (clean.customFieldFilter) {
+		clean.customFieldFilter = Object.fromEntries(
+			Object.entries(clean.customFieldFilter).filter(([, v]) => v !== undefined)
+		) as EquipmentsViewState['customFieldFilter'];
+	}
+	return clean;
+}
+
+/**
+ * Names are unique among the views the user can see, case-insensitive.
+ */
+async function assertUniqueViewName(name: string, uid: string, id?: string) {
+	const views = await getEquipmentViews(uid);
+	const normalized = name.trim().toLowerCase();
+	if (
+		views.some((v) => v.id !== id && v.name.trim().toLowerCase() === normalized)
+	) {
+		throw new Error('VIEW_ALREADY_EXISTS');
+	}
+}
+
+// shared views are published and changed by admins only; the role is read
+// from the stored profile, not taken from the caller
+async function assertCanManageSharedViews(actor: { uid: string }) {
+	const profile = await getUserProfile(actor.uid);
+	if (profile?.role !== 'admin') throw new Error('VIEW_ADMIN_ONLY');
+}
+
+// personal views are only touched by their owner; shared ones by admins
+async function getEditableView(
+	id: string,
+	actor: { uid: string }
+): Promise<EquipmentsUserView> {
+	const snap = await getDoc(doc(viewsCollection, id));
+	if (!snap.exists()) throw new Error('VIEW_NOT_FOUND');
+
+	const view = {
+		id: snap.id,
+		...(snap.data() as Omit<EquipmentsUserView, 'id'>)
+	};
+	if (view.visibility === 'personal' && view.ownerId !== actor.uid) {
+		throw new Error('VIEW_NOT_OWNED');
+	}
+	if (view.visibility === 'shared') await assertCanManageSharedViews(actor);
+	return view;
+}
+
+export const createEquipmentView = async (
+	input: EquipmentsUserViewInput,
+	actor: { uid: string; email?: string | null }
+): Promise<EquipmentsUserView> => {
+	const name = input.name.trim();
+	if (!name) throw new Error('INVALID_NAME');
+	if (input.visibility === 'shared') await assertCanManageSharedViews(actor);
+	await assertUniqueViewName(name, actor.uid);
+
+	const ref = doc(viewsCollection); // auto-id
+	const data = {
+		name,
+		visibility: input.visibility,
+		state: cleanViewState(input.state),
+
+		ownerId: actor.uid,
+		ownerEmail: actor.email ?? null,
+		createdAt: serverTimestamp(),
+		updatedBy: actor.uid,
+		updatedByEmail: actor.email ?? null,
+		updatedAt: serverTimestamp()
+	};
+
+	await setDoc(ref, data);
+
+	return { id: ref.id, ...(data as Omit<EquipmentsUserView, 'id'>) };
+};
+
+/**
+ * Renames, republishes or overwrites the state of a view. Only the given
+ * fields change.
+ */
+export const updateEquipmentView = async (
+	id: string,
+	patch: Partial<EquipmentsUserViewInput>,
+	actor: { uid: string; email?: string | null }
+): Promise<void> => {
+	const view = await getEditableView(id, actor);
+	// publicar uma view pessoal também é só para admin
+	if (patch.visibility === 'shared' && view.visibility !== 'shared') {
+		await assertCanManageSharedViews(actor);
+	}
+
+	const fields: Record<string, any> = {};
+	if (patch.name !== undefined) {
+		const name = patch.name.trim();
+		if (!name) throw new Error('INVALID_NAME');
+		await assertUniqueViewName(name, actor.uid, id);
+		fields.name = name;
+	}
+	if (patch.visibility) fields.visibility = patch.visibility;
+	if (patch.state) fields.state = cleanViewState(patch.state);
+
+	await updateDoc(doc(viewsCollection, id), {
+		...fields,
+		updatedBy: actor.uid,
+		updatedByEmail: actor.email ?? null,
+		updatedAt: serverTimestamp()
+	});
+};
+
+export const deleteEquipmentView = async (
+	id: string,
+	actor: { uid: string }
+): Promise<void> => {
+	await getEditableView(id, actor);
+	await deleteDoc(doc(viewsCollection, id));
+};
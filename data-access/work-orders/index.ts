@@ -0,0 +1,396 @@
+import { db } from '@/lib/firebase';
+import { addDays, format } from 'date-fns';
+import { resolveMaintenancePlans } from '@/lib/maintenance-plans';
+import {
+	addEquipmentEventInTransaction,
+	addMaintenanceRecordInTransaction,
+	getEquipmentsList
+} from '@/data-access/equipments';
+import type { Equipment } from '@/types/equipment';
+import type { MaintenanceRecordInput } from '@/types/maintenance';
+import type {
+	WorkOrder,
+	WorkOrderInput,
+	WorkOrderStatus
+} from '@/types/work-orders';
+
+import {
+	collection,
+	doc,
+	getDocs,
+	limit,
+	orderBy,
+	query,
+	runTransaction,
+	serverTimestamp,
+	where,
+	type QueryConstraint
+} from 'firebase/firestore';
+
+const workOrdersCollection = collection(db, 'workOrders');
+
+/* ---------------------------------------
+   Lifecycle
+---------------------------------------- */
+
+export const WORK_ORDER_TRANSITIONS: Record<
+	WorkOrderStatus,
+	WorkOrderStatus[]
+> = {
+	open: ['scheduled', 'in_progress', 'on_hold', 'completed', 'cancelled'],
+	scheduled: ['open', 'in_progress', 'on_hold', 'completed', 'cancelled'],
+	in_progress: ['on_hold', 'completed', 'cancelled'],
+	on_hold: ['scheduled', 'in_progress', 'cancelled'],
+	completed: [],
+	cancelled: []
+};
+
+// still needs work; used for "one active preventive order per asset"
+export const ACTIVE_WORK_ORDER_STATUSES: WorkOrderStatus[] = [
+	'open',
+	'scheduled',
+	'in_progress',
+	'on_hold'
+];
+
+export function canTransitionWorkOrder(
+	from: WorkOrderStatus,
+	to: WorkOrderStatus
+): boolean {
+	return WORK_ORDER_TRANSITIONS[from].includes(to);
+}
+
+const STATUS_MESSAGE: Record<WorkOrderStatus, string> = {
+	open: 'Work order reopened',
+	scheduled: 'Work order scheduled',
+	in_progress: 'Work order started',
+	on_hold: 'Work order put on hold',
+	completed: 'Work order completed',
+	cancelled: 'Work order cancelled'
+};
+
+/* ---------------------------------------
+   Reads
+---------------------------------------- */
+
+export interface GetWorkOrdersOptions {
+	equipmentId?: string;
+	max?: number;
+}
+
+export const getWorkOrders = async (
+	options: GetWorkOrdersOptions = {}
+): Promise<WorkOrder[]> => {
+	const constraints: QueryConstraint[] = [];
+
+	if (options.equipmentId) {
+		constraints.push(where('equipmentId', '==', options.equipmentId));
+	}
+
+	const q = query(
+		workOrdersCollection,
+		...constraints,
+		orderBy('dueDate', 'asc'),
+		limit(options.max ?? 200)
+	);
+	const snapshot = await getDocs(q);
+
+	return snapshot.docs.map((d) => ({
+		id: d.id,
+		...(d.data() as Omit<WorkOrder, 'id'>)
+	}));
+};
+
+/* ---------------------------------------
+   Writes
+---------------------------------------- */
+
+function buildWorkOrderFields(input: WorkOrderInput): Record<string, any> {
+	const fields: Record<string, any> = {
+		equipmentId: input.equipmentId,
+		title: input.title.trim(),
+		description: input.description?.trim() || undefined,
+		type: input.type,
+		planId: input.planId || undefined,
+		priority: input.priority,
+		assignee: input.assignee?.trim() || undefined,
+		dueDate: input.dueDate,
+		scheduledDate: input.scheduledDate || undefined
+	};
+
+	Object.keys(fields).forEach(
+		(k) => fields[k] === undefined && delete fields[k]
+	);
+	return fields;
+}
+
+export const createWorkOrder = async (
+	input: WorkOrderInput,
+	actor: { uid: string; email?: string | null }
+): Promise<string> => {
+	const equipmentRef = doc(db, 'equipments', input.equipmentId);
+	const ref = doc(workOrdersCollection); // auto-id
+
+	await runTransaction(db, async (tx) => {
+		const snap = await tx.get(equipmentRef);
+		if (!snap.exists()) throw new Error('NOT_FOUND');
+
+		const equipment = snap.data() as Omit<Equipment, 'id'>;
+		if (equipment.archivedAt) throw new Error('ARCHIVED');
+
+		tx.set(ref, {
+			...buildWorkOrderFields(input),
+			equipmentName: equipment.name,
+			status: input.scheduledDate ? 'scheduled' : 'open',
+			source: 'manual',
+
+			createdBy: actor.uid,
+			createdByEmail: actor.email ?? null,
+			createdAt: serverTimestamp(),
+			updatedBy: actor.uid,
+			updatedByEmail: actor.email ?? null,
+			updatedAt: serverTimestamp()
+		});
+
+		addEquipmentEventInTransaction(tx, input.equipmentId, {
+			type: 'work_order.created',
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null,
+			message: `Work order created: ${input.title.trim()}`,
+			metadata: { workOrderId: ref.id, dueDate: input.dueDate }
+		});
+	});
+
+	return ref.id;
+};
+
+/**
+ * Moves a work order along its lifecycle. Completion goes through
+ * completeWorkOrder instead, since it also logs the maintenance.
+ */
+export const updateWorkOrderStatus = async (
+	id: string,
+	status: Exclude<WorkOrderStatus, 'completed'>,
+	actor: { uid: string; email?: string | null },
+	options: { reason?: string; scheduledDate?: string } = {}
+): Promise<void> => {
+	const ref = doc(workOrdersCollection, id);
+
+	await runTransaction(db, async (tx) => {
+		const snap = await tx.get(ref);
+		if (!snap.exists()) throw new Error('WORK_ORDER_NOT_FOUND');
+
+		const current = snap.data() as Omit<WorkOrder, 'id'>;
+		if (!canTransitionWorkOrder(current.status, status)) {
+			throw new Error('INVALID_TRANSITION');
+		}
+
+		const patch: Record<string, any> = {
+			status,
+			statusReason: options.reason?.trim() || undefined,
+			scheduledDate: options.scheduledDate || undefined,
+
+			updatedBy: actor.uid,
+			updatedByEmail: actor.email ?? null,
+			updatedAt: serverTimestamp()
+		};
+
+		Object.keys(patch).forEach(
+			(k) => patch[k] === undefined && delete patch[k]
+		);
+
+		tx.update(ref, patch);
+
+		addEquipmentEventInTransaction(tx, current.equipmentId, {
+			type: 'work_order.status_changed',
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null,
+			message: `${STATUS_MESSAGE[status]}: ${current.title}`,
+			metadata: {
+				workOrderId: id,
+				from: current.status,
+				to: status,
+				...(patch.statusReason ? { reason: patch.statusReason } : {})
+			}
+		});
+	});
+};
+
+/**
+ * Closes the work order and logs the service it describes, moving the
+ * asset's last/next service dates, all in one transaction. Without an
+ * explicit plan selection the order's own plan is the one satisfied.
+ */
+export const completeWorkOrder = async (
+	id: string,
+	data: MaintenanceRecordInput,
+	actor: { uid: string; email?: string | null }
+): Promise<void> => {
+	const ref = doc(workOrdersCollection, id);
+
+	await runTransaction(db, async (tx) => {
+		const snap = await tx.get(ref);
+		if (!snap.exists()) throw new Error('WORK_ORDER_NOT_FOUND');
+
+		const current = snap.data() as Omit<WorkOrder, 'id'>;
+		if (!canTransitionWorkOrder(current.status, 'completed')) {
+			throw new Error('INVALID_TRANSITION');
+		}
+
+		const equipmentRef = doc(db, 'equipments', current.equipmentId);
+		const equipmentSnap = await tx.get(equipmentRef);
+		if (!equipmentSnap.exists()) throw new Error('NOT_FOUND');
+
+		const recordId = addMaintenanceRecordInTransaction(
+			tx,
+			current.equipmentId,
+			equipmentSnap.data(),
+			{
+				...data,
+				planIds: data.planIds ?? (current.planId ? [current.planId] : [])
+			},
+			actor,
+			{ workOrderId: id }
+		);
+
+		tx.update(ref, {
+			status: 'completed',
+			maintenanceRecordId: recordId,
+			completedAt: serverTimestamp(),
+			completedBy: actor.uid,
+			completedByEmail: actor.email ?? null,
+
+			updatedBy: actor.uid,
+			updatedByEmail: actor.email ?? null,
+			updatedAt: serverTimestamp()
+		});
+
+		addEquipmentEventInTransaction(tx, current.equipmentId, {
+			type: 'work_order.status_changed',
+			actorId: actor.uid,
+			actorEmail: actor.email ?? null,
+			message: `${STATUS_MESSAGE.completed}: ${current.title}`,
+			metadata: {
+				workOrderId: id,
+				from: current.status,
+				to: 'completed',
+				maintenanceRecordId: recordId
+			}
+		});
+	});
+};
+
+/* ---------------------------------------
+   Preventive generation
+   There is no backend scheduler, so admin sessions run this when they
+   open the app. Ids are deterministic per asset + plan + due date, so two
+   sessions racing can't create the same order twice.
+---------------------------------------- */
+
+// same window as the dashboard's "due in 30 days" bucket
+const PREVENTIVE_WINDOW_DAYS = 30;
+
+function preventiveWorkOrderRef(
+	equipmentId: string,
+	planId: string,
+	dueDate: string
+) {
+	return doc(workOrdersCollection, `pm_${equipmentId}_${planId}_${dueDate}`);
+}
+
+/**
+ * Creates a preventive work order for every maintenance plan that is
+ * overdue or due within 30 days and has no active order yet. Returns how
+ * many were created.
+ */
+export const generatePreventiveWorkOrders = async (actor: {
+	uid: string;
+	email?: string | null;
+}): Promise<number> => {
+	// the list filters on the earliest plan, so any asset with a plan in
+	// the window is in one of these two
+	const [due, overdue, activeOrders] = await Promise.all([
+		getEquipmentsList({ maintenanceWindow: 'due_30' }),
+		getEquipmentsList({ maintenanceWindow: 'overdue' }),
+		getDocs(
+			query(
+				workOrdersCollection,
+				where('status', 'in', ACTIVE_WORK_ORDER_STATUSES)
+			)
+		)
+	]);
+
+	const covered = new Set(
+		activeOrders.docs
+			.map((d) => d.data() as Omit<WorkOrder, 'id'>)
+			.filter((w) => w.type === 'preventive' && w.planId)
+			.map((w) => `${w.equipmentId}:${w.planId}`)
+	);
+
+	const now = new Date();
+	const todayKey = format(now, 'yyyy-MM-dd');
+	const windowEndKey = format(
+		addDays(now, PREVENTIVE_WINDOW_DAYS),
+		'yyyy-MM-dd'
+	);
+
+	const candidates = [...overdue, ...due].flatMap((eq) =>
+		resolveMaintenancePlans(eq)
+			.filter(
+				(plan) =>
+					plan.nextServiceDate &&
+					plan.nextServiceDate <= windowEndKey &&
+					!covered.has(`${eq.id}:${plan.id}`)
+			)
+			.map((plan) => ({ eq, plan, dueDate: plan.nextServiceDate as string }))
+	);
+
+	let created = 0;
+
+	for (const { eq, plan, dueDate } of candidates) {
+		const ref = preventiveWorkOrderRef(eq.id, plan.id, dueDate);
+
+		const didCreate = await runTransaction(db, async (tx) => {
+			const snap = await tx.get(ref);
+			if (snap.exists()) return false;
+
+			tx.set(ref, {
+				equipmentId: eq.id,
+				equipmentName: eq.name,
+				title: `${plan.task} — ${eq.name}`,
+				type: 'preventive',
+				planId: plan.id,
+				status: 'open',
+				priority: dueDate < todayKey ? 'high' : 'medium',
+				source: 'auto',
+				dueDate,
+
+				createdBy: actor.uid,
+				createdByEmail: actor.email ?? null,
+				createdAt: serverTimestamp(),
+				updatedBy: actor.uid,
+				updatedByEmail: actor.email ?? null,
+				updatedAt: serverTimestamp()
+			});
+
+			addEquipmentEventInTransaction(tx, eq.id, {
+				type: 'work_order.created',
+				actorId: actor.uid,
+				actorEmail: actor.email ?? null,
+				message: `Preventive work order generated: ${plan.task}`,
+				metadata: {
+					workOrderId: ref.id,
+					dueDate,
+					planId: plan.id,
+					source: 'auto'
+				}
+			});
+
+			return true;
+		});
+
+		if (didCreate) created += 1;
+	}
+
+	return created;
+};
@@ -0,0 +1,18 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Atrasa a propagação de um valor (ex: busca digitada)
+ * para não disparar uma query a cada tecla.
+ */
+export function useDebouncedValue<T>(value: T, delayMs = 300) {
+	const [debounced, setDebounced] = useState(value);
+
+	useEffect(() => {
+		const timer = setTimeout(() => setDebounced(value), delayMs);
+		return () => clearTimeout(timer);
+	}, [value, delayMs]);
+
+	return debounced;
+}
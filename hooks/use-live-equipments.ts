@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useQueryClient, type QueryKey } from '@tanstack/react-query';
+import type { Unsubscribe } from 'firebase/firestore';
+
+import {
+	subscribeToEquipment,
+	subscribeToEquipmentEvents,
+	subscribeToEquipmentRevisions,
+	subscribeToEquipmentsList,
+	subscribeToEquipmentsPage,
+	subscribeToMaintenanceHistory,
+	type GetEquipmentsListOptions,
+	type GetEquipmentsPageOptions
+} from '@/data-access/equipments';
+
+/**
+ * Mantém uma query do React Query atualizada via onSnapshot:
+ * - o useQuery do componente continua fazendo o fetch inicial
+ * - cada snapshot sobrescreve o cache na mesma queryKey
+ * - se o listener falhar (ex: permissão), o cache segue com o último fetch
+ */
+function useCacheSubscription<T>(
+	queryKey: QueryKey,
+	subscribe: (
+		onData: (data: T) => void,
+		onError: (error: Error) => void
+	) => Unsubscribe,
+	enabled = true
+) {
+	const queryClient = useQueryClient();
+	const keyHash = JSON.stringify(queryKey);
+
+	useEffect(() => {
+		if (!enabled) return;
+
+		const unsubscribe = subscribe(
+			(data) => queryClient.setQueryData<T>(queryKey, data),
+			() => {
+				// sem live updates; o useQuery continua funcionando
+			}
+		);
+
+		return () => unsubscribe();
+		// queryKey/subscribe mudam de identidade a cada render; keyHash basta
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [queryClient, keyHash, enabled]);
+}
+
+export function useLiveEquipmentsPage(
+	queryKey: QueryKey,
+	options: GetEquipmentsPageOptions,
+	enabled = true
+) {
+	useCacheSubscription(
+		queryKey,
+		(onData, onError) => subscribeToEquipmentsPage(options, onData, onError),
+		enabled
+	);
+}
+
+export function useLiveEquipmentsList(
+	queryKey: QueryKey,
+	options: GetEquipmentsListOptions
+) {
+	useCacheSubscription(queryKey, (onData, onError) =>
+		subscribeToEquipmentsList(options, onData, onError)
+	);
+}
+
+export function useLiveEquipment(id: string) {
+	useCacheSubscription(
+		['equipments', id],
+		(onData, onError) => subscribeToEquipment(id, onData, onError),
+		Boolean(id)
+	);
+}
+
+export function useLiveEquipmentEvents(equipmentId: string, max = 25) {
+	useCacheSubscription(
+		['equipments', equipmentId, 'events'],
+		(onData, onError) =>
+			subscribeToEquipmentEvents(equipmentId, max, onData, onError),
+		Boolean(equipmentId)
+	);
+}
+
+export function useLiveMaintenanceHistory(equipmentId: string) {
+	useCacheSubscription(
+		['equipments', equipmentId, 'maintenance'],
+		(onData, onError) =>
+			subscribeToMaintenanceHistory(equipmentId, onData, onError),
+		Boolean(equipmentId)
+	);
+}
+
+export function useLiveEquipmentRevisions(equipmentId: string, max = 100) {
+	useCacheSubscription(
+		['equipments', equipmentId, 'revisions'],
+		(onData, onError) =>
+			subscribeToEquipmentRevisions(equipmentId, max, onData, onError),
+		Boolean(equipmentId)
+	);
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+
+import { useAuth } from '@/context/auth-context';
+import { useUserRole } from '@/hooks/use-user-role';
+import { generatePreventiveWorkOrders } from '@/data-access/work-orders';
+
+const LAST_RUN_KEY = 'assetops:preventive-work-orders:last-run';
+
+/**
+ * Gera ordens preventivas no máximo uma vez por dia por sessão de admin.
+ * Viewers não têm permissão de escrita, então não rodam.
+ */
+export function usePreventiveWorkOrders() {
+	const queryClient = useQueryClient();
+	const { user } = useAuth();
+	const { isAdmin, isLoading } = useUserRole();
+
+	useEffect(() => {
+		if (!user || isLoading || !isAdmin) return;
+
+		const today = format(new Date(), 'yyyy-MM-dd');
+		if (window.sessionStorage.getItem(LAST_RUN_KEY) === today) return;
+		window.sessionStorage.setItem(LAST_RUN_KEY, today);
+
+		generatePreventiveWorkOrders({ uid: user.uid, email: user.email })
+			.then((created) => {
+				if (created > 0) {
+					queryClient.invalidateQueries({ queryKey: ['workOrders'] });
+				}
+			})
+			.catch(() => {
+				// tenta de novo na próxima sessão
+				window.sessionStorage.removeItem(LAST_RUN_KEY);
+			});
+	}, [user, isAdmin, isLoading, queryClient]);
+}
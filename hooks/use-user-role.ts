@@ -2,7 +2,7 @@
 
 import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/context/auth-context';
-import type { UserRole } from '@/types/user-profile';
+import type { UserProfile, UserRole } from '@/types/user-profile';
 import { ensureUserProfile, getUserProfile } from '@/data-access/users';
 
 export function useUserRole() {
@@ -33,6 +33,7 @@ export function useUserRole() {
 	const role: UserRole = data?.role ?? 'viewer';
 
 	return {
+		profile: (data ?? null) as UserProfile | null,
 		role,
 		isAdmin: role === 'admin',
 		isLoading: loading || isLoading,
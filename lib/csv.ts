@@ -0,0 +1,109 @@
+/* ---------------------------------------
+   CSV
+   RFC 4180: fields may be quoted, "" is a literal quote and quoted
+   fields may span lines. Spreadsheets in some locales save with ";",
+   so the delimiter is detected from the header line.
+---------------------------------------- */
+
+const CSV_DELIMITERS = [',', ';', '\t'] as const;
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+// the one that splits the first line into the most columns
+export function detectCsvDelimiter(text: string): CsvDelimiter {
+	const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+
+	let best: CsvDelimiter = ',';
+	let bestCount = 0;
+	for (const delimiter of CSV_DELIMITERS) {
+		const count = firstLine.split(delimiter).length - 1;
+		if (count > bestCount) {
+			best = delimiter;
+			bestCount = count;
+		}
+	}
+	return best;
+}
+
+/** Rows of cells; blank lines are dropped. */
+export function parseCsv(
+	text: string,
+	delimiter: CsvDelimiter = detectCsvDelimiter(text)
+): string[][] {
+	const source = text.replace(/^﻿/, ''); // BOM do Excel
+	const rows: string[][] = [];
+
+	let row: string[] = [];
+	let cell = '';
+	let inQuotes = false;
+
+	const endRow = () => {
+		row.push(unescapeSpreadsheetText(cell));
+		if (row.some((c) => c.trim() !== '')) rows.push(row);
+		row = [];
+		cell = '';
+	};
+
+	for (let i = 0; i < source.length; i++) {
+		const char = source[i];
+
+		if (inQuotes) {
+			if (char === '"' && source[i + 1] === '"') {
+				cell += '"';
+				i += 1;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				cell += char;
+			}
+			continue;
+		}
+
+		if (char === '"') {
+			inQuotes = true;
+		} else if (char === delimiter) {
+			row.push(unescapeSpreadsheetText(cell));
+			cell = '';
+		} else if (char === '\n') {
+			endRow();
+		} else if (char !== '\r') {
+			cell += char;
+		}
+	}
+	endRow();
+
+	return rows;
+}
+
+// text starting with one of these runs as a formula in Excel and Sheets
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// CSV text cells that would run as formulas get a leading `'`; XLSX
+// writes inline strings, which are never evaluated
+function escapeSpreadsheetText(text: string) {
+	return FORMULA_PREFIX.test(text) ? `'${text}` : text;
+}
+
+// parseCsv reads exported files back
+function unescapeSpreadsheetText(text: string) {
+	return text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1))
+		? text.slice(1)
+		: text;
+}
+
+function toCsvCell(value: string | number | boolean | null | undefined) {
+	const text =
+		value === null || value === undefined
+			? ''
+			: typeof value === 'string'
+				? escapeSpreadsheetText(value)
+				: String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CRLF lines with a BOM, so Excel opens UTF-8 accents correctly. */
+export function toCsv(
+	rows: Array<Array<string | number | boolean | null | undefined>>
+): string {
+	return '﻿' + rows.map((row) => row.map(toCsvCell).join(',')).join('\r\n');
+}
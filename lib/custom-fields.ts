@@ -0,0 +1,206 @@
+import { z } from 'zod';
+import type {
+	CustomFieldDefinition,
+	CustomFieldType,
+	CustomFieldValue
+} from '@/types/categories';
+
+export const CUSTOM_FIELD_TYPE_LABEL: Record<CustomFieldType, string> = {
+	text: 'Text',
+	number: 'Number',
+	date: 'Date',
+	select: 'Select',
+	boolean: 'Yes / No'
+};
+
+const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+// "Plate number" -> "plate_number"
+export function toCustomFieldKey(label: string) {
+	const key = label
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '_')
+		.replace(/^_+|_+$/g, '');
+	return /^[a-z]/.test(key) ? key : `field_${key}`;
+}
+
+/**
+ * Problems with a category's schema, or null when it can be saved. Keys
+ * must be unique because values are stored by key.
+ */
+export function findCustomFieldSchemaError(
+	fields: CustomFieldDefinition[]
+): string | null {
+	const keys = new Set<string>();
+
+	for (const field of fields) {
+		if (!field.label.trim()) return 'Every field needs a label';
+		if (!CUSTOM_FIELD_KEY_PATTERN.test(field.key)) {
+			return `Invalid key "${field.key}"`;
+		}
+		if (keys.has(field.key)) return `Duplicate key "${field.key}"`;
+		keys.add(field.key);
+
+		if (field.type === 'select' && !(field.options ?? []).length) {
+			return `${field.label}: add at least one option`;
+		}
+		if (
+			typeof field.min === 'number' &&
+			typeof field.max === 'number' &&
+			field.min > field.max
+		) {
+			return `${field.label}: minimum is above maximum`;
+		}
+		if (field.pattern) {
+			try {
+				new RegExp(field.pattern);
+			} catch {
+				return `${field.label}: invalid pattern`;
+			}
+		}
+	}
+
+	return null;
+}
+
+/* ---------------------------------------
+   Value schemas
+   The same schema validates the form (strings from inputs) and the write
+   in data-access (typed values), so blanks and numeric strings are
+   normalized first.
+---------------------------------------- */
+
+function normalizeInput(value: unknown) {
+	const v = typeof value === 'string' ? value.trim() : value;
+	return v === '' || v === null ? undefined : v;
+}
+
+function buildValueSchema(field: CustomFieldDefinition): z.ZodTypeAny {
+	const required_error = `${field.label} is required`;
+
+	if (field.type === 'number') {
+		let schema = z.number({
+			required_error,
+			invalid_type_error: `${field.label} must be a number`
+		});
+		if (typeof field.min === 'number') {
+			schema = schema.min(field.min, `Minimum is ${field.min}`);
+		}
+		if (typeof field.max === 'number') {
+			schema = schema.max(field.max, `Maximum is ${field.max}`);
+		}
+		return z.preprocess((v) => (typeof v === 'string' ? Number(v) : v), schema);
+	}
+
+	if (field.type === 'date') {
+		return z
+			.string({ required_error })
+			.regex(/^\d{4}-\d{2}-\d{2}$/, 'Use yyyy-MM-dd');
+	}
+
+	if (field.type === 'select') {
+		const options = field.options ?? [];
+		return z
+			.string({ required_error })
+			.refine((v) => options.includes(v), 'Pick one of the options');
+	}
+
+	// an untouched switch is "No"
+	if (field.type === 'boolean') {
+		return z.preprocess((v) => v ?? false, z.boolean());
+	}
+
+	let schema = z.string({ required_error });
+	if (field.maxLength) {
+		schema = schema.max(
+			field.maxLength,
+			`At most ${field.maxLength} characters`
+		);
+	}
+	if (field.pattern) {
+		schema = schema.regex(new RegExp(field.pattern), `Invalid ${field.label}`);
+	}
+	return schema;
+}
+
+/** Values of a category's fields; unknown keys are dropped. */
+export function buildCustomFieldsSchema(fields: CustomFieldDefinition[]) {
+	const shape: Record<string, z.ZodTypeAny> = {};
+
+	for (const field of fields) {
+		const value = buildValueSchema(field);
+		shape[field.key] = z.preprocess(
+			normalizeInput,
+			field.required ? value : value.optional()
+		);
+	}
+
+	return z
+		.object(shape)
+		.transform((values) => compactCustomFieldValues(values));
+}
+
+// Firestore rejects undefined, even inside maps
+export function compactCustomFieldValues(
+	values: Record<string, unknown>
+): Record<string, CustomFieldValue> {
+	const result: Record<string, CustomFieldValue> = {};
+	for (const [key, value] of Object.entries(values)) {
+		if (value !== undefined) result[key] = value as CustomFieldValue;
+	}
+	return result;
+}
+
+/* ---------------------------------------
+   Display, filter and sort
+---------------------------------------- */
+
+export function formatCustomFieldValue(
+	field: Pick<CustomFieldDefinition, 'type'>,
+	value: CustomFieldValue | undefined
+) {
+	if (value === undefined || value === '') return '—';
+	if (field.type === 'boolean') return value ? 'Yes' : 'No';
+	return String(value);
+}
+
+// filtro da tabela: texto = contém, select/boolean = igual,
+// número/data = intervalo (min/max inclusivos)
+export interface CustomFieldFilter {
+	key: string;
+	value?: string;
+	min?: string;
+	max?: string;
+}
+
+export function matchesCustomFieldFilter(
+	field: CustomFieldDefinition,
+	value: CustomFieldValue | undefined,
+	filter: CustomFieldFilter
+) {
+	if (field.type === 'number' || field.type === 'date') {
+		if (value === undefined) return !filter.min && !filter.max;
+		const parse = (v: string) => (field.type === 'number' ? Number(v) : v);
+		if (filter.min && value < parse(filter.min)) return false;
+		if (filter.max && value > parse(filter.max)) return false;
+		return true;
+	}
+
+	if (!filter.value) return true;
+	if (field.type === 'boolean') return String(Boolean(value)) === filter.value;
+	if (field.type === 'select') return value === filter.value;
+	return String(value ?? '')
+		.toLowerCase()
+		.includes(filter.value.toLowerCase());
+}
+
+// vazios sempre no fim
+export function compareCustomFieldValues(
+	a: CustomFieldValue | undefined,
+	b: CustomFieldValue | undefined
+) {
+	if (a === undefined || a === '') return b === undefined || b === '' ? 0 : 1;
+	if (b === undefined || b === '') return -1;
+	if (typeof a === 'number' && typeof b === 'number') return a - b;
+	return String(a).localeCompare(String(b));
+}
@@ -0,0 +1,140 @@
+import {
+	differenceInMilliseconds,
+	eachMonthOfInterval,
+	endOfMonth,
+	format,
+	max as maxDate,
+	min as minDate,
+	parseISO
+} from 'date-fns';
+
+import { getStatusDefinition } from '@/lib/equipment-status';
+import type { EquipmentStatus } from '@/types/equipment';
+import type { DowntimeReasonCode, StatusPeriod } from '@/types/downtime';
+
+export const DOWNTIME_REASON_LABEL: Record<DowntimeReasonCode, string> = {
+	breakdown: 'Breakdown',
+	awaiting_parts: 'Awaiting parts',
+	planned_maintenance: 'Planned maintenance',
+	inspection: 'Inspection',
+	no_demand: 'No demand',
+	other: 'Other'
+};
+
+// endKey of the period still running
+export const OPEN_STATUS_PERIOD_END_KEY = '9999-12-31';
+
+// per status in lib/equipment-status.ts (e.g. retired counts as neither)
+export function isDowntimeStatus(status: EquipmentStatus) {
+	return getStatusDefinition(status).availability === 'down';
+}
+
+export function isUptimeStatus(status: EquipmentStatus) {
+	return getStatusDefinition(status).availability === 'up';
+}
+
+// planned stops lower availability but aren't failures for MTBF/MTTR;
+// downtime without a reason code counts as unplanned
+const PLANNED_REASONS: DowntimeReasonCode[] = [
+	'planned_maintenance',
+	'inspection',
+	'no_demand'
+];
+
+export function isFailurePeriod(
+	period: Pick<StatusPeriod, 'status' | 'reasonCode'>
+) {
+	return (
+		isDowntimeStatus(period.status) &&
+		!(period.reasonCode && PLANNED_REASONS.includes(period.reasonCode))
+	);
+}
+
+export interface ReliabilityMetrics {
+	uptimeHours: number;
+	downtimeHours: number;
+	// null when nothing was tracked in the window
+	availability: number | null;
+	failures: number;
+	// null when there were no failures
+	mtbfHours: number | null;
+	mttrHours: number | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Availability, MTBF and MTTR over [start, end] from status periods (any
+ * mix of assets). Periods are clipped to the window; open ones run until
+ * `end`. A failure is an unplanned downtime period starting in the window.
+ * Statuses excluded from availability (e.g. retired) count as neither.
+ */
+export function computeReliability(
+	periods: Array<
+		Pick<StatusPeriod, 'status' | 'reasonCode' | 'startedAt' | 'endedAt'>
+	>,
+	window: { start: Date; end: Date }
+): ReliabilityMetrics {
+	let uptimeMs = 0;
+	let downtimeMs = 0;
+	let repairMs = 0;
+	let failures = 0;
+
+	for (const period of periods) {
+		const started = parseISO(period.startedAt);
+		const ended = period.endedAt ? parseISO(period.endedAt) : window.end;
+
+		const from = maxDate([started, window.start]);
+		const to = minDate([ended, window.end]);
+		const clipped = Math.max(0, differenceInMilliseconds(to, from));
+
+		if (isDowntimeStatus(period.status)) downtimeMs += clipped;
+		else if (isUptimeStatus(period.status)) uptimeMs += clipped;
+
+		if (
+			isFailurePeriod(period) &&
+			started >= window.start &&
+			started <= window.end
+		) {
+			failures += 1;
+			repairMs += Math.max(0, differenceInMilliseconds(ended, started));
+		}
+	}
+
+	const tracked = uptimeMs + downtimeMs;
+
+	return {
+		uptimeHours: uptimeMs / HOUR_MS,
+		downtimeHours: downtimeMs / HOUR_MS,
+		availability: tracked > 0 ? uptimeMs / tracked : null,
+		failures,
+		mtbfHours: failures > 0 ? uptimeMs / HOUR_MS / failures : null,
+		mttrHours: failures > 0 ? repairMs / HOUR_MS / failures : null
+	};
+}
+
+// one row per calendar month in the window, for trend charts
+export function computeMonthlyReliability(
+	periods: Parameters<typeof computeReliability>[0],
+	window: { start: Date; end: Date }
+) {
+	return eachMonthOfInterval(window).map((month) => {
+		const start = maxDate([month, window.start]);
+		const end = minDate([endOfMonth(month), window.end]);
+		return {
+			month: format(month, 'yyyy-MM'),
+			...computeReliability(periods, { start, end })
+		};
+	});
+}
+
+export function formatPercent(value: number | null) {
+	return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+// "3.5h", "2.1d"
+export function formatHours(value: number | null) {
+	if (value === null) return '—';
+	if (value >= 48) return `${(value / 24).toFixed(1)}d`;
+	return `${value.toFixed(1)}h`;
+}
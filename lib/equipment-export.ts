@@ -0,0 +1,449 @@
+import { Timestamp } from 'firebase/firestore';
+import writeXlsxFile from 'write-excel-file/browser';
+
+import { getStatusLabel } from '@/lib/equipment-status';
+import {
+	describeMaintenancePlans,
+	resolveMaintenancePlans
+} from '@/lib/maintenance-plans';
+import { toCsv } from '@/lib/csv';
+import type { Equipment } from '@/types/equipment';
+import type { AssetCategory } from '@/types/categories';
+import type { MaintenanceRecord } from '@/types/maintenance';
+import type { EquipmentEvent } from '@/types/events';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export interface EquipmentExportOptions {
+	format: ExportFormat;
+	includeMaintenance: boolean;
+	includeEvents: boolean;
+	timeZone: string; // IANA
+}
+
+export interface EquipmentExportData {
+	assets: Equipment[];
+	// by asset id; only filled when included
+	maintenance: Map<string, MaintenanceRecord[]>;
+	events: Map<string, EquipmentEvent[]>;
+}
+
+/* ---------------------------------------
+   Timestamps
+   Firestore timestamps (and ISO strings like statusChangedAt) are written
+   as ISO 8601 with the offset of the chosen timezone, e.g.
+   "2024-03-05T09:30:00-05:00". Calendar dates ("yyyy-MM-dd": purchase,
+   service, maintenance date) have no time and are exported as stored.
+---------------------------------------- */
+
+export function getBrowserTimeZone() {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function toDate(value: unknown): Date | null {
+	if (value instanceof Timestamp) return value.toDate();
+	if (value instanceof Date) return value;
+	if (typeof value === 'string' && value) {
+		const date = new Date(value);
+		return Number.isNaN(date.getTime()) ? null : date;
+	}
+	return null;
+}
+
+function pad(value: number, length = 2) {
+	return String(value).padStart(length, '0');
+}
+
+/** ISO 8601 in `timeZone`; '' when the value is not a date. */
+export function formatIsoInTimeZone(value: unknown, timeZone: string): string {
+	const date = toDate(value);
+	if (!date) return '';
+
+	const parts = Object.fromEntries(
+		new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			second: '2-digit'
+		})
+			.formatToParts(date)
+			.map((p) => [p.type, p.value])
+	);
+
+	// wall clock do fuso lido como UTC - instante real = offset
+	const wallClock = Date.UTC(
+		Number(parts.year),
+		Number(parts.month) - 1,
+		Number(parts.day),
+		Number(parts.hour),
+		Number(parts.minute),
+		Number(parts.second)
+	);
+	const seconds = Math.floor(date.getTime() / 1000) * 1000;
+	const offset = Math.round((wallClock - seconds) / 60_000);
+	const sign = offset < 0 ? '-' : '+';
+
+	return (
+		`${parts.year}-${parts.month}-${parts.day}` +
+		`T${parts.hour}:${parts.minute}:${parts.second}` +
+		`${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+	);
+}
+
+/* ---------------------------------------
+   Sheets
+   One table per sheet (XLSX) or file (CSV). Asset headers match the
+   import wizard's column labels, so an export can be edited and imported
+   back.
+---------------------------------------- */
+
+export type ExportValue = string | number | boolean | null;
+
+export interface ExportTable {
+	name: string;
+	headers: string[];
+	rows: ExportValue[][];
+}
+
+interface ExportColumn<T> {
+	header: string;
+	value: (row: T) => ExportValue;
+}
+
+function toTable<T>(
+	name: string,
+	columns: ExportColumn<T>[],
+	rows: T[]
+): ExportTable {
+	return {
+		name,
+		headers: columns.map((c) => c.header),
+		rows: rows.map((row) => columns.map((c) => c.value(row)))
+	};
+}
+
+function actorLabel(email: string | null | undefined, uid?: string) {
+	return email || uid || null;
+}
+
+function buildAssetColumns(
+	assets: Equipment[],
+	categories: AssetCategory[],
+	timeZone: string
+): ExportColumn<Equipment>[] {
+	const categoryById = new Map(categories.map((c) => [c.id, c]));
+
+	// custom fields of the categories in the export, one column per key
+	const customFields = new Map<string, string>();
+	for (const eq of assets) {
+		const category = eq.categoryId
+			? categoryById.get(eq.categoryId)
+			: undefined;
+		for (const field of category?.fields ?? []) {
+			if (!customFields.has(field.key))
+				customFields.set(field.key, field.label);
+		}
+	}
+
+	return [
+		{ header: 'ID', value: (eq) => eq.id },
+		{ header: 'Asset name', value: (eq) => eq.name },
+		{ header: 'Serial number', value: (eq) => eq.serialNumber },
+		{ header: 'Status', value: (eq) => getStatusLabel(eq.status) },
+		{
+			header: 'Status since',
+			value: (eq) => formatIsoInTimeZone(eq.statusChangedAt, timeZone) || null
+		},
+		{ header: 'Purchase date', value: (eq) => eq.purchaseDate || null },
+		{ header: 'Last service date', value: (eq) => eq.lastServiceDate || null },
+		{ header: 'Next service date', value: (eq) => eq.nextServiceDate ?? null },
+		{
+			header: 'Maintenance plans',
+			value: (eq) =>
+				describeMaintenancePlans(resolveMaintenancePlans(eq), eq.meters) || null
+		},
+		{
+			// só quando há um plano (é o que o import aceita)
+			header: 'Service interval (days)',
+			value: (eq) => {
+				const plans = resolveMaintenancePlans(eq);
+				return plans.length === 1 ? (plans[0].intervalDays ?? null) : null;
+			}
+		},
+		{ header: 'Location', value: (eq) => eq.location || null },
+		{ header: 'Owner', value: (eq) => eq.owner || null },
+		{ header: 'Parent ID', value: (eq) => eq.parentId || null },
+		{
+			header: 'Category',
+			value: (eq) =>
+				(eq.categoryId && categoryById.get(eq.categoryId)?.name) || null
+		},
+		{ header: 'Tags', value: (eq) => eq.tags?.join(', ') || null },
+		...Array.from(customFields.entries()).map(
+			([key, label]): ExportColumn<Equipment> => ({
+				header: label,
+				value: (eq) => eq.customFields?.[key] ?? null
+			})
+		),
+		{
+			header: 'Created at',
+			value: (eq) => formatIsoInTimeZone(eq.createdAt, timeZone) || null
+		},
+		{
+			header: 'Created by',
+			value: (eq) => actorLabel(eq.createdByEmail, eq.createdBy)
+		},
+		{
+			header: 'Updated at',
+			value: (eq) => formatIsoInTimeZone(eq.updatedAt, timeZone) || null
+		},
+		{
+			header: 'Updated by',
+			value: (eq) => actorLabel(eq.updatedByEmail, eq.updatedBy)
+		},
+		{
+			header: 'Archived at',
+			value: (eq) => formatIsoInTimeZone(eq.archivedAt, timeZone) || null
+		},
+		{ header: 'Revision', value: (eq) => eq.revision ?? 0 }
+	];
+}
+
+type AssetRecord<T> = T & { asset: Equipment };
+
+function withAsset<T>(
+	assets: Equipment[],
+	byAsset: Map<string, T[]>
+): AssetRecord<T>[] {
+	return assets.flatMap((asset) =>
+		(byAsset.get(asset.id) ?? []).map((item) => ({ ...item, asset }))
+	);
+}
+
+function buildMaintenanceColumns(
+	timeZone: string
+): ExportColumn<AssetRecord<MaintenanceRecord>>[] {
+	return [
+		{ header: 'Asset ID', value: (r) => r.asset.id },
+		{ header: 'Serial number', value: (r) => r.asset.serialNumber },
+		{ header: 'Asset name', value: (r) => r.asset.name },
+		{ header: 'Record ID', value: (r) => r.id },
+		{ header: 'Date', value: (r) => r.date },
+		{ header: 'Type', value: (r) => r.type },
+		{
+			header: 'Plans',
+			value: (r) => {
+				const plans = resolveMaintenancePlans(r.asset);
+				return (
+					(r.planIds ?? [])
+						.map((id) => plans.find((p) => p.id === id)?.task ?? id)
+						.join(', ') || null
+				);
+			}
+		},
+		{ header: 'Technician', value: (r) => r.technician || null },
+		{ header: 'Vendor', value: (r) => r.vendor || null },
+		{ header: 'Labor hours', value: (r) => r.laborHours ?? null },
+		{ header: 'Labor cost', value: (r) => r.laborCost ?? null },
+		{
+			header: 'Parts',
+			value: (r) =>
+				(r.parts ?? [])
+					.map((p) => `${p.name} x${p.quantity} @ ${p.unitCost}`)
+					.join('; ') || null
+		},
+		{ header: 'Total cost', value: (r) => r.totalCost ?? null },
+		{ header: 'Currency', value: (r) => r.currency || null },
+		{ header: 'Notes', value: (r) => r.notes || null },
+		{ header: 'Work order ID', value: (r) => r.workOrderId || null },
+		{ header: 'Voided', value: (r) => Boolean(r.voided) },
+		{ header: 'Void reason', value: (r) => r.voidReason || null },
+		{
+			header: 'Logged at',
+			value: (r) => formatIsoInTimeZone(r.createdAt, timeZone) || null
+		},
+		{
+			header: 'Logged by',
+			value: (r) => actorLabel(r.createdByEmail, r.createdBy)
+		}
+	];
+}
+
+function buildEventColumns(
+	timeZone: string
+): ExportColumn<AssetRecord<EquipmentEvent>>[] {
+	return [
+		{ header: 'Asset ID', value: (e) => e.asset.id },
+		{ header: 'Serial number', value: (e) => e.asset.serialNumber },
+		{ header: 'Asset name', value: (e) => e.asset.name },
+		{ header: 'Event ID', value: (e) => e.id },
+		{ header: 'Type', value: (e) => e.type },
+		{ header: 'Message', value: (e) => e.message },
+		{ header: 'Actor', value: (e) => actorLabel(e.actorEmail, e.actorId) },
+		{
+			header: 'Created at',
+			value: (e) => formatIsoInTimeZone(e.createdAt, timeZone) || null
+		},
+		{
+			header: 'Metadata',
+			value: (e) =>
+				e.metadata ? JSON.stringify(toJsonValue(e.metadata, timeZone)) : null
+		}
+	];
+}
+
+export function buildExportTables(
+	data: EquipmentExportData,
+	categories: AssetCategory[],
+	options: EquipmentExportOptions
+): ExportTable[] {
+	const { timeZone } = options;
+
+	const tables = [
+		toTable(
+			'Assets',
+			buildAssetColumns(data.assets, categories, timeZone),
+			data.assets
+		)
+	];
+	if (options.includeMaintenance) {
+		tables.push(
+			toTable(
+				'Maintenance',
+				buildMaintenanceColumns(timeZone),
+				withAsset(data.assets, data.maintenance)
+			)
+		);
+	}
+	if (options.includeEvents) {
+		tables.push(
+			toTable(
+				'Events',
+				buildEventColumns(timeZone),
+				withAsset(data.assets, data.events)
+			)
+		);
+	}
+	return tables;
+}
+
+/* ---------------------------------------
+   JSON
+   Assets as stored (minus the query keys kept by data-access), with
+   timestamps converted and maintenance/events nested per asset.
+---------------------------------------- */
+
+const INTERNAL_ASSET_FIELDS = [
+	'isArchived',
+	'statusRank',
+	'nextServiceSortKey',
+	'searchKeywords',
+	'serialNumberNormalized',
+	'currentStatusPeriodId'
+];
+
+function toJsonValue(value: unknown, timeZone: string): unknown {
+	if (value instanceof Timestamp || value instanceof Date) {
+		return formatIsoInTimeZone(value, timeZone);
+	}
+	if (Array.isArray(value)) return value.map((v) => toJsonValue(v, timeZone));
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value).map(([k, v]) => [k, toJsonValue(v, timeZone)])
+		);
+	}
+	return value;
+}
+
+export function buildExportJson(
+	data: EquipmentExportData,
+	options: EquipmentExportOptions
+) {
+	const { timeZone } = options;
+
+	const assets = data.assets.map((eq) => {
+		const fields = Object.fromEntries(
+			Object.entries(eq).filter(([k]) => !INTERNAL_ASSET_FIELDS.includes(k))
+		);
+
+		return {
+			...(toJsonValue(fields, timeZone) as Record<string, unknown>),
+			statusChangedAt:
+				formatIsoInTimeZone(eq.statusChangedAt, timeZone) || undefined,
+			...(options.includeMaintenance && {
+				maintenance: toJsonValue(data.maintenance.get(eq.id) ?? [], timeZone)
+			}),
+			...(options.includeEvents && {
+				events: toJsonValue(data.events.get(eq.id) ?? [], timeZone)
+			})
+		};
+	});
+
+	return {
+		exportedAt: formatIsoInTimeZone(new Date(), timeZone),
+		timeZone,
+		assets
+	};
+}
+
+/* ---------------------------------------
+   Files
+   XLSX keeps every table in one workbook; CSV has no sheets, so each
+   table is its own file.
+---------------------------------------- */
+
+export interface ExportFile {
+	fileName: string;
+	blob: Blob;
+}
+
+export async function buildExportFiles(
+	data: EquipmentExportData,
+	categories: AssetCategory[],
+	options: EquipmentExportOptions,
+	baseName: string
+): Promise<ExportFile[]> {
+	if (options.format === 'json') {
+		const json = JSON.stringify(buildExportJson(data, options), null, 2);
+		return [
+			{
+				fileName: `${baseName}.json`,
+				blob: new Blob([json], { type: 'application/json' })
+			}
+		];
+	}
+
+	const tables = buildExportTables(data, categories, options);
+
+	if (options.format === 'csv') {
+		return tables.map((table) => ({
+			fileName:
+				tables.length === 1
+					? `${baseName}.csv`
+					: `${baseName}-${table.name.toLowerCase()}.csv`,
+			blob: new Blob([toCsv([table.headers, ...table.rows])], {
+				type: 'text/csv;charset=utf-8'
+			})
+		}));
+	}
+
+	const blob = await writeXlsxFile(
+		tables.map((table) => ({
+			sheet: table.name,
+			stickyRowsCount: 1,
+			data: [
+				table.headers.map((header) => ({
+					value: header,
+					fontWeight: 'bold' as const
+				})),
+				...table.rows
+			]
+		}))
+	).toBlob();
+
+	return [{ fileName: `${baseName}.xlsx`, blob }];
+}
@@ -0,0 +1,216 @@
+import { format } from 'date-fns';
+
+import { EQUIPMENT_STATUSES, getStatusLabel } from '@/lib/equipment-status';
+import { DOWNTIME_REASON_LABEL } from '@/lib/downtime';
+import type { EquipmentStatusId } from '@/lib/equipment-status';
+import type { DowntimeReasonCode, StatusChangeReason } from '@/types/downtime';
+import type { AssetCategory } from '@/types/categories';
+
+/* ---------------------------------------
+   Import columns
+   What a spreadsheet column can be mapped to. Custom fields are offered
+   per key across the active categories; a row only uses the ones of its
+   own category.
+---------------------------------------- */
+
+export type ImportTarget =
+	| 'name'
+	| 'serialNumber'
+	| 'status'
+	| 'statusReason'
+	| 'purchaseDate'
+	| 'lastServiceDate'
+	| 'serviceIntervalDays'
+	| 'location'
+	| 'owner'
+	| 'category'
+	| 'tags'
+	| `custom:${string}`;
+
+export interface ImportField {
+	target: ImportTarget;
+	label: string;
+	// needed to create an asset; blank cells on updates keep the stored value
+	required?: boolean;
+	// other headers recognized when guessing the mapping
+	aliases?: string[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+	{ target: 'name', label: 'Asset name', required: true, aliases: ['name'] },
+	{
+		target: 'serialNumber',
+		label: 'Serial number',
+		required: true,
+		aliases: ['serial', 'sn', 'serial no']
+	},
+	{ target: 'status', label: 'Status' },
+	{
+		target: 'statusReason',
+		label: 'Status reason',
+		aliases: ['reason']
+	},
+	{
+		target: 'purchaseDate',
+		label: 'Purchase date',
+		required: true,
+		aliases: ['purchased']
+	},
+	{
+		target: 'lastServiceDate',
+		label: 'Last service date',
+		required: true,
+		aliases: ['last service', 'last serviced']
+	},
+	{
+		target: 'serviceIntervalDays',
+		label: 'Service interval (days)',
+		aliases: ['interval', 'service interval', 'interval days']
+	},
+	{ target: 'location', label: 'Location' },
+	{ target: 'owner', label: 'Owner', aliases: ['team'] },
+	{ target: 'category', label: 'Category' },
+	{ target: 'tags', label: 'Tags' }
+];
+
+export function buildCustomFieldImportFields(
+	categories: AssetCategory[]
+): ImportField[] {
+	const fields = new Map<string, ImportField>();
+	for (const category of categories) {
+		if (category.isArchived) continue;
+		for (const field of category.fields) {
+			if (fields.has(field.key)) continue;
+			fields.set(field.key, {
+				target: `custom:${field.key}`,
+				label: field.label,
+				aliases: [field.key]
+			});
+		}
+	}
+	return Array.from(fields.values());
+}
+
+// "Serial No." -> "serialno"
+function normalizeHeader(value: string) {
+	return value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Target per column, guessed from the headers (label, key or alias).
+ * Unrecognized columns and repeated targets are left unmapped (null).
+ */
+export function guessImportMapping(
+	headers: string[],
+	fields: ImportField[]
+): Array<ImportTarget | null> {
+	const used = new Set<ImportTarget>();
+
+	return headers.map((header) => {
+		const normalized = normalizeHeader(header);
+		const field = fields.find(
+			(f) =>
+				!used.has(f.target) &&
+				[f.label, f.target, ...(f.aliases ?? [])].some(
+					(name) => normalizeHeader(name) === normalized
+				)
+		);
+		if (!field) return null;
+		used.add(field.target);
+		return field.target;
+	});
+}
+
+/* ---------------------------------------
+   Cells
+   XLSX cells arrive typed (dates as Date, numbers as number); CSV cells
+   are all text. Both are read as trimmed text first.
+---------------------------------------- */
+
+export type ImportCell = string | number | boolean | Date | null;
+
+export interface ImportSheetRow {
+	rowNumber: number; // as shown in the spreadsheet (header = 1)
+	cells: string[];
+}
+
+export interface ImportSheet {
+	headers: string[];
+	rows: ImportSheetRow[];
+}
+
+function toCellText(cell: ImportCell | undefined) {
+	if (cell === null || cell === undefined) return '';
+	// datas do XLSX chegam em UTC
+	if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+	return String(cell).trim();
+}
+
+/** First row is the header; blank rows are dropped. */
+export function toImportSheet(data: ImportCell[][]): ImportSheet {
+	const [header = [], ...body] = data;
+
+	const rows = body
+		.map((cells, index) => ({
+			rowNumber: index + 2,
+			cells: header.map((_, column) => toCellText(cells[column]))
+		}))
+		.filter((row) => row.cells.some(Boolean));
+
+	return { headers: header.map((h) => toCellText(h)), rows };
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** "yyyy-MM-dd", also from "yyyy/MM/dd"; null when not a valid date. */
+export function parseImportDate(value: string): string | null {
+	const candidate = value.replace(/\//g, '-');
+	if (!ISO_DATE_PATTERN.test(candidate)) return null;
+
+	const date = new Date(`${candidate}T00:00:00`);
+	if (Number.isNaN(date.getTime())) return null;
+	// 2024-02-31 rola para março
+	return format(date, 'yyyy-MM-dd') === candidate ? candidate : null;
+}
+
+// by id ("inactive") or label ("Out of Service")
+export function parseImportStatus(value: string): EquipmentStatusId | null {
+	const normalized = normalizeHeader(value);
+	return (
+		EQUIPMENT_STATUSES.find(
+			(s) =>
+				normalizeHeader(s) === normalized ||
+				normalizeHeader(getStatusLabel(s)) === normalized
+		) ?? null
+	);
+}
+
+// a reason label ("Breakdown") becomes the code, anything else a note
+export function parseImportStatusReason(value: string): StatusChangeReason {
+	const normalized = normalizeHeader(value);
+	const code = (
+		Object.keys(DOWNTIME_REASON_LABEL) as DowntimeReasonCode[]
+	).find(
+		(c) =>
+			normalizeHeader(c) === normalized ||
+			normalizeHeader(DOWNTIME_REASON_LABEL[c]) === normalized
+	);
+	return code ? { code } : { note: value };
+}
+
+export function parseImportBoolean(value: string): boolean | null {
+	const normalized = value.toLowerCase();
+	if (['yes', 'y', 'true', '1', 'sim'].includes(normalized)) return true;
+	if (['no', 'n', 'false', '0', 'não', 'nao'].includes(normalized)) {
+		return false;
+	}
+	return null;
+}
+
+// "forklift, cold chain" or "forklift; cold chain"
+export function splitImportList(value: string) {
+	return value
+		.split(/[,;]/)
+		.map((v) => v.trim())
+		.filter(Boolean);
+}
@@ -0,0 +1,158 @@
+/* ---------------------------------------
+   Equipment status configuration
+   The one place that defines which statuses exist, how they look and
+   which moves between them are allowed. Forms, badges, charts and the
+   data-access write path all read from here.
+---------------------------------------- */
+
+export const EQUIPMENT_STATUSES = [
+	'active',
+	'maintenance',
+	'awaiting_parts',
+	'inactive',
+	'retired'
+] as const;
+
+export type EquipmentStatusId = (typeof EQUIPMENT_STATUSES)[number];
+
+// checked when an asset enters the status
+export type StatusGuardId =
+	// no corrective work order of the asset may still be open
+	| 'no_open_corrective_work_order'
+	// a reason code or note must come with the change
+	| 'reason_required';
+
+export interface EquipmentStatusDefinition {
+	label: string;
+	color: string; // hex, for charts and badges
+	badgeVariant: 'secondary' | 'outline' | 'destructive';
+
+	// "Ops priority" sort: lower comes first (stored as statusRank)
+	opsRank: number;
+	// how time in this status counts towards availability
+	availability: 'up' | 'down' | 'excluded';
+
+	// statuses the asset may move to from this one
+	transitions: EquipmentStatusId[];
+	guards?: StatusGuardId[];
+	// offered when creating an asset
+	initial?: boolean;
+}
+
+export const EQUIPMENT_STATUS_CONFIG: Record<
+	EquipmentStatusId,
+	EquipmentStatusDefinition
+> = {
+	active: {
+		label: 'In Service',
+		color: '#22c55e',
+		badgeVariant: 'secondary',
+		opsRank: 2,
+		availability: 'up',
+		transitions: ['maintenance', 'awaiting_parts', 'inactive', 'retired'],
+		guards: ['no_open_corrective_work_order'],
+		initial: true
+	},
+	maintenance: {
+		label: 'Maintenance',
+		color: '#eab308',
+		badgeVariant: 'outline',
+		opsRank: 0,
+		availability: 'down',
+		transitions: ['active', 'awaiting_parts', 'inactive', 'retired'],
+		initial: true
+	},
+	awaiting_parts: {
+		label: 'Awaiting Parts',
+		color: '#f97316',
+		badgeVariant: 'outline',
+		opsRank: 0,
+		availability: 'down',
+		transitions: ['maintenance', 'active', 'inactive', 'retired']
+	},
+	inactive: {
+		label: 'Out of Service',
+		color: '#ef4444',
+		badgeVariant: 'destructive',
+		opsRank: 1,
+		availability: 'down',
+		transitions: ['active', 'maintenance', 'retired'],
+		guards: ['reason_required'],
+		initial: true
+	},
+	retired: {
+		label: 'Retired',
+		color: '#64748b',
+		badgeVariant: 'outline',
+		opsRank: 3,
+		availability: 'excluded',
+		transitions: [],
+		guards: ['reason_required']
+	}
+};
+
+export function getStatusDefinition(status: string): EquipmentStatusDefinition {
+	// unknown values (e.g. a status removed from the config) render neutral
+	return (
+		EQUIPMENT_STATUS_CONFIG[status as EquipmentStatusId] ?? {
+			label: status,
+			color: '#94a3b8',
+			badgeVariant: 'outline',
+			opsRank: 99,
+			availability: 'excluded',
+			transitions: []
+		}
+	);
+}
+
+export function getStatusLabel(status: string) {
+	return getStatusDefinition(status).label;
+}
+
+export function canTransitionStatus(
+	from: EquipmentStatusId,
+	to: EquipmentStatusId
+) {
+	return from === to || getStatusDefinition(from).transitions.includes(to);
+}
+
+// options of a status picker: where the asset can go from `current`
+// (new assets: the initial statuses)
+export function getStatusOptions(current?: EquipmentStatusId) {
+	if (!current)
+		return EQUIPMENT_STATUSES.filter((s) => getStatusDefinition(s).initial);
+	return [current, ...getStatusDefinition(current).transitions];
+}
+
+export function statusHasGuard(
+	status: EquipmentStatusId,
+	guard: StatusGuardId
+) {
+	return Boolean(getStatusDefinition(status).guards?.includes(guard));
+}
+
+/**
+ * First guard of `to` the change breaks, or null. `context` carries what
+ * the guards look at; the caller loads it.
+ */
+export function findFailingStatusGuard(
+	to: EquipmentStatusId,
+	context: { hasReason: boolean; openCorrectiveWorkOrders: number }
+): StatusGuardId | null {
+	for (const guard of getStatusDefinition(to).guards ?? []) {
+		if (guard === 'reason_required' && !context.hasReason) return guard;
+		if (
+			guard === 'no_open_corrective_work_order' &&
+			context.openCorrectiveWorkOrders > 0
+		) {
+			return guard;
+		}
+	}
+	return null;
+}
+
+// error codes thrown by data-access for each guard
+export const STATUS_GUARD_ERROR: Record<StatusGuardId, string> = {
+	no_open_corrective_work_order: 'OPEN_CORRECTIVE_WORK_ORDER',
+	reason_required: 'REASON_REQUIRED'
+};
@@ -0,0 +1,188 @@
+import type { EquipmentsSort } from '@/data-access/equipments';
+import type { Equipment } from '@/types/equipment';
+import type {
+	EquipmentsViewState,
+	MaintenanceWindowValue,
+	StatusFilterValue
+} from '@/types/views';
+import { EQUIPMENT_STATUSES } from '@/lib/equipment-status';
+
+/* ---------------------------------------
+   Equipments table state <-> query string
+   The URL is the source of truth for the table, so links can be shared
+   and back/forward walk through filter and page changes. Only values
+   that differ from BASE_VIEW_STATE are written.
+---------------------------------------- */
+
+export const EQUIPMENTS_PATH = '/equipments';
+
+// what a missing param means (same as the Operational view)
+export const BASE_VIEW_STATE: Required<EquipmentsViewState> = {
+	sort: 'status_ops',
+	includeArchived: false,
+	archivedOnly: false,
+	status: 'all',
+	search: '',
+	maintenanceWindow: 'all',
+	categoryId: '',
+	customFieldFilter: null,
+	tag: '',
+	locationId: '',
+	hiddenColumns: [],
+	shownColumns: [],
+	columnOrder: []
+};
+
+export interface ColumnSort {
+	id: string;
+	desc: boolean;
+}
+
+export interface EquipmentsUrlState {
+	// saved view the state came from (built-in key or view id)
+	view?: string;
+	state: Required<EquipmentsViewState>;
+	pageSize?: number;
+	// cursors of the pages visited so far (server paging); empty = first page
+	cursors: string[];
+	// classification tables are paged and sorted in the browser
+	page?: number; // 0-based
+	columnSort?: ColumnSort[];
+}
+
+const SORTS: EquipmentsSort[] = [
+	'updated_desc',
+	'created_desc',
+	'name_asc',
+	'status_ops',
+	'next_service_asc'
+];
+
+const WINDOWS: MaintenanceWindowValue[] = [
+	'all',
+	'due_7',
+	'due_30',
+	'overdue',
+	'attention'
+];
+
+const PAGE_SIZES = [10, 20, 50, 100];
+
+function splitList(value: string | null) {
+	return (value ?? '').split(',').filter(Boolean);
+}
+
+function pick<T extends string>(value: string | null, allowed: T[], base: T) {
+	return value && allowed.includes(value as T) ? (value as T) : base;
+}
+
+export function parseEquipmentsUrlState(
+	params: Pick<URLSearchParams, 'get' | 'getAll'>
+): EquipmentsUrlState {
+	const archived = params.get('archived');
+	const field = params.get('field');
+	const size = Number(params.get('size'));
+	const page = Number(params.get('page'));
+
+	const state: Required<EquipmentsViewState> = {
+		sort: pick(params.get('sort'), SORTS, BASE_VIEW_STATE.sort),
+		includeArchived: archived === 'include' || archived === 'only',
+		archivedOnly: archived === 'only',
+		status: pick<StatusFilterValue>(
+			params.get('status'),
+			['all', ...EQUIPMENT_STATUSES] as Array<Equipment['status'] | 'all'>,
+			'all'
+		),
+		search: params.get('q') ?? '',
+		maintenanceWindow: pick(params.get('window'), WINDOWS, 'all'),
+		categoryId: params.get('category') ?? '',
+		customFieldFilter:
+			field && params.get('category')
+				? {
+						key: field,
+						value: params.get('fieldValue') ?? undefined,
+						min: params.get('fieldMin') ?? undefined,
+						max: params.get('fieldMax') ?? undefined
+					}
+				: null,
+		tag: params.get('tag') ?? '',
+		locationId: params.get('location') ?? '',
+		hiddenColumns: splitList(params.get('hide')),
+		shownColumns: splitList(params.get('show')),
+		columnOrder: splitList(params.get('cols'))
+	};
+
+	return {
+		view: params.get('view') || undefined,
+		state,
+		pageSize: PAGE_SIZES.includes(size) ? size : undefined,
+		cursors: params.getAll('after').filter(Boolean),
+		page: Number.isInteger(page) && page > 1 ? page - 1 : undefined,
+		columnSort: (params.get('order') ?? '')
+			.split(',')
+			.filter(Boolean)
+			.map((part) => {
+				const [id, direction] = part.split(':');
+				return { id, desc: direction === 'desc' };
+			})
+	};
+}
+
+export function serializeEquipmentsUrlState(
+	urlState: Partial<EquipmentsUrlState>
+): string {
+	const state = { ...BASE_VIEW_STATE, ...urlState.state };
+	const params = new URLSearchParams();
+	const set = (key: string, value: string | undefined, base = '') => {
+		if (value && value !== base) params.set(key, value);
+	};
+
+	set('view', urlState.view);
+	set('sort', state.sort, BASE_VIEW_STATE.sort);
+	set('status', state.status, 'all');
+	set('q', state.search);
+	set('window', state.maintenanceWindow, 'all');
+	set(
+		'archived',
+		state.archivedOnly ? 'only' : state.includeArchived ? 'include' : ''
+	);
+	set('category', state.categoryId);
+	if (state.categoryId && state.customFieldFilter) {
+		set('field', state.customFieldFilter.key);
+		set('fieldValue', state.customFieldFilter.value);
+		set('fieldMin', state.customFieldFilter.min);
+		set('fieldMax', state.customFieldFilter.max);
+	}
+	set('tag', state.tag);
+	set('location', state.locationId);
+	set('hide', state.hiddenColumns.join(','));
+	set('show', state.shownColumns.join(','));
+	set('cols', state.columnOrder.join(','));
+
+	set('size', urlState.pageSize ? String(urlState.pageSize) : '');
+	(urlState.cursors ?? []).forEach((c) => params.append('after', c));
+	set('page', urlState.page ? String(urlState.page + 1) : '');
+	set(
+		'order',
+		(urlState.columnSort ?? [])
+			.map((s) => `${s.id}:${s.desc ? 'desc' : 'asc'}`)
+			.join(',')
+	);
+
+	return params.toString();
+}
+
+/**
+ * Link to the equipments table with the given filters applied
+ * (e.g. from the dashboard cards).
+ */
+export function buildEquipmentsHref(
+	state: Partial<EquipmentsViewState>,
+	view?: string
+) {
+	const query = serializeEquipmentsUrlState({
+		view,
+		state: { ...BASE_VIEW_STATE, ...state }
+	});
+	return query ? `${EQUIPMENTS_PATH}?${query}` : EQUIPMENTS_PATH;
+}
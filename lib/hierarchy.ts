@@ -0,0 +1,91 @@
+import type { Equipment } from '@/types/equipment';
+
+/* ---------------------------------------
+   Asset hierarchy helpers
+   Work on an already loaded list. Assets whose parent isn't in the list
+   (archived, filtered out, deleted) are treated as roots.
+---------------------------------------- */
+
+export interface AssetTreeNode {
+	asset: Equipment;
+	children: AssetTreeNode[];
+}
+
+function byName(a: AssetTreeNode, b: AssetTreeNode) {
+	return a.asset.name.localeCompare(b.asset.name);
+}
+
+export function buildAssetTree(assets: Equipment[]): AssetTreeNode[] {
+	const nodes = new Map<string, AssetTreeNode>();
+	assets.forEach((asset) => nodes.set(asset.id, { asset, children: [] }));
+
+	const roots: AssetTreeNode[] = [];
+
+	nodes.forEach((node) => {
+		const parent = node.asset.parentId
+			? nodes.get(node.asset.parentId)
+			: undefined;
+
+		// a stored cycle can't be reached from a root, so break it here
+		if (parent && !isAncestorOf(node.asset.id, parent.asset, nodes)) {
+			parent.children.push(node);
+		} else {
+			roots.push(node);
+		}
+	});
+
+	const sortDeep = (list: AssetTreeNode[]) => {
+		list.sort(byName);
+		list.forEach((n) => sortDeep(n.children));
+	};
+	sortDeep(roots);
+
+	return roots;
+}
+
+function isAncestorOf(
+	id: string,
+	asset: Equipment,
+	nodes: Map<string, AssetTreeNode>
+) {
+	const seen = new Set<string>();
+	let cursor: Equipment | undefined = asset;
+
+	while (cursor && !seen.has(cursor.id)) {
+		if (cursor.id === id) return true;
+		seen.add(cursor.id);
+		cursor = cursor.parentId ? nodes.get(cursor.parentId)?.asset : undefined;
+	}
+	return false;
+}
+
+// the asset and everything below it
+export function flattenAssetTree(node: AssetTreeNode): Equipment[] {
+	return [node.asset, ...node.children.flatMap(flattenAssetTree)];
+}
+
+// ids that can't become the parent of `assetId` (itself and its subtree)
+export function getSubtreeIds(assetId: string, assets: Equipment[]) {
+	const ids = new Set([assetId]);
+	let grew = true;
+
+	while (grew) {
+		grew = false;
+		for (const asset of assets) {
+			if (asset.parentId && ids.has(asset.parentId) && !ids.has(asset.id)) {
+				ids.add(asset.id);
+				grew = true;
+			}
+		}
+	}
+
+	return ids;
+}
+
+// e.g. overdue assets anywhere under a production line
+export function countInSubtree(
+	node: AssetTreeNode,
+	predicate: (asset: Equipment) => boolean
+): number {
+	return flattenAssetTree(node).filter(predicate).length;
+}
@@ -0,0 +1,182 @@
+import type { Location, LocationKind } from '@/types/locations';
+
+export const LOCATION_KIND_LABEL: Record<LocationKind, string> = {
+	site: 'Site',
+	building: 'Building',
+	area: 'Area'
+};
+
+// kind the parent must have (sites are top level)
+export const LOCATION_PARENT_KIND: Record<LocationKind, LocationKind | null> = {
+	site: null,
+	building: 'site',
+	area: 'building'
+};
+
+export const LOCATION_PATH_SEPARATOR = ' / ';
+
+export function buildLocationPath(
+	name: string,
+	parent?: Pick<Location, 'path'>
+) {
+	return parent
+		? `${parent.path}${LOCATION_PATH_SEPARATOR}${name.trim()}`
+		: name.trim();
+}
+
+// the location and every location under it (table filter)
+export function getLocationSubtreeIds(id: string, locations: Location[]) {
+	const ids = [id];
+	for (let i = 0; i < ids.length; i++) {
+		locations
+			.filter((l) => l.parentId === ids[i])
+			.forEach((l) => ids.push(l.id));
+	}
+	return ids;
+}
+
+export function isValidTimeZone(value: string) {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: value });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/* ---------------------------------------
+   Matching free text to locations
+   Used by the migration of the old `location` strings: "Tampa DC" and
+   "tampa  dc" are the same place; "Tampa Distribution" only might be.
+---------------------------------------- */
+
+// case, punctuation and repeated whitespace ignored
+export function normalizeLocationText(value: string) {
+	return value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, ' ')
+		.trim();
+}
+
+function bigrams(value: string) {
+	const compact = value.replace(/ /g, '');
+	const grams: string[] = [];
+	for (let i = 0; i < compact.length - 1; i++) {
+		grams.push(compact.slice(i, i + 2));
+	}
+	return grams;
+}
+
+// Dice coefficient over character bigrams (0..1)
+function similarity(a: string, b: string) {
+	const left = bigrams(a);
+	const right = bigrams(b);
+	if (left.length === 0 || right.length === 0) return 0;
+
+	const pool = [...right];
+	let shared = 0;
+	for (const gram of left) {
+		const index = pool.indexOf(gram);
+		if (index >= 0) {
+			shared += 1;
+			pool.splice(index, 1);
+		}
+	}
+	return (2 * shared) / (left.length + right.length);
+}
+
+const SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Whether two normalized texts could name the same place: same first word
+ * ("tampa dc" / "tampa distribution") or close spelling.
+ */
+export function isPossibleLocationMatch(a: string, b: string) {
+	if (!a || !b) return false;
+	if (a === b) return true;
+	if (a.split(' ')[0] === b.split(' ')[0]) return true;
+	return similarity(a, b) >= SIMILARITY_THRESHOLD;
+}
+
+export type LocationTextMatch =
+	| { kind: 'exact'; location: Location }
+	| { kind: 'ambiguous'; candidates: Location[] }
+	| { kind: 'none' };
+
+/**
+ * Exact when one location's name or path normalizes to the text;
+ * ambiguous when several do, or only near matches exist.
+ */
+export function matchLocationText(
+	text: string,
+	locations: Location[]
+): LocationTextMatch {
+	const normalized = normalizeLocationText(text);
+
+	const exact = locations.filter(
+		(l) =>
+			normalizeLocationText(l.path) === normalized ||
+			normalizeLocationText(l.name) === normalized
+	);
+	if (exact.length === 1) return { kind: 'exact', location: exact[0] };
+	if (exact.length > 1) return { kind: 'ambiguous', candidates: exact };
+
+	const near = locations.filter(
+		(l) =>
+			isPossibleLocationMatch(normalizeLocationText(l.name), normalized) ||
+			isPossibleLocationMatch(normalizeLocationText(l.path), normalized)
+	);
+	return near.length > 0
+		? { kind: 'ambiguous', candidates: near }
+		: { kind: 'none' };
+}
+
+export interface LocationTextGroup {
+	key: string; // normalized text
+	label: string; // most used spelling
+	variants: string[];
+	equipmentIds: string[];
+}
+
+/**
+ * Free-text locations of assets not linked to a record yet, one group per
+ * normalized text.
+ */
+export function groupUnlinkedLocationTexts(
+	assets: Array<{ id: string; location?: string; locationId?: string }>
+): LocationTextGroup[] {
+	const groups = new Map<
+		string,
+		{ equipmentIds: string[]; spellings: Map<string, number> }
+	>();
+
+	for (const asset of assets) {
+		const text = asset.location?.trim();
+		if (!text || asset.locationId) continue;
+
+		const key = normalizeLocationText(text);
+		if (!key) continue;
+
+		const group = groups.get(key) ?? {
+			equipmentIds: [] as string[],
+			spellings: new Map<string, number>()
+		};
+		group.equipmentIds.push(asset.id);
+		group.spellings.set(text, (group.spellings.get(text) ?? 0) + 1);
+		groups.set(key, group);
+	}
+
+	return Array.from(groups.entries())
+		.map(([key, group]) => {
+			const variants = Array.from(group.spellings.entries())
+				.sort((a, b) => b[1] - a[1])
+				.map(([text]) => text);
+			return {
+				key,
+				label: variants[0],
+				variants,
+				equipmentIds: group.equipmentIds
+			};
+		})
+		.sort((a, b) => b.equipmentIds.length - a.equipmentIds.length);
+}
@@ -0,0 +1,179 @@
+import { addDays, format, parseISO } from 'date-fns';
+
+import type { Equipment, MaintenancePlan } from '@/types/equipment';
+import type { EquipmentMeter } from '@/types/meters';
+import { METER_UNIT_LABEL, forecastMeterDate } from '@/lib/meters';
+
+// interval used when an asset (or legacy doc) doesn't say otherwise
+export const DEFAULT_SERVICE_INTERVAL_DAYS = 180;
+
+// id of the plan derived from the legacy single `serviceIntervalDays`;
+// maintenance records without planIds count towards it
+export const LEGACY_MAINTENANCE_PLAN_ID = 'default';
+
+// date: "yyyy-MM-dd"
+export function addServiceInterval(date: string, intervalDays: number) {
+	return format(addDays(parseISO(date), intervalDays), 'yyyy-MM-dd');
+}
+
+export function createMaintenancePlanId() {
+	return Math.random().toString(36).slice(2, 10);
+}
+
+function earlierDate(a?: string, b?: string) {
+	if (!a) return b;
+	if (!b) return a;
+	return a < b ? a : b;
+}
+
+type PlanSource = Partial<
+	Pick<
+		Equipment,
+		| 'maintenancePlans'
+		| 'serviceIntervalDays'
+		| 'lastServiceDate'
+		| 'nextServiceDate'
+	>
+>;
+
+/**
+ * Plans of an asset. Assets saved before plans existed get one plan built
+ * from `serviceIntervalDays` and their stored dates.
+ */
+export function resolveMaintenancePlans(eq: PlanSource): MaintenancePlan[] {
+	if (eq.maintenancePlans?.length) return eq.maintenancePlans;
+
+	const intervalDays = eq.serviceIntervalDays ?? DEFAULT_SERVICE_INTERVAL_DAYS;
+	const lastServiceDate = eq.lastServiceDate?.trim() || undefined;
+
+	return [
+		{
+			id: LEGACY_MAINTENANCE_PLAN_ID,
+			task: 'Scheduled service',
+			intervalDays,
+			lastServiceDate,
+			nextServiceDate:
+				eq.nextServiceDate?.trim() ||
+				(lastServiceDate
+					? addServiceInterval(lastServiceDate, intervalDays)
+					: undefined)
+		}
+	];
+}
+
+/**
+ * Trims tasks and recomputes every plan's due point:
+ * - calendar: last service + intervalDays (never serviced = the asset's
+ *   last service date)
+ * - meter: last service reading + meterInterval, forecast to a date from
+ *   the meter's usage rate (never serviced = the current reading)
+ * nextServiceDate is whichever of the two comes first.
+ */
+export function normalizeMaintenancePlans(
+	plans: MaintenancePlan[],
+	context: { fallbackLastServiceDate?: string; meters?: EquipmentMeter[] } = {}
+): MaintenancePlan[] {
+	return plans.map((plan) => {
+		const normalized: MaintenancePlan = {
+			id: plan.id,
+			task: plan.task.trim()
+		};
+
+		const lastServiceDate =
+			plan.lastServiceDate?.trim() ||
+			context.fallbackLastServiceDate?.trim() ||
+			undefined;
+
+		let calendarDate: string | undefined;
+		if (plan.intervalDays) {
+			normalized.intervalDays = plan.intervalDays;
+			if (lastServiceDate) {
+				calendarDate = addServiceInterval(lastServiceDate, plan.intervalDays);
+			}
+		}
+
+		// plans pointing at a removed meter fall back to the calendar
+		const meter = context.meters?.find((m) => m.id === plan.meterId);
+		let meterDate: string | undefined;
+		if (meter && plan.meterInterval) {
+			const lastServiceReading = plan.lastServiceReading ?? meter.reading ?? 0;
+			const nextServiceReading = lastServiceReading + plan.meterInterval;
+
+			normalized.meterId = meter.id;
+			normalized.meterInterval = plan.meterInterval;
+			normalized.lastServiceReading = lastServiceReading;
+			normalized.nextServiceReading = nextServiceReading;
+			meterDate = forecastMeterDate(meter, nextServiceReading);
+		}
+
+		// Firestore rejects undefined inside arrays
+		if (lastServiceDate) normalized.lastServiceDate = lastServiceDate;
+
+		const nextServiceDate = earlierDate(calendarDate, meterDate);
+		if (nextServiceDate) normalized.nextServiceDate = nextServiceDate;
+
+		return normalized;
+	});
+}
+
+// the form doesn't carry meter baselines; a plan still counting the same
+// meter keeps the reading it was last serviced at
+export function withStoredPlanReadings(
+	plans: MaintenancePlan[],
+	stored: MaintenancePlan[]
+): MaintenancePlan[] {
+	return plans.map((plan) => {
+		const previous = stored.find((p) => p.id === plan.id);
+		if (
+			plan.lastServiceReading !== undefined ||
+			!plan.meterId ||
+			previous?.meterId !== plan.meterId ||
+			previous.lastServiceReading === undefined
+		) {
+			return plan;
+		}
+		return { ...plan, lastServiceReading: previous.lastServiceReading };
+	});
+}
+
+// the plan that comes due first; plans without a date sort last
+export function getEarliestDuePlan(
+	plans: MaintenancePlan[]
+): MaintenancePlan | undefined {
+	return plans
+		.filter((p) => Boolean(p.nextServiceDate))
+		.sort((a, b) =>
+			(a.nextServiceDate as string).localeCompare(b.nextServiceDate as string)
+		)[0];
+}
+
+export function getNextServiceDate(eq: PlanSource): string | undefined {
+	return getEarliestDuePlan(resolveMaintenancePlans(eq))?.nextServiceDate;
+}
+
+// "every 30d", "every 250 h", "every 90d or 250 h"
+export function describePlanTrigger(
+	plan: MaintenancePlan,
+	meters: EquipmentMeter[] = []
+) {
+	const parts: string[] = [];
+	if (plan.intervalDays) parts.push(`${plan.intervalDays}d`);
+
+	if (plan.meterId && plan.meterInterval) {
+		const meter = meters.find((m) => m.id === plan.meterId);
+		parts.push(
+			`${plan.meterInterval} ${meter ? METER_UNIT_LABEL[meter.unit] : 'units'}`
+		);
+	}
+
+	return parts.length > 0 ? `every ${parts.join(' or ')}` : 'no trigger';
+}
+
+export function describeMaintenancePlans(
+	plans: MaintenancePlan[],
+	meters: EquipmentMeter[] = []
+) {
+	return plans
+		.map((p) => `${p.task} (${describePlanTrigger(p, meters)})`)
+		.join(', ');
+}
@@ -0,0 +1,129 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+import type {
+	EquipmentMeter,
+	MeterReadingPoint,
+	MeterUnit
+} from '@/types/meters';
+
+export const METER_UNIT_LABEL: Record<MeterUnit, string> = {
+	hours: 'h',
+	cycles: 'cycles',
+	km: 'km'
+};
+
+// readings kept on the asset for rates and forecasts
+export const RECENT_METER_READINGS = 10;
+
+export function createMeterId() {
+	return Math.random().toString(36).slice(2, 10);
+}
+
+export function formatMeterValue(value: number, unit: MeterUnit) {
+	return `${value.toLocaleString('en-US')} ${METER_UNIT_LABEL[unit]}`;
+}
+
+/**
+ * Adds a reading to the meter's recent window (kept sorted by date) and
+ * moves the latest reading forward when the new one is the newest.
+ */
+export function withMeterReading(
+	meter: EquipmentMeter,
+	point: MeterReadingPoint
+): EquipmentMeter {
+	const recentReadings = [...(meter.recentReadings ?? []), point]
+		.sort((a, b) => a.date.localeCompare(b.date) || a.value - b.value)
+		.slice(-RECENT_METER_READINGS);
+
+	const latest = recentReadings[recentReadings.length - 1];
+	const isNewest = !meter.readingDate || latest.date >= meter.readingDate;
+
+	return {
+		...meter,
+		recentReadings,
+		...(isNewest ? { reading: latest.value, readingDate: latest.date } : {})
+	};
+}
+
+/**
+ * Units per day across the recent window, or undefined when there isn't
+ * enough history (fewer than two readings on different days).
+ */
+export function getMeterUsageRate(meter: EquipmentMeter): number | undefined {
+	const readings = meter.recentReadings ?? [];
+	if (readings.length < 2) return undefined;
+
+	const first = readings[0];
+	const last = readings[readings.length - 1];
+	const days = differenceInCalendarDays(
+		parseISO(last.date),
+		parseISO(first.date)
+	);
+	if (days <= 0) return undefined;
+
+	const rate = (last.value - first.value) / days;
+	return rate > 0 ? rate : undefined;
+}
+
+/**
+ * Date the meter reaches `threshold`: interpolated between readings when
+ * it already has, forecast from the usage rate when it hasn't.
+ */
+export function forecastMeterDate(
+	meter: EquipmentMeter,
+	threshold: number
+): string | undefined {
+	if (typeof meter.reading !== 'number' || !meter.readingDate) {
+		return undefined;
+	}
+
+	if (meter.reading >= threshold) {
+		const readings = meter.recentReadings ?? [];
+		const index = readings.findIndex((r) => r.value >= threshold);
+		if (index <= 0) return readings[0]?.date ?? meter.readingDate;
+
+		const before = readings[index - 1];
+		const after = readings[index];
+		const days = differenceInCalendarDays(
+			parseISO(after.date),
+			parseISO(before.date)
+		);
+		const share = (threshold - before.value) / (after.value - before.value);
+
+		return format(
+			addDays(parseISO(before.date), Math.round(days * share)),
+			'yyyy-MM-dd'
+		);
+	}
+
+	const rate = getMeterUsageRate(meter);
+	if (!rate) return undefined;
+
+	const days = Math.ceil((threshold - meter.reading) / rate);
+	return format(addDays(parseISO(meter.readingDate), days), 'yyyy-MM-dd');
+}
+
+// what the asset form edits; readings are only written by addMeterReading
+export function toMeterDefinitions(meters: EquipmentMeter[]): EquipmentMeter[] {
+	return meters
+		.filter((m) => m.name.trim())
+		.map((m) => ({ id: m.id, name: m.name.trim(), unit: m.unit }));
+}
+
+// edited meter definitions keep the readings already logged against them
+export function mergeMeterReadings(
+	meters: EquipmentMeter[],
+	stored: EquipmentMeter[] = []
+): EquipmentMeter[] {
+	return toMeterDefinitions(meters).map((meter) => {
+		const previous = stored.find((m) => m.id === meter.id);
+		if (typeof previous?.reading !== 'number') return meter;
+
+		return {
+			...meter,
+			reading: previous.reading,
+			readingDate: previous.readingDate,
+			recentReadings: previous.recentReadings ?? []
+		};
+	});
+}
@@ -0,0 +1,11 @@
+// "$1,234.50"; unknown currency codes fall back to "1234.50 XYZ"
+export function formatMoney(amount: number, currency: string) {
+	try {
+		return new Intl.NumberFormat('en-US', {
+			style: 'currency',
+			currency
+		}).format(amount);
+	} catch {
+		return `${amount.toFixed(2)} ${currency}`;
+	}
+}
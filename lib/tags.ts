@@ -0,0 +1,47 @@
+import type { Equipment } from '@/types/equipment';
+
+export const MAX_TAG_LENGTH = 40;
+
+// tags são comparados sem caixa e espaços extras: "Cold  Chain" = "cold chain"
+export function normalizeTag(value: string) {
+	return value
+		.trim()
+		.toLowerCase()
+		.replace(/\s+/g, ' ')
+		.slice(0, MAX_TAG_LENGTH);
+}
+
+/** Normalized, without blanks or duplicates, in the order given. */
+export function normalizeTags(values: string[] = []) {
+	return Array.from(new Set(values.map(normalizeTag).filter(Boolean)));
+}
+
+export function applyTagChanges(
+	tags: string[] = [],
+	changes: { add?: string[]; remove?: string[] }
+) {
+	const removed = new Set(normalizeTags(changes.remove));
+	return normalizeTags([...tags, ...(changes.add ?? [])]).filter(
+		(t) => !removed.has(t)
+	);
+}
+
+export interface TagCount {
+	tag: string;
+	count: number;
+}
+
+// usados em autocomplete e filtros: mais frequentes primeiro
+export function countTags(assets: Pick<Equipment, 'tags'>[]): TagCount[] {
+	const counts = new Map<string, number>();
+	for (const asset of assets) {
+		for (const tag of normalizeTags(asset.tags)) {
+			counts.set(tag, (counts.get(tag) ?? 0) + 1);
+		}
+	}
+	return sortTagCounts(Array.from(counts, ([tag, count]) => ({ tag, count })));
+}
+
+export function sortTagCounts(counts: TagCount[]): TagCount[] {
+	return counts.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,73 @@
+import admin from 'firebase-admin';
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+
+const serviceAccount = require('../serviceAccountKey.json');
+
+admin.initializeApp({
+	credential: admin.credential.cert(serviceAccount)
+});
+
+const db = admin.firestore();
+const FieldValue = admin.firestore.FieldValue;
+
+// Mesma regra de data-access/equipments (normalizeSerialNumber)
+function normalizeSerialNumber(serial) {
+	return String(serial ?? '')
+		.trim()
+		.toUpperCase()
+		.replace(/[\s-]+/g, '');
+}
+
+async function run() {
+	const snapshot = await db.collection('equipments').get();
+	console.log(`Checking ${snapshot.size} equipments...`);
+
+	// normalized serial -> ativos que usam
+	const holders = new Map();
+
+	for (const d of snapshot.docs) {
+		const data = d.data();
+		const normalized = normalizeSerialNumber(data.serialNumber);
+
+		await d.ref.update({ serialNumberNormalized: normalized || null });
+
+		if (!normalized || data.archivedAt) continue;
+
+		const list = holders.get(normalized) ?? [];
+		list.push({ id: d.id, serialNumber: String(data.serialNumber).trim() });
+		holders.set(normalized, list);
+	}
+
+	let reserved = 0;
+	let duplicates = 0;
+
+	for (const [normalized, list] of holders) {
+		// duplicados antigos precisam de revisão manual (arquivar ou corrigir)
+		if (list.length > 1) {
+			duplicates += 1;
+			console.log(
+				`DUPLICATE ${normalized}: ${list.map((e) => e.id).join(', ')}`
+			);
+			continue;
+		}
+
+		await db
+			.collection('serialNumbers')
+			.doc(encodeURIComponent(normalized))
+			.set({
+				equipmentId: list[0].id,
+				serialNumber: list[0].serialNumber,
+				reservedAt: FieldValue.serverTimestamp()
+			});
+		reserved += 1;
+	}
+
+	console.log(`Done. Reserved ${reserved} serials, ${duplicates} duplicates.`);
+}
+
+run().catch((err) => {
+	console.error('Backfill failed:', err);
+	process.exit(1);
+});
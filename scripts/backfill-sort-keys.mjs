@@ -0,0 +1,114 @@
+import admin from 'firebase-admin';
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+
+const serviceAccount = require('../serviceAccountKey.json');
+
+admin.initializeApp({
+	credential: admin.credential.cert(serviceAccount)
+});
+
+const db = admin.firestore();
+
+// Mesmas regras de data-access/equipments (buildSortKeys)
+const NO_NEXT_SERVICE_SORT_KEY = '9999-12-31';
+const SEARCH_KEYWORD_MAX_LENGTH = 20;
+
+// opsRank de lib/equipment-status.ts
+const STATUS_OPS_RANK = {
+	maintenance: 0,
+	awaiting_parts: 0,
+	inactive: 1,
+	active: 2,
+	retired: 3
+};
+
+function statusPriority(status) {
+	return STATUS_OPS_RANK[status] ?? 99;
+}
+
+function buildSearchKeywords(name, serialNumber) {
+	const keywords = new Set();
+	const words = `${name ?? ''} ${serialNumber ?? ''}`
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean);
+
+	for (const word of words) {
+		const max = Math.min(word.length, SEARCH_KEYWORD_MAX_LENGTH);
+		for (let i = 1; i <= max; i += 1) keywords.add(word.slice(0, i));
+	}
+
+	return Array.from(keywords);
+}
+
+function computeNextServiceDate(lastServiceDate, intervalDays) {
+	const base = new Date(`${lastServiceDate}T00:00:00`);
+	base.setDate(base.getDate() + intervalDays);
+	return base.toISOString().slice(0, 10);
+}
+
+// same default as lib/maintenance-plans.ts
+const DEFAULT_SERVICE_INTERVAL_DAYS = 180;
+
+// earliest plan due; assets from before plans use their single interval
+function nextServiceDate(data) {
+	const planDates = (data.maintenancePlans ?? [])
+		.map((p) => p.nextServiceDate)
+		.filter(Boolean)
+		.sort();
+	if (planDates.length > 0) return planDates[0];
+
+	return (
+		(typeof data.nextServiceDate === 'string' && data.nextServiceDate.trim()) ||
+		(data.lastServiceDate
+			? computeNextServiceDate(
+					data.lastServiceDate,
+					data.serviceIntervalDays ?? DEFAULT_SERVICE_INTERVAL_DAYS
+				)
+			: '')
+	);
+}
+
+function sortKeys(data) {
+	const next = nextServiceDate(data);
+
+	return {
+		isArchived: Boolean(data.archivedAt),
+		statusRank: statusPriority(data.status),
+		nextServiceSortKey: next || NO_NEXT_SERVICE_SORT_KEY,
+		searchKeywords: buildSearchKeywords(data.name, data.serialNumber)
+	};
+}
+
+async function run() {
+	const snapshot = await db.collection('equipments').get();
+	console.log(`Backfilling sort keys for ${snapshot.size} equipments...`);
+
+	// writeBatch aceita até 500 operações
+	let batch = db.batch();
+	let pending = 0;
+
+	for (const d of snapshot.docs) {
+		batch.update(d.ref, sortKeys(d.data()));
+		pending += 1;
+
+		if (pending === 500) {
+			await batch.commit();
+			batch = db.batch();
+			pending = 0;
+		}
+	}
+
+	if (pending > 0) await batch.commit();
+
+	console.log('Done.');
+}
+
+run().catch((err) => {
+	console.error('Backfill failed:', err);
+	process.exit(1);
+});
@@ -0,0 +1,52 @@
+import admin from 'firebase-admin';
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+
+const serviceAccount = require('../serviceAccountKey.json');
+
+admin.initializeApp({
+	credential: admin.credential.cert(serviceAccount)
+});
+
+const db = admin.firestore();
+
+// Mesma regra de lib/tags (normalizeTag)
+const MAX_TAG_LENGTH = 40;
+
+function normalizeTags(values = []) {
+	const tags = values.map((value) =>
+		String(value)
+			.trim()
+			.toLowerCase()
+			.replace(/\s+/g, ' ')
+			.slice(0, MAX_TAG_LENGTH)
+	);
+	return Array.from(new Set(tags.filter(Boolean)));
+}
+
+async function run() {
+	const snapshot = await db.collection('equipments').get();
+	console.log(`Counting tags of ${snapshot.size} equipments...`);
+
+	// só ativos contam (ver countedTags em data-access/equipments)
+	const counts = {};
+	for (const d of snapshot.docs) {
+		const data = d.data();
+		if (data.archivedAt) continue;
+
+		for (const tag of normalizeTags(data.tags)) {
+			counts[tag] = (counts[tag] ?? 0) + 1;
+		}
+	}
+
+	// substitui o doc inteiro: recontagem do zero
+	await db.collection('equipmentStats').doc('tagCounts').set({ counts });
+
+	console.log(`Done. ${Object.keys(counts).length} tags.`);
+}
+
+run().catch((err) => {
+	console.error('Backfill failed:', err);
+	process.exit(1);
+});
@@ -16,21 +16,80 @@ const FieldValue = admin.firestore.FieldValue;
 // Hoje “fixo” para o seed (pra bater com seus dashboards e ficar previsível)
 const TODAY = '2026-01-22';
 
+// Mesmas regras de data-access/equipments (buildSortKeys), como em
+// scripts/backfill-sort-keys.mjs
+const NO_NEXT_SERVICE_SORT_KEY = '9999-12-31';
+const SEARCH_KEYWORD_MAX_LENGTH = 20;
+
+// opsRank de lib/equipment-status.ts
+const STATUS_OPS_RANK = {
+	maintenance: 0,
+	awaiting_parts: 0,
+	inactive: 1,
+	active: 2,
+	retired: 3
+};
+
+function statusPriority(status) {
+	return STATUS_OPS_RANK[status] ?? 99;
+}
+
+function buildSearchKeywords(name, serialNumber) {
+	const keywords = new Set();
+	const words = `${name ?? ''} ${serialNumber ?? ''}`
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean);
+
+	for (const word of words) {
+		const max = Math.min(word.length, SEARCH_KEYWORD_MAX_LENGTH);
+		for (let i = 1; i <= max; i += 1) keywords.add(word.slice(0, i));
+	}
+
+	return Array.from(keywords);
+}
+
+// mesma regra de data-access/equipments (normalizeSerialNumber)
+function normalizeSerialNumber(serial) {
+	return serial
+		.trim()
+		.toUpperCase()
+		.replace(/[\s-]+/g, '');
+}
+
 // helper para padronizar payload
 function equipmentPayload(e) {
 	return {
 		name: e.name,
 		serialNumber: e.serialNumber,
+		serialNumberNormalized: normalizeSerialNumber(e.serialNumber),
 		status: e.status,
 
 		purchaseDate: e.purchaseDate,
 		lastServiceDate: e.lastServiceDate,
 		nextServiceDate: e.nextServiceDate,
-		serviceIntervalDays: e.serviceIntervalDays ?? 180,
+		maintenancePlans: [
+			{
+				id: 'default',
+				task: 'Scheduled service',
+				// same default as lib/maintenance-plans.ts
+				intervalDays: e.serviceIntervalDays ?? 180,
+				lastServiceDate: e.lastServiceDate,
+				nextServiceDate: e.nextServiceDate
+			}
+		],
 
 		location: e.location,
 		owner: e.owner,
 
+		// stored query keys (see scripts/backfill-sort-keys.mjs)
+		isArchived: false,
+		statusRank: statusPriority(e.status),
+		nextServiceSortKey: e.nextServiceDate || NO_NEXT_SERVICE_SORT_KEY,
+		searchKeywords: buildSearchKeywords(e.name, e.serialNumber),
+
 		// audit
 		createdBy: 'seed',
 		createdByEmail: 'seed@local',
@@ -227,7 +286,17 @@ async function run() {
 			continue;
 		}
 
-		await col.add(equipmentPayload(e));
+		const ref = await col.add(equipmentPayload(e));
+
+		await db
+			.collection('serialNumbers')
+			.doc(encodeURIComponent(normalizeSerialNumber(e.serialNumber)))
+			.set({
+				equipmentId: ref.id,
+				serialNumber: e.serialNumber,
+				reservedAt: FieldValue.serverTimestamp()
+			});
+
 		created += 1;
 		console.log(`CREATED: ${e.serialNumber}`);
 	}
@@ -0,0 +1,43 @@
+import type { FieldValue, Timestamp } from 'firebase/firestore';
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'boolean';
+
+// one field of a category's schema; values live on the asset under
+// customFields[key]
+export interface CustomFieldDefinition {
+	key: string; // stable once saved, e.g. "plate_number"
+	label: string;
+	type: CustomFieldType;
+	required?: boolean;
+
+	options?: string[]; // select
+	min?: number; // number
+	max?: number; // number
+	maxLength?: number; // text
+	pattern?: string; // text, regular expression
+}
+
+export type CustomFieldValue = string | number | boolean;
+
+export interface AssetCategory {
+	id: string;
+
+	name: string;
+	description?: string;
+	fields: CustomFieldDefinition[];
+
+	isArchived?: boolean;
+
+	createdBy: string;
+	createdByEmail: string | null;
+	createdAt?: Timestamp | FieldValue;
+
+	updatedBy: string;
+	updatedByEmail: string | null;
+	updatedAt?: Timestamp | FieldValue;
+}
+
+export type AssetCategoryInput = Pick<
+	AssetCategory,
+	'name' | 'description' | 'fields'
+>;
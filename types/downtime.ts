@@ -0,0 +1,48 @@
+import type { FieldValue, Timestamp } from 'firebase/firestore';
+import type { EquipmentStatus } from '@/types/equipment';
+
+export type DowntimeReasonCode =
+	| 'breakdown'
+	| 'awaiting_parts'
+	| 'planned_maintenance'
+	| 'inspection'
+	| 'no_demand'
+	| 'other';
+
+export interface StatusChangeReason {
+	code?: DowntimeReasonCode;
+	note?: string;
+}
+
+// equipments/{id}/statusPeriods/{auto}: one row per stretch of time the
+// asset spent in a status. The open period has no endedAt.
+export interface StatusPeriod {
+	id: string;
+
+	status: EquipmentStatus;
+	// ISO keys for ordering; written from the browser clock. Reads replace
+	// them with the server times below when those are set.
+	startedAt: string; // ISO timestamp
+	endedAt?: string; // ISO timestamp
+	startedAtServer?: Timestamp | FieldValue;
+	endedAtServer?: Timestamp | FieldValue;
+	// "yyyy-MM-dd" of endedAt, "9999-12-31" while open (range queries)
+	endKey: string;
+
+	reasonCode?: DowntimeReasonCode;
+	reasonNote?: string;
+
+	// start wasn't recorded (asset predates the ledger); taken from the
+	// asset's last update
+	inferred?: boolean;
+
+	startedBy: string;
+	startedByEmail: string | null;
+	endedBy?: string;
+	endedByEmail?: string | null;
+
+	createdAt?: Timestamp | FieldValue;
+}
+
+// collection group reads (analytics) need to know the parent asset
+export type StatusPeriodWithAsset = StatusPeriod & { equipmentId: string };
@@ -1,6 +1,29 @@
 import type { Timestamp, FieldValue } from 'firebase/firestore';
+import type { EquipmentMeter } from '@/types/meters';
+import type { EquipmentStatusId } from '@/lib/equipment-status';
+import type { CustomFieldValue } from '@/types/categories';
 
-export type EquipmentStatus = 'active' | 'inactive' | 'maintenance';
+// statuses and their rules live in lib/equipment-status.ts
+export type EquipmentStatus = EquipmentStatusId;
+
+// one recurring schedule, e.g. monthly lubrication or "every 250 hours".
+// A plan triggers by calendar, by meter, or by whichever comes first.
+export interface MaintenancePlan {
+	id: string; // stable within the asset
+	task: string;
+
+	intervalDays?: number; // calendar trigger
+
+	meterId?: string; // usage trigger: every `meterInterval` units
+	meterInterval?: number;
+
+	lastServiceDate?: string; // "yyyy-MM-dd"
+	lastServiceReading?: number;
+
+	nextServiceReading?: number; // lastServiceReading + meterInterval
+	// earliest of the calendar date and the meter forecast
+	nextServiceDate?: string;
+}
 
 export interface Equipment {
 	id: string;
@@ -13,12 +36,29 @@ export interface Equipment {
 
 	purchaseDate: string; // "yyyy-MM-dd"
 	lastServiceDate: string; // "yyyy-MM-dd"
-	nextServiceDate?: string; // "yyyy-MM-dd"
+	nextServiceDate?: string; // "yyyy-MM-dd", earliest plan due
+
+	maintenancePlans?: MaintenancePlan[];
+	meters?: EquipmentMeter[];
 
+	// legacy single schedule; read through resolveMaintenancePlans
 	serviceIntervalDays?: number;
 
 	owner?: string;
+	// label of the linked location (its path), or legacy free text
 	location?: string;
+	locationId?: string;
+
+	// optional parent in the asset hierarchy (line > machine > component);
+	// '' or missing = top level
+	parentId?: string;
+
+	// category and the values of its custom fields, by field key
+	categoryId?: string;
+	customFields?: Record<string, CustomFieldValue>;
+
+	// free-form labels, normalized by lib/tags (lowercase, trimmed)
+	tags?: string[];
 
 	createdAt?: Timestamp | FieldValue;
 	updatedAt?: Timestamp | FieldValue;
@@ -32,6 +72,19 @@ export interface Equipment {
 	archivedAt?: Timestamp | FieldValue | null;
 	archivedBy: string | null;
 	archivedByEmail: string | null;
+
+	// bumped on every write; used for optimistic concurrency
+	revision?: number;
+
+	// stored query keys (written by data-access, never edited by hand)
+	isArchived?: boolean;
+	statusRank?: number;
+	nextServiceSortKey?: string; // "yyyy-MM-dd" | "9999-12-31"
+	searchKeywords?: string[];
+
+	// open row of the statusPeriods ledger and when it started (ISO)
+	currentStatusPeriodId?: string;
+	statusChangedAt?: string;
 }
 
 export type EquipmentInput = {
@@ -41,10 +94,25 @@ export type EquipmentInput = {
 
 	purchaseDate: string;
 	lastServiceDate: string;
-	nextServiceDate?: string;
 
-	serviceIntervalDays?: number;
+	maintenancePlans: MaintenancePlan[];
+	// definitions only; readings are written by addMeterReading
+	meters: EquipmentMeter[];
 
 	owner?: string;
 	location?: string;
+	locationId?: string;
+
+	parentId?: string;
+
+	categoryId?: string;
+	customFields?: Record<string, CustomFieldValue>;
+
+	tags?: string[];
 };
+
+export interface EquipmentFieldChange {
+	field: keyof EquipmentInput;
+	from: unknown;
+	to: unknown;
+}
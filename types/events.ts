@@ -3,9 +3,17 @@ import type { FieldValue, Timestamp } from 'firebase/firestore';
 export type EquipmentEventType =
 	| 'equipment.created'
 	| 'equipment.updated'
+	| 'equipment.status_changed'
 	| 'equipment.archived'
 	| 'equipment.unarchived'
-	| 'maintenance.added';
+	| 'equipment.rolled_back'
+	| 'equipment.transferred'
+	| 'maintenance.added'
+	| 'maintenance.updated'
+	| 'maintenance.voided'
+	| 'meter.reading_added'
+	| 'work_order.created'
+	| 'work_order.status_changed';
 
 export interface EquipmentEvent {
 	id: string;
@@ -0,0 +1,33 @@
+import type { FieldValue, Timestamp } from 'firebase/firestore';
+
+// site > building > area
+export type LocationKind = 'site' | 'building' | 'area';
+
+export interface Location {
+	id: string;
+
+	name: string;
+	kind: LocationKind;
+	// building: its site; area: its building; site: none
+	parentId?: string;
+	// "Tampa DC / Building A / Dock 3", kept in sync on rename
+	path: string;
+
+	address?: string;
+	timezone?: string; // IANA, e.g. "America/New_York"
+
+	isArchived?: boolean;
+
+	createdBy: string;
+	createdByEmail: string | null;
+	createdAt?: Timestamp | FieldValue;
+
+	updatedBy: string;
+	updatedByEmail: string | null;
+	updatedAt?: Timestamp | FieldValue;
+}
+
+export type LocationInput = Pick<
+	Location,
+	'name' | 'kind' | 'parentId' | 'address' | 'timezone'
+>;
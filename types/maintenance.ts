@@ -2,6 +2,12 @@ import type { Timestamp, FieldValue } from 'firebase/firestore';
 
 export type MaintenanceType = 'preventive' | 'corrective';
 
+export interface MaintenancePart {
+	name: string;
+	quantity: number;
+	unitCost: number;
+}
+
 export interface MaintenanceRecord {
 	id: string;
 
@@ -9,7 +15,65 @@ export interface MaintenanceRecord {
 	type: MaintenanceType;
 	notes?: string;
 
+	laborHours?: number;
+	laborCost?: number;
+	technician?: string;
+	vendor?: string;
+	parts?: MaintenancePart[];
+
+	// laborCost + sum(quantity * unitCost), derived on write
+	totalCost?: number;
+	currency?: string; // ISO 4217, e.g. "USD"
+
+	// maintenance plans this service satisfies; records logged before
+	// plans existed have none and count towards the legacy plan
+	planIds?: string[];
+
+	// set when the record was created by completing a work order
+	workOrderId?: string;
+
+	// asset's lastServiceDate before this record was logged
+	previousLastServiceDate?: string;
+	// same, per satisfied plan
+	previousPlanServiceDates?: Record<string, string>;
+
+	// meter readings of the satisfied meter-triggered plans at this
+	// service, and what they were reset from
+	planServiceReadings?: Record<string, number>;
+	previousPlanServiceReadings?: Record<string, number>;
+
 	createdBy: string;
 	createdByEmail: string | null;
 	createdAt?: Timestamp | FieldValue;
+
+	updatedBy?: string;
+	updatedByEmail?: string | null;
+	updatedAt?: Timestamp | FieldValue;
+	updateReason?: string;
+
+	// voided records stay in history but no longer count as a service
+	voided?: boolean;
+	voidedBy?: string;
+	voidedByEmail?: string | null;
+	voidedAt?: Timestamp | FieldValue;
+	voidReason?: string;
 }
+
+export type MaintenanceRecordInput = Pick<
+	MaintenanceRecord,
+	| 'date'
+	| 'type'
+	| 'notes'
+	| 'laborHours'
+	| 'laborCost'
+	| 'technician'
+	| 'vendor'
+	| 'parts'
+	| 'currency'
+	| 'planIds'
+>;
+
+// collection group reads (analytics) need to know the parent asset
+export type MaintenanceRecordWithAsset = MaintenanceRecord & {
+	equipmentId: string;
+};
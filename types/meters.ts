@@ -0,0 +1,42 @@
+import type { FieldValue, Timestamp } from 'firebase/firestore';
+
+export type MeterUnit = 'hours' | 'cycles' | 'km';
+
+export interface MeterReadingPoint {
+	date: string; // yyyy-MM-dd
+	value: number;
+}
+
+// a usage counter on an asset, e.g. engine hours
+export interface EquipmentMeter {
+	id: string; // stable within the asset
+	name: string;
+	unit: MeterUnit;
+
+	// latest reading, kept in sync by addMeterReading
+	reading?: number;
+	readingDate?: string; // yyyy-MM-dd
+
+	// last few readings (oldest first) for the usage rate and forecasts;
+	// the full log lives in the meterReadings subcollection
+	recentReadings?: MeterReadingPoint[];
+}
+
+// equipments/{id}/meterReadings/{auto}
+export interface MeterReading {
+	id: string;
+
+	meterId: string;
+	date: string; // yyyy-MM-dd
+	value: number;
+	notes?: string;
+
+	createdBy: string;
+	createdByEmail: string | null;
+	createdAt?: Timestamp | FieldValue;
+}
+
+export type MeterReadingInput = Pick<
+	MeterReading,
+	'meterId' | 'date' | 'value' | 'notes'
+>;
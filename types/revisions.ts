@@ -0,0 +1,29 @@
+import type { FieldValue, Timestamp } from 'firebase/firestore';
+import type { Equipment } from '@/types/equipment';
+import type { EquipmentEventType } from '@/types/events';
+
+// asset state as stored, minus the derived query keys
+export type EquipmentRevisionSnapshot = Omit<
+	Equipment,
+	| 'id'
+	| 'serialNumberNormalized'
+	| 'statusRank'
+	| 'nextServiceSortKey'
+	| 'searchKeywords'
+>;
+
+export interface EquipmentRevision {
+	id: string; // = String(revision)
+
+	equipmentId: string;
+	revision: number;
+
+	// the write that produced this revision
+	reason: EquipmentEventType;
+	snapshot: EquipmentRevisionSnapshot;
+
+	actorId: string;
+	actorEmail: string | null;
+
+	createdAt?: Timestamp | FieldValue;
+}
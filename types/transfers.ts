@@ -0,0 +1,38 @@
+// Transfers are recorded as `equipment.transferred` events; this is the
+// shape of their metadata plus the event fields the custody views need.
+export interface EquipmentTransferDetails {
+	fromLocationId?: string;
+	fromLocation?: string;
+	toLocationId?: string;
+	toLocation?: string;
+
+	fromOwner?: string;
+	toOwner?: string;
+
+	effectiveDate: string; // "yyyy-MM-dd"
+	requestedBy: string;
+	approvedBy: string;
+	notes?: string;
+}
+
+export interface EquipmentTransfer extends EquipmentTransferDetails {
+	id: string; // event id
+	equipmentId: string;
+	equipmentName?: string;
+
+	actorId: string;
+	actorEmail: string | null;
+	recordedAt?: string; // ISO, when the event was written
+}
+
+export interface EquipmentTransferInput {
+	// '' = no location; the current one is kept when both are unchanged.
+	// Left undefined (bulk transfers), each asset keeps its own.
+	toLocationId?: string;
+	toOwner?: string;
+
+	effectiveDate: string;
+	requestedBy: string;
+	approvedBy: string;
+	notes?: string;
+}
@@ -6,6 +6,8 @@ export interface UserProfile {
 	uid: string;
 	email: string;
 	role: UserRole;
+	// equipments table view opened by default (built-in key or view id)
+	defaultEquipmentsView?: string;
 	createdAt?: Timestamp | FieldValue;
 	updatedAt?: Timestamp | FieldValue;
 }
@@ -1,8 +1,16 @@
 import type { EquipmentsSort } from '@/data-access/equipments';
 import type { Equipment } from '@/types/equipment';
+import type { CustomFieldFilter } from '@/lib/custom-fields';
+import type { FieldValue, Timestamp } from 'firebase/firestore';
 
 export type StatusFilterValue = 'all' | Equipment['status'];
-export type MaintenanceWindowValue = 'all' | 'due_30' | 'overdue';
+export type MaintenanceWindowValue =
+	| 'all'
+	| 'due_7'
+	| 'due_30'
+	| 'overdue'
+	// overdue or due within 30 days
+	| 'attention';
 
 export type EquipmentsSavedViewKey =
 	| 'operational'
@@ -19,3 +27,51 @@ export interface EquipmentsSavedView {
 
 	maintenanceWindow?: MaintenanceWindowValue;
 }
+
+/* ---------------------------------------
+   User views (Firestore)
+---------------------------------------- */
+
+// everything a view restores on the equipments table
+export interface EquipmentsViewState {
+	sort: EquipmentsSort;
+	includeArchived: boolean;
+	archivedOnly?: boolean;
+	status: StatusFilterValue;
+	search: string;
+	maintenanceWindow: MaintenanceWindowValue;
+	categoryId?: string;
+	customFieldFilter?: CustomFieldFilter | null;
+	tag?: string;
+	// the location and everything under it
+	locationId?: string;
+	// column overrides (ids): hidden default columns, shown optional ones
+	// and the display order; missing = the table's defaults
+	hiddenColumns?: string[];
+	shownColumns?: string[];
+	columnOrder?: string[];
+}
+
+// personal: only the owner sees it; shared: everyone (admins publish)
+export type SavedViewVisibility = 'personal' | 'shared';
+
+export interface EquipmentsUserView {
+	id: string;
+
+	name: string;
+	visibility: SavedViewVisibility;
+	state: EquipmentsViewState;
+
+	ownerId: string;
+	ownerEmail: string | null;
+	createdAt?: Timestamp | FieldValue;
+
+	updatedBy: string;
+	updatedByEmail: string | null;
+	updatedAt?: Timestamp | FieldValue;
+}
+
+export type EquipmentsUserViewInput = Pick<
+	EquipmentsUserView,
+	'name' | 'visibility' | 'state'
+>;
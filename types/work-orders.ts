@@ -0,0 +1,67 @@
+import type { FieldValue, Timestamp } from 'firebase/firestore';
+import type { MaintenanceType } from '@/types/maintenance';
+
+export type WorkOrderStatus =
+	| 'open'
+	| 'scheduled'
+	| 'in_progress'
+	| 'on_hold'
+	| 'completed'
+	| 'cancelled';
+
+export type WorkOrderPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+// manual = created by a user; auto = generated from the 30-day window
+export type WorkOrderSource = 'manual' | 'auto';
+
+export interface WorkOrder {
+	id: string;
+
+	equipmentId: string;
+	equipmentName: string; // denormalized for lists
+
+	title: string;
+	description?: string;
+	type: MaintenanceType;
+
+	status: WorkOrderStatus;
+	priority: WorkOrderPriority;
+	source: WorkOrderSource;
+
+	// maintenance plan this order services (preventive orders)
+	planId?: string;
+
+	assignee?: string;
+	dueDate: string; // yyyy-MM-dd
+	scheduledDate?: string; // yyyy-MM-dd
+
+	// set on completion
+	maintenanceRecordId?: string;
+	completedAt?: Timestamp | FieldValue;
+	completedBy?: string;
+	completedByEmail?: string | null;
+
+	// last hold/cancel reason
+	statusReason?: string;
+
+	createdBy: string;
+	createdByEmail: string | null;
+	createdAt?: Timestamp | FieldValue;
+
+	updatedBy: string;
+	updatedByEmail: string | null;
+	updatedAt?: Timestamp | FieldValue;
+}
+
+export type WorkOrderInput = Pick<
+	WorkOrder,
+	| 'equipmentId'
+	| 'title'
+	| 'description'
+	| 'type'
+	| 'planId'
+	| 'priority'
+	| 'assignee'
+	| 'dueDate'
+	| 'scheduledDate'
+>;